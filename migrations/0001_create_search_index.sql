@@ -0,0 +1,32 @@
+-- Search index over the metadata sidecars, maintained by the worker whenever
+-- it writes or deletes a sidecar. Apply with:
+--   wrangler d1 migrations apply r2-metadata-search --remote
+
+CREATE TABLE IF NOT EXISTS search_documents (
+	key TEXT PRIMARY KEY,
+	type TEXT NOT NULL,
+	title TEXT,
+	snippet TEXT NOT NULL,
+	-- JSON array, returned as-is with search hits
+	tags TEXT NOT NULL DEFAULT '[]',
+	updated_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS search_documents_type ON search_documents (type);
+
+CREATE TABLE IF NOT EXISTS search_tags (
+	key TEXT NOT NULL,
+	tag TEXT NOT NULL,
+	PRIMARY KEY (key, tag)
+);
+
+CREATE INDEX IF NOT EXISTS search_tags_tag ON search_tags (tag);
+
+CREATE VIRTUAL TABLE IF NOT EXISTS search_fts USING fts5(
+	key UNINDEXED,
+	title,
+	text,
+	tags,
+	path,
+	tokenize = 'unicode61 remove_diacritics 2'
+);
@@ -0,0 +1,225 @@
+import { ImageDescription, PageSummary, PageSummaryRequest, SummaryRequest, TextSummary } from './types';
+
+// Text sent to a summarisation model; llama-3-8b has an 8k token context
+export const MAX_PROMPT_CHARS = 6000;
+
+export const SUMMARY_SYSTEM_PROMPT = 'You are a document metadata specialist. Your job is to follow the EXACT formatting instructions without deviation. Never add phrases like "Here is the response" or "Summary:", or any formatting markers like asterisks. Respond with ONLY the requested content in the exact format specified.';
+
+export const PROPERTIES_SYSTEM_PROMPT = 'You are a document specialist who creates accurate metadata for files. Do not invent details that are not supported by the information given.';
+
+export const IMAGE_JSON_PROMPT = "Describe this image in 1-2 concise sentences. Also, provide a short list of relevant keywords (tags) as a JSON array. Respond ONLY with a JSON object containing 'caption' and 'tags' keys. Example: { \"caption\": \"A sunny beach with palm trees.\", \"tags\": [\"beach\", \"sunny\", \"palm trees\"] }";
+
+// For models that cannot be held to JSON output
+export const IMAGE_TAGS_PROMPT = 'Describe this image in 1-2 concise sentences. Then write "TAGS:" followed by a comma-separated list of 3-8 relevant keywords. Do not add any other text.';
+
+/**
+ * Context appended to an image prompt
+ */
+export function imageContextPrompt(context: string | undefined): string {
+	return context
+		? `\n\nThe image file also carries this embedded metadata, which you may use as context where it agrees with what you see:\n${context}`
+		: '';
+}
+
+/**
+ * Builds the system and user prompts for a summary in the "summary, then TAGS:" format.
+ * Without text, the model is asked to describe the file from its properties alone.
+ */
+export function buildSummaryPrompt(request: SummaryRequest): { system: string, prompt: string } {
+	if (request.text.length === 0) {
+		return {
+			system: PROPERTIES_SYSTEM_PROMPT,
+			prompt: `
+    A ${request.kind} named "${request.name}" has no extractable text (${request.missingTextReason ?? 'it is probably scanned or image-based'}).
+    ${request.context ? `Its properties are:\n${request.context}` : 'It has no properties.'}
+
+    Based only on this information, please provide:
+    1. A concise 1-2 sentence description of what this file likely contains
+    2. A list of 3-6 relevant tags for this file
+
+    Format your response as:
+    [Description]
+
+    TAGS: tag1, tag2, tag3
+    `,
+		};
+	}
+
+	return {
+		system: SUMMARY_SYSTEM_PROMPT,
+		prompt: `
+    Here is the text extracted from a ${request.kind} named "${request.name}":
+    ${request.context ? `\n    Properties:\n${request.context}\n` : ''}
+    ${request.text.substring(0, MAX_PROMPT_CHARS)}
+
+    IMPORTANT: You must follow these exact formatting instructions:
+
+    1. Give me ONLY a plain text summary (1-2 paragraphs) with no formatting.
+    2. After the summary, write "TAGS:" followed immediately by a comma-separated list of tags.
+
+    FORMAT RULES:
+    - NO introduction phrases like "Here is the response:" or "Summary:"
+    - NO asterisks or other markdown formatting (**, *, etc.)
+    - NO quotation marks around the summary or tags
+    - NO newlines except between paragraphs and before the TAGS section
+    - NO header text of any kind
+
+    Your response must start directly with the summary text and nothing else.
+
+    CORRECT EXAMPLE:
+    This document is a financial report for Q2 2023. It contains quarterly revenue figures, expense breakdowns, and projections for the next quarter. The report includes several bar charts comparing performance metrics across departments.
+
+    TAGS: financial, quarterly report, revenue, expenses, projections, charts, q2 2023`,
+	};
+}
+
+/**
+ * Builds the system and user prompts asking for one "PAGE n: summary | TERMS: ..."
+ * line per page. The pages share the prompt's text budget evenly.
+ */
+export function buildPageSummaryPrompt(request: PageSummaryRequest): { system: string, prompt: string } {
+	const budget = Math.floor(MAX_PROMPT_CHARS / Math.max(request.pages.length, 1));
+	const pages = request.pages.map(page => `[Page ${page.page}]\n${page.text.substring(0, budget)}`).join('\n\n');
+	return {
+		system: SUMMARY_SYSTEM_PROMPT,
+		prompt: `
+    Here are pages ${request.pages[0]?.page}-${request.pages[request.pages.length - 1]?.page} of a ${request.kind} named "${request.name}":
+
+${pages}
+
+    IMPORTANT: For EACH page above, write exactly one line in this format:
+
+    PAGE <number>: <one sentence saying what the page covers> | TERMS: <3-5 key terms, comma-separated>
+
+    FORMAT RULES:
+    - One line per page, in page order, and nothing else
+    - NO introduction phrases, headers or blank lines
+    - NO asterisks or other markdown formatting (**, *, etc.)
+
+    CORRECT EXAMPLE:
+    PAGE 4: Quarterly revenue by region, with Europe growing fastest. | TERMS: revenue, regions, europe, growth
+    PAGE 5: Operating expenses and the cost savings planned for next year. | TERMS: expenses, cost savings, budget`,
+	};
+}
+
+/**
+ * Picks the "PAGE n: summary | TERMS: ..." lines out of a response, keeping only
+ * the first line for each of the requested pages
+ */
+export function parsePageSummaries(text: string, pages: number[]): PageSummary[] {
+	const wanted = new Set(pages);
+	const found = new Map<number, PageSummary>();
+	for (const line of text.split('\n')) {
+		const match = line.replace(/\*/g, '').match(/^\s*PAGE\s+(\d+)\s*[:.)-]\s*(.*?)\s*(?:\|\s*TERMS?\s*:\s*(.*))?$/i);
+		const page = match ? Number(match[1]) : NaN;
+		if (!wanted.has(page) || found.has(page) || !match[2]) {
+			continue;
+		}
+		found.set(page, {
+			page,
+			summary: match[2],
+			keyTerms: match[3] ? extractTags(`TAGS:${match[3]}`) : [],
+		});
+	}
+	return [...found.values()].sort((a, b) => a.page - b.page);
+}
+
+/**
+ * Splits a "summary, then TAGS:" response into its summary and tags
+ */
+export function parseSummaryResponse(text: string): TextSummary {
+	const summary = cleanSummary(text);
+	if (!summary) {
+		throw new Error('Model returned an empty summary');
+	}
+	return { summary, tags: extractTags(text) };
+}
+
+/**
+ * Parses the `{ caption, tags }` JSON object an image model was asked for
+ */
+export function parseImageJson(text: string): ImageDescription {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(text);
+	} catch (parseError) {
+		console.error("Error parsing image description JSON:", parseError, "Raw response:", text);
+		throw new Error('Failed to parse JSON image description');
+	}
+	const fields: { caption?: unknown, tags?: unknown } = parsed !== null && typeof parsed === 'object' ? parsed : {};
+	const caption = typeof fields.caption === 'string' ? fields.caption.trim() : '';
+	if (!caption) {
+		throw new Error('Image description has no caption');
+	}
+	const tags = Array.isArray(fields.tags)
+		? fields.tags.filter((tag): tag is string => typeof tag === 'string').map(tag => tag.trim()).filter(tag => tag.length > 0)
+		: [];
+	return { caption, tags };
+}
+
+/**
+ * Extract tags from the TAGS: section of a response
+ */
+export function extractTags(text: string): string[] {
+	// Look for tags section
+	const tagMatch = text.match(/TAGS:(.+?)($|(?:\n\n))/s);
+	if (!tagMatch || !tagMatch[1]) {
+		return [];
+	}
+
+	// Extract and clean tags
+	const rawTags = tagMatch[1].trim().split(/[,;]/).map(tag => {
+		// Clean up each tag - remove asterisks, quotes, and other formatting markers
+		return tag.trim()
+			.toLowerCase()
+			.replace(/^\*+|\*+$/g, '') // Remove asterisks at start/end
+			.replace(/^"+|"+$/g, '')   // Remove quotes at start/end
+			.replace(/^'|'$/g, '')     // Remove single quotes at start/end
+			.replace(/^\[|\]$/g, '');  // Remove brackets at start/end
+	});
+
+	return [...new Set(rawTags.filter(tag => tag.length > 0))];
+}
+
+/**
+ * Clean summary text by removing tags section and formatting markers
+ */
+export function cleanSummary(text: string): string {
+	// First, extract everything before the TAGS: section
+	let summary = text;
+	const tagsIndex = text.toUpperCase().indexOf('TAGS:');
+	if (tagsIndex !== -1) {
+		summary = text.substring(0, tagsIndex).trim();
+	}
+
+	// Remove common formatting patterns
+	summary = summary
+		// Remove prefix phrases
+		.replace(/^(?:here is the response:?|here's the response:?|my response:?)/i, '')
+		.replace(/^(?:summary:?|content:?|description:?|analysis:?)/i, '')
+
+		// Remove markdown and formatting
+		.replace(/\*\*Summary:?\*\*/gi, '')
+		.replace(/\*\*Summary \([^)]+\):?\*\*/gi, '')
+		.replace(/\*\*/g, '')  // Remove all remaining double asterisks
+		.replace(/\*/g, '')    // Remove all remaining single asterisks
+
+		// Fix newlines and spacing
+		.replace(/^\s+/gm, '')  // Remove leading whitespace from each line
+		.replace(/\n{3,}/g, '\n\n')  // Replace 3+ consecutive newlines with just 2
+		.trim();
+
+	return summary;
+}
+
+/**
+ * Base64 of some bytes, for models that take files inline.
+ */
+export function toBase64(bytes: Uint8Array): string {
+	// Build the binary string in chunks; one char at a time is slow for large images
+	let binary = '';
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary);
+}
@@ -0,0 +1,75 @@
+import { Env } from '../types';
+import { AiProvider } from './types';
+import { AiUsageSummary } from './usage';
+import { OpenAiProvider } from './openai';
+import { StubAiProvider } from './stub';
+import { WorkersAiProvider } from './workersAi';
+import { getScheduler } from '../scheduler';
+import { getContext } from '../envContext';
+
+export * from './types';
+export { cleanSummary, extractTags, MAX_PROMPT_CHARS } from './format';
+export { AiProviderError, CircuitOpenError, openCircuits } from './retry';
+export * from './usage';
+
+/**
+ * What a provider is being used for. Each can be pointed at a different vendor.
+ */
+export type AiTask = 'image' | 'pdf' | 'document' | 'audio' | 'text' | 'embedding';
+
+export const PROVIDER_NAMES = ['openai', 'workers-ai', 'stub'] as const;
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+// What each task used before providers were configurable
+const DEFAULT_PROVIDERS: Record<AiTask, ProviderName> = {
+	image: 'openai',
+	pdf: 'workers-ai',
+	document: 'workers-ai',
+	audio: 'workers-ai',
+	text: 'workers-ai',
+	embedding: 'workers-ai',
+};
+
+// Env var holding the provider override for each task
+const PROVIDER_VARS: Record<AiTask, keyof Env> = {
+	image: 'AI_PROVIDER_IMAGE',
+	pdf: 'AI_PROVIDER_PDF',
+	document: 'AI_PROVIDER_DOCUMENT',
+	audio: 'AI_PROVIDER_AUDIO',
+	text: 'AI_PROVIDER_TEXT',
+	embedding: 'AI_PROVIDER_EMBEDDING',
+};
+
+/**
+ * Returns the provider for a task. The per-task variable (e.g. `AI_PROVIDER_IMAGE`)
+ * wins over `AI_PROVIDER`, which wins over the built-in default. Within a sweep
+ * slice the provider's calls are limited by the slice's scheduler, and while a
+ * file is processed their usage is recorded on its meter (see runProcessor).
+ */
+export function getAiProvider(env: Env, task: AiTask): AiProvider {
+	const configured = (env[PROVIDER_VARS[task]] || env.AI_PROVIDER) as string | undefined;
+	const name = configured ? configured.trim().toLowerCase() : DEFAULT_PROVIDERS[task];
+	const provider = createProvider(env, name, task);
+	const scheduler = getScheduler(env);
+	return scheduler ? scheduler.provider(provider) : provider;
+}
+
+/**
+ * AI usage recorded so far for the file being processed with `env`, for its sidecar.
+ */
+export function currentUsage(env: Env): AiUsageSummary | null {
+	return getContext(env).meter?.snapshot() ?? null;
+}
+
+function createProvider(env: Env, name: string, task: AiTask): AiProvider {
+	switch (name) {
+		case 'openai':
+			return new OpenAiProvider(env.OPENAI_API_KEY, env.OPENAI_BASE_URL || undefined, getContext(env).meter);
+		case 'workers-ai':
+			return new WorkersAiProvider(env.AI, getContext(env).meter);
+		case 'stub':
+			return new StubAiProvider();
+		default:
+			throw new Error(`Unknown AI provider "${name}" for ${task}; expected one of ${PROVIDER_NAMES.join(', ')}`);
+	}
+}
@@ -0,0 +1,187 @@
+import { AiProvider, EMBEDDING_DIMENSIONS, ImageDescription, ImageDescriptionRequest, PageSummary, PageSummaryRequest, SummaryRequest, TextSummary, Transcription, TranscriptionRequest } from './types';
+import { buildPageSummaryPrompt, buildSummaryPrompt, IMAGE_JSON_PROMPT, imageContextPrompt, parseImageJson, parsePageSummaries, parseSummaryResponse, toBase64 } from './format';
+import { AiProviderError, getCircuitBreaker, isRetryableStatus, retryAfterFromHeaders, withRetry } from './retry';
+import { AiCallUsage, openAiTranscriptionUsage, openAiUsage, UsageMeter } from './usage';
+
+export const OPENAI_API_URL = 'https://api.openai.com/v1';
+const CHAT_MODEL = 'gpt-4o';
+const EMBEDDING_MODEL = 'text-embedding-3-small';
+const TRANSCRIPTION_MODEL = 'whisper-1';
+
+// Room for one page's line in a page summary response
+const PAGE_SUMMARY_TOKENS = 80;
+
+// The parts of the API's responses that are read. Everything is optional, as a
+// proxy or a fake server may not return what the API documents.
+interface TokenUsage {
+	prompt_tokens?: number;
+	completion_tokens?: number;
+}
+
+interface ChatResponse {
+	choices?: { message?: { content?: string | null } }[];
+	usage?: TokenUsage;
+}
+
+interface EmbeddingResponse {
+	data?: { index: number, embedding: number[] }[];
+	usage?: TokenUsage;
+}
+
+// verbose_json adds the language and duration (in seconds) to the text
+interface TranscriptionResponse {
+	text?: string;
+	language?: string;
+	duration?: number;
+}
+
+/**
+ * OpenAI chat completions (gpt-4o), transcriptions (Whisper) and embeddings.
+ * Embeddings are requested at EMBEDDING_DIMENSIONS so they fit the same index
+ * as the other providers. Requests are retried on rate limits and server
+ * errors (see ./retry), and the tokens or audio minutes each one used are
+ * recorded on `meter`.
+ */
+export class OpenAiProvider implements AiProvider {
+	readonly name = 'openai';
+	// https://platform.openai.com/docs/guides/images-vision
+	readonly imageTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/gif'];
+
+	// `baseUrl` can point at a proxy or a local fake of the API
+	constructor(private apiKey: string, private baseUrl = OPENAI_API_URL, private meter?: UsageMeter) {}
+
+	async describeImage(request: ImageDescriptionRequest): Promise<ImageDescription> {
+		const content = await this.chat({
+			model: CHAT_MODEL,
+			messages: [
+				{
+					role: "user",
+					content: [
+						{
+							type: "text",
+							text: IMAGE_JSON_PROMPT + imageContextPrompt(request.context),
+						},
+						{
+							type: "image_url",
+							image_url: {
+								url: `data:${request.mimeType};base64,${toBase64(request.image)}`,
+							},
+						},
+					],
+				},
+			],
+			max_tokens: 300,
+			// Ensure response is JSON
+			response_format: { type: "json_object" },
+		});
+		return parseImageJson(content);
+	}
+
+	async summarizeText(request: SummaryRequest): Promise<TextSummary> {
+		const { system, prompt } = buildSummaryPrompt(request);
+		const content = await this.chat({
+			model: CHAT_MODEL,
+			messages: [
+				{ role: "system", content: system },
+				{ role: "user", content: prompt },
+			],
+			max_tokens: 600,
+		});
+		return parseSummaryResponse(content);
+	}
+
+	async summarizePages(request: PageSummaryRequest): Promise<PageSummary[]> {
+		const { system, prompt } = buildPageSummaryPrompt(request);
+		const content = await this.chat({
+			model: CHAT_MODEL,
+			messages: [
+				{ role: "system", content: system },
+				{ role: "user", content: prompt },
+			],
+			max_tokens: PAGE_SUMMARY_TOKENS * request.pages.length,
+		});
+		return parsePageSummaries(content, request.pages.map(page => page.page));
+	}
+
+	async transcribe(request: TranscriptionRequest): Promise<Transcription> {
+		const form = new FormData();
+		const fileName = request.name.split('/').pop() || request.name;
+		form.set('file', new Blob([request.audio], { type: request.mimeType }), fileName);
+		form.set('model', TRANSCRIPTION_MODEL);
+		// The verbose format adds the language and duration
+		form.set('response_format', 'verbose_json');
+		const result = await this.send<TranscriptionResponse>('/audio/transcriptions', form, result => openAiTranscriptionUsage(
+			TRANSCRIPTION_MODEL,
+			typeof result?.duration === 'number' ? result.duration : request.durationSeconds ?? 0,
+		));
+		if (typeof result?.text !== 'string') {
+			throw new Error('Invalid response structure from OpenAI transcriptions API');
+		}
+		return { text: result.text.trim(), language: typeof result.language === 'string' ? result.language : null };
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		const result = await this.post<EmbeddingResponse>('/embeddings', {
+			model: EMBEDDING_MODEL,
+			input: texts,
+			dimensions: EMBEDDING_DIMENSIONS,
+		});
+		const data = result?.data;
+		if (!Array.isArray(data) || data.length !== texts.length) {
+			throw new Error('Invalid response structure from OpenAI embeddings API');
+		}
+		return [...data]
+			.sort((a, b) => a.index - b.index)
+			.map(item => item.embedding);
+	}
+
+	private async chat(payload: Record<string, unknown>): Promise<string> {
+		const result = await this.post<ChatResponse>('/chat/completions', payload);
+		const content = result?.choices?.[0]?.message?.content;
+		if (typeof content !== 'string' || !content) {
+			throw new Error('Invalid response structure from OpenAI API');
+		}
+		return content;
+	}
+
+	private post<T extends { usage?: TokenUsage }>(path: string, payload: Record<string, unknown>): Promise<T> {
+		return this.send<T>(path, JSON.stringify(payload), result => openAiUsage(payload.model as string, result?.usage));
+	}
+
+	// A JSON body is sent as such; a form is sent as multipart/form-data
+	private async send<T>(path: string, body: string | FormData, usage: (result: T) => AiCallUsage): Promise<T> {
+		if (!this.apiKey) {
+			throw new Error('OPENAI_API_KEY is not set');
+		}
+		const url = `${this.baseUrl.replace(/\/+$/, '')}${path}`;
+		const headers: Record<string, string> = { "Authorization": `Bearer ${this.apiKey}` };
+		if (typeof body === 'string') {
+			headers["Content-Type"] = "application/json";
+		}
+		const result = await withRetry(getCircuitBreaker(this.name), async () => {
+			let response: Response;
+			try {
+				response = await fetch(url, {
+					method: "POST",
+					headers,
+					body,
+				});
+			} catch (error) {
+				throw new AiProviderError(`OpenAI API request failed: ${error instanceof Error ? error.message : String(error)}`, null, true);
+			}
+
+			if (!response.ok) {
+				const errorText = await response.text();
+				throw new AiProviderError(
+					`OpenAI API Error: ${response.status} ${response.statusText} - ${errorText}`,
+					response.status,
+					isRetryableStatus(response.status),
+					retryAfterFromHeaders(response.headers),
+				);
+			}
+			return await response.json<T>();
+		});
+		this.meter?.record(usage(result));
+		return result;
+	}
+}
@@ -0,0 +1,252 @@
+/**
+ * Retry policy shared by the providers that call out to a service. Each call
+ * is retried with exponential backoff and full jitter, waiting at least as
+ * long as the service asked for. A circuit breaker per provider stops calls
+ * altogether while the service is clearly down.
+ */
+
+export interface RetryPolicy {
+	// Attempts in total, including the first one
+	maxAttempts: number;
+	baseDelayMs: number;
+	// Longest wait between attempts. A service asking for a longer wait is not retried.
+	maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 5,
+	baseDelayMs: 500,
+	maxDelayMs: 30_000,
+};
+
+// Consecutive provider-side failures (5xx, timeouts, network errors) that open the circuit
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+// How long an open circuit rejects calls before letting one through to test the service
+const CIRCUIT_COOLDOWN_MS = 60_000;
+
+/**
+ * An error from an AI service, classified so the retry policy knows what to do with it.
+ */
+export class AiProviderError extends Error {
+	constructor(
+		message: string,
+		// HTTP status, or null for network errors and errors without one (Workers AI)
+		public status: number | null,
+		public retryable: boolean,
+		// How long the service asked us to wait, from Retry-After or x-ratelimit-reset-*
+		public retryAfterMs: number | null = null,
+	) {
+		super(message);
+		this.name = 'AiProviderError';
+	}
+
+	// Whether this failure says something about the service being down, rather than about our request or our quota
+	get isOutage(): boolean {
+		return this.retryable && (this.status === null || this.status >= 500);
+	}
+}
+
+/**
+ * Thrown instead of calling a provider whose circuit is open.
+ */
+export class CircuitOpenError extends Error {
+	// `retryAt` is null while a test call decides whether the circuit closes
+	constructor(provider: string, public retryAt: Date | null) {
+		super(`AI provider ${provider} is unavailable; ${retryAt ? `calls are paused until ${retryAt.toISOString()}` : 'calls are paused while a test call is made'}`);
+		this.name = 'CircuitOpenError';
+	}
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Tracks consecutive outage failures for one provider. Once the threshold is
+ * reached the circuit opens and calls fail fast until the cooldown has passed.
+ * It is then half-open: the next call goes through as a probe while the others
+ * keep failing fast. The probe succeeding closes the circuit; an outage opens
+ * it again for another cooldown, and any other error lets the next call probe.
+ */
+export class CircuitBreaker {
+	private consecutiveFailures = 0;
+	private openUntil = 0;
+	private probing = false;
+
+	constructor(
+		readonly provider: string,
+		private threshold = CIRCUIT_FAILURE_THRESHOLD,
+		private cooldownMs = CIRCUIT_COOLDOWN_MS,
+	) {}
+
+	get state(): CircuitState {
+		if (this.openUntil === 0) {
+			return 'closed';
+		}
+		return Date.now() < this.openUntil ? 'open' : 'half-open';
+	}
+
+	// Whether calls are being turned away: the cooldown has not passed, or a probe is out
+	get isOpen(): boolean {
+		return this.state === 'open' || this.probing;
+	}
+
+	/**
+	 * Throws CircuitOpenError unless a call may go ahead. When the circuit is
+	 * half-open the caller becomes the probe, and must record how it went.
+	 */
+	check(): void {
+		const state = this.state;
+		if (state === 'open') {
+			throw new CircuitOpenError(this.provider, new Date(this.openUntil));
+		}
+		if (state === 'half-open') {
+			if (this.probing) {
+				throw new CircuitOpenError(this.provider, null);
+			}
+			console.log(`Testing AI provider ${this.provider} with one call before closing its circuit`);
+			this.probing = true;
+		}
+	}
+
+	recordSuccess(): void {
+		if (this.openUntil !== 0) {
+			console.log(`Closing circuit for AI provider ${this.provider}`);
+		}
+		this.consecutiveFailures = 0;
+		this.openUntil = 0;
+		this.probing = false;
+	}
+
+	recordFailure(): void {
+		this.consecutiveFailures++;
+		if (this.probing || this.consecutiveFailures >= this.threshold) {
+			if (this.state === 'closed' || this.probing) {
+				console.warn(`Opening circuit for AI provider ${this.provider} after ${this.consecutiveFailures} consecutive failures`);
+			}
+			this.openUntil = Date.now() + this.cooldownMs;
+			this.probing = false;
+		}
+	}
+
+	// A call failed in a way that says nothing about an outage; if it was the probe, the next call probes instead
+	recordOtherError(): void {
+		this.probing = false;
+	}
+}
+
+// One breaker per provider for the lifetime of the isolate, so concurrent calls share it
+const breakers = new Map<string, CircuitBreaker>();
+
+export function getCircuitBreaker(provider: string): CircuitBreaker {
+	let breaker = breakers.get(provider);
+	if (!breaker) {
+		breaker = new CircuitBreaker(provider);
+		breakers.set(provider, breaker);
+	}
+	return breaker;
+}
+
+/**
+ * Names of the providers whose circuit is currently open.
+ */
+export function openCircuits(): string[] {
+	return [...breakers.values()].filter(breaker => breaker.isOpen).map(breaker => breaker.provider);
+}
+
+/**
+ * Runs `operation`, retrying AiProviderErrors marked retryable. Other errors
+ * are rethrown straight away.
+ */
+export async function withRetry<T>(breaker: CircuitBreaker, operation: () => Promise<T>, policy: RetryPolicy = DEFAULT_RETRY_POLICY): Promise<T> {
+	for (let attempt = 1; ; attempt++) {
+		breaker.check();
+		try {
+			const result = await operation();
+			breaker.recordSuccess();
+			return result;
+		} catch (error) {
+			if (error instanceof AiProviderError && error.isOutage) {
+				breaker.recordFailure();
+			} else {
+				breaker.recordOtherError();
+			}
+			if (!(error instanceof AiProviderError) || !error.retryable) {
+				throw error;
+			}
+			if (attempt >= policy.maxAttempts) {
+				throw error;
+			}
+
+			const delay = retryDelay(attempt, error.retryAfterMs, policy);
+			if (delay === null) {
+				throw error;
+			}
+			console.warn(`${breaker.provider} call failed (${error.message}); retry ${attempt} of ${policy.maxAttempts - 1} in ${delay} ms`);
+			await sleep(delay);
+		}
+	}
+}
+
+// Full jitter: a random wait up to the exponential backoff for this attempt,
+// but never less than the service asked for. Null if it asked for too long.
+function retryDelay(attempt: number, retryAfterMs: number | null, policy: RetryPolicy): number | null {
+	if (retryAfterMs !== null && retryAfterMs > policy.maxDelayMs) {
+		return null;
+	}
+	const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+	return Math.max(retryAfterMs ?? 0, Math.round(Math.random() * backoff));
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Whether an HTTP status is worth retrying: timeouts, conflicts, rate limits and server errors.
+ */
+export function isRetryableStatus(status: number): boolean {
+	return status === 408 || status === 409 || status === 429 || status >= 500;
+}
+
+/**
+ * How long the response asks us to wait, in milliseconds. `Retry-After` (seconds
+ * or an HTTP date) wins; otherwise the reset time of whichever `x-ratelimit-*`
+ * limit is used up. Null if the response says nothing.
+ */
+export function retryAfterFromHeaders(headers: Headers): number | null {
+	const retryAfter = headers.get('retry-after');
+	if (retryAfter) {
+		const seconds = Number(retryAfter);
+		if (Number.isFinite(seconds)) {
+			return Math.max(0, seconds * 1000);
+		}
+		const date = Date.parse(retryAfter);
+		if (!Number.isNaN(date)) {
+			return Math.max(0, date - Date.now());
+		}
+	}
+
+	let wait: number | null = null;
+	for (const limit of ['requests', 'tokens']) {
+		const remaining = headers.get(`x-ratelimit-remaining-${limit}`);
+		const reset = parseDuration(headers.get(`x-ratelimit-reset-${limit}`));
+		if (remaining !== null && Number(remaining) <= 0 && reset !== null) {
+			wait = Math.max(wait ?? 0, reset);
+		}
+	}
+	return wait;
+}
+
+// Durations as OpenAI writes them in x-ratelimit-reset-*: "20ms", "1.5s", "6m0s", "1h2m3s"
+function parseDuration(value: string | null): number | null {
+	if (!value) {
+		return null;
+	}
+	const units: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+	let total = 0;
+	let matched = '';
+	for (const match of value.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+		total += Number(match[1]) * units[match[2]];
+		matched += match[0];
+	}
+	return matched === value.trim() ? total : null;
+}
@@ -0,0 +1,110 @@
+import { AiProvider, EMBEDDING_DIMENSIONS, ImageDescription, ImageDescriptionRequest, PageSummary, PageSummaryRequest, SummaryRequest, TextSummary, Transcription, TranscriptionRequest } from './types';
+
+const MAX_SUMMARY_CHARS = 300;
+const MAX_TAGS = 6;
+const MAX_PAGE_SUMMARY_CHARS = 150;
+const MAX_KEY_TERMS = 4;
+
+// Words too common to be useful as tags
+const STOP_WORDS = new Set([
+	'about', 'after', 'also', 'been', 'before', 'being', 'between', 'both', 'could', 'does', 'each', 'from',
+	'have', 'having', 'into', 'more', 'most', 'only', 'other', 'over', 'same', 'should', 'some', 'such',
+	'than', 'that', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'under',
+	'very', 'were', 'what', 'when', 'where', 'which', 'while', 'will', 'with', 'would', 'your',
+]);
+
+/**
+ * Offline provider that derives its output from the input alone, without any
+ * network access. The same input always gives the same output, and texts that
+ * share words get similar embeddings, so search and similarity behave sensibly
+ * in development and tests.
+ */
+export class StubAiProvider implements AiProvider {
+	readonly name = 'stub';
+	// Only the size is looked at, so any format will do
+	readonly imageTypes = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif', 'image/heic', 'image/tiff'];
+
+	async describeImage(request: ImageDescriptionRequest): Promise<ImageDescription> {
+		const fileName = request.name.split('/').pop() || request.name;
+		const nameWords = words(fileName.replace(/\.[^.]+$/, ''));
+		const contextCaption = request.context?.match(/^(?:Existing caption|Title): (.+)$/m)?.[1];
+		return {
+			caption: contextCaption ?? `An image named ${fileName} (${request.mimeType}, ${request.image.length} bytes).`,
+			tags: [...new Set([...nameWords, ...topWords(contextValues(request.context))])].slice(0, MAX_TAGS),
+		};
+	}
+
+	async summarizeText(request: SummaryRequest): Promise<TextSummary> {
+		const source = (request.text || request.context || '').replace(/\s+/g, ' ').trim();
+		const sentences = source.match(/[^.!?]+[.!?]+/g)?.slice(0, 2).join('').trim() || source;
+		const summary = sentences.length > MAX_SUMMARY_CHARS
+			? `${sentences.slice(0, MAX_SUMMARY_CHARS - 1).trimEnd()}…`
+			: sentences || `A ${request.kind} named ${request.name}.`;
+		return {
+			summary,
+			tags: topWords(`${request.text} ${contextValues(request.context)}`),
+		};
+	}
+
+	async summarizePages(request: PageSummaryRequest): Promise<PageSummary[]> {
+		return request.pages.map(page => {
+			const text = page.text.replace(/\s+/g, ' ').trim();
+			const sentence = text.match(/[^.!?]+[.!?]+/)?.[0].trim() || text;
+			return {
+				page: page.page,
+				summary: sentence.length > MAX_PAGE_SUMMARY_CHARS ? `${sentence.slice(0, MAX_PAGE_SUMMARY_CHARS - 1).trimEnd()}…` : sentence,
+				keyTerms: topWords(text).slice(0, MAX_KEY_TERMS),
+			};
+		}).filter(summary => summary.summary.length > 0);
+	}
+
+	// There is no speech recognition offline, so the "transcript" only describes the file
+	async transcribe(request: TranscriptionRequest): Promise<Transcription> {
+		const fileName = request.name.split('/').pop() || request.name;
+		const duration = request.durationSeconds ? `${Math.round(request.durationSeconds)} seconds, ` : '';
+		return {
+			text: `An audio recording named ${fileName} (${duration}${request.mimeType}, ${request.audio.length} bytes).`,
+			language: null,
+		};
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		return texts.map(hashEmbedding);
+	}
+}
+
+// Context is "Label: value" lines; only the values say anything about the file
+function contextValues(context: string | undefined): string {
+	return (context ?? '').replace(/^[^:\n]+:\s*/gm, '');
+}
+
+function words(text: string): string[] {
+	return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 2);
+}
+
+function topWords(text: string): string[] {
+	const counts = new Map<string, number>();
+	for (const word of words(text)) {
+		if (word.length > 3 && !STOP_WORDS.has(word) && !/\d/.test(word)) {
+			counts.set(word, (counts.get(word) ?? 0) + 1);
+		}
+	}
+	return [...counts.entries()]
+		.sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+		.slice(0, MAX_TAGS)
+		.map(([word]) => word);
+}
+
+// Bag-of-words vector: each word adds 1 to a bucket picked by its FNV-1a hash
+function hashEmbedding(text: string): number[] {
+	const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+	for (const word of words(text)) {
+		let hash = 0x811c9dc5;
+		for (let i = 0; i < word.length; i++) {
+			hash = Math.imul(hash ^ word.charCodeAt(i), 0x01000193);
+		}
+		vector[(hash >>> 0) % EMBEDDING_DIMENSIONS] += 1;
+	}
+	const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+	return norm > 0 ? vector.map(value => value / norm) : vector;
+}
@@ -0,0 +1,83 @@
+/**
+ * Embedding size shared by every provider, so vectors from any of them fit
+ * the same Vectorize index.
+ */
+export const EMBEDDING_DIMENSIONS = 768;
+
+export interface ImageDescriptionRequest {
+	// Object key, used in logs and by the offline stub
+	name: string;
+	image: Uint8Array;
+	mimeType: string;
+	// Embedded metadata or other facts the model may use
+	context?: string;
+}
+
+export interface ImageDescription {
+	caption: string;
+	tags: string[];
+}
+
+export interface SummaryRequest {
+	name: string;
+	// What is being summarised, as it should read in a prompt, e.g. "PDF document"
+	kind: string;
+	// Content to summarise. Empty when only `context` is known (e.g. a scanned PDF)
+	text: string;
+	// Properties of the file such as title and author
+	context?: string;
+	// Why `text` is empty, as it should read in a prompt. Defaults to the file
+	// probably being scanned or image-based.
+	missingTextReason?: string;
+}
+
+export interface TextSummary {
+	summary: string;
+	tags: string[];
+}
+
+export interface PageSummaryRequest {
+	name: string;
+	// What the pages belong to, as it should read in a prompt, e.g. "PDF document"
+	kind: string;
+	// Consecutive pages of the file, numbered from 1
+	pages: { page: number, text: string }[];
+}
+
+export interface PageSummary {
+	page: number;
+	summary: string;
+	keyTerms: string[];
+}
+
+export interface TranscriptionRequest {
+	name: string;
+	audio: Uint8Array;
+	mimeType: string;
+	// From the file's headers; used to estimate the cost when the model does not report it
+	durationSeconds: number | null;
+}
+
+export interface Transcription {
+	// Empty when no speech was found
+	text: string;
+	// As reported by the model, e.g. "en" or "english"; null if it did not say
+	language: string | null;
+}
+
+/**
+ * A model vendor. Processors only talk to this interface; which implementation
+ * serves which media type is chosen from env vars (see getAiProvider).
+ */
+export interface AiProvider {
+	readonly name: string;
+	// Image formats describeImage accepts, as MIME types
+	readonly imageTypes: readonly string[];
+	describeImage(request: ImageDescriptionRequest): Promise<ImageDescription>;
+	summarizeText(request: SummaryRequest): Promise<TextSummary>;
+	// One summary per page the model answered for, in page order; pages it skipped are left out
+	summarizePages(request: PageSummaryRequest): Promise<PageSummary[]>;
+	transcribe(request: TranscriptionRequest): Promise<Transcription>;
+	// One vector of EMBEDDING_DIMENSIONS per input text
+	embed(texts: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,180 @@
+/**
+ * Tokens, neurons and estimated cost of one or more AI calls. OpenAI bills
+ * tokens; Workers AI bills neurons, which are worked out from the tokens with
+ * the model's published rate.
+ */
+export interface UsageTotals {
+	calls: number;
+	promptTokens: number;
+	completionTokens: number;
+	// Workers AI only
+	neurons: number;
+	costUsd: number;
+}
+
+/**
+ * Usage totals with a breakdown by "<provider>:<model>".
+ */
+export type AiUsageSummary = UsageTotals & { byModel: Record<string, UsageTotals> };
+
+/**
+ * The usage of a single call, as reported by a provider.
+ */
+export interface AiCallUsage {
+	provider: string;
+	model: string;
+	promptTokens: number;
+	completionTokens: number;
+	neurons: number;
+	costUsd: number;
+}
+
+// US dollars per million tokens, from https://openai.com/api/pricing
+const OPENAI_PRICES: Record<string, { input: number, output: number }> = {
+	'gpt-4o': { input: 2.5, output: 10 },
+	'text-embedding-3-small': { input: 0.02, output: 0 },
+};
+
+// Neurons per million tokens, from https://developers.cloudflare.com/workers-ai/platform/pricing/.
+// LLaVA has no published rate; it is counted like the 8B Llama, which is the closest in size.
+const WORKERS_AI_NEURONS: Record<string, { input: number, output: number }> = {
+	'@cf/meta/llama-3-8b-instruct': { input: 25608, output: 75147 },
+	'@cf/llava-hf/llava-1.5-7b-hf': { input: 25608, output: 75147 },
+	'@cf/baai/bge-base-en-v1.5': { input: 6058, output: 0 },
+};
+
+// Speech-to-text models are billed by the minute of audio rather than by the token:
+// US dollars per minute for OpenAI, neurons per minute for Workers AI
+const OPENAI_AUDIO_PRICES: Record<string, number> = {
+	'whisper-1': 0.006,
+};
+const WORKERS_AI_AUDIO_NEURONS: Record<string, number> = {
+	'@cf/openai/whisper-large-v3-turbo': 46.63,
+};
+
+// US dollars per 1,000 neurons beyond the free allocation
+const USD_PER_THOUSAND_NEURONS = 0.011;
+
+// Tokens an image takes up in a LLaVA 1.5 prompt (a 24x24 grid of patches)
+export const IMAGE_PROMPT_TOKENS = 576;
+
+export function emptyTotals(): UsageTotals {
+	return { calls: 0, promptTokens: 0, completionTokens: 0, neurons: 0, costUsd: 0 };
+}
+
+export function emptyUsage(): AiUsageSummary {
+	return { ...emptyTotals(), byModel: {} };
+}
+
+/**
+ * Adds `from` to `into` and returns `into`.
+ */
+export function addUsage(into: AiUsageSummary, from: AiUsageSummary | null | undefined): AiUsageSummary {
+	if (!from) {
+		return into;
+	}
+	addTotals(into, from);
+	for (const [model, totals] of Object.entries(from.byModel ?? {})) {
+		addTotals(into.byModel[model] ??= emptyTotals(), totals);
+	}
+	return into;
+}
+
+function addTotals(into: UsageTotals, from: UsageTotals): void {
+	into.calls += from.calls ?? 0;
+	into.promptTokens += from.promptTokens ?? 0;
+	into.completionTokens += from.completionTokens ?? 0;
+	into.neurons += from.neurons ?? 0;
+	into.costUsd += from.costUsd ?? 0;
+}
+
+/**
+ * Usage of an OpenAI call from the `usage` block of its response.
+ */
+export function openAiUsage(model: string, usage: { prompt_tokens?: number, completion_tokens?: number } | undefined): AiCallUsage {
+	const promptTokens = usage?.prompt_tokens ?? 0;
+	const completionTokens = usage?.completion_tokens ?? 0;
+	const price = OPENAI_PRICES[model] ?? { input: 0, output: 0 };
+	return {
+		provider: 'openai',
+		model,
+		promptTokens,
+		completionTokens,
+		neurons: 0,
+		costUsd: (promptTokens * price.input + completionTokens * price.output) / 1e6,
+	};
+}
+
+/**
+ * Usage of a Workers AI call. Token counts come from the response when the
+ * model reports them, and are otherwise estimated by the provider.
+ */
+export function workersAiUsage(model: string, promptTokens: number, completionTokens: number): AiCallUsage {
+	const rate = WORKERS_AI_NEURONS[model] ?? { input: 0, output: 0 };
+	const neurons = (promptTokens * rate.input + completionTokens * rate.output) / 1e6;
+	return {
+		provider: 'workers-ai',
+		model,
+		promptTokens,
+		completionTokens,
+		neurons,
+		costUsd: neurons / 1000 * USD_PER_THOUSAND_NEURONS,
+	};
+}
+
+/**
+ * Usage of an OpenAI transcription of `seconds` of audio.
+ */
+export function openAiTranscriptionUsage(model: string, seconds: number): AiCallUsage {
+	return {
+		provider: 'openai',
+		model,
+		promptTokens: 0,
+		completionTokens: 0,
+		neurons: 0,
+		costUsd: seconds / 60 * (OPENAI_AUDIO_PRICES[model] ?? 0),
+	};
+}
+
+/**
+ * Usage of a Workers AI transcription of `seconds` of audio.
+ */
+export function workersAiTranscriptionUsage(model: string, seconds: number): AiCallUsage {
+	const neurons = seconds / 60 * (WORKERS_AI_AUDIO_NEURONS[model] ?? 0);
+	return {
+		provider: 'workers-ai',
+		model,
+		promptTokens: 0,
+		completionTokens: 0,
+		neurons,
+		costUsd: neurons / 1000 * USD_PER_THOUSAND_NEURONS,
+	};
+}
+
+/**
+ * Rough token count of English text, for models that do not report one.
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+/**
+ * Adds up the calls made with one env (see withContext), e.g. while processing
+ * a file. Providers record each successful call; retries that failed are not
+ * billed and are not counted.
+ */
+export class UsageMeter {
+	private summary = emptyUsage();
+
+	record(call: AiCallUsage): void {
+		const totals = { calls: 1, promptTokens: call.promptTokens, completionTokens: call.completionTokens, neurons: call.neurons, costUsd: call.costUsd };
+		addUsage(this.summary, { ...totals, byModel: { [`${call.provider}:${call.model}`]: totals } });
+	}
+
+	/**
+	 * A copy of the usage so far, or null if no calls were made.
+	 */
+	snapshot(): AiUsageSummary | null {
+		return this.summary.calls > 0 ? structuredClone(this.summary) : null;
+	}
+}
@@ -0,0 +1,141 @@
+import { Ai } from '@cloudflare/ai';
+import { AiProvider, EMBEDDING_DIMENSIONS, ImageDescription, ImageDescriptionRequest, PageSummary, PageSummaryRequest, SummaryRequest, TextSummary, Transcription, TranscriptionRequest } from './types';
+import { buildPageSummaryPrompt, buildSummaryPrompt, cleanSummary, extractTags, IMAGE_TAGS_PROMPT, imageContextPrompt, parsePageSummaries, parseSummaryResponse, toBase64 } from './format';
+import { AiProviderError, getCircuitBreaker, withRetry } from './retry';
+import { estimateTokens, IMAGE_PROMPT_TOKENS, UsageMeter, workersAiTranscriptionUsage, workersAiUsage } from './usage';
+
+const TEXT_MODEL = '@cf/meta/llama-3-8b-instruct';
+const VISION_MODEL = '@cf/llava-hf/llava-1.5-7b-hf';
+const EMBEDDING_MODEL = '@cf/baai/bge-base-en-v1.5';
+const TRANSCRIPTION_MODEL = '@cf/openai/whisper-large-v3-turbo';
+
+// Room for one page's line in a page summary response
+const PAGE_SUMMARY_TOKENS = 80;
+
+// Workers AI errors carry no status, only a message such as "3040: Capacity temporarily exceeded"
+const RATE_LIMIT_ERROR = /\b429\b|rate.?limit|too many requests/i;
+const TRANSIENT_ERROR = /\b5\d\d\b|capacity|overloaded|timed? ?out|temporar|unavailable|internal (server )?error|network/i;
+
+/**
+ * Cloudflare Workers AI through the `AI` binding. Calls are retried on rate
+ * limits and transient errors (see ./retry), and the neurons each one used
+ * are recorded on `meter`.
+ */
+export class WorkersAiProvider implements AiProvider {
+	readonly name = 'workers-ai';
+	// LLaVA is only known to decode these
+	readonly imageTypes = ['image/jpeg', 'image/png'];
+
+	constructor(private ai: Ai, private meter?: UsageMeter) {}
+
+	async describeImage(request: ImageDescriptionRequest): Promise<ImageDescription> {
+		const prompt = IMAGE_TAGS_PROMPT + imageContextPrompt(request.context);
+		const result = await this.call(() => this.ai.run(VISION_MODEL, {
+			image: [...request.image],
+			prompt,
+			max_tokens: 300,
+		}));
+		const text = responseText(result);
+		this.record(VISION_MODEL, result, IMAGE_PROMPT_TOKENS + estimateTokens(prompt), text);
+		const caption = cleanSummary(text);
+		if (!caption) {
+			throw new Error(`Empty image description from ${VISION_MODEL}`);
+		}
+		return { caption, tags: extractTags(text) };
+	}
+
+	async summarizeText(request: SummaryRequest): Promise<TextSummary> {
+		const { system, prompt } = buildSummaryPrompt(request);
+		const result = await this.call(() => this.ai.run(TEXT_MODEL, {
+			messages: [
+				{ role: 'system', content: system },
+				{ role: 'user', content: prompt },
+			],
+		}));
+		const text = responseText(result);
+		this.record(TEXT_MODEL, result, estimateTokens(system) + estimateTokens(prompt), text);
+		return parseSummaryResponse(text);
+	}
+
+	async summarizePages(request: PageSummaryRequest): Promise<PageSummary[]> {
+		const { system, prompt } = buildPageSummaryPrompt(request);
+		const result = await this.call(() => this.ai.run(TEXT_MODEL, {
+			messages: [
+				{ role: 'system', content: system },
+				{ role: 'user', content: prompt },
+			],
+			// The default of 256 tokens cuts off the lines for more than a few pages
+			max_tokens: PAGE_SUMMARY_TOKENS * request.pages.length,
+		}));
+		const text = responseText(result);
+		this.record(TEXT_MODEL, result, estimateTokens(system) + estimateTokens(prompt), text);
+		return parsePageSummaries(text, request.pages.map(page => page.page));
+	}
+
+	async transcribe(request: TranscriptionRequest): Promise<Transcription> {
+		// The @cloudflare/ai catalog predates this model, which takes the audio as
+		// base64 rather than as an array of bytes, so its types are bypassed here
+		const run = this.ai.run.bind(this.ai) as (model: string, inputs: Record<string, unknown>) => Promise<unknown>;
+		const result = await this.call(() => run(TRANSCRIPTION_MODEL, {
+			audio: toBase64(request.audio),
+		})) as { text?: unknown, transcription_info?: { language?: string, duration?: number } } | null;
+		if (typeof result?.text !== 'string') {
+			throw new Error(`Unexpected transcription output from ${TRANSCRIPTION_MODEL}`);
+		}
+		const info = result.transcription_info;
+		this.meter?.record(workersAiTranscriptionUsage(TRANSCRIPTION_MODEL, info?.duration ?? request.durationSeconds ?? 0));
+		return { text: result.text.trim(), language: info?.language ?? null };
+	}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		const result = await this.call(() => this.ai.run(EMBEDDING_MODEL, { text: texts })) as { data?: number[][] };
+		const vectors = result?.data;
+		if (!vectors || vectors.length !== texts.length || vectors.some(vector => vector.length !== EMBEDDING_DIMENSIONS)) {
+			throw new Error(`Unexpected embedding output from ${EMBEDDING_MODEL}`);
+		}
+		this.record(EMBEDDING_MODEL, result, texts.reduce((sum, text) => sum + estimateTokens(text), 0), '');
+		return vectors;
+	}
+
+	// Newer models report their token counts in `usage`; for the others they are estimated from the text
+	private record(model: string, result: unknown, estimatedPromptTokens: number, output: string): void {
+		const usage = (result as { usage?: { prompt_tokens?: number, completion_tokens?: number } } | null)?.usage;
+		this.meter?.record(workersAiUsage(
+			model,
+			usage?.prompt_tokens ?? estimatedPromptTokens,
+			usage?.completion_tokens ?? estimateTokens(output),
+		));
+	}
+
+	private call<T>(operation: () => Promise<T>): Promise<T> {
+		return withRetry(getCircuitBreaker(this.name), async () => {
+			try {
+				return await operation();
+			} catch (error) {
+				throw classifyError(error);
+			}
+		});
+	}
+}
+
+function classifyError(error: unknown): AiProviderError {
+	const message = error instanceof Error ? error.message : String(error);
+	if (RATE_LIMIT_ERROR.test(message)) {
+		return new AiProviderError(`Workers AI rate limited: ${message}`, 429, true);
+	}
+	return new AiProviderError(`Workers AI error: ${message}`, null, TRANSIENT_ERROR.test(message));
+}
+
+// Text models answer with `response`, image-to-text models with `description`,
+// and some older models with a bare string
+function responseText(result: unknown): string {
+	if (typeof result === 'string') {
+		return result;
+	}
+	const output = result as { response?: unknown, description?: unknown } | null;
+	const text = output?.response ?? output?.description;
+	if (typeof text !== 'string') {
+		throw new Error('Invalid response structure from Workers AI');
+	}
+	return text;
+}
@@ -0,0 +1,221 @@
+import { ApiException } from 'chanfana';
+import type { Context, Next } from 'hono';
+import { Env } from './types';
+import { sha256Hex } from './hash';
+
+/**
+ * What a caller may do. Read-only callers can read sidecars, search, and look
+ * at runs and failures; operators can also start runs, process, retry and
+ * delete, all of which may cost money.
+ */
+export type Role = 'readonly' | 'operator';
+
+// Roles in increasing order of what they may do
+const ROLES: Role[] = ['readonly', 'operator'];
+
+// Env var listing the API keys of each role, comma-separated
+const KEY_VARS: Record<Role, keyof Env> = {
+	readonly: 'READONLY_API_KEYS',
+	operator: 'OPERATOR_API_KEYS',
+};
+
+const SESSION_COOKIE = 'r2m_session';
+// How long a UI session lasts after signing in
+const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+// Paths anyone may reach: signing in and out, and the API documentation
+const PUBLIC_PATHS = new Set(['/login', '/logout', '/docs', '/redocs', '/openapi.json']);
+// Read-only requests that still need an operator, because they reveal how the worker is deployed
+const OPERATOR_PATHS = new Set(['/test-r2']);
+
+export class UnauthorizedException extends ApiException {
+	isVisible = true;
+	default_message = "Authentication required";
+	status = 401;
+	code = 7401;
+}
+
+export class ForbiddenException extends ApiException {
+	isVisible = true;
+	default_message = "Not allowed for this role";
+	status = 403;
+	code = 7403;
+}
+
+export type AuthEnv = { Bindings: Env, Variables: { role: Role | null } };
+
+/**
+ * Hono middleware that works out the caller's role, from a bearer API key or
+ * the UI session cookie, and checks it against what the request needs: reads
+ * need any role, anything that changes state needs an operator. The role is
+ * left in `c.get('role')`. HTML pages redirect to /login instead of failing.
+ */
+export async function authenticate(c: Context<AuthEnv>, next: Next): Promise<Response | void> {
+	const role = await resolveRole(c);
+	c.set('role', role);
+
+	if (PUBLIC_PATHS.has(c.req.path)) {
+		return next();
+	}
+
+	const required = requiredRole(c.req.method, c.req.path);
+	if (role && required === 'operator' && !c.req.header('Authorization') && isCrossSite(c)) {
+		// The session cookie is SameSite=Strict already; this also covers browsers that ignore that
+		throw new ForbiddenException('Cross-site requests cannot use the UI session');
+	}
+	if (role && hasRole(role, required)) {
+		return next();
+	}
+
+	if (c.req.path === '/') {
+		// The UI: send people without a session to sign in; a read-only session cannot run anything
+		return role ? c.text('Starting runs needs an operator API key', 403) : c.redirect('/login');
+	}
+	if (role) {
+		throw new ForbiddenException(`${c.req.method} ${c.req.path} needs the ${required} role; this key is ${role}`);
+	}
+	throw new UnauthorizedException('Send an API key as "Authorization: Bearer <key>"');
+}
+
+function hasRole(role: Role, required: Role): boolean {
+	return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+function requiredRole(method: string, path: string): Role {
+	if (OPERATOR_PATHS.has(path)) {
+		return 'operator';
+	}
+	return method === 'GET' || method === 'HEAD' ? 'readonly' : 'operator';
+}
+
+// Whether the browser says the request comes from another site's page
+function isCrossSite(c: Context<AuthEnv>): boolean {
+	const origin = c.req.header('Origin');
+	return !!origin && origin !== new URL(c.req.url).origin;
+}
+
+async function resolveRole(c: Context<AuthEnv>): Promise<Role | null> {
+	const authorization = c.req.header('Authorization');
+	if (authorization) {
+		const match = /^Bearer\s+(\S+)$/i.exec(authorization);
+		return match ? await roleForKey(c.env, match[1]) : null;
+	}
+	const session = readCookie(c.req.header('Cookie'), SESSION_COOKIE);
+	return session ? await verifySession(c.env, session) : null;
+}
+
+// Returns the role of an API key, or null if it is not one of ours
+async function roleForKey(env: Env, key: string): Promise<Role | null> {
+	return (await findKey(env, await hashKey(key)))?.role ?? null;
+}
+
+// Looks a key up by its SHA-256, comparing digests in constant time. An
+// operator key listed as read-only too gets the higher role.
+async function findKey(env: Env, digest: string): Promise<{ role: Role, digest: string } | null> {
+	let found: { role: Role, digest: string } | null = null;
+	for (const role of ROLES) {
+		for (const key of listKeys(env[KEY_VARS[role]] as string | undefined)) {
+			const keyDigest = await hashKey(key);
+			if (timingSafeEqual(new TextEncoder().encode(keyDigest), new TextEncoder().encode(digest))) {
+				found = { role, digest: keyDigest };
+			}
+		}
+	}
+	return found;
+}
+
+/**
+ * Creates the signed value of a session cookie for an API key, or null if the
+ * key is not valid or SESSION_SECRET is not set. The session records a hash of
+ * the key rather than its role, so revoking the key or changing its role
+ * applies to sessions already signed in with it.
+ */
+export async function createSession(env: Env, key: string): Promise<string | null> {
+	const found = await findKey(env, await hashKey(key));
+	if (!found || !env.SESSION_SECRET) {
+		return null;
+	}
+	const payload = {
+		key: found.digest,
+		exp: Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS,
+	};
+	const encoded = base64Url(new TextEncoder().encode(JSON.stringify(payload)));
+	return `${encoded}.${base64Url(await sign(env.SESSION_SECRET, encoded))}`;
+}
+
+export function sessionCookie(value: string): string {
+	return `${SESSION_COOKIE}=${value}; Path=/; HttpOnly; Secure; SameSite=Strict; Max-Age=${SESSION_TTL_SECONDS}`;
+}
+
+export function clearedSessionCookie(): string {
+	return `${SESSION_COOKIE}=; Path=/; HttpOnly; Secure; SameSite=Strict; Max-Age=0`;
+}
+
+async function verifySession(env: Env, cookie: string): Promise<Role | null> {
+	const [encoded, signature] = cookie.split('.');
+	if (!encoded || !signature || !env.SESSION_SECRET) {
+		return null;
+	}
+	const expected = await sign(env.SESSION_SECRET, encoded);
+	if (!timingSafeEqual(expected, fromBase64Url(signature))) {
+		return null;
+	}
+
+	let payload: { key?: string, exp?: number };
+	try {
+		payload = JSON.parse(new TextDecoder().decode(fromBase64Url(encoded)));
+	} catch {
+		return null;
+	}
+	if (!payload.key || !payload.exp || payload.exp * 1000 < Date.now()) {
+		return null;
+	}
+	return (await findKey(env, payload.key))?.role ?? null;
+}
+
+function listKeys(value: string | undefined): string[] {
+	return (value ?? '').split(',').map(key => key.trim()).filter(key => key !== '');
+}
+
+function readCookie(header: string | undefined, name: string): string | null {
+	for (const part of (header ?? '').split(';')) {
+		const [cookieName, ...value] = part.trim().split('=');
+		if (cookieName === name) {
+			return value.join('=');
+		}
+	}
+	return null;
+}
+
+function hashKey(key: string): Promise<string> {
+	return sha256Hex(new TextEncoder().encode(key));
+}
+
+async function sign(secret: string, data: string): Promise<Uint8Array> {
+	const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+	return new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data)));
+}
+
+function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+	if (a.length !== b.length) {
+		return false;
+	}
+	let difference = 0;
+	for (let i = 0; i < a.length; i++) {
+		difference |= a[i] ^ b[i];
+	}
+	return difference === 0;
+}
+
+function base64Url(bytes: Uint8Array): string {
+	return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+	try {
+		const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+		return Uint8Array.from(binary, char => char.charCodeAt(0));
+	} catch {
+		return new Uint8Array(0);
+	}
+}
@@ -0,0 +1,238 @@
+import { Env } from './types';
+import { getMetadataKey, INTERNAL_PREFIX } from './metadata';
+import { getContext } from './envContext';
+
+export { sha256Hex } from './hash';
+
+export const CONTENT_PREFIX = `${INTERNAL_PREFIX}content/`;
+
+// An entry is one object per hash, so concurrent writers retry on an etag conflict
+const MAX_ENTRY_WRITES = 5;
+
+/**
+ * What the AI made of some content: a caption or a summary, and tags.
+ */
+export interface CachedResult {
+	// Provider that generated it; results from another provider are not reused
+	provider: string;
+	text: string;
+	tags: string[];
+	// Anything else generated along the way that copies should get too, e.g. a transcript
+	details?: Record<string, unknown>;
+	generatedAt: string;
+}
+
+/**
+ * Everything known about one content hash, stored at CONTENT_PREFIX + "<hash>.json".
+ * `keys` may include keys that have since been overwritten with other content;
+ * readers check them against the sidecars.
+ */
+export interface ContentEntry {
+	hash: string;
+	type: string;
+	size: number;
+	// First key processed with this content; the others are its duplicates
+	key: string;
+	keys: string[];
+	result: CachedResult | null;
+	updatedAt: string;
+}
+
+/**
+ * The outcome of resolveContent: the result to write to the sidecar and, when
+ * it was copied rather than generated, the key it was first generated for.
+ */
+export interface ContentResolution {
+	text: string;
+	tags: string[];
+	details: Record<string, unknown> | null;
+	duplicateOf: string | null;
+}
+
+export interface ContentSource {
+	key: string;
+	hash: string;
+	type: string;
+	size: number;
+}
+
+// Generations in progress in this isolate, by hash and provider, so copies
+// processed at the same time wait for the first one instead of calling the model too
+const inFlight = new Map<string, { key: string, result: Promise<CachedResult> }>();
+
+/**
+ * Returns the AI result for some content: the cached one when this provider
+ * already produced one, otherwise what `generate` returns, which is cached for
+ * the next copy. Either way the key is recorded against the hash. Cache
+ * failures are logged and never fail processing; at worst the model is called.
+ */
+export async function resolveContent(env: Env, source: ContentSource, provider: string, generate: () => Promise<{ text: string, tags: string[], details?: Record<string, unknown> }>): Promise<ContentResolution> {
+	let entry: ContentEntry | null = null;
+	try {
+		entry = (await readEntryObject(env, source.hash)).entry;
+	} catch (error) {
+		console.error(`Error reading content cache for ${source.key}:`, error);
+	}
+
+	if (entry && isReusable(env, entry.result, provider)) {
+		const original = entry.key === source.key ? null : entry.key;
+		console.log(`Reusing the AI result for ${source.key}${original ? ` from ${original}` : ''} (same content)`);
+		await recordContent(env, source, null);
+		return { text: entry.result.text, tags: entry.result.tags, details: entry.result.details ?? null, duplicateOf: original };
+	}
+
+	const flightKey = `${source.hash}:${provider}`;
+	const pending = inFlight.get(flightKey);
+	if (pending && pending.key !== source.key) {
+		const result = await pending.result;
+		await recordContent(env, source, null);
+		return { text: result.text, tags: result.tags, details: result.details ?? null, duplicateOf: pending.key };
+	}
+
+	const generation = generate().then(output => ({ provider, ...output, generatedAt: new Date().toISOString() }));
+	inFlight.set(flightKey, { key: source.key, result: generation });
+	try {
+		const result = await generation;
+		await recordContent(env, source, result);
+		return { text: result.text, tags: result.tags, details: result.details ?? null, duplicateOf: null };
+	} finally {
+		inFlight.delete(flightKey);
+	}
+}
+
+/**
+ * Drops a key from the entry for its content, e.g. because the object was
+ * deleted. The hash is read from the key's sidecar, so call this before
+ * deleting the sidecar.
+ */
+export async function forgetContent(env: Env, key: string): Promise<void> {
+	try {
+		const hash = (await env.MEDIA_BUCKET.head(getMetadataKey(key)))?.customMetadata?.contentHash;
+		if (!hash) {
+			return;
+		}
+		await updateEntry(env, hash, entry => {
+			if (!entry || !entry.keys.includes(key)) {
+				return null;
+			}
+			const keys = entry.keys.filter(other => other !== key);
+			// The cached result stays useful for the next upload of the same content
+			return { ...entry, keys, key: entry.key === key ? keys[0] ?? key : entry.key };
+		});
+	} catch (error) {
+		console.error(`Error removing ${key} from the content cache:`, error);
+	}
+}
+
+/**
+ * Objects with identical content: the first one processed and its copies.
+ */
+export interface DuplicateGroup {
+	hash: string;
+	type: string;
+	size: number;
+	original: string;
+	duplicates: string[];
+}
+
+/**
+ * Finds the duplicates among one page of content cache entries. Only entries
+ * recorded with more than one key are read, and each key is checked against
+ * its sidecar so that deleted or overwritten objects are left out.
+ */
+export async function listDuplicates(env: Env, options: { cursor?: string, limit: number, type?: string }): Promise<{ groups: DuplicateGroup[], cursor: string | null }> {
+	// `include` is missing from the R2 types this project builds against, but the
+	// runtime honours it (compatibility date 2022-08-04 and later)
+	const listOptions = { prefix: CONTENT_PREFIX, cursor: options.cursor, limit: options.limit, include: ['customMetadata'] };
+	const listing = await env.MEDIA_BUCKET.list(listOptions);
+	// The number of keys is kept in the custom metadata, so single copies are never downloaded
+	const candidates = listing.objects.filter(object => Number(object.customMetadata?.copies) > 1);
+
+	const groups = await Promise.all(candidates.map(async (object): Promise<DuplicateGroup | null> => {
+		const { entry } = await readEntryObject(env, object.key.slice(CONTENT_PREFIX.length, -'.json'.length));
+		if (!entry || (options.type && entry.type !== options.type)) {
+			return null;
+		}
+		const live = await Promise.all(entry.keys.map(async key => {
+			const sidecar = await env.MEDIA_BUCKET.head(getMetadataKey(key));
+			return sidecar?.customMetadata?.contentHash === entry.hash ? key : null;
+		}));
+		const keys = live.filter((key): key is string => key !== null);
+		if (keys.length < 2) {
+			return null;
+		}
+		const original = keys.includes(entry.key) ? entry.key : keys[0];
+		return { hash: entry.hash, type: entry.type, size: entry.size, original, duplicates: keys.filter(key => key !== original) };
+	}));
+
+	return {
+		groups: groups.filter((group): group is DuplicateGroup => group !== null),
+		cursor: listing.truncated ? listing.cursor : null,
+	};
+}
+
+// Results from another provider, or generated before a force-reprocess run
+// started, are regenerated (see EnvContext.reuseResultsSince)
+function isReusable(env: Env, result: CachedResult | null, provider: string): boolean {
+	const since = getContext(env).reuseResultsSince;
+	return !!result && result.provider === provider && (!since || result.generatedAt >= since);
+}
+
+// Adds the key to the entry for its content, with a newly generated result if there is one
+async function recordContent(env: Env, source: ContentSource, result: CachedResult | null): Promise<void> {
+	try {
+		await updateEntry(env, source.hash, entry => {
+			const current: ContentEntry = entry ?? { hash: source.hash, type: source.type, size: source.size, key: source.key, keys: [], result: null, updatedAt: '' };
+			if (current.keys.includes(source.key) && !result) {
+				return null;
+			}
+			return {
+				...current,
+				keys: current.keys.includes(source.key) ? current.keys : [...current.keys, source.key],
+				result: result ?? current.result,
+			};
+		});
+	} catch (error) {
+		console.error(`Error updating content cache for ${source.key}:`, error);
+	}
+}
+
+function entryKey(hash: string): string {
+	return `${CONTENT_PREFIX}${hash}.json`;
+}
+
+async function readEntryObject(env: Env, hash: string): Promise<{ entry: ContentEntry | null, etag: string | null }> {
+	const object = await env.MEDIA_BUCKET.get(entryKey(hash));
+	if (!object) {
+		return { entry: null, etag: null };
+	}
+	try {
+		return { entry: await object.json<ContentEntry>(), etag: object.etag };
+	} catch (error) {
+		// Start afresh rather than leaving every writer stuck on a corrupt entry
+		console.error(`Ignoring unreadable ${entryKey(hash)}:`, error);
+		return { entry: null, etag: object.etag };
+	}
+}
+
+// Read-modify-write with a conditional put, as copies of the same content may
+// be processed at once. `update` returns the new entry, or null to leave it be.
+async function updateEntry(env: Env, hash: string, update: (entry: ContentEntry | null) => ContentEntry | null): Promise<void> {
+	for (let attempt = 1; attempt <= MAX_ENTRY_WRITES; attempt++) {
+		const { entry, etag } = await readEntryObject(env, hash);
+		const updated = update(entry);
+		if (!updated) {
+			return;
+		}
+		updated.updatedAt = new Date().toISOString();
+		const written = await env.MEDIA_BUCKET.put(entryKey(hash), JSON.stringify(updated, null, 2), {
+			httpMetadata: { contentType: 'application/json' },
+			customMetadata: { copies: String(updated.keys.length) },
+			onlyIf: etag ? { etagMatches: etag } : { etagDoesNotMatch: '*' },
+		});
+		if (written) {
+			return;
+		}
+	}
+	throw new Error(`Could not update ${entryKey(hash)}: it kept changing underneath us`);
+}
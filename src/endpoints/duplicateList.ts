@@ -0,0 +1,66 @@
+import { Num, OpenAPIRoute, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, successResponse } from "../types";
+import { listDuplicates } from "../contentCache";
+
+export class DuplicateList extends OpenAPIRoute {
+	schema = {
+		tags: ["Metadata"],
+		summary: "List objects whose content is byte-identical",
+		description: "Images, PDFs, Office documents, audio and text files are hashed (SHA-256) when processed, and a copy of content seen before reuses its caption, summary or transcript instead of calling the model. Each call reads one page of the content cache; keep calling with the returned cursor until `truncated` is false. Pages may hold no groups at all.",
+		request: {
+			query: z.object({
+				type: Str({
+					description: "Only list duplicates of this media type, e.g. image",
+					required: false,
+				}),
+				cursor: Str({
+					description: "Cursor returned by the previous call",
+					required: false,
+				}),
+				limit: Num({
+					description: "Content hashes to look at in this call (1-1000)",
+					default: 500,
+				}),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Returns the groups of identical objects found on this page",
+				content: {
+					"application/json": {
+						schema: successResponse(z.object({
+							groups: z.array(z.object({
+								hash: z.string().describe("SHA-256 of the content"),
+								type: z.string(),
+								size: Num({ description: "Size of each copy in bytes" }),
+								original: z.string().describe("The first key processed with this content"),
+								duplicates: z.array(z.string()).describe("Other keys with the same content"),
+							})),
+							cursor: z.string().nullable(),
+							truncated: z.boolean(),
+						})),
+					},
+				},
+			},
+		},
+	};
+
+	async handle(c: AppContext) {
+		// Get validated data
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { type, cursor } = data.query;
+		const limit = Math.min(Math.max(Math.floor(data.query.limit), 1), 1000);
+
+		const page = await listDuplicates(c.env, { cursor, limit, type: type || undefined });
+
+		return {
+			success: true,
+			result: {
+				groups: page.groups,
+				cursor: page.cursor,
+				truncated: page.cursor !== null,
+			},
+		};
+	}
+}
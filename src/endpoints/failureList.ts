@@ -0,0 +1,54 @@
+import { Num, OpenAPIRoute, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, FailureEntry, successResponse } from "../types";
+import { FailureEntry as LedgerEntry, getMaxAttempts, readFailureLedger } from "../failures";
+
+export class FailureList extends OpenAPIRoute {
+	schema = {
+		tags: ["Failures"],
+		summary: "List files whose processing failed",
+		description: "Files in `deadLetter` failed `maxAttempts` times and are skipped by the scheduled sweep until they are retried or re-uploaded.",
+		request: {
+			query: z.object({
+				prefix: Str({
+					description: "Only list failures for keys starting with this prefix",
+					required: false,
+				}),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Returns the failures, most recent first",
+				content: {
+					"application/json": {
+						schema: successResponse(z.object({
+							maxAttempts: Num(),
+							failures: FailureEntry.array(),
+							deadLetter: FailureEntry.array(),
+						})),
+					},
+				},
+			},
+		},
+	};
+
+	async handle(c: AppContext) {
+		// Get validated data
+		const data = await this.getValidatedData<typeof this.schema>();
+		const prefix = data.query.prefix || '';
+
+		const ledger = await readFailureLedger(c.env);
+		const select = (entries: Record<string, LedgerEntry>) => Object.values(entries)
+			.filter(entry => entry.key.startsWith(prefix))
+			.sort((a, b) => b.lastAttemptAt.localeCompare(a.lastAttemptAt));
+
+		return {
+			success: true,
+			result: {
+				maxAttempts: getMaxAttempts(c.env),
+				failures: select(ledger.failures),
+				deadLetter: select(ledger.deadLetter),
+			},
+		};
+	}
+}
@@ -0,0 +1,78 @@
+import { contentJson, Num, OpenAPIRoute } from "chanfana";
+import { ExecutionContext } from "@cloudflare/workers-types";
+import { z } from "zod";
+import { type AppContext, successResponse } from "../types";
+import { readFailureLedger, recordOutcomes, removeFailures } from "../failures";
+import { processKey, ProcessorResult } from "../processors";
+import { recordUsage } from "../usage";
+
+export class FailureRetry extends OpenAPIRoute {
+	schema = {
+		tags: ["Failures"],
+		summary: "Process failed and dead-lettered files again",
+		description: "Retries the given keys, or the most recent failures if none are given. A file that fails again keeps its attempt count, so a dead-lettered file stays dead-lettered.",
+		request: {
+			body: contentJson(z.object({
+				keys: z.array(z.string().min(1)).max(100).optional().describe("Keys to retry; defaults to every file in the ledger"),
+				limit: Num({
+					description: "Maximum number of files to retry in this call (1-100)",
+					required: false,
+				}),
+			})),
+		},
+		responses: {
+			"200": {
+				description: "Returns the outcome for each retried file",
+				content: {
+					"application/json": {
+						schema: successResponse(z.object({
+							results: z.array(z.object({
+								key: z.string(),
+								status: z.enum(["success", "fallback", "failed", "skipped", "unsupported", "missing"]),
+								reason: z.string().nullable(),
+							})),
+							remaining: Num({ description: "Files still in the ledger after this call" }),
+						})),
+					},
+				},
+			},
+		},
+	};
+
+	async handle(c: AppContext) {
+		// Get validated data
+		const data = await this.getValidatedData<typeof this.schema>();
+		const limit = Math.min(Math.max(Math.floor(data.body.limit ?? 10), 1), 100);
+
+		let keys = data.body.keys;
+		if (!keys) {
+			const ledger = await readFailureLedger(c.env);
+			keys = [...Object.values(ledger.failures), ...Object.values(ledger.deadLetter)]
+				.sort((a, b) => b.lastAttemptAt.localeCompare(a.lastAttemptAt))
+				.map(entry => entry.key);
+		}
+		keys = [...new Set(keys)].slice(0, limit);
+
+		const outcomes = await Promise.all(keys.map(key => processKey(key, c.env, c.executionCtx as ExecutionContext)));
+
+		const processed = outcomes.filter((outcome): outcome is ProcessorResult => typeof outcome !== 'string');
+		// Objects that are gone, or no longer handled, have nothing left to retry
+		const gone = keys.filter((_, index) => typeof outcomes[index] === 'string');
+		await recordOutcomes(c.env, processed);
+		await recordUsage(c.env, processed);
+		const ledger = await removeFailures(c.env, gone);
+
+		return {
+			success: true,
+			result: {
+				results: keys.map((key, index) => {
+					const outcome = outcomes[index];
+					return typeof outcome === 'string'
+						? { key, status: outcome, reason: null }
+						: { key, status: outcome.status, reason: outcome.reason };
+				}),
+				remaining: Object.keys(ledger.failures).length + Object.keys(ledger.deadLetter).length,
+			},
+		};
+	}
+}
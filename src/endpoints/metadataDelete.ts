@@ -0,0 +1,49 @@
+import { NotFoundException, OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { type AppContext, ObjectKeyParam, successResponse } from "../types";
+import { deleteMetadata, getMetadataKey } from "../metadata";
+import { forgetContent } from "../contentCache";
+
+export class MetadataDelete extends OpenAPIRoute {
+	schema = {
+		tags: ["Metadata"],
+		summary: "Delete the metadata sidecar for an object and remove it from search",
+		request: {
+			params: ObjectKeyParam,
+		},
+		responses: {
+			"200": {
+				description: "The sidecar was deleted",
+				content: {
+					"application/json": {
+						schema: successResponse(z.object({
+							key: z.string(),
+							deleted: z.boolean(),
+						})),
+					},
+				},
+			},
+			...NotFoundException.schema(),
+		},
+	};
+
+	async handle(c: AppContext) {
+		// Get validated data
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { key } = data.params;
+
+		if (!(await c.env.MEDIA_BUCKET.head(getMetadataKey(key)))) {
+			throw new NotFoundException(`No metadata found for ${key}`);
+		}
+		await forgetContent(c.env, key);
+		await deleteMetadata(c.env, key);
+
+		return {
+			success: true,
+			result: {
+				key,
+				deleted: true,
+			},
+		};
+	}
+}
@@ -0,0 +1,48 @@
+import { NotFoundException, OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { type AppContext, ObjectKeyParam, successResponse } from "../types";
+import { MetadataSidecar } from "../sidecar";
+import { readMetadata } from "../metadata";
+
+export class MetadataFetch extends OpenAPIRoute {
+	schema = {
+		tags: ["Metadata"],
+		summary: "Get the metadata sidecar for an object",
+		request: {
+			params: ObjectKeyParam,
+		},
+		responses: {
+			"200": {
+				description: "Returns the sidecar contents",
+				content: {
+					"application/json": {
+						schema: successResponse(z.object({
+							key: z.string(),
+							metadata: MetadataSidecar,
+						})),
+					},
+				},
+			},
+			...NotFoundException.schema(),
+		},
+	};
+
+	async handle(c: AppContext) {
+		// Get validated data
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { key } = data.params;
+
+		const metadata = await readMetadata(c.env, key);
+		if (!metadata) {
+			throw new NotFoundException(`No metadata found for ${key}`);
+		}
+
+		return {
+			success: true,
+			result: {
+				key,
+				metadata,
+			},
+		};
+	}
+}
@@ -0,0 +1,86 @@
+import { Num, OpenAPIRoute, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, MetadataListItem, successResponse } from "../types";
+import { getSourceKey, isMetadataKey } from "../metadata";
+
+// Bucket listing calls made per request before returning a partial page
+const MAX_LIST_CALLS = 10;
+
+export class MetadataList extends OpenAPIRoute {
+	schema = {
+		tags: ["Metadata"],
+		summary: "List metadata sidecars",
+		request: {
+			query: z.object({
+				prefix: Str({
+					description: "Only list sidecars for keys starting with this prefix",
+					required: false,
+				}),
+				cursor: Str({
+					description: "Cursor returned by the previous page",
+					required: false,
+				}),
+				limit: Num({
+					description: "Maximum number of sidecars to return (1-1000)",
+					default: 100,
+				}),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Returns a page of sidecars",
+				content: {
+					"application/json": {
+						schema: successResponse(z.object({
+							items: MetadataListItem.array(),
+							cursor: z.string().nullable(),
+							truncated: z.boolean(),
+						})),
+					},
+				},
+			},
+		},
+	};
+
+	async handle(c: AppContext) {
+		// Get validated data
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { prefix, cursor } = data.query;
+		const limit = Math.min(Math.max(Math.floor(data.query.limit), 1), 1000);
+
+		const items: z.infer<typeof MetadataListItem>[] = [];
+		let nextCursor: string | undefined = cursor;
+		let truncated = true;
+
+		// Source objects share the prefix, so keep listing until the page is full.
+		// Asking R2 for no more than the remaining count keeps the cursor exact.
+		for (let calls = 0; calls < MAX_LIST_CALLS && truncated && items.length < limit; calls++) {
+			const listing = await c.env.MEDIA_BUCKET.list({
+				prefix: prefix || '',
+				cursor: nextCursor,
+				limit: limit - items.length,
+			});
+			for (const object of listing.objects) {
+				if (isMetadataKey(object.key)) {
+					items.push({
+						key: getSourceKey(object.key),
+						metadataKey: object.key,
+						size: object.size,
+						uploaded: object.uploaded.toISOString(),
+					});
+				}
+			}
+			truncated = listing.truncated;
+			nextCursor = listing.truncated ? listing.cursor : undefined;
+		}
+
+		return {
+			success: true,
+			result: {
+				items,
+				cursor: nextCursor ?? null,
+				truncated,
+			},
+		};
+	}
+}
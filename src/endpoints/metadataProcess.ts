@@ -0,0 +1,86 @@
+import { ApiException, InputValidationException, NotFoundException, OpenAPIRoute } from "chanfana";
+import { ExecutionContext } from "@cloudflare/workers-types";
+import { z } from "zod";
+import { type AppContext, ObjectKeyParam, successResponse } from "../types";
+import { AiUsageSchema, MetadataSidecar } from "../sidecar";
+import { processKey } from "../processors";
+import { readMetadata } from "../metadata";
+import { recordOutcomes } from "../failures";
+import { recordUsage } from "../usage";
+
+// The processor ran but could not write a sidecar, usually because an upstream AI provider failed
+class ProcessingFailedException extends ApiException {
+	isVisible = true;
+	default_message = "Processing Failed";
+	status = 502;
+	code = 7502;
+}
+
+export class MetadataProcess extends OpenAPIRoute {
+	schema = {
+		tags: ["Metadata"],
+		summary: "Generate (or regenerate) the metadata sidecar for one object",
+		request: {
+			params: ObjectKeyParam,
+		},
+		responses: {
+			"200": {
+				description: "Returns the newly written sidecar and how the processor got on",
+				content: {
+					"application/json": {
+						schema: successResponse(z.object({
+							key: z.string(),
+							metadata: MetadataSidecar.nullable(),
+							outcome: z.object({
+								status: z.enum(["success", "fallback", "skipped"]),
+								reason: z.string().nullable(),
+								durationMs: z.number(),
+								aiUsage: AiUsageSchema.nullable().describe("Tokens and estimated cost of the AI calls made"),
+							}),
+						})),
+					},
+				},
+			},
+			...InputValidationException.schema(),
+			...NotFoundException.schema(),
+			...ProcessingFailedException.schema(),
+		},
+	};
+
+	async handle(c: AppContext) {
+		// Get validated data
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { key } = data.params;
+
+		const result = await processKey(key, c.env, c.executionCtx as ExecutionContext);
+		if (result === 'unsupported') {
+			throw new InputValidationException(`Unsupported file type: ${key}`, ["params", "key"]);
+		}
+		if (result === 'missing') {
+			throw new NotFoundException(`Object ${key} does not exist`);
+		}
+		try {
+			await recordOutcomes(c.env, [result]);
+		} catch (error) {
+			console.error(`Error updating failure ledger for ${key}:`, error);
+		}
+		await recordUsage(c.env, [result]);
+		if (result.status === 'failed') {
+			throw new ProcessingFailedException(`Processing ${key} failed: ${result.reason}`);
+		}
+
+		return {
+			success: true,
+			result: {
+				key,
+				metadata: await readMetadata(c.env, key),
+				outcome: {
+					status: result.status,
+					reason: result.reason,
+					durationMs: result.durationMs,
+					aiUsage: result.usage,
+				},
+			},
+		};
+	}
+}
@@ -0,0 +1,90 @@
+import { Num, OpenAPIRoute, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, FacetCount, SearchHit, successResponse } from "../types";
+import { getSearchIndex } from "../search";
+
+export class MetadataSearch extends OpenAPIRoute {
+	schema = {
+		tags: ["Search"],
+		summary: "Search captions, summaries, titles, tags and keys",
+		request: {
+			query: z.object({
+				q: Str({
+					description: "Free-text query. Every word must match; words also match as prefixes",
+					required: false,
+				}),
+				tags: Str({
+					description: "Comma-separated tags that must all be present",
+					required: false,
+				}),
+				type: Str({
+					description: "Only return sidecars of this type (image, pdf, document, video, audio, text)",
+					required: false,
+				}),
+				prefix: Str({
+					description: "Only return objects whose key starts with this prefix",
+					required: false,
+				}),
+				page: Num({
+					description: "Page number, starting at 1",
+					default: 1,
+				}),
+				limit: Num({
+					description: "Results per page (1-100)",
+					default: 20,
+				}),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Returns a page of ranked results with facet counts over all matches",
+				content: {
+					"application/json": {
+						schema: successResponse(z.object({
+							total: Num(),
+							page: Num(),
+							limit: Num(),
+							hits: SearchHit.array(),
+							facets: z.object({
+								tags: FacetCount.array(),
+								types: FacetCount.array(),
+							}),
+						})),
+					},
+				},
+			},
+		},
+	};
+
+	async handle(c: AppContext) {
+		// Get validated data
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { q, type, prefix } = data.query;
+		const page = Math.max(Math.floor(data.query.page), 1);
+		const limit = Math.min(Math.max(Math.floor(data.query.limit), 1), 100);
+		const tags = (data.query.tags || '')
+			.split(',')
+			.map(tag => tag.trim())
+			.filter(tag => tag.length > 0);
+
+		const results = await getSearchIndex(c.env).search({
+			q,
+			tags,
+			type,
+			prefix,
+			offset: (page - 1) * limit,
+			limit,
+		});
+
+		return {
+			success: true,
+			result: {
+				total: results.total,
+				page,
+				limit,
+				hits: results.hits,
+				facets: results.facets,
+			},
+		};
+	}
+}
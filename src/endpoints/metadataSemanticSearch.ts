@@ -0,0 +1,63 @@
+import { InputValidationException, Num, OpenAPIRoute, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, SimilarHit, successResponse } from "../types";
+import { embedText, getVectorStore } from "../search";
+
+export class MetadataSemanticSearch extends OpenAPIRoute {
+	schema = {
+		tags: ["Search"],
+		summary: "Natural-language search over captions and summaries",
+		request: {
+			query: z.object({
+				q: Str({
+					description: "What to look for, e.g. \"crowded night market\"",
+					example: "crowded night market",
+				}),
+				type: Str({
+					description: "Only return objects of this type (image, pdf, document, video, audio, text)",
+					required: false,
+				}),
+				limit: Num({
+					description: "Maximum number of results (1-50)",
+					default: 10,
+				}),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Returns the closest objects, most similar first",
+				content: {
+					"application/json": {
+						schema: successResponse(z.object({
+							q: z.string(),
+							hits: SimilarHit.array(),
+						})),
+					},
+				},
+			},
+			...InputValidationException.schema(),
+		},
+	};
+
+	async handle(c: AppContext) {
+		// Get validated data
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { type } = data.query;
+		const q = data.query.q.trim();
+		if (!q) {
+			throw new InputValidationException("Query must not be empty", ["query", "q"]);
+		}
+		const limit = Math.min(Math.max(Math.floor(data.query.limit), 1), 50);
+
+		const values = await embedText(c.env, q);
+		const hits = await getVectorStore(c.env).query(values, { topK: limit, type });
+
+		return {
+			success: true,
+			result: {
+				q,
+				hits,
+			},
+		};
+	}
+}
@@ -0,0 +1,63 @@
+import { NotFoundException, Num, OpenAPIRoute, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, ObjectKeyParam, SimilarHit, successResponse } from "../types";
+import { getVectorStore } from "../search";
+
+export class MetadataSimilar extends OpenAPIRoute {
+	schema = {
+		tags: ["Search"],
+		summary: "Find objects whose caption or summary is similar to this object's",
+		request: {
+			params: ObjectKeyParam,
+			query: z.object({
+				type: Str({
+					description: "Only return objects of this type (image, pdf, document, video, audio, text)",
+					required: false,
+				}),
+				limit: Num({
+					description: "Maximum number of results (1-50)",
+					default: 10,
+				}),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Returns the closest objects, most similar first",
+				content: {
+					"application/json": {
+						schema: successResponse(z.object({
+							key: z.string(),
+							hits: SimilarHit.array(),
+						})),
+					},
+				},
+			},
+			...NotFoundException.schema(),
+		},
+	};
+
+	async handle(c: AppContext) {
+		// Get validated data
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { key } = data.params;
+		const { type } = data.query;
+		const limit = Math.min(Math.max(Math.floor(data.query.limit), 1), 50);
+
+		const vectors = getVectorStore(c.env);
+		const vector = await vectors.get(key);
+		if (!vector) {
+			throw new NotFoundException(`No embedding found for ${key}`);
+		}
+
+		// Ask for one extra because the object itself is always the closest match
+		const matches = await vectors.query(vector.values, { topK: limit + 1, type });
+
+		return {
+			success: true,
+			result: {
+				key,
+				hits: matches.filter(match => match.key !== key).slice(0, limit),
+			},
+		};
+	}
+}
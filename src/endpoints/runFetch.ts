@@ -0,0 +1,43 @@
+import { NotFoundException, OpenAPIRoute, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, Run, successResponse } from "../types";
+import { readRun } from "../runs";
+
+export class RunFetch extends OpenAPIRoute {
+	schema = {
+		tags: ["Runs"],
+		summary: "Get one processing run, including its per-type counts and failed keys",
+		request: {
+			params: z.object({
+				id: Str({ description: "Run id", example: "8238071591999-9f86d081" }),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Returns the run",
+				content: {
+					"application/json": {
+						schema: successResponse(Run),
+					},
+				},
+			},
+			...NotFoundException.schema(),
+		},
+	};
+
+	async handle(c: AppContext) {
+		// Get validated data
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { id } = data.params;
+
+		const run = await readRun(c.env, id);
+		if (!run) {
+			throw new NotFoundException(`Run ${id} does not exist`);
+		}
+
+		return {
+			success: true,
+			result: run,
+		};
+	}
+}
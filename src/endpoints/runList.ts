@@ -0,0 +1,48 @@
+import { Num, OpenAPIRoute, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, Run, successResponse } from "../types";
+import { listRuns } from "../runs";
+
+export class RunList extends OpenAPIRoute {
+	schema = {
+		tags: ["Runs"],
+		summary: "List processing runs, newest first",
+		request: {
+			query: z.object({
+				cursor: Str({
+					description: "Cursor returned by the previous page",
+					required: false,
+				}),
+				limit: Num({
+					description: "Maximum number of runs to return (1-100)",
+					default: 20,
+				}),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Returns a page of runs",
+				content: {
+					"application/json": {
+						schema: successResponse(z.object({
+							runs: Run.array(),
+							cursor: z.string().nullable(),
+						})),
+					},
+				},
+			},
+		},
+	};
+
+	async handle(c: AppContext) {
+		// Get validated data
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { cursor } = data.query;
+		const limit = Math.min(Math.max(Math.floor(data.query.limit), 1), 100);
+
+		return {
+			success: true,
+			result: await listRuns(c.env, { cursor, limit }),
+		};
+	}
+}
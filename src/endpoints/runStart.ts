@@ -0,0 +1,76 @@
+import { Bool, contentJson, InputValidationException, OpenAPIRoute } from "chanfana";
+import { ExecutionContext } from "@cloudflare/workers-types";
+import { z } from "zod";
+import { type AppContext, Run, successResponse } from "../types";
+import { InvalidRunOptionsError, parseRunOptions } from "../scope";
+import { describeSweep, needsNewPass, runSweep } from "../sweep";
+import { RunOptions } from "../runs";
+
+export class RunStart extends OpenAPIRoute {
+	schema = {
+		tags: ["Runs"],
+		summary: "Run a slice of the sweep, starting a pass if needed",
+		description: "Without options this continues the pass in progress, or starts one. Any option starts a new pass with it, abandoning the one in progress, except that a dry run or a scoped run gets `busy` while a full pass is in progress. Each call runs one slice; the rest of the pass follows on the queue or the next cron ticks.",
+		request: {
+			body: contentJson(z.object({
+				forceReprocess: Bool({ description: "Regenerate sidecars even if they are up to date", required: false }),
+				dryRun: Bool({ description: "Process nothing; list the files that would be processed", required: false }),
+				maxFiles: z.number().int().positive().optional().describe("Stop the pass once it has processed this many files"),
+				prefix: z.string().optional().describe("Only keys starting with this"),
+				include: z.array(z.string()).optional().describe("Only keys matching one of these globs"),
+				exclude: z.array(z.string()).optional().describe("No keys matching any of these globs"),
+				types: z.array(z.string()).optional().describe("Only these media types"),
+				modifiedSince: z.string().optional().describe("Only objects uploaded on or after this date"),
+				budgetUsd: z.number().positive().optional().describe("Stop the pass once its AI calls have cost this many US dollars (estimated)"),
+			})),
+		},
+		responses: {
+			"200": {
+				description: "Returns what the slice did and the run so far",
+				content: {
+					"application/json": {
+						schema: successResponse(z.object({
+							sweep: z.enum(["processed", "busy", "idle"]),
+							message: z.string(),
+							done: z.boolean().describe("Whether the slice finished the pass"),
+							run: Run.nullable(),
+						})),
+					},
+				},
+			},
+			...InputValidationException.schema(),
+		},
+	};
+
+	async handle(c: AppContext) {
+		// Get validated data
+		const data = await this.getValidatedData<typeof this.schema>();
+		const body = data.body;
+
+		let options: RunOptions;
+		try {
+			options = parseRunOptions({
+				...body,
+				maxFiles: body.maxFiles === undefined ? null : String(body.maxFiles),
+				budgetUsd: body.budgetUsd === undefined ? null : String(body.budgetUsd),
+			});
+		} catch (error) {
+			if (error instanceof InvalidRunOptionsError) {
+				throw new InputValidationException(error.message, ["body"]);
+			}
+			throw error;
+		}
+
+		const outcome = await runSweep(c.env, c.executionCtx as ExecutionContext, 'http', { ...options, restart: needsNewPass(options) });
+
+		return {
+			success: true,
+			result: {
+				sweep: outcome.status,
+				message: describeSweep(c.env, outcome),
+				done: outcome.status === 'processed' && outcome.done,
+				run: outcome.run,
+			},
+		};
+	}
+}
@@ -0,0 +1,83 @@
+import { Num, OpenAPIRoute, Str } from "chanfana";
+import { z } from "zod";
+import { type AppContext, successResponse } from "../types";
+import { getSourceKey, isMetadataKey } from "../metadata";
+import { indexMetadata } from "../search";
+
+export class SearchReindex extends OpenAPIRoute {
+	schema = {
+		tags: ["Search"],
+		summary: "Rebuild search entries and embeddings from the sidecars already in the bucket",
+		description: "Indexes one page of the bucket listing per call. Keep calling with the returned cursor until `truncated` is false.",
+		request: {
+			query: z.object({
+				prefix: Str({
+					description: "Only reindex sidecars for keys starting with this prefix",
+					required: false,
+				}),
+				cursor: Str({
+					description: "Cursor returned by the previous call",
+					required: false,
+				}),
+				limit: Num({
+					description: "Objects to list in this call (1-1000). Each sidecar costs an embedding call, so keep this modest",
+					default: 100,
+				}),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Returns how many sidecars were indexed and where to continue",
+				content: {
+					"application/json": {
+						schema: successResponse(z.object({
+							indexed: Num(),
+							errors: Num(),
+							cursor: z.string().nullable(),
+							truncated: z.boolean(),
+						})),
+					},
+				},
+			},
+		},
+	};
+
+	async handle(c: AppContext) {
+		// Get validated data
+		const data = await this.getValidatedData<typeof this.schema>();
+		const { prefix, cursor } = data.query;
+		const limit = Math.min(Math.max(Math.floor(data.query.limit), 1), 1000);
+
+		const listing = await c.env.MEDIA_BUCKET.list({ prefix: prefix || '', cursor, limit });
+		let indexed = 0;
+		let errors = 0;
+
+		for (const object of listing.objects) {
+			if (!isMetadataKey(object.key)) {
+				continue;
+			}
+			const key = getSourceKey(object.key);
+			try {
+				const sidecar = await c.env.MEDIA_BUCKET.get(object.key);
+				if (!sidecar) {
+					continue;
+				}
+				await indexMetadata(c.env, key, await sidecar.json<Record<string, any>>());
+				indexed++;
+			} catch (error) {
+				console.error(`Error reindexing ${key}:`, error);
+				errors++;
+			}
+		}
+
+		return {
+			success: true,
+			result: {
+				indexed,
+				errors,
+				cursor: listing.truncated ? listing.cursor : null,
+				truncated: listing.truncated,
+			},
+		};
+	}
+}
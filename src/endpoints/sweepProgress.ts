@@ -0,0 +1,58 @@
+import { OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { type AppContext, Run, successResponse } from "../types";
+import { nextPassAt, readSweepState } from "../sweep";
+
+export class SweepProgress extends OpenAPIRoute {
+	schema = {
+		tags: ["Runs"],
+		summary: "Show how far the current sweep pass has got",
+		description: "The sweep walks the bucket in slices of `SWEEP_SLICE_SIZE` objects, saving its place after each one. Keys are listed in lexicographic order, so `lastKey` shows how far through the bucket the pass is.",
+		responses: {
+			"200": {
+				description: "Returns the sweep state",
+				content: {
+					"application/json": {
+						schema: successResponse(z.object({
+							active: z.boolean().describe("Whether a pass is in progress"),
+							run: Run.nullable().describe("The pass in progress, with its stats so far"),
+							listed: z.number().describe("Objects listed so far in this pass"),
+							lastKey: z.string().nullable().describe("Last key listed so far in this pass"),
+							sliceRunning: z.boolean().describe("Whether a slice is running right now"),
+							leaseExpiresAt: z.string().nullable(),
+							lastPass: z.object({
+								id: z.string(),
+								startedAt: z.string(),
+								finishedAt: z.string().nullable(),
+								status: z.enum(["running", "completed", "failed"]),
+							}).nullable(),
+							nextPassAt: z.string().nullable().describe("When the schedule starts the next pass, if none is in progress"),
+						})),
+					},
+				},
+			},
+		},
+	};
+
+	async handle(c: AppContext) {
+		const state = await readSweepState(c.env);
+		const sliceRunning = !!state.leaseExpiresAt && Date.parse(state.leaseExpiresAt) > Date.now();
+
+		// Scoped passes and dry runs do not put off the next scheduled pass
+		const nextPass = state.run ? null : nextPassAt(c.env, state).toISOString();
+
+		return {
+			success: true,
+			result: {
+				active: !!state.run,
+				run: state.run,
+				listed: state.run ? state.listed : 0,
+				lastKey: state.run ? state.lastKey : null,
+				sliceRunning,
+				leaseExpiresAt: sliceRunning ? state.leaseExpiresAt : null,
+				lastPass: state.lastPass,
+				nextPassAt: nextPass,
+			},
+		};
+	}
+}
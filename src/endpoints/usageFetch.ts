@@ -0,0 +1,54 @@
+import { Num, OpenAPIRoute } from "chanfana";
+import { z } from "zod";
+import { type AppContext, successResponse } from "../types";
+import { AiUsageSchema } from "../sidecar";
+import { getDefaultRunBudget, getMonthlyBudget, readMonthlyUsage, usageMonth } from "../usage";
+
+export class UsageFetch extends OpenAPIRoute {
+	schema = {
+		tags: ["Runs"],
+		summary: "Get the AI usage and estimated cost of one month",
+		description: "Counts every file processed in the month (UTC), by sweeps, upload events and the API. Costs are estimates from each provider's published prices; search queries are not counted.",
+		request: {
+			query: z.object({
+				month: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/).optional().describe("Month as YYYY-MM; defaults to the current one"),
+			}),
+		},
+		responses: {
+			"200": {
+				description: "Returns the month's usage and the configured budgets",
+				content: {
+					"application/json": {
+						schema: successResponse(z.object({
+							month: z.string(),
+							files: Num({ description: "Files whose processing made AI calls" }),
+							usage: AiUsageSchema,
+							updatedAt: z.string().nullable(),
+							budgets: z.object({
+								run: z.number().nullable().describe("RUN_BUDGET_USD, for runs that do not set their own"),
+								monthly: z.number().nullable().describe("MONTHLY_BUDGET_USD"),
+							}),
+						})),
+					},
+				},
+			},
+		},
+	};
+
+	async handle(c: AppContext) {
+		// Get validated data
+		const data = await this.getValidatedData<typeof this.schema>();
+		const month = data.query.month ?? usageMonth();
+
+		return {
+			success: true,
+			result: {
+				...await readMonthlyUsage(c.env, month),
+				budgets: {
+					run: getDefaultRunBudget(c.env) ?? null,
+					monthly: getMonthlyBudget(c.env),
+				},
+			},
+		};
+	}
+}
@@ -0,0 +1,33 @@
+import { Env } from './types';
+import type { Scheduler } from './scheduler';
+import type { UsageMeter } from './ai/usage';
+
+/**
+ * Helpers attached to an env for the work at hand: the scheduler of the sweep
+ * slice, and the meter counting the AI usage of the file being processed.
+ * Code that is only handed the env, such as getAiProvider, finds them here.
+ */
+export interface EnvContext {
+	scheduler?: Scheduler;
+	meter?: UsageMeter;
+	// AI results cached before this time are regenerated rather than copied; set
+	// by force-reprocess runs so each content is regenerated once per run
+	reuseResultsSince?: string;
+}
+
+// Contexts by the env copy they were attached to
+const contexts = new WeakMap<Env, EnvContext>();
+
+/**
+ * Returns a copy of `env` with `context` added to whatever context `env` had,
+ * and with some bindings replaced.
+ */
+export function withContext(env: Env, context: EnvContext, bindings: Partial<Env> = {}): Env {
+	const scoped: Env = { ...env, ...bindings };
+	contexts.set(scoped, { ...contexts.get(env), ...context });
+	return scoped;
+}
+
+export function getContext(env: Env): EnvContext {
+	return contexts.get(env) ?? {};
+}
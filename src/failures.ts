@@ -0,0 +1,154 @@
+import { Env } from './types';
+import { INTERNAL_PREFIX } from './metadata';
+import { ProcessorResult } from './processors/types';
+
+export const FAILURE_LEDGER_KEY = `${INTERNAL_PREFIX}failures.json`;
+
+// Failed attempts after which a file is dead-lettered, unless MAX_FAILURE_ATTEMPTS says otherwise
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+// The ledger is one object, so concurrent writers retry on an etag conflict
+const MAX_LEDGER_WRITES = 5;
+
+export interface FailureEntry {
+	key: string;
+	// Media type of the processor that failed, e.g. "image"
+	processor: string;
+	error: string;
+	attempts: number;
+	firstFailedAt: string;
+	lastAttemptAt: string;
+	// Version of the object that failed; a new upload starts again with a clean slate
+	sourceEtag: string | null;
+}
+
+/**
+ * Files whose last processing attempt failed. Those that failed too often are
+ * moved from `failures` to `deadLetter`, which the scheduled sweep skips.
+ * Both are keyed by object key.
+ */
+export interface FailureLedger {
+	failures: Record<string, FailureEntry>;
+	deadLetter: Record<string, FailureEntry>;
+}
+
+export function getMaxAttempts(env: Env): number {
+	const configured = Number(env.MAX_FAILURE_ATTEMPTS);
+	return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_ATTEMPTS;
+}
+
+export async function readFailureLedger(env: Env): Promise<FailureLedger> {
+	return (await readLedgerObject(env)).ledger;
+}
+
+/**
+ * Whether the sweep should leave an object alone because this version of it
+ * has already failed too often.
+ */
+export function isDeadLettered(ledger: FailureLedger, key: string, etag: string): boolean {
+	const entry = ledger.deadLetter[key];
+	return !!entry && (entry.sourceEtag === null || entry.sourceEtag === etag);
+}
+
+/**
+ * Updates the ledger with processor results in a single write: failures are
+ * counted (and dead-lettered once they reach the limit), anything else clears
+ * the key. Returns the updated ledger.
+ */
+export async function recordOutcomes(env: Env, results: ProcessorResult[]): Promise<FailureLedger> {
+	const maxAttempts = getMaxAttempts(env);
+	return await updateLedger(env, ledger => {
+		let changed = false;
+		for (const result of results) {
+			if (result.status === 'failed') {
+				recordFailure(ledger, result, maxAttempts);
+				changed = true;
+			} else {
+				changed = forget(ledger, result.key) || changed;
+			}
+		}
+		return changed;
+	});
+}
+
+/**
+ * Drops keys from the ledger, e.g. because the object was deleted.
+ */
+export async function removeFailures(env: Env, keys: string[]): Promise<FailureLedger> {
+	return await updateLedger(env, ledger => keys.reduce((changed, key) => forget(ledger, key) || changed, false));
+}
+
+function recordFailure(ledger: FailureLedger, result: ProcessorResult, maxAttempts: number): void {
+	const now = new Date().toISOString();
+	const wasDead = result.key in ledger.deadLetter;
+	const previous = ledger.failures[result.key] ?? ledger.deadLetter[result.key];
+	// Earlier attempts at a different version of the object do not count
+	const sameVersion = previous && previous.sourceEtag === result.sourceEtag;
+
+	const entry: FailureEntry = {
+		key: result.key,
+		processor: result.type,
+		error: result.reason ?? 'Unknown error',
+		attempts: sameVersion ? previous.attempts + 1 : 1,
+		firstFailedAt: sameVersion ? previous.firstFailedAt : now,
+		lastAttemptAt: now,
+		sourceEtag: result.sourceEtag,
+	};
+
+	forget(ledger, result.key);
+	if ((wasDead && sameVersion) || entry.attempts >= maxAttempts) {
+		if (!wasDead) {
+			console.warn(`Dead-lettering ${result.key} after ${entry.attempts} failed attempts`);
+		}
+		ledger.deadLetter[result.key] = entry;
+	} else {
+		ledger.failures[result.key] = entry;
+	}
+}
+
+function forget(ledger: FailureLedger, key: string): boolean {
+	if (!(key in ledger.failures) && !(key in ledger.deadLetter)) {
+		return false;
+	}
+	delete ledger.failures[key];
+	delete ledger.deadLetter[key];
+	return true;
+}
+
+async function readLedgerObject(env: Env): Promise<{ ledger: FailureLedger, etag: string | null }> {
+	const object = await env.MEDIA_BUCKET.get(FAILURE_LEDGER_KEY);
+	if (!object) {
+		return { ledger: { failures: {}, deadLetter: {} }, etag: null };
+	}
+	let stored: Partial<FailureLedger> = {};
+	try {
+		stored = await object.json<Partial<FailureLedger>>() ?? {};
+	} catch (error) {
+		// Start afresh rather than leaving every writer stuck on a corrupt ledger
+		console.error(`Ignoring unreadable ${FAILURE_LEDGER_KEY}:`, error);
+	}
+	return {
+		ledger: { failures: stored.failures ?? {}, deadLetter: stored.deadLetter ?? {} },
+		etag: object.etag,
+	};
+}
+
+// Read-modify-write with a conditional put, so concurrent writers (the sweep,
+// the queue consumer and the API) do not overwrite each other's entries.
+// `update` changes the ledger in place and returns whether it changed anything.
+async function updateLedger(env: Env, update: (ledger: FailureLedger) => boolean): Promise<FailureLedger> {
+	for (let attempt = 1; attempt <= MAX_LEDGER_WRITES; attempt++) {
+		const { ledger, etag } = await readLedgerObject(env);
+		if (!update(ledger)) {
+			return ledger;
+		}
+		const written = await env.MEDIA_BUCKET.put(FAILURE_LEDGER_KEY, JSON.stringify(ledger, null, 2), {
+			httpMetadata: { contentType: 'application/json' },
+			onlyIf: etag ? { etagMatches: etag } : { etagDoesNotMatch: '*' },
+		});
+		if (written) {
+			return ledger;
+		}
+	}
+	throw new Error(`Could not update ${FAILURE_LEDGER_KEY}: it kept changing underneath us`);
+}
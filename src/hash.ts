@@ -0,0 +1,8 @@
+/**
+ * Hex SHA-256 of some bytes. Kept free of imports so any module can hash
+ * without pulling in (and forming a cycle with) the content cache or metadata.
+ */
+export async function sha256Hex(bytes: Uint8Array): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', bytes);
+	return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
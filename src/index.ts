@@ -12,10 +12,35 @@
  * Learn more about developing Workers at https://developers.cloudflare.com/workers/
  */
 
-import { ExecutionContext, R2Bucket, ScheduledController } from '@cloudflare/workers-types';
-import { Env } from './types'; // Import Env from the new file
-import { processImage } from './processors/image'; // Import processImage
-import { processPdf } from './processors/pdf'; // Import processPdf
+import { ExecutionContext, MessageBatch, R2Bucket, ScheduledController } from '@cloudflare/workers-types';
+import { Env, R2EventNotification, SweepContinuation } from './types'; // Import Env from the new file
+import { FailureLedger, getMaxAttempts, readFailureLedger } from './failures';
+import { listRuns, ProcessingStats, RunOptions, RunRecord } from './runs';
+import { describeSweep, needsNewPass, readSweepState, runSweep } from './sweep';
+import { InvalidRunOptionsError, parseRunOptions } from './scope';
+import { MEDIA_TYPES } from './processors';
+import { handleQueueBatch } from './queue';
+import { ApiException, fromHono } from 'chanfana';
+import { Hono } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { MetadataDelete } from './endpoints/metadataDelete';
+import { MetadataFetch } from './endpoints/metadataFetch';
+import { MetadataList } from './endpoints/metadataList';
+import { MetadataProcess } from './endpoints/metadataProcess';
+import { MetadataSearch } from './endpoints/metadataSearch';
+import { MetadataSemanticSearch } from './endpoints/metadataSemanticSearch';
+import { MetadataSimilar } from './endpoints/metadataSimilar';
+import { SearchReindex } from './endpoints/searchReindex';
+import { FailureList } from './endpoints/failureList';
+import { FailureRetry } from './endpoints/failureRetry';
+import { RunFetch } from './endpoints/runFetch';
+import { RunList } from './endpoints/runList';
+import { SweepProgress } from './endpoints/sweepProgress';
+import { RunStart } from './endpoints/runStart';
+import { UsageFetch } from './endpoints/usageFetch';
+import { DuplicateList } from './endpoints/duplicateList';
+import { formatUsd, getMonthlyBudget, readMonthlyUsage, usageMonth } from './usage';
+import { authenticate, AuthEnv, clearedSessionCookie, createSession, Role, sessionCookie } from './auth';
 
 // Define the environment bindings expected by the worker - MOVED to types.ts
 // export interface Env { ... }
@@ -29,132 +54,11 @@ import { processPdf } from './processors/pdf'; // Import processPdf
 // Function to process PDF files - MOVED to processors/pdf.ts
 // async function processPdf(objectMetadata: R2Object, env: Env, ctx: ExecutionContext): Promise<void> { ... }
 
-// TODO: Define processVideo function similarly
-
-// Helper function to contain our main worker logic
-async function processAllMedia(env: Env, ctx: ExecutionContext, options: { forceReprocess?: boolean } = {}): Promise<{ processed: number, skipped: number, errors: number }> {
-	console.log('Starting media processing...');
-	
-	const stats = {
-		processed: 0,
-		skipped: 0,
-		errors: 0
-	};
-
-	try {
-		const listOptions = {
-			prefix: '', // List all objects
-			limit: 500, // Adjust as needed, max 1000
-			delimiter: undefined, // Do not group by directories
-			include: ['httpMetadata', 'customMetadata'], // Include metadata if needed
-		};
-
-		let truncated = true;
-		let cursor: string | undefined = undefined;
-
-		while (truncated) {
-			const listing = await env.MEDIA_BUCKET.list({
-				...listOptions,
-				cursor: cursor,
-			});
-
-			console.log(`Found ${listing.objects.length} objects in this batch.`);
-
-			// Process the objects found in listing.objects
-			const processingPromises: Promise<void>[] = [];
-			for (const object of listing.objects) {
-				const objectName = object.key;
-				// Skip metadata files themselves
-				if (objectName.endsWith('.metadata.json')) {
-					continue;
-				}
-				
-				const metadataFilename = `${objectName}.metadata.json`;
-
-				// 1. Check file extension
-				const supportedExtensions = ['.jpg', '.jpeg', '.png', '.mp4', '.pdf'];
-				const fileExtension = objectName.substring(objectName.lastIndexOf('.')).toLowerCase();
-				if (!supportedExtensions.includes(fileExtension)) {
-					// console.log(`Skipping unsupported file type: ${objectName}`);
-					stats.skipped++;
-					continue; // Skip this object
-				}
-
-				// 2. Check if metadata already exists (unless force reprocess is enabled)
-				if (!options.forceReprocess) {
-					const metadataCheckPromise = env.MEDIA_BUCKET.head(metadataFilename).then(metadataObject => {
-						if (metadataObject !== null) {
-							// console.log(`Metadata already exists for: ${objectName}`);
-							stats.skipped++;
-							return; // Metadata exists, skip processing
-						}
-
-						return processFile(object, fileExtension, env, ctx, stats);
-					}).catch(err => {
-						console.error(`Error checking metadata for ${objectName}:`, err);
-						stats.errors++;
-					});
-
-					processingPromises.push(metadataCheckPromise);
-				} else {
-					// Force reprocess is enabled, process regardless of existing metadata
-					console.log(`Force reprocessing file: ${objectName}`);
-					const processPromise = processFile(object, fileExtension, env, ctx, stats)
-						.catch(err => {
-							console.error(`Error processing ${objectName}:`, err);
-							stats.errors++;
-						});
-					
-					processingPromises.push(processPromise);
-				}
-			}
-
-			// Wait for all metadata checks to resolve
-			await Promise.allSettled(processingPromises);
-
-			truncated = listing.truncated;
-			cursor = listing.truncated ? listing.cursor : undefined;
-		}
-
-		console.log('Finished listing objects.');
-
-	} catch (error) {
-		console.error('Error listing R2 bucket:', error);
-		stats.errors++;
-	}
-	
-	return stats;
-}
-
-// Helper function to process a single file based on its extension
-async function processFile(object: R2Object, fileExtension: string, env: Env, ctx: ExecutionContext, stats: { processed: number, skipped: number, errors: number }): Promise<void> {
-	const objectName = object.key;
-	console.log(`Processing file: ${objectName}`);
-	
-	try {
-		// Call the appropriate processing function based on fileExtension
-		if (['.jpg', '.jpeg', '.png'].includes(fileExtension)) {
-			// Enqueue the processing task to ensure it completes
-			await processImage(object, env, ctx);
-			stats.processed++;
-		} else if (fileExtension === '.mp4') {
-			// processVideo not yet implemented
-			console.log(`Video processing not yet implemented for: ${objectName}`);
-			stats.skipped++;
-		} else if (fileExtension === '.pdf') {
-			// Enqueue the processing task
-			await processPdf(object, env, ctx);
-			stats.processed++;
-		}
-	} catch (error) {
-		console.error(`Error processing ${objectName}:`, error);
-		stats.errors++;
-		throw error; // Rethrow to be caught by the caller
-	}
-}
+// Function to walk the bucket and process everything that needs it - MOVED to sweep.ts (as resumable slices)
+// async function processAllMedia(env: Env, ctx: ExecutionContext, options): Promise<ProcessingStats> { ... }
 
 // HTML template for the UI
-function getHtmlTemplate(message = '', processingStats = null, diagnostics = '') {
+function getHtmlTemplate(message = '', processingStats = null, diagnostics = '', failures = '', history = '', role: Role | null = null) {
 	return `<!DOCTYPE html>
 <html lang="en">
 <head>
@@ -173,6 +77,17 @@ function getHtmlTemplate(message = '', processingStats = null, diagnostics = '')
 		h1 {
 			color: #2563eb;
 		}
+		.session {
+			display: flex;
+			justify-content: flex-end;
+			align-items: center;
+			gap: 10px;
+			color: #6b7280;
+		}
+		.session button {
+			padding: 4px 10px;
+			font-size: 14px;
+		}
 		.card {
 			background-color: #f9fafb;
 			border-radius: 8px;
@@ -213,7 +128,7 @@ function getHtmlTemplate(message = '', processingStats = null, diagnostics = '')
 		}
 		.stats {
 			display: grid;
-			grid-template-columns: repeat(3, 1fr);
+			grid-template-columns: repeat(auto-fit, minmax(140px, 1fr));
 			gap: 10px;
 			margin-top: 20px;
 		}
@@ -238,6 +153,29 @@ function getHtmlTemplate(message = '', processingStats = null, diagnostics = '')
 		.stat-card.errors p {
 			color: #ef4444;
 		}
+		table {
+			width: 100%;
+			border-collapse: collapse;
+			margin-top: 10px;
+		}
+		th, td {
+			text-align: left;
+			padding: 6px 8px;
+			border-bottom: 1px solid #e2e8f0;
+			font-size: 14px;
+		}
+		.badge {
+			display: inline-block;
+			padding: 0 6px;
+			border-radius: 4px;
+			font-size: 12px;
+			background-color: #fee2e2;
+			color: #b91c1c;
+		}
+		td.reason {
+			color: #b91c1c;
+			word-break: break-word;
+		}
 		.diagnostic {
 			background-color: #f8fafc;
 			padding: 15px;
@@ -256,24 +194,76 @@ function getHtmlTemplate(message = '', processingStats = null, diagnostics = '')
 		.checkbox-wrapper input[type="checkbox"] {
 			margin-right: 8px;
 		}
+		.checkbox-wrapper input[type="number"],
+		.checkbox-wrapper input[type="date"] {
+			width: 140px;
+			margin-left: 8px;
+		}
+		.checkbox-wrapper input[type="text"] {
+			flex: 1;
+			margin-left: 8px;
+		}
+		.checkbox-wrapper .type-option {
+			margin-left: 12px;
+		}
 	</style>
 </head>
 <body>
+	${role ? `
+	<div class="session">
+		Signed in (${role})
+		<form method="POST" action="/logout"><button type="submit">Sign out</button></form>
+	</div>
+	` : ''}
 	<h1>R2 Metadata Generator</h1>
 	
+	${role === 'operator' ? `
 	<div class="card">
 		<h2>Manual Execution</h2>
-		<p>Click the button below to start processing media files in your R2 bucket.</p>
+		<p>Click the button below to process the next slice of media files in your R2 bucket. This continues the pass in progress, or starts a new one. Setting any of the options below starts a new pass with them.</p>
 		<form method="POST">
 			<div class="options">
 				<div class="checkbox-wrapper">
 					<input type="checkbox" id="force-reprocess" name="force-reprocess" value="1">
 					<label for="force-reprocess">Force Reprocess (regenerate metadata even if it already exists)</label>
 				</div>
+				<div class="checkbox-wrapper">
+					<input type="checkbox" id="dry-run" name="dry-run" value="1">
+					<label for="dry-run">Dry Run (only list the files that would be processed, and why)</label>
+				</div>
+				<div class="checkbox-wrapper">
+					<label for="prefix">Prefix</label>
+					<input type="text" id="prefix" name="prefix" placeholder="campaigns/2025/">
+				</div>
+				<div class="checkbox-wrapper">
+					<label for="include">Include globs</label>
+					<input type="text" id="include" name="include" placeholder="**/*.pdf, hero-*.jpg">
+				</div>
+				<div class="checkbox-wrapper">
+					<label for="exclude">Exclude globs</label>
+					<input type="text" id="exclude" name="exclude" placeholder="**/drafts/**">
+				</div>
+				<div class="checkbox-wrapper">
+					<span>Types</span>
+					${MEDIA_TYPES.map(type => `<label class="type-option"><input type="checkbox" name="types" value="${type}"> ${type}</label>`).join('')}
+				</div>
+				<div class="checkbox-wrapper">
+					<label for="modified-since">Modified since</label>
+					<input type="date" id="modified-since" name="modified-since">
+				</div>
+				<div class="checkbox-wrapper">
+					<label for="max-files">Max files per pass (leave empty for no limit)</label>
+					<input type="number" id="max-files" name="max-files" min="1">
+				</div>
+				<div class="checkbox-wrapper">
+					<label for="budget-usd">AI budget for the pass in US dollars (leave empty for the RUN_BUDGET_USD default, if any)</label>
+					<input type="number" id="budget-usd" name="budget-usd" min="0.01" step="0.01">
+				</div>
 			</div>
 			<button type="submit">Process Media Files</button>
 		</form>
 	</div>
+	` : ''}
 
 	${diagnostics}
 
@@ -289,24 +279,88 @@ function getHtmlTemplate(message = '', processingStats = null, diagnostics = '')
 			<h3>Processed</h3>
 			<p>${processingStats.processed}</p>
 		</div>
+		<div class="stat-card">
+			<h3>Fallback</h3>
+			<p>${processingStats.fallback}</p>
+		</div>
 		<div class="stat-card">
 			<h3>Skipped</h3>
 			<p>${processingStats.skipped}</p>
 		</div>
+		<div class="stat-card">
+			<h3>Dead-lettered</h3>
+			<p>${processingStats.deadLettered}</p>
+		</div>
+		<div class="stat-card">
+			<h3>Migrated</h3>
+			<p>${processingStats.migrated}</p>
+		</div>
+		<div class="stat-card">
+			<h3>Stale</h3>
+			<p>${processingStats.stale}</p>
+		</div>
 		<div class="stat-card errors">
 			<h3>Errors</h3>
 			<p>${processingStats.errors}</p>
 		</div>
+		${processingStats.filtered ? `
+		<div class="stat-card">
+			<h3>Filtered</h3>
+			<p>${processingStats.filtered}</p>
+		</div>
+		` : ''}
+		${processingStats.mismatched ? `
+		<div class="stat-card">
+			<h3>Mismatched</h3>
+			<p>${processingStats.mismatched}</p>
+		</div>
+		` : ''}
+		${processingStats.planned ? `
+		<div class="stat-card">
+			<h3>Would Process</h3>
+			<p>${processingStats.planned}</p>
+		</div>
+		` : ''}
+		${processingStats.aiUsage?.calls ? `
+		<div class="stat-card">
+			<h3>AI Spend</h3>
+			<p>${formatUsd(processingStats.aiUsage.costUsd)}</p>
+		</div>
+		` : ''}
+	</div>
+	${processingStats.paused ? `
+	<div class="status error">
+		Run paused early: ${escapeHtml(processingStats.paused)}. Files not reached will be processed by the next run.
 	</div>
 	` : ''}
+	${processingStats.maxFilesReached ? `
+	<div class="status">
+		The pass reached its maximum number of files. Files not reached will be processed by the next pass.
+	</div>
+	` : ''}
+	${processingStats.budgetReached ? `
+	<div class="status error">
+		${escapeHtml(processingStats.budgetReached)}. Files not reached will be processed by the next pass.
+	</div>
+	` : ''}
+	${getResultsHtml(processingStats)}
+	${getPlannedHtml(processingStats)}
+	` : ''}
+
+	${failures}
+
+	${history}
 
 	<div class="card">
 		<h2>How It Works</h2>
 		<p>This worker scans your R2 bucket for media files and generates descriptive metadata:</p>
 		<ul>
-			<li><strong>Images:</strong> Generates captions and tags using OpenAI's vision models</li>
-			<li><strong>PDFs:</strong> Creates basic metadata (currently placeholder for summarization)</li>
-			<li><strong>Videos:</strong> Not yet implemented</li>
+			<li><strong>Images:</strong> Reads embedded EXIF/XMP/IPTC metadata and generates captions and tags with the configured vision model (OpenAI by default)</li>
+			<li><strong>PDFs:</strong> Extracts the text of each page, the properties and the bookmarks, summarises the pages in chunks with the configured text model (Workers AI by default), then rolls the page summaries up into a summary and tags for the document</li>
+			<li><strong>Office documents:</strong> Reads the text of Word documents, the slides and notes of PowerPoint presentations and a sample of each Excel sheet, then summarises and tags it like a PDF</li>
+			<li><strong>Videos:</strong> Reads duration, resolution, codecs, frame rate and audio tracks from the MP4 container</li>
+			<li><strong>Audio:</strong> Reads duration, bitrate, sample rate, channels and tags from MP3, WAV and M4A files, then transcribes them with a speech-to-text model and summarises and tags the transcript</li>
+			<li><strong>Text:</strong> Detects the encoding of plain text, Markdown, CSV and JSON files and reads their headings, column schema or top-level structure, then summarises and tags them like a PDF</li>
 		</ul>
 		<p>Metadata is stored alongside the original files as JSON.</p>
 	</div>
@@ -314,168 +368,571 @@ function getHtmlTemplate(message = '', processingStats = null, diagnostics = '')
 </html>`;
 }
 
-export default {
-	/**
-	 * This function is triggered by the cron schedule defined in wrangler.toml.
-	 */
-	async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
-		console.log(`Scheduled event triggered at: ${new Date(controller.scheduledTime)}`);
-		
-		// By default, don't force reprocess in scheduled runs
-		// To force reprocess, you'd need to trigger it manually with the force option
-		const forceReprocess = false;
-		
-		await processAllMedia(env, ctx, { forceReprocess });
-	},
+// Generate the per-type breakdown and the list of failed keys for a run
+function getResultsHtml(stats: ProcessingStats): string {
+	const types = Object.entries(stats.byType);
+	if (types.length === 0) {
+		return '';
+	}
 
-	/**
-	 * This function handles HTTP requests to enable manual execution and provide a simple UI.
-	 */
-	async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-		const url = new URL(request.url);
-		
-		// Check if this is a cron trigger or similar service worker by looking at the user agent
-		const userAgent = request.headers.get('User-Agent') || '';
-		const isCronTrigger = userAgent.includes('Cloudflare-Workers') || 
-							userAgent.includes('Cloudflare-Scheduler') || 
-							userAgent.includes('Cronjob');
-							
-		if (isCronTrigger) {
-			console.log('Detected cron trigger or service worker request, running scheduled processing');
-			
-			// Check for force parameter in scheduled requests too
-			const forceReprocess = url.searchParams.has('force');
-			
-			// Process media but return minimal response
-			try {
-				const stats = await processAllMedia(env, ctx, { forceReprocess });
-				return new Response(JSON.stringify({
-					status: 'success',
-					message: 'Scheduled processing completed',
-					forceReprocess,
-					stats
-				}), {
-					headers: { 'Content-Type': 'application/json' }
-				});
-			} catch (error: any) {
-				return new Response(JSON.stringify({
-					status: 'error',
-					message: error.message || 'Unknown error'
-				}), {
-					status: 500,
-					headers: { 'Content-Type': 'application/json' }
-				});
-			}
+	const typeRows = types.map(([type, counts]) => {
+		const ran = counts.success + counts.fallback + counts.failed + counts.skipped;
+		return `
+				<tr>
+					<td>${escapeHtml(type)}</td>
+					<td>${counts.success}</td>
+					<td>${counts.fallback}</td>
+					<td>${counts.failed}</td>
+					<td>${counts.skipped}</td>
+					<td>${ran > 0 ? Math.round(counts.totalMs / ran) : 0} ms</td>
+				</tr>`;
+	}).join('');
+
+	const failedRows = stats.failed.map(failure => `
+				<tr>
+					<td>${escapeHtml(failure.key)}</td>
+					<td>${escapeHtml(failure.type)}</td>
+					<td class="reason">${escapeHtml(failure.reason)}</td>
+				</tr>`).join('');
+	const unlisted = stats.errors - stats.failed.length;
+
+	return `
+	<div class="card">
+		<h2>Results by Type</h2>
+		<table>
+			<thead>
+				<tr><th>Type</th><th>Success</th><th>Fallback</th><th>Failed</th><th>Skipped</th><th>Avg. time</th></tr>
+			</thead>
+			<tbody>${typeRows}
+			</tbody>
+		</table>
+	</div>
+	${stats.failed.length > 0 ? `
+	<div class="card">
+		<h2>Failed Files</h2>
+		<table>
+			<thead>
+				<tr><th>Key</th><th>Type</th><th>Reason</th></tr>
+			</thead>
+			<tbody>${failedRows}
+			</tbody>
+		</table>
+		${unlisted > 0 ? `<p>…and ${unlisted} more errors not listed.</p>` : ''}
+	</div>
+	` : ''}
+	${getUsageHtml(stats)}
+	${getQueueWaitsHtml(stats)}`;
+}
+
+// Dry-run keys shown on the page; the run record lists up to 1000
+const MAX_PLANNED_ROWS = 100;
+
+// Generate the list of files a dry run would process
+function getPlannedHtml(stats: ProcessingStats): string {
+	const planned = stats.plannedKeys ?? [];
+	if (planned.length === 0) {
+		return '';
+	}
+
+	const rows = planned.slice(0, MAX_PLANNED_ROWS).map(entry => `
+				<tr>
+					<td>${escapeHtml(entry.key)}</td>
+					<td>${escapeHtml(entry.type)}</td>
+					<td>${escapeHtml(entry.reason)}</td>
+				</tr>`).join('');
+	const unlisted = stats.planned - Math.min(planned.length, MAX_PLANNED_ROWS);
+
+	return `
+	<div class="card">
+		<h2>Would Process</h2>
+		<table>
+			<thead>
+				<tr><th>Key</th><th>Type</th><th>Reason</th></tr>
+			</thead>
+			<tbody>${rows}
+			</tbody>
+		</table>
+		${unlisted > 0 ? `<p>…and ${unlisted} more; see the run record for up to 1000.</p>` : ''}
+	</div>`;
+}
+
+// Generate the breakdown of a run's AI calls by model
+function getUsageHtml(stats: ProcessingStats): string {
+	const models = Object.entries(stats.aiUsage?.byModel ?? {});
+	if (models.length === 0) {
+		return '';
+	}
+
+	const rows = models.map(([model, usage]) => `
+				<tr>
+					<td>${escapeHtml(model)}</td>
+					<td>${usage.calls}</td>
+					<td>${usage.promptTokens}</td>
+					<td>${usage.completionTokens}</td>
+					<td>${usage.neurons ? Math.round(usage.neurons) : ''}</td>
+					<td>${formatUsd(usage.costUsd)}</td>
+				</tr>`).join('');
+
+	return `
+	<div class="card">
+		<h2>AI Usage</h2>
+		<p>Costs are estimates from each provider's published prices.</p>
+		<table>
+			<thead>
+				<tr><th>Model</th><th>Calls</th><th>Prompt tokens</th><th>Completion tokens</th><th>Neurons</th><th>Est. cost</th></tr>
+			</thead>
+			<tbody>${rows}
+			</tbody>
+		</table>
+	</div>`;
+}
+
+// Generate the table of time spent waiting for a concurrency slot
+function getQueueWaitsHtml(stats: ProcessingStats): string {
+	const queues = Object.entries(stats.queueWaits ?? {}).filter(([, wait]) => wait.tasks > 0);
+	if (queues.length === 0) {
+		return '';
+	}
+
+	const rows = queues.map(([queue, wait]) => `
+				<tr>
+					<td>${escapeHtml(queue)}</td>
+					<td>${wait.tasks}</td>
+					<td>${Math.round(wait.totalWaitMs / wait.tasks)} ms</td>
+					<td>${wait.maxWaitMs} ms</td>
+				</tr>`).join('');
+
+	return `
+	<div class="card">
+		<h2>Queue Waits</h2>
+		<table>
+			<thead>
+				<tr><th>Queue</th><th>Tasks</th><th>Avg. wait</th><th>Max. wait</th></tr>
+			</thead>
+			<tbody>${rows}
+			</tbody>
+		</table>
+	</div>`;
+}
+
+// Runs shown in the history table; GET /runs pages through the rest
+const HISTORY_ROWS = 10;
+
+// Generate the progress of the current pass and the table of recent runs
+async function getHistoryHtml(env: Env): Promise<string> {
+	let runs: RunRecord[];
+	let progress = '';
+	let spend = '';
+	try {
+		runs = (await listRuns(env, { limit: HISTORY_ROWS })).runs;
+		const sweep = await readSweepState(env);
+		if (sweep.run) {
+			progress = `<p>Pass in progress: ${sweep.listed} objects listed in ${sweep.run.slices} slice(s)${sweep.lastKey ? `, up to <code>${escapeHtml(sweep.lastKey)}</code>` : ''}. See <a href="/sweep">/sweep</a> for details.</p>`;
 		}
-		
-		// Add a simple test endpoint to debug R2 access
-		if (url.pathname === '/test-r2') {
-			// Simple logging to debug
-			console.log('MEDIA_BUCKET binding type:', typeof env.MEDIA_BUCKET);
-			console.log('Available environment bindings:', Object.keys(env));
-			
-			try {
-				if (!env.MEDIA_BUCKET) {
-					return new Response(JSON.stringify({
-						success: false,
-						error: 'MEDIA_BUCKET binding is undefined',
-						availableBindings: Object.keys(env),
-						environment: {
-							// Include additional environment info
-							nodeVersion: process.versions?.node || 'unknown',
-							bindingType: typeof env.MEDIA_BUCKET,
-							hasMediaBucketProperty: 'MEDIA_BUCKET' in env
-						}
-					}, null, 2), { 
-						status: 500,
-						headers: { 'Content-Type': 'application/json' }
-					});
-				}
-				
-				// Check if the binding has the correct type
-				if (typeof env.MEDIA_BUCKET.list !== 'function') {
-					return new Response(JSON.stringify({
-						success: false,
-						error: 'MEDIA_BUCKET binding exists but does not appear to be an R2 bucket',
-						bindingType: typeof env.MEDIA_BUCKET,
-						hasListMethod: typeof env.MEDIA_BUCKET.list === 'function'
-					}, null, 2), { 
-						status: 500,
-						headers: { 'Content-Type': 'application/json' }
-					});
-				}
-				
-				// Try listing just 1 object to test access
-				const listing = await env.MEDIA_BUCKET.list({
-					limit: 1
-				});
-				
-				return new Response(JSON.stringify({
-					success: true,
-					bucketAvailable: true,
-					objectCount: listing.objects.length,
-					objects: listing.objects.map(obj => ({
-						key: obj.key,
-						size: obj.size
-					}))
-				}, null, 2), {
-					headers: { 'Content-Type': 'application/json' }
-				});
-			} catch (error: any) {
-				return new Response(JSON.stringify({
-					success: false,
-					error: error.message,
-					stack: error.stack,
-					bucketAvailable: !!env.MEDIA_BUCKET
-				}, null, 2), {
-					status: 500,
-					headers: { 'Content-Type': 'application/json' }
-				});
-			}
+		const month = await readMonthlyUsage(env);
+		const budget = getMonthlyBudget(env);
+		spend = `<p>Estimated AI spend in ${usageMonth()}: ${formatUsd(month.usage.costUsd)}${budget !== null ? ` of the ${formatUsd(budget)} monthly budget` : ''} (${month.files} files). See <a href="/usage">/usage</a> for details.</p>`;
+	} catch (error) {
+		console.error('Error listing runs:', error);
+		return '';
+	}
+	if (runs.length === 0) {
+		return '';
+	}
+
+	const rows = runs.map(run => {
+		const stats = run.stats;
+		let outcome: string = run.status;
+		if (run.status === 'failed') {
+			outcome = `<span class="badge">failed</span> ${escapeHtml(run.error ?? '')}`;
+		} else if (run.status === 'running' && stats.paused) {
+			outcome = `running (paused: ${escapeHtml(stats.paused)})`;
+		} else if (stats.budgetReached) {
+			outcome = `${run.status} (${escapeHtml(stats.budgetReached)})`;
 		}
-		
-		// Generate diagnostics HTML
-		const diagnosticsHtml = `
+		return `
+				<tr>
+					<td><a href="/runs/${run.id}">${escapeHtml(run.startedAt)}</a></td>
+					<td>${run.trigger}${escapeHtml(describeOptions(run.options))}</td>
+					<td>${outcome}</td>
+					<td>${run.durationMs === null ? '' : `${(run.durationMs / 1000).toFixed(1)} s`}</td>
+					<td>${stats.processed}</td>
+					<td>${stats.fallback}</td>
+					<td>${stats.errors}</td>
+					<td>${stats.aiUsage?.calls ? formatUsd(stats.aiUsage.costUsd) : ''}</td>
+				</tr>`;
+	}).join('');
+
+	return `
+	<div class="card">
+		<h2>Run History</h2>
+		${progress}
+		${spend}
+		<table>
+			<thead>
+				<tr><th>Started</th><th>Trigger</th><th>Status</th><th>Duration</th><th>Processed</th><th>Fallback</th><th>Errors</th><th>AI spend</th></tr>
+			</thead>
+			<tbody>${rows}
+			</tbody>
+		</table>
+	</div>`;
+}
+
+// Rows shown in the failures table; GET /failures has the full list
+const MAX_FAILURE_ROWS = 50;
+
+// Generate the failures table from the ledger, dead-lettered files first
+async function getFailuresHtml(env: Env, canRetry: boolean): Promise<string> {
+	let ledger: FailureLedger;
+	try {
+		ledger = await readFailureLedger(env);
+	} catch (error) {
+		console.error('Error reading failure ledger:', error);
+		return '';
+	}
+
+	const byRecency = (a: { lastAttemptAt: string }, b: { lastAttemptAt: string }) => b.lastAttemptAt.localeCompare(a.lastAttemptAt);
+	const entries = [
+		...Object.values(ledger.deadLetter).sort(byRecency).map(entry => ({ entry, dead: true })),
+		...Object.values(ledger.failures).sort(byRecency).map(entry => ({ entry, dead: false })),
+	];
+	if (entries.length === 0) {
+		return '';
+	}
+
+	const maxAttempts = getMaxAttempts(env);
+	const rows = entries.slice(0, MAX_FAILURE_ROWS).map(({ entry, dead }) => `
+				<tr>
+					<td>${escapeHtml(entry.key)}${dead ? ' <span class="badge">dead-lettered</span>' : ''}</td>
+					<td>${escapeHtml(entry.processor)}</td>
+					<td>${entry.attempts} / ${maxAttempts}</td>
+					<td>${escapeHtml(entry.lastAttemptAt)}</td>
+					<td class="reason">${escapeHtml(entry.error)}</td>
+				</tr>`).join('');
+
+	return `
+	<div class="card">
+		<h2>Failures</h2>
+		<p>Files that failed ${maxAttempts} times are dead-lettered and skipped by the sweep until they are retried or re-uploaded.</p>
+		<table>
+			<thead>
+				<tr><th>Key</th><th>Type</th><th>Attempts</th><th>Last attempt</th><th>Error</th></tr>
+			</thead>
+			<tbody>${rows}
+			</tbody>
+		</table>
+		${entries.length > MAX_FAILURE_ROWS ? `<p>…and ${entries.length - MAX_FAILURE_ROWS} more, see <a href="/failures">/failures</a>.</p>` : ''}
+		${canRetry ? `
+		<p><button type="button" id="retry-failures">Retry Failed Files</button></p>
+		<script>
+			document.getElementById('retry-failures').addEventListener('click', async (event) => {
+				event.target.disabled = true;
+				event.target.textContent = 'Retrying…';
+				await fetch('/failures/retry', { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{}' });
+				location.href = '/';
+			});
+		</script>
+		` : ''}
+	</div>`;
+}
+
+// The options a run was started with, as shown next to its trigger
+function describeOptions(options: RunOptions): string {
+	const labels = [
+		options.dryRun && 'dry run',
+		options.forceReprocess && 'force',
+		options.maxFiles && `max ${options.maxFiles}`,
+		options.budgetUsd && `budget ${formatUsd(options.budgetUsd)}`,
+		options.prefix && `prefix ${options.prefix}`,
+		options.include && `include ${options.include.join(', ')}`,
+		options.exclude && `exclude ${options.exclude.join(', ')}`,
+		options.types && options.types.join(', '),
+		options.modifiedSince && `since ${options.modifiedSince.slice(0, 10)}`,
+	].filter(Boolean);
+	return labels.length > 0 ? ` (${labels.join('; ')})` : '';
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
+
+// Generate the binding diagnostics block shown in the UI
+function getDiagnosticsHtml(env: Env, role: Role | null): string {
+	return `
 		<div class="diagnostic">
 			<h3>Binding Diagnostics</h3>
 			<p>R2 Bucket Binding Status: <strong>${typeof env.MEDIA_BUCKET === 'undefined' ? '❌ Missing' : '✅ Available'}</strong></p>
 			<p>AI Binding Status: <strong>${typeof env.AI === 'undefined' ? '❌ Missing' : '✅ Available'}</strong></p>
-			<p><a href="/test-r2" target="_blank">Run R2 Connection Test</a></p>
+			<p>${role === 'operator' ? '<a href="/test-r2" target="_blank">Run R2 Connection Test</a> · ' : ''}<a href="/docs" target="_blank">API documentation</a></p>
 		</div>`;
+}
+
+// Sign-in form for the UI
+function getLoginHtml(env: Env, error = ''): string {
+	const enabled = !!env.SESSION_SECRET;
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+	<meta charset="UTF-8">
+	<meta name="viewport" content="width=device-width, initial-scale=1.0">
+	<title>Sign in · R2 Metadata Generator</title>
+	<style>
+		body {
+			font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, 'Open Sans', 'Helvetica Neue', sans-serif;
+			max-width: 480px;
+			margin: 60px auto;
+			padding: 20px;
+			color: #333;
+		}
+		h1 {
+			color: #2563eb;
+		}
+		input[type="password"] {
+			width: 100%;
+			padding: 8px;
+			margin: 8px 0 16px;
+			box-sizing: border-box;
+		}
+		button {
+			background-color: #2563eb;
+			color: white;
+			border: none;
+			padding: 10px 20px;
+			border-radius: 4px;
+			cursor: pointer;
+		}
+		.error {
+			color: #b91c1c;
+		}
+	</style>
+</head>
+<body>
+	<h1>R2 Metadata Generator</h1>
+	${enabled ? `
+	<form method="POST" action="/login">
+		<label for="api-key">API key</label>
+		<input type="password" id="api-key" name="api-key" autocomplete="current-password" required autofocus>
+		${error ? `<p class="error">${escapeHtml(error)}</p>` : ''}
+		<button type="submit">Sign in</button>
+	</form>
+	<p>Read-only keys can look at results; operator keys can also start runs.</p>
+	` : `
+	<p class="error">Signing in is disabled until SESSION_SECRET is set. The JSON API still accepts API keys as bearer tokens.</p>
+	`}
+</body>
+</html>`;
+}
+
+// Main router: the HTML UI, diagnostics and the OpenAPI-documented JSON API
+const app = new Hono<AuthEnv>();
+
+// Every route needs an API key or a UI session, except signing in and the API docs
+app.use('*', authenticate);
+
+// Sign-in page for the UI
+app.get('/login', (c) => c.html(getLoginHtml(c.env)));
+
+// Exchange an API key for a signed session cookie
+app.post('/login', async (c) => {
+	let key = '';
+	try {
+		key = String((await c.req.raw.formData()).get('api-key') ?? '').trim();
+	} catch (e) {
+		console.log('Could not parse form data:', e);
+	}
+	const session = key ? await createSession(c.env, key) : null;
+	if (!session) {
+		return c.html(getLoginHtml(c.env, 'That API key is not valid.'), 401);
+	}
+	c.header('Set-Cookie', sessionCookie(session));
+	return c.redirect('/');
+});
+
+app.post('/logout', (c) => {
+	c.header('Set-Cookie', clearedSessionCookie());
+	return c.redirect('/login');
+});
+
+// Setup OpenAPI registry; the schema is served at /openapi.json and the Swagger UI at /docs
+const openapi = fromHono(app, {
+	docs_url: "/docs",
+	schema: {
+		info: {
+			title: "R2 Metadata Worker API",
+			version: "1.0.0",
+			description: "Read, list, search, (re)generate and delete the `.metadata.json` sidecars stored next to media in R2. Object keys in paths must be URL-encoded.",
+		},
+		security: [{ bearerAuth: [] }],
+	},
+});
+openapi.registry.registerComponent("securitySchemes", "bearerAuth", {
+	type: "http",
+	scheme: "bearer",
+	description: "An API key from READONLY_API_KEYS (GET routes) or OPERATOR_API_KEYS (every route)",
+});
+
+// Register OpenAPI endpoints
+openapi.get("/metadata", MetadataList);
+openapi.get("/metadata/:key", MetadataFetch);
+openapi.post("/metadata/:key/process", MetadataProcess);
+openapi.delete("/metadata/:key", MetadataDelete);
+openapi.get("/search", MetadataSearch);
+openapi.post("/search/reindex", SearchReindex);
+openapi.get("/semantic-search", MetadataSemanticSearch);
+openapi.get("/similar/:key", MetadataSimilar);
+openapi.get("/duplicates", DuplicateList);
+openapi.get("/failures", FailureList);
+openapi.post("/failures/retry", FailureRetry);
+openapi.get("/runs", RunList);
+openapi.post("/runs", RunStart);
+openapi.get("/runs/:id", RunFetch);
+openapi.get("/sweep", SweepProgress);
+openapi.get("/usage", UsageFetch);
+
+// Add a simple test endpoint to debug R2 access (operators only; see auth.ts)
+app.get('/test-r2', async (c) => {
+	const env = c.env;
+
+	// Simple logging to debug
+	console.log('MEDIA_BUCKET binding type:', typeof env.MEDIA_BUCKET);
+	
+	try {
+		if (!env.MEDIA_BUCKET) {
+			return c.json({
+				success: false,
+				error: 'MEDIA_BUCKET binding is undefined',
+			}, 500);
+		}
 		
-		// Handle POST request (manual execution) - ONLY process on POST
-		if (request.method === 'POST') {
-			try {
-				// Check if forceReprocess is enabled
-				let formData: FormData | null = null;
-				let forceReprocess = false;
-				
-				try {
-					formData = await request.formData();
-					forceReprocess = formData.has('force-reprocess');
-				} catch (e) {
-					// If we can't parse form data, proceed without force reprocess
-					console.log('Could not parse form data:', e);
-				}
-				
-				console.log(`Processing with force reprocess: ${forceReprocess}`);
-				
-				const stats = await processAllMedia(env, ctx, { forceReprocess });
-				return new Response(getHtmlTemplate(`Successfully executed media processing at ${new Date().toISOString()}`, stats, diagnosticsHtml), {
-					headers: { 'Content-Type': 'text/html' },
-				});
-			} catch (error: any) {
-				console.error('Error during manual execution:', error);
-				return new Response(getHtmlTemplate(`Error: ${error.message || 'Unknown error during processing'}`, null, diagnosticsHtml), {
-					headers: { 'Content-Type': 'text/html' },
-					status: 500,
-				});
-			}
+		// Check if the binding has the correct type
+		if (typeof env.MEDIA_BUCKET.list !== 'function') {
+			return c.json({
+				success: false,
+				error: 'MEDIA_BUCKET binding exists but does not appear to be an R2 bucket',
+				bindingType: typeof env.MEDIA_BUCKET,
+				hasListMethod: typeof env.MEDIA_BUCKET.list === 'function'
+			}, 500);
 		}
 		
-		// Default: ONLY show UI for GET requests, no processing
-		return new Response(getHtmlTemplate('', null, diagnosticsHtml), {
-			headers: { 'Content-Type': 'text/html' },
+		// Try listing just 1 object to test access
+		const listing = await env.MEDIA_BUCKET.list({
+			limit: 1
+		});
+		
+		return c.json({
+			success: true,
+			bucketAvailable: true,
+			objectCount: listing.objects.length,
+			objects: listing.objects.map(obj => ({
+				key: obj.key,
+				size: obj.size
+			}))
 		});
+	} catch (error: any) {
+		// The stack stays in the logs
+		console.error('R2 connection test failed:', error);
+		return c.json({
+			success: false,
+			error: error.message,
+			bucketAvailable: !!env.MEDIA_BUCKET
+		}, 500);
+	}
+});
+
+// Handle POST request (manual execution) - ONLY process on POST
+app.post('/', async (c) => {
+	const role = c.get('role');
+	const diagnosticsHtml = getDiagnosticsHtml(c.env, role);
+	try {
+		// Read the run options from the form
+		let formData: FormData | null = null;
+		
+		try {
+			formData = await c.req.raw.formData();
+		} catch (e) {
+			// If we can't parse form data, proceed with the default options
+			console.log('Could not parse form data:', e);
+		}
+		
+		const options = parseRunOptions({
+			forceReprocess: !!formData?.has('force-reprocess'),
+			dryRun: !!formData?.has('dry-run'),
+			maxFiles: formData?.get('max-files') as string | null,
+			prefix: formData?.get('prefix') as string | null,
+			include: formData?.getAll('include') as string[],
+			exclude: formData?.getAll('exclude') as string[],
+			types: formData?.getAll('types') as string[],
+			modifiedSince: formData?.get('modified-since') as string | null,
+			budgetUsd: formData?.get('budget-usd') as string | null,
+		});
+		console.log('Processing with options:', JSON.stringify(options));
+		
+		const outcome = await runSweep(c.env, c.executionCtx as ExecutionContext, 'manual', { ...options, restart: needsNewPass(options) });
+		const runLink = outcome.run ? ` (<a href="/runs/${outcome.run.id}">run ${outcome.run.id}</a>)` : '';
+		return c.html(getHtmlTemplate(
+			`${escapeHtml(describeSweep(c.env, outcome))} at ${new Date().toISOString()}${runLink}`,
+			outcome.run?.stats ?? null,
+			diagnosticsHtml,
+			await getFailuresHtml(c.env, true),
+			await getHistoryHtml(c.env),
+			role,
+		));
+	} catch (error: any) {
+		console.error('Error during manual execution:', error);
+		const status = error instanceof InvalidRunOptionsError ? 400 : 500;
+		return c.html(getHtmlTemplate(`Error: ${escapeHtml(error.message || 'Unknown error during processing')}`, null, diagnosticsHtml, '', await getHistoryHtml(c.env), role), status);
+	}
+});
+
+// Default: ONLY show UI for GET requests, no processing
+app.get('/', async (c) => {
+	const role = c.get('role');
+	return c.html(getHtmlTemplate('', null, getDiagnosticsHtml(c.env, role), await getFailuresHtml(c.env, role === 'operator'), await getHistoryHtml(c.env), role));
+});
+
+// chanfana exceptions carry their own status and error body
+app.onError((error, c) => {
+	if (error instanceof ApiException) {
+		return c.json({
+			success: false,
+			errors: error.buildResponse(),
+		}, error.status as ContentfulStatusCode);
+	}
+	console.error(`Unhandled error for ${c.req.method} ${c.req.path}:`, error);
+	return c.json({
+		success: false,
+		errors: [{ code: 7000, message: 'Internal Error' }],
+	}, 500);
+});
+
+export default {
+	/**
+	 * This function is triggered by the cron schedule defined in wrangler.toml.
+	 * New and deleted objects are handled by the queue consumer below; the cron
+	 * run is a reconciliation sweep that catches anything the events missed.
+	 */
+	async scheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+		console.log(`Scheduled event triggered at: ${new Date(controller.scheduledTime)}`);
+		
+		// Scheduled runs never force reprocessing; use the UI or POST /runs for that.
+		// Each tick continues the pass in progress, or starts one when it is due.
+		await runSweep(env, ctx, 'cron');
 	},
+
+	/**
+	 * This function consumes R2 event notifications (object-create / object-delete)
+	 * and sweep continuations from the queue configured in wrangler.toml.
+	 */
+	async queue(batch: MessageBatch<R2EventNotification | SweepContinuation>, env: Env, ctx: ExecutionContext): Promise<void> {
+		await handleQueueBatch(batch, env, ctx);
+	},
+
+	/**
+	 * This function handles HTTP requests: the manual-execution UI and the JSON API.
+	 */
+	fetch: app.fetch,
 };
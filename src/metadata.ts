@@ -0,0 +1,175 @@
+import { R2Object } from '@cloudflare/workers-types';
+import { Env } from './types';
+import { indexMetadata, unindexMetadata } from './search';
+import { currentUsage } from './ai';
+import { migrateSidecar, Sidecar, SIDECAR_SCHEMA_VERSION, validateSidecar } from './sidecar';
+
+export const METADATA_SUFFIX = '.metadata.json';
+
+// Objects the worker keeps for itself (e.g. the failure ledger); never processed or listed as media
+export const INTERNAL_PREFIX = '.r2-metadata/';
+
+/**
+ * Returns the key of the metadata sidecar for an object key.
+ */
+export function getMetadataKey(key: string): string {
+	return `${key}${METADATA_SUFFIX}`;
+}
+
+/**
+ * Whether an object key is itself a metadata sidecar.
+ */
+export function isMetadataKey(key: string): boolean {
+	return key.endsWith(METADATA_SUFFIX);
+}
+
+/**
+ * Whether an object key holds the worker's own state rather than media.
+ */
+export function isInternalKey(key: string): boolean {
+	return key.startsWith(INTERNAL_PREFIX);
+}
+
+/**
+ * Returns the source object key for a sidecar key.
+ */
+export function getSourceKey(metadataKey: string): string {
+	return metadataKey.slice(0, -METADATA_SUFFIX.length);
+}
+
+/**
+ * Reads and parses the sidecar for an object key. Returns null if there is none.
+ * Older sidecars are upgraded to the current schema in memory (not in R2);
+ * ones that cannot be upgraded are returned as stored.
+ */
+export async function readMetadata(env: Env, key: string): Promise<Record<string, any> | null> {
+	const object = await env.MEDIA_BUCKET.get(getMetadataKey(key));
+	if (!object) {
+		return null;
+	}
+	const stored = await object.json<Record<string, any>>();
+	const result = migrateSidecar(stored);
+	return result.status === 'invalid' ? stored : result.sidecar;
+}
+
+/**
+ * Validates the sidecar for an object key, updates the search index and
+ * embedding to match, then writes it. All processors save their output through here.
+ * Throws SidecarValidationError without writing anything if the sidecar does
+ * not match the schema.
+ */
+export async function writeMetadata(env: Env, key: string, metadata: Record<string, any>): Promise<void> {
+	const sidecar = validateSidecar(key, metadata);
+
+	// The sidecar is the source of truth, so an index failure is logged rather
+	// than failing the write; the next write or a reindex repairs the entry.
+	try {
+		await indexMetadata(env, key, sidecar);
+	} catch (error) {
+		console.error(`Error updating search index for ${key}:`, error);
+	}
+
+	// Indexing may have embedded the sidecar, so its usage is read again to include that call
+	if ('aiUsage' in sidecar) {
+		sidecar.aiUsage = currentUsage(env) ?? sidecar.aiUsage;
+	}
+	await putSidecar(env, key, sidecar);
+}
+
+export type MetadataMigration =
+	| { status: 'current' | 'migrated', sidecar: Sidecar }
+	| { status: 'invalid' | 'missing' };
+
+/**
+ * Upgrades a stored sidecar to the current schema version in place. The
+ * search index is left alone since migrations do not change what is indexed.
+ * An 'invalid' result means the sidecar should be regenerated. With `dryRun`
+ * the upgraded sidecar is returned without being written.
+ */
+export async function migrateMetadata(env: Env, key: string, dryRun = false): Promise<MetadataMigration> {
+	const object = await env.MEDIA_BUCKET.get(getMetadataKey(key));
+	if (!object) {
+		return { status: 'missing' };
+	}
+
+	let stored: unknown;
+	try {
+		stored = await object.json();
+	} catch {
+		console.log(`Sidecar for ${key} is not valid JSON`);
+		return { status: 'invalid' };
+	}
+
+	const result = migrateSidecar(stored);
+	if (result.status === 'invalid') {
+		console.log(`Sidecar for ${key} cannot be migrated: ${result.reason}`);
+		return { status: 'invalid' };
+	}
+	if (dryRun) {
+		return { status: result.status, sidecar: result.sidecar };
+	}
+	if (result.status === 'migrated' || object.customMetadata?.schemaVersion !== String(SIDECAR_SCHEMA_VERSION)) {
+		// Also rewrites current sidecars that are missing the version in their custom metadata
+		await putSidecar(env, key, result.sidecar);
+		if (result.status === 'migrated') {
+			console.log(`Migrated sidecar for ${key} from schema version ${result.fromVersion} to ${SIDECAR_SCHEMA_VERSION}`);
+		}
+	}
+	return { status: result.status, sidecar: result.sidecar };
+}
+
+/**
+ * Whether a sidecar (from a head or list call) was written with the current
+ * schema version, judged from its custom metadata without reading the body.
+ */
+export function isCurrentSchema(metadataObject: R2Object): boolean {
+	return metadataObject.customMetadata?.schemaVersion === String(SIDECAR_SCHEMA_VERSION);
+}
+
+/**
+ * Custom metadata stored on a sidecar object. Besides the schema version it
+ * records which version of the source object the sidecar describes, so a sweep
+ * can spot old or stale sidecars from a head() without downloading them.
+ */
+export function sidecarCustomMetadata(sidecar: Sidecar): Record<string, string> {
+	const contentHash = 'contentHash' in sidecar ? sidecar.contentHash : null;
+	return {
+		schemaVersion: String(sidecar.schemaVersion),
+		sourceEtag: sidecar.sourceEtag ?? '',
+		sourceSize: String(sidecar.size),
+		sourceUploaded: sidecar.lastModified,
+		...(contentHash ? { contentHash } : {}),
+	};
+}
+
+/**
+ * Whether the source object has changed since the sidecar described by
+ * `recorded` (see sidecarCustomMetadata) was generated.
+ */
+export function isStale(recorded: Record<string, string> | undefined, source: R2Object): boolean {
+	if (recorded?.sourceEtag) {
+		return recorded.sourceEtag !== source.etag;
+	}
+	// Sidecars migrated from before etags were recorded only have size and upload time
+	return recorded?.sourceSize !== String(source.size) || recorded?.sourceUploaded !== source.uploaded.toISOString();
+}
+
+async function putSidecar(env: Env, key: string, sidecar: Sidecar): Promise<void> {
+	await env.MEDIA_BUCKET.put(getMetadataKey(key), JSON.stringify(sidecar, null, 2), {
+		httpMetadata: { contentType: 'application/json' },
+		customMetadata: sidecarCustomMetadata(sidecar),
+	});
+}
+
+/**
+ * Deletes the sidecar for an object key and drops it from the search index.
+ */
+export async function deleteMetadata(env: Env, key: string): Promise<void> {
+	await env.MEDIA_BUCKET.delete(getMetadataKey(key));
+
+	try {
+		await unindexMetadata(env, key);
+	} catch (error) {
+		console.error(`Error removing ${key} from search index:`, error);
+	}
+}
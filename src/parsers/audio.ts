@@ -0,0 +1,514 @@
+/**
+ * Reads the technical details and tags of audio files:
+ *
+ * - MP3: ID3v2 (2.2 to 2.4) and ID3v1 tags, the first MPEG audio frame header and
+ *   the Xing/Info or VBRI header that variable bitrate encoders write into it
+ * - WAV: the RIFF fmt and data chunks, and a LIST/INFO chunk or an embedded ID3 tag
+ * - M4A: the MP4 boxes (see ./mp4)
+ *
+ * Only headers are read, through ranged reads, so the audio itself is never downloaded.
+ */
+
+import { parseMp4, RangeReader } from './mp4';
+
+export type AudioFormat = 'mp3' | 'wav' | 'm4a';
+
+export interface AudioInfo {
+	format: AudioFormat;
+	// e.g. "mp3", "pcm" or "aac"
+	codec: string | null;
+	durationSeconds: number | null;
+	// Bits per second; the average for variable bitrate files
+	bitrate: number | null;
+	sampleRate: number | null;
+	channels: number | null;
+	title: string | null;
+	artist: string | null;
+	album: string | null;
+	hasCoverArt: boolean;
+}
+
+// Formats by the MIME type detectMimeType gives them
+export const AUDIO_FORMATS: Record<string, AudioFormat> = {
+	'audio/mpeg': 'mp3',
+	'audio/wav': 'wav',
+	'audio/mp4': 'm4a',
+};
+
+interface AudioTags {
+	title: string | null;
+	artist: string | null;
+	album: string | null;
+	hasCoverArt: boolean;
+	// ID3 TLEN, for files whose frames say nothing about their length
+	durationSeconds: number | null;
+}
+
+// An ID3v2 tag larger than this is only read in part. Cover art is what makes
+// tags large, and taggers write the text frames before it.
+const MAX_ID3_BYTES = 1024 * 1024;
+
+// Bytes after the ID3v2 tag searched for the first MPEG audio frame
+const FRAME_SEARCH_BYTES = 16 * 1024;
+
+// Upper bound on RIFF chunks walked, and on the size of a LIST chunk worth reading
+const MAX_RIFF_CHUNKS = 256;
+const MAX_INFO_BYTES = 64 * 1024;
+
+// Bitrates in kbit/s by bitrate index, for MPEG-1 and for MPEG-2 and 2.5, by layer
+const MPEG1_BITRATES: Record<number, number[]> = {
+	1: [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+	2: [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+	3: [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+};
+const MPEG2_BITRATES: Record<number, number[]> = {
+	1: [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+	2: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+	3: [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MPEG1_SAMPLE_RATES = [44100, 48000, 32000];
+
+// WAVE format tags
+const WAVE_CODECS: Record<number, string> = {
+	0x0001: 'pcm',
+	0x0002: 'adpcm',
+	0x0003: 'float',
+	0x0006: 'alaw',
+	0x0007: 'mulaw',
+	0x0011: 'ima-adpcm',
+	0x0055: 'mp3',
+};
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+// LIST/INFO chunks holding the tags we read
+const INFO_FIELDS: Record<string, 'title' | 'artist' | 'album'> = {
+	INAM: 'title',
+	IART: 'artist',
+	IPRD: 'album',
+};
+
+// ID3v2 frames holding the tags we read: 2.2 uses three-letter frame IDs
+const ID3_TEXT_FRAMES: Record<string, 'title' | 'artist' | 'album'> = {
+	TIT2: 'title',
+	TPE1: 'artist',
+	TALB: 'album',
+	TT2: 'title',
+	TP1: 'artist',
+	TAL: 'album',
+};
+
+// Sample entry codes of the audio codecs M4A files hold
+const MP4_AUDIO_CODECS: Record<string, string> = {
+	mp4a: 'aac',
+	alac: 'alac',
+	Opus: 'opus',
+	fLaC: 'flac',
+	'ac-3': 'ac3',
+	'ec-3': 'eac3',
+};
+
+/**
+ * Parses an audio file in the format `mimeType` names (see AUDIO_FORMATS).
+ * Throws if the file is not one or its headers cannot be read.
+ */
+export async function parseAudio(read: RangeReader, fileSize: number, mimeType: string): Promise<AudioInfo> {
+	switch (AUDIO_FORMATS[mimeType]) {
+		case 'mp3':
+			return parseMp3(read, fileSize);
+		case 'wav':
+			return parseWav(read, fileSize);
+		case 'm4a':
+			return parseM4a(read, fileSize);
+		default:
+			throw new Error(`${mimeType} is not an audio format we can read`);
+	}
+}
+
+async function parseMp3(read: RangeReader, fileSize: number): Promise<AudioInfo> {
+	let tags: AudioTags = emptyTags();
+
+	// 1. An ID3v2 tag, if there is one, comes first and the audio follows it
+	let audioStart = 0;
+	const header = await read(0, Math.min(10, fileSize));
+	if (header.length === 10 && latin1(header.subarray(0, 3)) === 'ID3') {
+		const footer = header[5] & 0x10 ? 10 : 0;
+		audioStart = 10 + synchsafe(header, 6) + footer;
+		tags = parseId3v2(await read(0, Math.min(audioStart, MAX_ID3_BYTES, fileSize)));
+	}
+
+	// 2. An ID3v1 tag takes up the last 128 bytes
+	let audioEnd = fileSize;
+	if (fileSize - audioStart >= 128) {
+		const trailer = await read(fileSize - 128, 128);
+		if (latin1(trailer.subarray(0, 3)) === 'TAG') {
+			audioEnd -= 128;
+			tags = mergeTags(tags, parseId3v1(trailer));
+		}
+	}
+
+	// 3. The first frame header gives the stream's format, and a VBR header its length
+	const search = audioStart < audioEnd ? await read(audioStart, Math.min(FRAME_SEARCH_BYTES, audioEnd - audioStart)) : new Uint8Array(0);
+	const frameOffset = findMpegFrame(search);
+	if (frameOffset < 0) {
+		throw new Error('No MPEG audio frame found');
+	}
+	const frame = readMpegHeader(search, frameOffset);
+	const vbr = readVbrHeader(search, frameOffset, frame);
+
+	let durationSeconds: number | null;
+	let bitrate: number;
+	if (vbr?.frames) {
+		durationSeconds = vbr.frames * frame.samplesPerFrame / frame.sampleRate;
+		const audioBytes = vbr.bytes || audioEnd - audioStart - frameOffset;
+		bitrate = Math.round(audioBytes * 8 / durationSeconds);
+	} else {
+		// Constant bitrate: every frame is the same size, so the length follows from the file size
+		bitrate = frame.bitrate;
+		durationSeconds = (audioEnd - audioStart - frameOffset) * 8 / bitrate;
+	}
+
+	return {
+		format: 'mp3',
+		codec: frame.layer === 3 ? 'mp3' : `mp${frame.layer}`,
+		durationSeconds: durationSeconds || tags.durationSeconds,
+		bitrate,
+		sampleRate: frame.sampleRate,
+		channels: frame.channels,
+		title: tags.title,
+		artist: tags.artist,
+		album: tags.album,
+		hasCoverArt: tags.hasCoverArt,
+	};
+}
+
+interface MpegHeader {
+	// 1, 2 or 2.5
+	version: number;
+	layer: number;
+	// Bits per second
+	bitrate: number;
+	sampleRate: number;
+	channels: number;
+	samplesPerFrame: number;
+	frameLength: number;
+}
+
+// Returns the offset of the first frame header that is followed by another,
+// as a lone sync word may just be part of some other data
+function findMpegFrame(bytes: Uint8Array): number {
+	for (let pos = 0; pos + 4 <= bytes.length; pos++) {
+		if (bytes[pos] !== 0xff || (bytes[pos + 1] & 0xe0) !== 0xe0) {
+			continue;
+		}
+		const header = readMpegHeader(bytes, pos);
+		if (!header) {
+			continue;
+		}
+		const next = pos + header.frameLength;
+		if (next + 2 > bytes.length || (bytes[next] === 0xff && (bytes[next + 1] & 0xe0) === 0xe0)) {
+			return pos;
+		}
+	}
+	return -1;
+}
+
+// Decodes the four-byte header of an MPEG audio frame; null if it is not a valid one
+function readMpegHeader(bytes: Uint8Array, pos: number): MpegHeader | null {
+	const versionBits = (bytes[pos + 1] >> 3) & 3;
+	const layerBits = (bytes[pos + 1] >> 1) & 3;
+	const bitrateIndex = bytes[pos + 2] >> 4;
+	const sampleRateIndex = (bytes[pos + 2] >> 2) & 3;
+	// Version 1 and layer 0 are reserved, bitrate 15 is invalid and bitrate 0 ("free") cannot be measured
+	if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) {
+		return null;
+	}
+
+	const version = versionBits === 3 ? 1 : versionBits === 2 ? 2 : 2.5;
+	const layer = 4 - layerBits;
+	const bitrate = (version === 1 ? MPEG1_BITRATES : MPEG2_BITRATES)[layer][bitrateIndex] * 1000;
+	const sampleRate = MPEG1_SAMPLE_RATES[sampleRateIndex] / (version === 1 ? 1 : version === 2 ? 2 : 4);
+	const samplesPerFrame = layer === 1 ? 384 : layer === 3 && version !== 1 ? 576 : 1152;
+	const padding = (bytes[pos + 2] >> 1) & 1;
+	const frameLength = Math.floor(samplesPerFrame / 8 * bitrate / sampleRate) + padding * (layer === 1 ? 4 : 1);
+
+	return {
+		version,
+		layer,
+		bitrate,
+		sampleRate,
+		// Channel mode 3 is mono; the others are stereo variants
+		channels: bytes[pos + 3] >> 6 === 3 ? 1 : 2,
+		samplesPerFrame,
+		frameLength,
+	};
+}
+
+// The frame and byte counts of a variable bitrate stream, from the Xing/Info
+// header (LAME and most others) or the VBRI header (Fraunhofer) in its first frame
+function readVbrHeader(bytes: Uint8Array, frameOffset: number, frame: MpegHeader): { frames: number, bytes: number } | null {
+	if (frame.layer !== 3) {
+		return null;
+	}
+	const view = viewOf(bytes);
+
+	// The Xing header follows the side information, whose size depends on the version and channels
+	const sideInfo = frame.version === 1 ? (frame.channels === 1 ? 17 : 32) : (frame.channels === 1 ? 9 : 17);
+	const xing = frameOffset + 4 + sideInfo;
+	const xingId = xing + 8 <= bytes.length ? latin1(bytes.subarray(xing, xing + 4)) : '';
+	if (xingId === 'Xing' || xingId === 'Info') {
+		const flags = view.getUint32(xing + 4);
+		let pos = xing + 8;
+		let frames = 0;
+		let byteCount = 0;
+		if (flags & 1 && pos + 4 <= bytes.length) {
+			frames = view.getUint32(pos);
+			pos += 4;
+		}
+		if (flags & 2 && pos + 4 <= bytes.length) {
+			byteCount = view.getUint32(pos);
+		}
+		return { frames, bytes: byteCount };
+	}
+
+	const vbri = frameOffset + 36;
+	if (vbri + 18 <= bytes.length && latin1(bytes.subarray(vbri, vbri + 4)) === 'VBRI') {
+		return { frames: view.getUint32(vbri + 14), bytes: view.getUint32(vbri + 10) };
+	}
+	return null;
+}
+
+async function parseWav(read: RangeReader, fileSize: number): Promise<AudioInfo> {
+	const riff = await read(0, Math.min(12, fileSize));
+	const id = latin1(riff.subarray(0, 4));
+	if (riff.length < 12 || (id !== 'RIFF' && id !== 'RF64') || latin1(riff.subarray(8, 12)) !== 'WAVE') {
+		throw new Error('Not a RIFF/WAVE file');
+	}
+
+	let format: DataView | null = null;
+	let dataSize: number | null = null;
+	let tags = emptyTags();
+
+	// Chunks are padded to an even size. The data chunk is usually last, but LIST
+	// chunks may follow it, so the walk carries on past it.
+	let offset = 12;
+	for (let count = 0; count < MAX_RIFF_CHUNKS && offset + 8 <= fileSize; count++) {
+		const header = await read(offset, 8);
+		const chunkId = latin1(header.subarray(0, 4));
+		const size = viewOf(header).getUint32(4, true);
+		const body = offset + 8;
+
+		if (chunkId === 'fmt ') {
+			format = viewOf(await read(body, Math.min(size, 40, fileSize - body)));
+		} else if (chunkId === 'data') {
+			// RF64 files and unfinished recordings leave the real size out
+			dataSize = size === 0xffffffff || body + size > fileSize ? fileSize - body : size;
+		} else if (chunkId === 'LIST' && size >= 4 && size <= MAX_INFO_BYTES && body + size <= fileSize) {
+			tags = mergeTags(tags, parseInfoList(await read(body, size)));
+		} else if ((chunkId === 'id3 ' || chunkId === 'ID3 ') && body + 10 <= fileSize) {
+			tags = mergeTags(tags, parseId3v2(await read(body, Math.min(size, MAX_ID3_BYTES, fileSize - body))));
+		}
+
+		if (chunkId === 'data' && dataSize !== size) {
+			break;
+		}
+		offset = body + size + (size & 1);
+	}
+
+	if (!format || format.byteLength < 16) {
+		throw new Error('No fmt chunk found');
+	}
+	let formatTag = format.getUint16(0, true);
+	if (formatTag === WAVE_FORMAT_EXTENSIBLE && format.byteLength >= 26) {
+		// The real format is the first two bytes of the sub-format GUID
+		formatTag = format.getUint16(24, true);
+	}
+	const byteRate = format.getUint32(8, true);
+
+	return {
+		format: 'wav',
+		codec: WAVE_CODECS[formatTag] ?? null,
+		durationSeconds: dataSize !== null && byteRate > 0 ? dataSize / byteRate : tags.durationSeconds,
+		bitrate: byteRate > 0 ? byteRate * 8 : null,
+		sampleRate: format.getUint32(4, true) || null,
+		channels: format.getUint16(2, true) || null,
+		title: tags.title,
+		artist: tags.artist,
+		album: tags.album,
+		hasCoverArt: tags.hasCoverArt,
+	};
+}
+
+// LIST chunk: a list type, then for INFO lists a sequence of null-terminated text sub-chunks
+function parseInfoList(list: Uint8Array): AudioTags {
+	const tags = emptyTags();
+	if (latin1(list.subarray(0, 4)) !== 'INFO') {
+		return tags;
+	}
+	const view = viewOf(list);
+	let pos = 4;
+	while (pos + 8 <= list.length) {
+		const field = INFO_FIELDS[latin1(list.subarray(pos, pos + 4))];
+		const size = view.getUint32(pos + 4, true);
+		if (field) {
+			tags[field] = cleanText(new TextDecoder().decode(list.subarray(pos + 8, pos + 8 + size)));
+		}
+		pos += 8 + size + (size & 1);
+	}
+	return tags;
+}
+
+async function parseM4a(read: RangeReader, fileSize: number): Promise<AudioInfo> {
+	const info = await parseMp4(read, fileSize);
+	const track = info.tracks.find(candidate => candidate.kind === 'audio');
+	if (!track) {
+		throw new Error('No audio track found');
+	}
+	const durationSeconds = info.durationSeconds ?? track.durationSeconds;
+	return {
+		format: 'm4a',
+		codec: track.codec ? MP4_AUDIO_CODECS[track.codec] ?? track.codec.toLowerCase() : null,
+		durationSeconds,
+		// Averaged over the whole file, as the sample entry rarely says
+		bitrate: durationSeconds ? Math.round(fileSize * 8 / durationSeconds) : null,
+		sampleRate: track.sampleRate || null,
+		channels: track.channels || null,
+		title: info.tags.title,
+		artist: info.tags.artist,
+		album: info.tags.album,
+		hasCoverArt: info.tags.hasCoverArt,
+	};
+}
+
+/**
+ * Reads the text frames and cover art of an ID3v2 tag, which may have been cut
+ * short at MAX_ID3_BYTES. Compressed and encrypted frames are skipped.
+ */
+function parseId3v2(tag: Uint8Array): AudioTags {
+	const tags = emptyTags();
+	const version = tag[3];
+	if (tag.length < 10 || latin1(tag.subarray(0, 3)) !== 'ID3' || version < 2 || version > 4) {
+		return tags;
+	}
+	const flags = tag[5];
+	const view = viewOf(tag);
+	const end = Math.min(tag.length, 10 + synchsafe(tag, 6));
+	const idLength = version === 2 ? 3 : 4;
+	const headerLength = version === 2 ? 6 : 10;
+
+	let pos = 10;
+	if (flags & 0x40 && version >= 3) {
+		// Extended header: 2.3 gives its size without the size field, 2.4 with it
+		pos += version === 3 ? view.getUint32(pos) + 4 : synchsafe(tag, pos);
+	}
+
+	while (pos + headerLength <= end) {
+		const id = latin1(tag.subarray(pos, pos + idLength));
+		if (!/^[A-Z0-9]+$/.test(id)) {
+			// Padding, or the end of what could be read
+			break;
+		}
+		const size = version === 2
+			? (tag[pos + 3] << 16) | (tag[pos + 4] << 8) | tag[pos + 5]
+			: version === 4 ? synchsafe(tag, pos + 4) : view.getUint32(pos + 4);
+		const frameFlags = version === 2 ? 0 : view.getUint16(pos + 8);
+		const dataStart = pos + headerLength;
+		pos = dataStart + size;
+
+		if (id === 'APIC' || id === 'PIC') {
+			tags.hasCoverArt = true;
+			continue;
+		}
+		// 2.3 marks compression and encryption with 0x0080 and 0x0040, 2.4 with 0x0008 and 0x0004
+		const unreadable = version === 3 ? frameFlags & 0x00c0 : version === 4 ? frameFlags & 0x000c : 0;
+		if (pos > tag.length || unreadable) {
+			continue;
+		}
+		// 2.4 may put the frame's length before its data
+		const data = tag.subarray(dataStart + (version === 4 && frameFlags & 0x0001 ? 4 : 0), pos);
+		const field = ID3_TEXT_FRAMES[id];
+		if (field) {
+			tags[field] = decodeId3Text(data);
+		} else if (id === 'TLEN' || id === 'TLE') {
+			const milliseconds = Number(decodeId3Text(data));
+			tags.durationSeconds = milliseconds > 0 ? milliseconds / 1000 : null;
+		}
+	}
+	return tags;
+}
+
+// ID3v1: fixed 30-byte title, artist and album fields after "TAG"
+function parseId3v1(tag: Uint8Array): AudioTags {
+	return {
+		...emptyTags(),
+		title: cleanText(latin1(tag.subarray(3, 33))),
+		artist: cleanText(latin1(tag.subarray(33, 63))),
+		album: cleanText(latin1(tag.subarray(63, 93))),
+	};
+}
+
+// A text frame starts with its encoding; 2.4 separates multiple values with nulls
+function decodeId3Text(data: Uint8Array): string | null {
+	const body = data.subarray(1);
+	let text: string;
+	switch (data[0]) {
+		case 1:
+			// UTF-16 with a byte order mark
+			text = body[0] === 0xfe && body[1] === 0xff ? utf16(body.subarray(2), false) : utf16(body[0] === 0xff && body[1] === 0xfe ? body.subarray(2) : body, true);
+			break;
+		case 2:
+			text = utf16(body, false);
+			break;
+		case 3:
+			text = new TextDecoder().decode(body);
+			break;
+		default:
+			text = latin1(body);
+	}
+	return cleanText(text.split('\0').map(value => value.replace(/^\ufeff/, '').trim()).filter(Boolean).join(', '));
+}
+
+// Earlier tags win; later ones only fill the gaps
+function mergeTags(first: AudioTags, second: AudioTags): AudioTags {
+	return {
+		title: first.title ?? second.title,
+		artist: first.artist ?? second.artist,
+		album: first.album ?? second.album,
+		hasCoverArt: first.hasCoverArt || second.hasCoverArt,
+		durationSeconds: first.durationSeconds ?? second.durationSeconds,
+	};
+}
+
+function emptyTags(): AudioTags {
+	return { title: null, artist: null, album: null, hasCoverArt: false, durationSeconds: null };
+}
+
+function cleanText(text: string): string | null {
+	const cleaned = text.replace(/\0.*$/s, '').trim();
+	return cleaned || null;
+}
+
+// ID3 sizes use seven bits per byte so that they never contain a sync word
+function synchsafe(bytes: Uint8Array, pos: number): number {
+	return ((bytes[pos] & 0x7f) << 21) | ((bytes[pos + 1] & 0x7f) << 14) | ((bytes[pos + 2] & 0x7f) << 7) | (bytes[pos + 3] & 0x7f);
+}
+
+function utf16(bytes: Uint8Array, littleEndian: boolean): string {
+	const view = viewOf(bytes);
+	let text = '';
+	for (let pos = 0; pos + 2 <= bytes.length; pos += 2) {
+		text += String.fromCharCode(view.getUint16(pos, littleEndian));
+	}
+	return text;
+}
+
+function latin1(bytes: Uint8Array): string {
+	let text = '';
+	for (const byte of bytes) {
+		text += String.fromCharCode(byte);
+	}
+	return text;
+}
+
+function viewOf(bytes: Uint8Array): DataView {
+	return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
@@ -0,0 +1,179 @@
+/**
+ * Infers the schema of delimited text (RFC 4180 quoting): the delimiter, whether
+ * the first row is a header, and each column's type from the values under it.
+ */
+
+export type CsvColumnType = 'integer' | 'number' | 'boolean' | 'date' | 'datetime' | 'string' | 'empty';
+
+export interface CsvColumn {
+	name: string;
+	type: CsvColumnType;
+	// Whether any row leaves the column empty
+	nullable: boolean;
+}
+
+export interface CsvSchema {
+	delimiter: string;
+	hasHeader: boolean;
+	columns: CsvColumn[];
+	// Data rows, not counting the header
+	rowCount: number;
+}
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+// Records looked at to guess the delimiter, and rows looked at to infer types
+const DELIMITER_SAMPLE_ROWS = 20;
+const MAX_TYPED_ROWS = 1000;
+
+// Columns beyond this are left out of the schema
+const MAX_COLUMNS = 200;
+
+/**
+ * Infers the schema of `text`. When `complete` is false the text is the start
+ * of a larger file, so its last record, which may be cut off, is dropped.
+ */
+export function inferCsvSchema(text: string, complete: boolean): CsvSchema {
+	const delimiter = guessDelimiter(text);
+	const rows = parseRows(text, delimiter, complete);
+	const first = rows[0] ?? [];
+	const hasHeader = first.length > 0 && first.every(value => value.trim() !== '' && inferType(value) === 'string')
+		&& new Set(first.map(value => value.trim())).size === first.length;
+	const data = hasHeader ? rows.slice(1) : rows;
+
+	const width = Math.min(MAX_COLUMNS, Math.max(first.length, ...data.slice(0, MAX_TYPED_ROWS).map(row => row.length)));
+	const columns: CsvColumn[] = [];
+	for (let index = 0; index < width; index++) {
+		let type: CsvColumnType = 'empty';
+		let nullable = false;
+		for (const row of data.slice(0, MAX_TYPED_ROWS)) {
+			const valueType = inferType(row[index] ?? '');
+			if (valueType === 'empty') {
+				nullable = true;
+			} else {
+				type = mergeTypes(type, valueType);
+			}
+		}
+		columns.push({
+			name: (hasHeader ? first[index]?.trim() : '') || `column_${index + 1}`,
+			type,
+			nullable,
+		});
+	}
+
+	return { delimiter, hasHeader, columns, rowCount: data.length };
+}
+
+// The delimiter that splits the first records into the same number of fields
+// most consistently, preferring more fields; a comma if none splits them at all
+function guessDelimiter(text: string): string {
+	let best = { delimiter: ',', consistency: 0, fields: 1 };
+	for (const delimiter of DELIMITERS) {
+		const counts = parseRows(text, delimiter, true, DELIMITER_SAMPLE_ROWS).map(row => row.length);
+		if (counts.length === 0) {
+			continue;
+		}
+		const frequency = new Map<number, number>();
+		for (const count of counts) {
+			frequency.set(count, (frequency.get(count) ?? 0) + 1);
+		}
+		const [fields, matches] = [...frequency.entries()].sort((a, b) => b[1] - a[1] || b[0] - a[0])[0];
+		const consistency = matches / counts.length;
+		if (fields > 1 && (consistency > best.consistency || (consistency === best.consistency && fields > best.fields))) {
+			best = { delimiter, consistency, fields };
+		}
+	}
+	return best.delimiter;
+}
+
+// Splits text into records of fields. Quoted fields may hold delimiters, line
+// breaks and doubled quotes. Blank lines are skipped.
+function parseRows(text: string, delimiter: string, complete: boolean, maxRows = Infinity): string[][] {
+	const rows: string[][] = [];
+	let row: string[] = [];
+	let field = '';
+	let quoted = false;
+	let pos = 0;
+
+	const endRow = () => {
+		row.push(field);
+		if (row.length > 1 || row[0] !== '') {
+			rows.push(row);
+		}
+		row = [];
+		field = '';
+	};
+
+	while (pos < text.length && rows.length < maxRows) {
+		const char = text[pos];
+		if (quoted) {
+			if (char === '"' && text[pos + 1] === '"') {
+				field += '"';
+				pos += 2;
+				continue;
+			}
+			if (char === '"') {
+				quoted = false;
+			} else {
+				field += char;
+			}
+		} else if (char === '"' && field === '') {
+			quoted = true;
+		} else if (char === delimiter) {
+			row.push(field);
+			field = '';
+		} else if (char === '\n' || char === '\r') {
+			endRow();
+			if (char === '\r' && text[pos + 1] === '\n') {
+				pos++;
+			}
+		} else {
+			field += char;
+		}
+		pos++;
+	}
+
+	// A record without a final line break is whole only if the text is
+	if (pos >= text.length && (field !== '' || row.length > 0) && complete && !quoted) {
+		endRow();
+	}
+	return rows;
+}
+
+function inferType(value: string): CsvColumnType {
+	const trimmed = value.trim();
+	if (trimmed === '') {
+		return 'empty';
+	}
+	if (/^[+-]?\d+$/.test(trimmed)) {
+		return 'integer';
+	}
+	if (/^[+-]?(\d+\.\d*|\.\d+|\d+)([eE][+-]?\d+)?$/.test(trimmed)) {
+		return 'number';
+	}
+	if (/^(true|false|yes|no)$/i.test(trimmed)) {
+		return 'boolean';
+	}
+	if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+		return 'date';
+	}
+	if (/^\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/.test(trimmed)) {
+		return 'datetime';
+	}
+	return 'string';
+}
+
+// The narrowest type that holds values of both types
+function mergeTypes(a: CsvColumnType, b: CsvColumnType): CsvColumnType {
+	if (a === 'empty' || a === b) {
+		return b;
+	}
+	const pair = new Set([a, b]);
+	if (pair.has('integer') && pair.has('number')) {
+		return 'number';
+	}
+	if (pair.has('date') && pair.has('datetime')) {
+		return 'datetime';
+	}
+	return 'string';
+}
@@ -0,0 +1,786 @@
+/**
+ * Embedded image metadata reader.
+ *
+ * - JPEG: SOFn (dimensions), APP1 Exif (TIFF IFDs), APP1 XMP and APP13 Photoshop IRB (IPTC IIM)
+ * - PNG: IHDR (dimensions), eXIf (TIFF IFDs), tEXt, zTXt and iTXt (including XMP packets)
+ * - WebP: VP8X, VP8 or VP8L (dimensions), EXIF and XMP chunks
+ * - GIF: logical screen descriptor (dimensions) only
+ * - TIFF: the file's own IFDs
+ * - HEIC and AVIF: ispe properties (dimensions), and Exif and XMP items located through iinf and iloc
+ */
+
+import { inflate } from './inflate';
+import { detectMimeType } from './magic';
+
+export interface ImageGps {
+	latitude: number;
+	longitude: number;
+	altitude: number | null;
+}
+
+export interface ImageExif {
+	format: 'jpeg' | 'png' | 'webp' | 'gif' | 'avif' | 'heic' | 'tiff';
+	width: number | null;
+	height: number | null;
+	orientation: number | null;
+	make: string | null;
+	model: string | null;
+	lens: string | null;
+	software: string | null;
+	exposureTime: string | null;
+	fNumber: number | null;
+	iso: number | null;
+	focalLength: number | null;
+	focalLength35mm: number | null;
+	dateTaken: string | null;
+	gps: ImageGps | null;
+	title: string | null;
+	caption: string | null;
+	keywords: string[];
+	creator: string | null;
+	copyright: string | null;
+}
+
+// Values collected from the individual sources before they are merged
+interface Sources {
+	tiff: Map<string, TiffValue>;
+	xmp: Map<string, string | string[]>;
+	iptc: Map<number, string[]>;
+	text: Map<string, string>;
+}
+
+type TiffValue = string | number | number[];
+
+/**
+ * Reads embedded metadata from an image file.
+ * Returns null for formats not listed above.
+ */
+export function parseImageMetadata(bytes: Uint8Array): ImageExif | null {
+	const sources: Sources = { tiff: new Map(), xmp: new Map(), iptc: new Map(), text: new Map() };
+	let dimensions: { width: number, height: number } | null = null;
+	let format: ImageExif['format'];
+	// HEIC and AVIF share a container and are told apart by its brands
+	const sniffed = detectMimeType(bytes);
+
+	if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+		format = 'jpeg';
+		dimensions = readJpegSegments(bytes, sources);
+	} else if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+		format = 'png';
+		dimensions = readPngChunks(bytes, sources);
+	} else if (startsWith(bytes, 'RIFF') && startsWith(bytes.subarray(8), 'WEBP')) {
+		format = 'webp';
+		dimensions = readWebpChunks(bytes, sources);
+	} else if (startsWith(bytes, 'GIF8') && bytes.length >= 10) {
+		format = 'gif';
+		dimensions = { width: bytes[6] | (bytes[7] << 8), height: bytes[8] | (bytes[9] << 8) };
+	} else if (startsWith(bytes, 'II*\0') || startsWith(bytes, 'MM\0*')) {
+		format = 'tiff';
+		readTiff(bytes, sources.tiff);
+	} else if (sniffed === 'image/heic' || sniffed === 'image/avif') {
+		format = sniffed === 'image/avif' ? 'avif' : 'heic';
+		dimensions = readHeifBoxes(bytes, sources);
+	} else {
+		return null;
+	}
+
+	return mergeSources(format, dimensions, sources);
+}
+
+// ---------------------------------------------------------------------------
+// Containers
+// ---------------------------------------------------------------------------
+
+function readJpegSegments(bytes: Uint8Array, sources: Sources): { width: number, height: number } | null {
+	let dimensions: { width: number, height: number } | null = null;
+	let pos = 2;
+	while (pos + 4 <= bytes.length) {
+		if (bytes[pos] !== 0xff) {
+			break;
+		}
+		const marker = bytes[pos + 1];
+		if (marker === 0xff) {
+			pos++; // fill byte
+			continue;
+		}
+		if (marker === 0xd9 || marker === 0xda) {
+			// End of image / start of scan: no more metadata segments
+			break;
+		}
+		if ((marker >= 0xd0 && marker <= 0xd7) || marker === 0x01) {
+			pos += 2;
+			continue;
+		}
+		const length = (bytes[pos + 2] << 8) | bytes[pos + 3];
+		const start = pos + 4;
+		const end = Math.min(bytes.length, pos + 2 + length);
+		const segment = bytes.subarray(start, end);
+
+		if (marker === 0xe1 && startsWith(segment, 'Exif\0\0')) {
+			readTiff(segment.subarray(6), sources.tiff);
+		} else if (marker === 0xe1 && startsWith(segment, 'http://ns.adobe.com/xap/1.0/\0')) {
+			readXmp(decodeUtf8(segment.subarray(29)), sources.xmp);
+		} else if (marker === 0xed && startsWith(segment, 'Photoshop 3.0\0')) {
+			readPhotoshopResources(segment.subarray(14), sources.iptc);
+		} else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc && segment.length >= 5) {
+			// SOFn: precision(1), height(2), width(2)
+			dimensions = {
+				height: (segment[1] << 8) | segment[2],
+				width: (segment[3] << 8) | segment[4],
+			};
+		}
+		pos += 2 + length;
+	}
+	return dimensions;
+}
+
+function readPngChunks(bytes: Uint8Array, sources: Sources): { width: number, height: number } | null {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	let dimensions: { width: number, height: number } | null = null;
+	let pos = 8;
+	while (pos + 12 <= bytes.length) {
+		const length = view.getUint32(pos);
+		const type = latin1(bytes.subarray(pos + 4, pos + 8));
+		const data = bytes.subarray(pos + 8, Math.min(bytes.length, pos + 8 + length));
+
+		if (type === 'IHDR' && data.length >= 8) {
+			dimensions = { width: view.getUint32(pos + 8), height: view.getUint32(pos + 12) };
+		} else if (type === 'eXIf') {
+			readTiff(data, sources.tiff);
+		} else if (type === 'tEXt' || type === 'zTXt' || type === 'iTXt') {
+			const entry = readPngText(type, data);
+			if (entry) {
+				if (entry.keyword === 'XML:com.adobe.xmp') {
+					readXmp(entry.text, sources.xmp);
+				} else if (entry.keyword === 'Raw profile type exif' || entry.keyword === 'Raw profile type APP1') {
+					// ImageMagick stores Exif as a hex dump in a text chunk
+					const raw = decodeRawProfile(entry.text);
+					if (raw) readTiff(startsWith(raw, 'Exif\0\0') ? raw.subarray(6) : raw, sources.tiff);
+				} else {
+					sources.text.set(entry.keyword.toLowerCase(), entry.text);
+				}
+			}
+		} else if (type === 'IEND') {
+			break;
+		}
+		pos += 12 + length;
+	}
+	return dimensions;
+}
+
+function readPngText(type: string, data: Uint8Array): { keyword: string, text: string } | null {
+	const keywordEnd = data.indexOf(0);
+	if (keywordEnd <= 0) {
+		return null;
+	}
+	const keyword = latin1(data.subarray(0, keywordEnd));
+	try {
+		if (type === 'tEXt') {
+			return { keyword, text: latin1(data.subarray(keywordEnd + 1)) };
+		}
+		if (type === 'zTXt') {
+			return { keyword, text: latin1(inflate(data.subarray(keywordEnd + 2))) };
+		}
+		// iTXt: compression flag, method, language\0, translated keyword\0, text
+		const compressed = data[keywordEnd + 1] === 1;
+		const languageEnd = data.indexOf(0, keywordEnd + 3);
+		const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+		if (translatedEnd < 0) {
+			return null;
+		}
+		const body = data.subarray(translatedEnd + 1);
+		return { keyword, text: decodeUtf8(compressed ? inflate(body) : body) };
+	} catch (error) {
+		console.log(`Could not decode PNG ${type} chunk ${keyword}:`, (error as Error).message);
+		return null;
+	}
+}
+
+function readWebpChunks(bytes: Uint8Array, sources: Sources): { width: number, height: number } | null {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	let dimensions: { width: number, height: number } | null = null;
+	let pos = 12;
+	while (pos + 8 <= bytes.length) {
+		const type = latin1(bytes.subarray(pos, pos + 4));
+		const length = view.getUint32(pos + 4, true);
+		const data = bytes.subarray(pos + 8, Math.min(bytes.length, pos + 8 + length));
+
+		if (type === 'VP8X' && data.length >= 10) {
+			// Canvas size minus one, as 24-bit little-endian values
+			dimensions = {
+				width: 1 + (data[4] | (data[5] << 8) | (data[6] << 16)),
+				height: 1 + (data[7] | (data[8] << 8) | (data[9] << 16)),
+			};
+		} else if (type === 'VP8 ' && !dimensions && data.length >= 10) {
+			// Lossy: a frame tag, a start code, then 14-bit width and height
+			dimensions = { width: (data[6] | (data[7] << 8)) & 0x3fff, height: (data[8] | (data[9] << 8)) & 0x3fff };
+		} else if (type === 'VP8L' && !dimensions && data.length >= 5) {
+			// Lossless: a signature byte, then width and height minus one in 14 bits each
+			const bits = data[1] | (data[2] << 8) | (data[3] << 16) | (data[4] << 24);
+			dimensions = { width: 1 + (bits & 0x3fff), height: 1 + ((bits >>> 14) & 0x3fff) };
+		} else if (type === 'EXIF') {
+			readTiff(startsWith(data, 'Exif\0\0') ? data.subarray(6) : data, sources.tiff);
+		} else if (type === 'XMP ') {
+			readXmp(decodeUtf8(data), sources.xmp);
+		}
+		// Chunks are padded to an even length
+		pos += 8 + length + (length & 1);
+	}
+	return dimensions;
+}
+
+// Item types and content types of the HEIF items that carry metadata
+const HEIF_EXIF_ITEM = 'Exif';
+const HEIF_MIME_ITEM = 'mime';
+const XMP_CONTENT_TYPE = 'application/rdf+xml';
+
+/**
+ * HEIC and AVIF are HEIF files: ISO-BMFF with a meta box describing items
+ * (images, Exif blocks, XMP packets) whose bytes are elsewhere in the file.
+ */
+function readHeifBoxes(bytes: Uint8Array, sources: Sources): { width: number, height: number } | null {
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const meta = readBoxes(view, 0, bytes.length).find(box => box.type === 'meta');
+	if (!meta) {
+		return null;
+	}
+
+	// meta is a full box: version and flags come before its children
+	const children = readBoxes(view, meta.start + 4, meta.end);
+	const types = new Map<number, { type: string, contentType: string | null }>();
+	const locations = new Map<number, { offset: number, length: number }>();
+	let dimensions: { width: number, height: number } | null = null;
+
+	for (const box of children) {
+		if (box.type === 'iinf') {
+			readHeifItemInfo(view, box, types);
+		} else if (box.type === 'iloc') {
+			readHeifItemLocations(view, box, locations);
+		} else if (box.type === 'iprp') {
+			// The largest image spatial extent is the primary image's; the others are tiles and thumbnails
+			for (const ipco of readBoxes(view, box.start, box.end).filter(child => child.type === 'ipco')) {
+				for (const ispe of readBoxes(view, ipco.start, ipco.end).filter(child => child.type === 'ispe' && child.end - child.start >= 12)) {
+					const width = view.getUint32(ispe.start + 4);
+					const height = view.getUint32(ispe.start + 8);
+					if (!dimensions || width * height > dimensions.width * dimensions.height) {
+						dimensions = { width, height };
+					}
+				}
+			}
+		}
+	}
+
+	for (const [id, item] of types) {
+		const location = locations.get(id);
+		if (!location || location.offset + location.length > bytes.length) {
+			continue;
+		}
+		const data = bytes.subarray(location.offset, location.offset + location.length);
+		if (item.type === HEIF_EXIF_ITEM && data.length > 4) {
+			// The block starts with the offset of the TIFF header within it
+			readTiff(data.subarray(4 + view.getUint32(location.offset)), sources.tiff);
+		} else if (item.type === HEIF_MIME_ITEM && item.contentType === XMP_CONTENT_TYPE) {
+			readXmp(decodeUtf8(data), sources.xmp);
+		}
+	}
+	return dimensions;
+}
+
+interface HeifBox {
+	type: string;
+	// Offsets of the box's body (after its header) and of its end
+	start: number;
+	end: number;
+}
+
+function readBoxes(view: DataView, start: number, end: number): HeifBox[] {
+	const boxes: HeifBox[] = [];
+	let pos = start;
+	while (pos + 8 <= end) {
+		let size = view.getUint32(pos);
+		let header = 8;
+		if (size === 1 && pos + 16 <= end) {
+			size = Number(view.getBigUint64(pos + 8));
+			header = 16;
+		} else if (size === 0) {
+			size = end - pos;
+		}
+		if (size < header) {
+			break;
+		}
+		const type = String.fromCharCode(view.getUint8(pos + 4), view.getUint8(pos + 5), view.getUint8(pos + 6), view.getUint8(pos + 7));
+		boxes.push({ type, start: pos + header, end: Math.min(end, pos + size) });
+		pos += size;
+	}
+	return boxes;
+}
+
+// iinf: a count, then one infe box per item giving its id and type
+function readHeifItemInfo(view: DataView, iinf: HeifBox, out: Map<number, { type: string, contentType: string | null }>): void {
+	const version = view.getUint8(iinf.start);
+	const entriesStart = iinf.start + 4 + (version === 0 ? 2 : 4);
+	for (const infe of readBoxes(view, entriesStart, iinf.end).filter(box => box.type === 'infe')) {
+		const infeVersion = view.getUint8(infe.start);
+		if (infeVersion < 2) {
+			continue;
+		}
+		let pos = infe.start + 4;
+		const id = infeVersion === 2 ? view.getUint16(pos) : view.getUint32(pos);
+		pos += (infeVersion === 2 ? 2 : 4) + 2; // item id, protection index
+		const type = String.fromCharCode(view.getUint8(pos), view.getUint8(pos + 1), view.getUint8(pos + 2), view.getUint8(pos + 3));
+		pos += 4;
+		let contentType: string | null = null;
+		if (type === HEIF_MIME_ITEM) {
+			// Item name, then content type, both null-terminated
+			const strings = latin1(new Uint8Array(view.buffer, view.byteOffset + pos, infe.end - pos)).split('\0');
+			contentType = strings[1] ?? null;
+		}
+		out.set(id, { type, contentType });
+	}
+}
+
+// iloc: where each item's bytes are. Only items stored at file offsets
+// (construction method 0) in a single extent are located.
+function readHeifItemLocations(view: DataView, iloc: HeifBox, out: Map<number, { offset: number, length: number }>): void {
+	const readSized = (pos: number, size: number): number =>
+		size === 0 ? 0 : size === 4 ? view.getUint32(pos) : size === 8 ? Number(view.getBigUint64(pos)) : view.getUint16(pos);
+
+	const version = view.getUint8(iloc.start);
+	const offsetSize = view.getUint8(iloc.start + 4) >> 4;
+	const lengthSize = view.getUint8(iloc.start + 4) & 0x0f;
+	const baseOffsetSize = view.getUint8(iloc.start + 5) >> 4;
+	const indexSize = version === 1 || version === 2 ? view.getUint8(iloc.start + 5) & 0x0f : 0;
+	let pos = iloc.start + 6;
+	const itemCount = version < 2 ? view.getUint16(pos) : view.getUint32(pos);
+	pos += version < 2 ? 2 : 4;
+
+	for (let item = 0; item < itemCount && pos < iloc.end; item++) {
+		const id = version < 2 ? view.getUint16(pos) : view.getUint32(pos);
+		pos += version < 2 ? 2 : 4;
+		let constructionMethod = 0;
+		if (version === 1 || version === 2) {
+			constructionMethod = view.getUint16(pos) & 0x0f;
+			pos += 2;
+		}
+		pos += 2; // data reference index
+		const baseOffset = readSized(pos, baseOffsetSize);
+		pos += baseOffsetSize;
+		const extentCount = view.getUint16(pos);
+		pos += 2;
+		const extents: { offset: number, length: number }[] = [];
+		for (let extent = 0; extent < extentCount; extent++) {
+			pos += indexSize;
+			const offset = readSized(pos, offsetSize);
+			pos += offsetSize;
+			const length = readSized(pos, lengthSize);
+			pos += lengthSize;
+			extents.push({ offset: baseOffset + offset, length });
+		}
+		if (constructionMethod === 0 && extents.length === 1) {
+			out.set(id, extents[0]);
+		}
+	}
+}
+
+// ---------------------------------------------------------------------------
+// Exif (TIFF IFDs)
+// ---------------------------------------------------------------------------
+
+const IFD0_TAGS: Record<number, string> = {
+	0x0100: 'ImageWidth',
+	0x0101: 'ImageLength',
+	0x010e: 'ImageDescription',
+	0x010f: 'Make',
+	0x0110: 'Model',
+	0x0112: 'Orientation',
+	0x0131: 'Software',
+	0x0132: 'DateTime',
+	0x013b: 'Artist',
+	0x8298: 'Copyright',
+};
+
+const EXIF_TAGS: Record<number, string> = {
+	0x829a: 'ExposureTime',
+	0x829d: 'FNumber',
+	0x8827: 'ISOSpeedRatings',
+	0x9003: 'DateTimeOriginal',
+	0x9011: 'OffsetTimeOriginal',
+	0x920a: 'FocalLength',
+	0xa002: 'PixelXDimension',
+	0xa003: 'PixelYDimension',
+	0xa405: 'FocalLengthIn35mmFilm',
+	0xa433: 'LensMake',
+	0xa434: 'LensModel',
+};
+
+const GPS_TAGS: Record<number, string> = {
+	0x0001: 'GPSLatitudeRef',
+	0x0002: 'GPSLatitude',
+	0x0003: 'GPSLongitudeRef',
+	0x0004: 'GPSLongitude',
+	0x0005: 'GPSAltitudeRef',
+	0x0006: 'GPSAltitude',
+};
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8 };
+
+/**
+ * Reads the tags we care about from a TIFF structure (the payload of an Exif block).
+ */
+function readTiff(tiff: Uint8Array, out: Map<string, TiffValue>): void {
+	if (tiff.length < 8) {
+		return;
+	}
+	const little = tiff[0] === 0x49 && tiff[1] === 0x49;
+	if (!little && !(tiff[0] === 0x4d && tiff[1] === 0x4d)) {
+		return;
+	}
+	const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength);
+	if (view.getUint16(2, little) !== 42) {
+		return;
+	}
+
+	const pointers = readIfd(view, view.getUint32(4, little), little, IFD0_TAGS, out);
+	if (pointers.exif) {
+		readIfd(view, pointers.exif, little, EXIF_TAGS, out);
+	}
+	if (pointers.gps) {
+		readIfd(view, pointers.gps, little, GPS_TAGS, out);
+	}
+}
+
+function readIfd(view: DataView, offset: number, little: boolean, tags: Record<number, string>, out: Map<string, TiffValue>): { exif?: number, gps?: number } {
+	const pointers: { exif?: number, gps?: number } = {};
+	if (offset + 2 > view.byteLength) {
+		return pointers;
+	}
+	const count = view.getUint16(offset, little);
+	for (let i = 0; i < count; i++) {
+		const entry = offset + 2 + i * 12;
+		if (entry + 12 > view.byteLength) {
+			break;
+		}
+		const tag = view.getUint16(entry, little);
+		if (tag === 0x8769) {
+			pointers.exif = view.getUint32(entry + 8, little);
+			continue;
+		}
+		if (tag === 0x8825) {
+			pointers.gps = view.getUint32(entry + 8, little);
+			continue;
+		}
+		const name = tags[tag];
+		if (!name) {
+			continue;
+		}
+		const value = readTiffValue(view, entry, little);
+		if (value !== null && !out.has(name)) {
+			out.set(name, value);
+		}
+	}
+	return pointers;
+}
+
+function readTiffValue(view: DataView, entry: number, little: boolean): TiffValue | null {
+	const type = view.getUint16(entry + 2, little);
+	const count = view.getUint32(entry + 4, little);
+	const size = TYPE_SIZES[type];
+	if (!size || count === 0) {
+		return null;
+	}
+	const total = size * count;
+	const dataOffset = total <= 4 ? entry + 8 : view.getUint32(entry + 8, little);
+	if (dataOffset + total > view.byteLength) {
+		return null;
+	}
+
+	if (type === 2 || type === 7) {
+		const bytes = new Uint8Array(view.buffer, view.byteOffset + dataOffset, total);
+		const text = decodeUtf8(bytes).replace(/\0[\s\S]*$/, '').trim();
+		return text.length > 0 ? text : null;
+	}
+
+	const values: number[] = [];
+	for (let i = 0; i < count && i < 16; i++) {
+		const pos = dataOffset + i * size;
+		switch (type) {
+			case 1: case 6: values.push(view.getUint8(pos)); break;
+			case 3: values.push(view.getUint16(pos, little)); break;
+			case 8: values.push(view.getInt16(pos, little)); break;
+			case 4: values.push(view.getUint32(pos, little)); break;
+			case 9: values.push(view.getInt32(pos, little)); break;
+			case 5: {
+				const denominator = view.getUint32(pos + 4, little);
+				values.push(denominator ? view.getUint32(pos, little) / denominator : 0);
+				break;
+			}
+			case 10: {
+				const denominator = view.getInt32(pos + 4, little);
+				values.push(denominator ? view.getInt32(pos, little) / denominator : 0);
+				break;
+			}
+		}
+	}
+	return values.length === 1 ? values[0] : values;
+}
+
+// ---------------------------------------------------------------------------
+// XMP
+// ---------------------------------------------------------------------------
+
+const XMP_PROPERTIES = [
+	'dc:title', 'dc:description', 'dc:subject', 'dc:rights', 'dc:creator',
+	'photoshop:DateCreated', 'exif:DateTimeOriginal', 'xmp:CreateDate',
+	'tiff:Make', 'tiff:Model', 'aux:Lens', 'exifEX:LensModel',
+];
+
+/**
+ * Pulls a handful of well-known properties out of an XMP packet.
+ * Handles both the element form and the attribute shorthand.
+ */
+function readXmp(xml: string, out: Map<string, string | string[]>): void {
+	for (const property of XMP_PROPERTIES) {
+		if (out.has(property)) {
+			continue;
+		}
+		const escaped = property.replace(':', '\\:');
+		const element = xml.match(new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`));
+		if (element) {
+			const items = [...element[1].matchAll(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/g)].map(m => decodeXmlEntities(m[1]).trim()).filter(Boolean);
+			if (items.length > 0) {
+				out.set(property, property === 'dc:subject' ? items : items[0]);
+			} else {
+				const text = decodeXmlEntities(element[1].replace(/<[^>]+>/g, '')).trim();
+				if (text) out.set(property, text);
+			}
+			continue;
+		}
+		const attribute = xml.match(new RegExp(`\\s${escaped}="([^"]*)"`));
+		if (attribute && attribute[1].trim()) {
+			out.set(property, decodeXmlEntities(attribute[1]).trim());
+		}
+	}
+}
+
+function decodeXmlEntities(text: string): string {
+	return text
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&apos;/g, "'")
+		.replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+		.replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+		.replace(/&amp;/g, '&');
+}
+
+// ---------------------------------------------------------------------------
+// IPTC (Photoshop image resources)
+// ---------------------------------------------------------------------------
+
+function readPhotoshopResources(data: Uint8Array, out: Map<number, string[]>): void {
+	let pos = 0;
+	while (pos + 12 <= data.length && startsWith(data.subarray(pos), '8BIM')) {
+		const id = (data[pos + 4] << 8) | data[pos + 5];
+		// Pascal-string name padded to an even length
+		const nameLength = data[pos + 6];
+		let p = pos + 6 + 1 + nameLength;
+		if ((nameLength + 1) % 2 === 1) p++;
+		const size = ((data[p] << 24) | (data[p + 1] << 16) | (data[p + 2] << 8) | data[p + 3]) >>> 0;
+		p += 4;
+		if (id === 0x0404) {
+			readIptc(data.subarray(p, Math.min(data.length, p + size)), out);
+		}
+		pos = p + size + (size % 2);
+	}
+}
+
+function readIptc(data: Uint8Array, out: Map<number, string[]>): void {
+	let pos = 0;
+	while (pos + 5 <= data.length && data[pos] === 0x1c) {
+		const record = data[pos + 1];
+		const dataset = data[pos + 2];
+		const length = (data[pos + 3] << 8) | data[pos + 4];
+		const value = data.subarray(pos + 5, Math.min(data.length, pos + 5 + length));
+		if (record === 2) {
+			const text = decodeUtf8(value).trim();
+			if (text) {
+				out.set(dataset, [...(out.get(dataset) || []), text]);
+			}
+		}
+		pos += 5 + length;
+	}
+}
+
+// IIM record 2 dataset numbers
+const IPTC_OBJECT_NAME = 5;
+const IPTC_KEYWORDS = 25;
+const IPTC_DATE_CREATED = 55;
+const IPTC_BYLINE = 80;
+const IPTC_COPYRIGHT = 116;
+const IPTC_CAPTION = 120;
+
+// ---------------------------------------------------------------------------
+// Merging
+// ---------------------------------------------------------------------------
+
+function mergeSources(format: ImageExif['format'], dimensions: { width: number, height: number } | null, sources: Sources): ImageExif {
+	const { tiff, xmp, iptc, text } = sources;
+	const tiffText = (name: string): string | null => {
+		const value = tiff.get(name);
+		return typeof value === 'string' ? value : null;
+	};
+	const tiffNumber = (name: string): number | null => {
+		const value = tiff.get(name);
+		return typeof value === 'number' ? value : Array.isArray(value) && value.length > 0 ? value[0] : null;
+	};
+	const xmpText = (name: string): string | null => {
+		const value = xmp.get(name);
+		return typeof value === 'string' ? value : Array.isArray(value) ? value.join(', ') : null;
+	};
+	const iptcFirst = (dataset: number): string | null => iptc.get(dataset)?.[0] ?? null;
+
+	const exposure = tiffNumber('ExposureTime');
+	const xmpKeywords = xmp.get('dc:subject');
+	const keywords = [...new Set([
+		...(iptc.get(IPTC_KEYWORDS) || []),
+		...(Array.isArray(xmpKeywords) ? xmpKeywords : typeof xmpKeywords === 'string' ? xmpKeywords.split(/[,;]/) : []),
+		...(text.get('keywords')?.split(/[,;]/) || []),
+	].map(keyword => keyword.trim()).filter(Boolean))];
+
+	const dateTaken = exifDateToIso(tiffText('DateTimeOriginal'), tiffText('OffsetTimeOriginal'))
+		|| xmpText('exif:DateTimeOriginal')
+		|| xmpText('photoshop:DateCreated')
+		|| iptcDateToIso(iptcFirst(IPTC_DATE_CREATED))
+		|| xmpText('xmp:CreateDate')
+		|| exifDateToIso(tiffText('DateTime'), null)
+		|| text.get('creation time')
+		|| null;
+
+	return {
+		format,
+		width: dimensions?.width || tiffNumber('PixelXDimension') || tiffNumber('ImageWidth'),
+		height: dimensions?.height || tiffNumber('PixelYDimension') || tiffNumber('ImageLength'),
+		orientation: tiffNumber('Orientation'),
+		make: tiffText('Make') || xmpText('tiff:Make'),
+		model: tiffText('Model') || xmpText('tiff:Model'),
+		lens: tiffText('LensModel') || xmpText('exifEX:LensModel') || xmpText('aux:Lens'),
+		software: tiffText('Software') || text.get('software') || null,
+		exposureTime: exposure ? formatExposure(exposure) : null,
+		fNumber: roundTo(tiffNumber('FNumber'), 1),
+		iso: tiffNumber('ISOSpeedRatings'),
+		focalLength: roundTo(tiffNumber('FocalLength'), 1),
+		focalLength35mm: tiffNumber('FocalLengthIn35mmFilm'),
+		dateTaken,
+		gps: readGps(tiff),
+		title: iptcFirst(IPTC_OBJECT_NAME) || xmpText('dc:title') || text.get('title') || null,
+		caption: iptcFirst(IPTC_CAPTION) || xmpText('dc:description') || tiffText('ImageDescription') || text.get('description') || text.get('comment') || null,
+		keywords,
+		creator: iptcFirst(IPTC_BYLINE) || xmpText('dc:creator') || tiffText('Artist') || text.get('author') || null,
+		copyright: iptcFirst(IPTC_COPYRIGHT) || xmpText('dc:rights') || tiffText('Copyright') || text.get('copyright') || null,
+	};
+}
+
+function readGps(tiff: Map<string, TiffValue>): ImageGps | null {
+	const latitude = dmsToDegrees(tiff.get('GPSLatitude'), tiff.get('GPSLatitudeRef'), 'S');
+	const longitude = dmsToDegrees(tiff.get('GPSLongitude'), tiff.get('GPSLongitudeRef'), 'W');
+	if (latitude === null || longitude === null || (latitude === 0 && longitude === 0)) {
+		return null;
+	}
+	const altitudeValue = tiff.get('GPSAltitude');
+	let altitude = typeof altitudeValue === 'number' ? altitudeValue : null;
+	// AltitudeRef 1 means below sea level
+	if (altitude !== null && tiff.get('GPSAltitudeRef') === 1) {
+		altitude = -altitude;
+	}
+	return {
+		latitude: roundTo(latitude, 6)!,
+		longitude: roundTo(longitude, 6)!,
+		altitude: roundTo(altitude, 1),
+	};
+}
+
+function dmsToDegrees(value: TiffValue | undefined, ref: TiffValue | undefined, negativeRef: string): number | null {
+	if (!Array.isArray(value) || value.length < 3) {
+		return null;
+	}
+	const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+	return typeof ref === 'string' && ref.toUpperCase().startsWith(negativeRef) ? -degrees : degrees;
+}
+
+function formatExposure(seconds: number): string {
+	if (seconds >= 1) {
+		return `${roundTo(seconds, 1)}s`;
+	}
+	return `1/${Math.round(1 / seconds)}`;
+}
+
+// Exif dates look like "2024:05:31 14:22:09"
+function exifDateToIso(value: string | null, offset: string | null): string | null {
+	const match = value?.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+	if (!match || match[1] === '0000') {
+		return null;
+	}
+	const [, year, month, day, hour, minute, second] = match;
+	const zone = offset && /^[+-]\d{2}:\d{2}$/.test(offset) ? offset : '';
+	return `${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`;
+}
+
+// IPTC dates are CCYYMMDD
+function iptcDateToIso(value: string | null): string | null {
+	const match = value?.match(/^(\d{4})(\d{2})(\d{2})$/);
+	return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function roundTo(value: number | null, digits: number): number | null {
+	if (value === null || !isFinite(value)) {
+		return null;
+	}
+	const factor = Math.pow(10, digits);
+	return Math.round(value * factor) / factor;
+}
+
+function startsWith(bytes: Uint8Array, prefix: string): boolean {
+	if (bytes.length < prefix.length) {
+		return false;
+	}
+	for (let i = 0; i < prefix.length; i++) {
+		if (bytes[i] !== prefix.charCodeAt(i)) {
+			return false;
+		}
+	}
+	return true;
+}
+
+function latin1(bytes: Uint8Array): string {
+	let text = '';
+	for (const byte of bytes) {
+		text += String.fromCharCode(byte);
+	}
+	return text;
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+	try {
+		return new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(bytes);
+	} catch {
+		return latin1(bytes);
+	}
+}
+
+function decodeRawProfile(text: string): Uint8Array | null {
+	// Format: "\n<name>\n<length>\n<hex lines>"
+	const match = text.match(/^\s*\S+\s+(\d+)\s+([0-9a-fA-F\s]+)$/);
+	if (!match) {
+		return null;
+	}
+	const hex = match[2].replace(/\s+/g, '');
+	const out = new Uint8Array(Math.min(parseInt(match[1], 10), Math.floor(hex.length / 2)));
+	for (let i = 0; i < out.length; i++) {
+		out[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+	}
+	return out;
+}
@@ -0,0 +1,260 @@
+/**
+ * Synchronous DEFLATE decoder (RFC 1951) with an optional zlib wrapper (RFC 1950).
+ *
+ * The Workers runtime only offers DecompressionStream, which is stream-based and
+ * awkward to use from the synchronous binary parsers in this folder, so we carry
+ * a small table-driven implementation instead.
+ */
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+interface Huffman {
+	counts: Uint16Array; // number of codes of each bit length
+	symbols: Uint16Array; // symbols ordered by code
+}
+
+let fixedLiteral: Huffman | null = null;
+let fixedDistance: Huffman | null = null;
+
+export class InflateError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'InflateError';
+	}
+}
+
+/**
+ * Inflates zlib-wrapped data (the format used by PDF FlateDecode and PNG).
+ * Falls back to raw DEFLATE if the two-byte zlib header is missing.
+ */
+export function inflate(data: Uint8Array, maxOutputBytes = Infinity): Uint8Array {
+	if (data.length >= 2 && (data[0] & 0x0f) === 8 && ((data[0] << 8) | data[1]) % 31 === 0) {
+		return inflateRaw(data.subarray(2), maxOutputBytes);
+	}
+	return inflateRaw(data, maxOutputBytes);
+}
+
+/**
+ * Inflates raw DEFLATE data (the format used inside ZIP archives).
+ * Decoding stops early once `maxOutputBytes` have been produced.
+ */
+export function inflateRaw(data: Uint8Array, maxOutputBytes = Infinity): Uint8Array {
+	const state = new Inflater(data, maxOutputBytes);
+	return state.run();
+}
+
+class Inflater {
+	private pos = 0;
+	private bitBuffer = 0;
+	private bitCount = 0;
+	private out: Uint8Array;
+	private outLength = 0;
+
+	constructor(private readonly data: Uint8Array, private readonly maxOutput: number) {
+		this.out = new Uint8Array(Math.max(1024, data.length * 4));
+	}
+
+	run(): Uint8Array {
+		let last = 0;
+		while (!last && this.outLength < this.maxOutput) {
+			last = this.bits(1);
+			const type = this.bits(2);
+			if (type === 0) {
+				this.stored();
+			} else if (type === 1) {
+				if (!fixedLiteral || !fixedDistance) {
+					buildFixedTables();
+				}
+				this.codes(fixedLiteral!, fixedDistance!);
+			} else if (type === 2) {
+				const { literal, distance } = this.dynamicTables();
+				this.codes(literal, distance);
+			} else {
+				throw new InflateError('Invalid block type');
+			}
+		}
+		return this.out.slice(0, Math.min(this.outLength, this.maxOutput));
+	}
+
+	private bits(count: number): number {
+		while (this.bitCount < count) {
+			if (this.pos >= this.data.length) {
+				throw new InflateError('Unexpected end of compressed data');
+			}
+			this.bitBuffer |= this.data[this.pos++] << this.bitCount;
+			this.bitCount += 8;
+		}
+		const value = this.bitBuffer & ((1 << count) - 1);
+		this.bitBuffer >>>= count;
+		this.bitCount -= count;
+		return value;
+	}
+
+	private ensure(extra: number): void {
+		if (this.outLength + extra <= this.out.length) {
+			return;
+		}
+		let size = this.out.length * 2;
+		while (size < this.outLength + extra) {
+			size *= 2;
+		}
+		const grown = new Uint8Array(size);
+		grown.set(this.out.subarray(0, this.outLength));
+		this.out = grown;
+	}
+
+	private stored(): void {
+		// Discard remaining bits in the current byte
+		this.bitBuffer = 0;
+		this.bitCount = 0;
+		if (this.pos + 4 > this.data.length) {
+			throw new InflateError('Unexpected end of compressed data');
+		}
+		const length = this.data[this.pos] | (this.data[this.pos + 1] << 8);
+		const check = this.data[this.pos + 2] | (this.data[this.pos + 3] << 8);
+		if ((length ^ 0xffff) !== check) {
+			throw new InflateError('Stored block length mismatch');
+		}
+		this.pos += 4;
+		if (this.pos + length > this.data.length) {
+			throw new InflateError('Unexpected end of compressed data');
+		}
+		this.ensure(length);
+		this.out.set(this.data.subarray(this.pos, this.pos + length), this.outLength);
+		this.outLength += length;
+		this.pos += length;
+	}
+
+	private decodeSymbol(table: Huffman): number {
+		let code = 0;
+		let first = 0;
+		let index = 0;
+		for (let len = 1; len < 16; len++) {
+			code |= this.bits(1);
+			const count = table.counts[len];
+			if (code - count < first) {
+				return table.symbols[index + (code - first)];
+			}
+			index += count;
+			first += count;
+			first <<= 1;
+			code <<= 1;
+		}
+		throw new InflateError('Invalid Huffman code');
+	}
+
+	private codes(literal: Huffman, distance: Huffman): void {
+		for (;;) {
+			const symbol = this.decodeSymbol(literal);
+			if (symbol < 256) {
+				this.ensure(1);
+				this.out[this.outLength++] = symbol;
+			} else if (symbol === 256) {
+				return;
+			} else {
+				const lengthIndex = symbol - 257;
+				if (lengthIndex >= LENGTH_BASE.length) {
+					throw new InflateError('Invalid length symbol');
+				}
+				const length = LENGTH_BASE[lengthIndex] + this.bits(LENGTH_EXTRA[lengthIndex]);
+				const distanceIndex = this.decodeSymbol(distance);
+				if (distanceIndex >= DIST_BASE.length) {
+					throw new InflateError('Invalid distance symbol');
+				}
+				const dist = DIST_BASE[distanceIndex] + this.bits(DIST_EXTRA[distanceIndex]);
+				if (dist > this.outLength) {
+					throw new InflateError('Distance too far back');
+				}
+				this.ensure(length);
+				// Byte-by-byte copy because source and destination may overlap
+				for (let i = 0; i < length; i++) {
+					this.out[this.outLength] = this.out[this.outLength - dist];
+					this.outLength++;
+				}
+			}
+			if (this.outLength >= this.maxOutput) {
+				return;
+			}
+		}
+	}
+
+	private dynamicTables(): { literal: Huffman, distance: Huffman } {
+		const literalCount = this.bits(5) + 257;
+		const distanceCount = this.bits(5) + 1;
+		const codeLengthCount = this.bits(4) + 4;
+
+		const codeLengths = new Uint8Array(19);
+		for (let i = 0; i < codeLengthCount; i++) {
+			codeLengths[CODE_LENGTH_ORDER[i]] = this.bits(3);
+		}
+		const codeLengthTable = buildHuffman(codeLengths);
+
+		const lengths = new Uint8Array(literalCount + distanceCount);
+		let i = 0;
+		while (i < literalCount + distanceCount) {
+			const symbol = this.decodeSymbol(codeLengthTable);
+			if (symbol < 16) {
+				lengths[i++] = symbol;
+				continue;
+			}
+			let repeat: number;
+			let value = 0;
+			if (symbol === 16) {
+				if (i === 0) {
+					throw new InflateError('Repeat with no previous length');
+				}
+				value = lengths[i - 1];
+				repeat = 3 + this.bits(2);
+			} else if (symbol === 17) {
+				repeat = 3 + this.bits(3);
+			} else {
+				repeat = 11 + this.bits(7);
+			}
+			if (i + repeat > lengths.length) {
+				throw new InflateError('Too many code lengths');
+			}
+			lengths.fill(value, i, i + repeat);
+			i += repeat;
+		}
+
+		return {
+			literal: buildHuffman(lengths.subarray(0, literalCount)),
+			distance: buildHuffman(lengths.subarray(literalCount)),
+		};
+	}
+}
+
+function buildHuffman(lengths: Uint8Array): Huffman {
+	const counts = new Uint16Array(16);
+	for (const length of lengths) {
+		counts[length]++;
+	}
+	counts[0] = 0;
+
+	const offsets = new Uint16Array(16);
+	for (let len = 1; len < 16; len++) {
+		offsets[len] = offsets[len - 1] + counts[len - 1];
+	}
+
+	const symbols = new Uint16Array(lengths.length);
+	for (let symbol = 0; symbol < lengths.length; symbol++) {
+		if (lengths[symbol]) {
+			symbols[offsets[lengths[symbol]]++] = symbol;
+		}
+	}
+	return { counts, symbols };
+}
+
+function buildFixedTables(): void {
+	const lengths = new Uint8Array(288);
+	lengths.fill(8, 0, 144);
+	lengths.fill(9, 144, 256);
+	lengths.fill(7, 256, 280);
+	lengths.fill(8, 280, 288);
+	fixedLiteral = buildHuffman(lengths);
+	fixedDistance = buildHuffman(new Uint8Array(30).fill(5));
+}
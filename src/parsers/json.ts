@@ -0,0 +1,248 @@
+/**
+ * Outlines the top-level structure of a JSON document: an object's keys and the
+ * types of their values, or an array's length and what its elements are.
+ *
+ * A whole document is parsed. The start of a larger one cannot be, so it is
+ * scanned instead, and the outline covers only what the sample holds.
+ */
+
+export type JsonType = 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+
+export interface JsonOutline {
+	type: JsonType;
+	// Members of a top-level object, in order
+	keys: { name: string, type: JsonType }[] | null;
+	// Elements of a top-level array
+	length: number | null;
+	// Types among an array's elements
+	elementTypes: JsonType[] | null;
+	// Keys of the objects in an array, in the order first seen
+	elementKeys: string[] | null;
+}
+
+// Upper bounds on the keys listed, and on the array elements whose keys are read
+const MAX_KEYS = 100;
+const MAX_KEYED_ELEMENTS = 1000;
+
+/**
+ * Outlines `text`. When `complete` is false the text is the start of a larger
+ * document. Throws a SyntaxError if a complete document is not valid JSON.
+ */
+export function outlineJson(text: string, complete: boolean): JsonOutline {
+	return complete ? outlineValue(JSON.parse(text)) : new JsonScanner(text).outline();
+}
+
+function outlineValue(value: unknown): JsonOutline {
+	const outline: JsonOutline = { type: typeOf(value), keys: null, length: null, elementTypes: null, elementKeys: null };
+	if (Array.isArray(value)) {
+		outline.length = value.length;
+		outline.elementTypes = [...new Set(value.map(typeOf))];
+		const keys = new Set<string>();
+		for (const element of value.slice(0, MAX_KEYED_ELEMENTS)) {
+			if (typeOf(element) === 'object') {
+				Object.keys(element).forEach(key => keys.size < MAX_KEYS && keys.add(key));
+			}
+		}
+		outline.elementKeys = [...keys];
+	} else if (outline.type === 'object') {
+		outline.keys = Object.entries(value).slice(0, MAX_KEYS).map(([name, member]) => ({ name, type: typeOf(member) }));
+	}
+	return outline;
+}
+
+function typeOf(value: unknown): JsonType {
+	if (value === null) {
+		return 'null';
+	}
+	if (Array.isArray(value)) {
+		return 'array';
+	}
+	return typeof value as JsonType;
+}
+
+// Tells a value's type from its first character
+function typeFromChar(char: string): JsonType | null {
+	switch (char) {
+		case '{':
+			return 'object';
+		case '[':
+			return 'array';
+		case '"':
+			return 'string';
+		case 't':
+		case 'f':
+			return 'boolean';
+		case 'n':
+			return 'null';
+		default:
+			return char === '-' || (char >= '0' && char <= '9') ? 'number' : null;
+	}
+}
+
+/**
+ * Walks the top level of a document that may be cut off. Each method returns
+ * false once it runs off the end of the text or into something that is not JSON.
+ */
+class JsonScanner {
+	private pos = 0;
+
+	constructor(private readonly text: string) {}
+
+	outline(): JsonOutline {
+		this.skipWhitespace();
+		const type = typeFromChar(this.text[this.pos]);
+		if (!type) {
+			throw new SyntaxError('Not valid JSON');
+		}
+		const outline: JsonOutline = { type, keys: null, length: null, elementTypes: null, elementKeys: null };
+		if (type === 'object') {
+			outline.keys = [];
+			this.members((name, valueType) => {
+				if (outline.keys.length < MAX_KEYS) {
+					outline.keys.push({ name, type: valueType });
+				}
+				return this.skipValue();
+			});
+		} else if (type === 'array') {
+			const elementTypes = new Set<JsonType>();
+			const elementKeys = new Set<string>();
+			outline.length = 0;
+			this.elements(elementType => {
+				elementTypes.add(elementType);
+				outline.length++;
+				if (elementType !== 'object' || outline.length > MAX_KEYED_ELEMENTS) {
+					return this.skipValue();
+				}
+				return this.members(name => {
+					if (elementKeys.size < MAX_KEYS) {
+						elementKeys.add(name);
+					}
+					return this.skipValue();
+				});
+			});
+			outline.elementTypes = [...elementTypes];
+			outline.elementKeys = [...elementKeys];
+		}
+		return outline;
+	}
+
+	// Calls `member` with the key and value type of each member of the object at
+	// the current position; it must consume the value
+	private members(member: (name: string, type: JsonType) => boolean): boolean {
+		this.pos++;
+		this.skipWhitespace();
+		if (this.text[this.pos] === '}') {
+			this.pos++;
+			return true;
+		}
+		while (this.pos < this.text.length) {
+			const name = this.readString();
+			this.skipWhitespace();
+			if (name === null || this.text[this.pos] !== ':') {
+				return false;
+			}
+			this.pos++;
+			this.skipWhitespace();
+			const type = typeFromChar(this.text[this.pos]);
+			if (!type || !member(name, type) || !this.next('}')) {
+				return false;
+			}
+			if (this.text[this.pos - 1] === '}') {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	// Calls `element` with the type of each element of the array at the current
+	// position; it must consume the element
+	private elements(element: (type: JsonType) => boolean): boolean {
+		this.pos++;
+		this.skipWhitespace();
+		if (this.text[this.pos] === ']') {
+			this.pos++;
+			return true;
+		}
+		while (this.pos < this.text.length) {
+			const type = typeFromChar(this.text[this.pos]);
+			if (!type || !element(type) || !this.next(']')) {
+				return false;
+			}
+			if (this.text[this.pos - 1] === ']') {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	// Moves past the comma before the next item, or past `close`
+	private next(close: string): boolean {
+		this.skipWhitespace();
+		const char = this.text[this.pos];
+		if (char !== ',' && char !== close) {
+			return false;
+		}
+		this.pos++;
+		this.skipWhitespace();
+		return true;
+	}
+
+	// Moves past the value at the current position, counting brackets
+	private skipValue(): boolean {
+		let depth = 0;
+		while (this.pos < this.text.length) {
+			const char = this.text[this.pos];
+			if (char === '"') {
+				if (this.readString() === null) {
+					return false;
+				}
+			} else if (char === '{' || char === '[') {
+				depth++;
+				this.pos++;
+			} else if (char === '}' || char === ']') {
+				// The end of the enclosing object or array, after a number or literal
+				if (depth === 0) {
+					return true;
+				}
+				depth--;
+				this.pos++;
+			} else if (depth === 0 && (char === ',' || /\s/.test(char))) {
+				return true;
+			} else {
+				this.pos++;
+			}
+			// A string, or the bracket closing the value
+			if (depth === 0 && (char === '"' || char === '}' || char === ']')) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	private readString(): string | null {
+		if (this.text[this.pos] !== '"') {
+			return null;
+		}
+		let end = this.pos + 1;
+		while (end < this.text.length && this.text[end] !== '"') {
+			end += this.text[end] === '\\' ? 2 : 1;
+		}
+		if (end >= this.text.length) {
+			return null;
+		}
+		let value: string;
+		try {
+			value = JSON.parse(this.text.slice(this.pos, end + 1));
+		} catch {
+			return null;
+		}
+		this.pos = end + 1;
+		return value;
+	}
+
+	private skipWhitespace(): void {
+		while (this.pos < this.text.length && /\s/.test(this.text[this.pos])) {
+			this.pos++;
+		}
+	}
+}
@@ -0,0 +1,184 @@
+/**
+ * Identifies a file's format from its first bytes ("magic numbers"), whatever
+ * its key or Content-Type say.
+ *
+ * - Images: JPEG, PNG, GIF, WebP (RIFF), TIFF, and AVIF and HEIC (ISO-BMFF brands)
+ * - Documents: PDF, and DOCX, XLSX and PPTX (ZIP archives told apart by their part names)
+ * - Video: MP4 and QuickTime (ISO-BMFF)
+ * - Audio: MP3 (an ID3 tag or an MPEG audio frame), WAV (RIFF) and M4A (ISO-BMFF)
+ * - Text: a Unicode byte order mark, or no control characters other than whitespace.
+ *   Markdown, CSV and JSON are all just "text/plain" to sniffing.
+ */
+
+// Bytes to read from the start of an object. PDF readers accept up to 1 KiB of
+// junk before the %PDF- header, so look that far when a file should be a PDF.
+export const SNIFF_LENGTH = 1024;
+
+// ISO-BMFF brands that mark a still image rather than a video
+const AVIF_BRANDS = new Set(['avif', 'avis']);
+const HEIC_BRANDS = new Set(['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1']);
+
+// Office documents by the folder their main part is in
+const OOXML_FOLDERS: Record<string, string> = {
+	'word/': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+	'xl/': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+	'ppt/': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+};
+
+// Control characters allowed in text: \t \n \v \f \r, SUB and ESC
+const TEXT_CONTROL_BYTES = new Set([0x09, 0x0a, 0x0b, 0x0c, 0x0d, 0x1a, 0x1b]);
+
+// Boxes that may open a QuickTime file written before ftyp existed
+const LEGACY_QUICKTIME_BOXES = new Set(['moov', 'mdat', 'free', 'skip', 'wide', 'pnot']);
+
+/**
+ * Returns the MIME type of the format `bytes` start with, or null if it is not
+ * one we recognise. `expectedMimeType` is what the file's extension implies: a
+ * %PDF- header after leading junk only counts when it is PDF, as text that
+ * merely mentions the header would otherwise be taken for one.
+ */
+export function detectMimeType(bytes: Uint8Array, expectedMimeType: string | null = null): string | null {
+	if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+		return 'image/jpeg';
+	}
+	// Before MP3, as a UTF-16 byte order mark can pass for an MPEG frame header
+	if (startsWith(bytes, '\xef\xbb\xbf') || startsWith(bytes, '\xff\xfe') || startsWith(bytes, '\xfe\xff')) {
+		return 'text/plain';
+	}
+	if (startsWith(bytes, '\x89PNG\r\n\x1a\n')) {
+		return 'image/png';
+	}
+	if (startsWith(bytes, 'GIF87a') || startsWith(bytes, 'GIF89a')) {
+		return 'image/gif';
+	}
+	if (startsWith(bytes, 'RIFF') && latin1(bytes.subarray(8, 12)) === 'WEBP') {
+		return 'image/webp';
+	}
+	if ((startsWith(bytes, 'RIFF') || startsWith(bytes, 'RF64')) && latin1(bytes.subarray(8, 12)) === 'WAVE') {
+		return 'audio/wav';
+	}
+	if (startsWith(bytes, 'ID3') || isMpegAudioFrame(bytes)) {
+		return 'audio/mpeg';
+	}
+	if (startsWith(bytes, 'II*\0') || startsWith(bytes, 'MM\0*')) {
+		return 'image/tiff';
+	}
+	if (startsWith(bytes, 'PK\x03\x04')) {
+		return detectZip(bytes);
+	}
+	const isoBmff = detectIsoBmff(bytes);
+	if (isoBmff) {
+		return isoBmff;
+	}
+	if (startsWith(bytes, '%PDF-')) {
+		return 'application/pdf';
+	}
+	if (expectedMimeType === 'application/pdf' && latin1(bytes.subarray(0, SNIFF_LENGTH)).includes('%PDF-')) {
+		return 'application/pdf';
+	}
+	if (isText(bytes)) {
+		return 'text/plain';
+	}
+	return null;
+}
+
+// Office documents are ZIP archives whose part names say which application wrote
+// them. Any name in a local file header within the sniffed bytes will do; if the
+// first entries are too large to see past, it is just "application/zip".
+function detectZip(bytes: Uint8Array): string {
+	for (let pos = 0; pos + 30 <= bytes.length; pos++) {
+		if (bytes[pos] !== 0x50 || !startsWith(bytes.subarray(pos), 'PK\x03\x04')) {
+			continue;
+		}
+		const nameLength = bytes[pos + 26] | (bytes[pos + 27] << 8);
+		const name = latin1(bytes.subarray(pos + 30, pos + 30 + nameLength));
+		const folder = Object.keys(OOXML_FOLDERS).find(prefix => name.startsWith(prefix));
+		if (folder) {
+			return OOXML_FOLDERS[folder];
+		}
+	}
+	return 'application/zip';
+}
+
+// An MPEG audio frame header: an 11-bit sync word, then a version, layer,
+// bitrate and sample rate that are not reserved values. JPEG also starts with
+// 0xff, so it has to be ruled out first.
+function isMpegAudioFrame(bytes: Uint8Array): boolean {
+	if (bytes.length < 4 || bytes[0] !== 0xff || (bytes[1] & 0xe0) !== 0xe0) {
+		return false;
+	}
+	const version = (bytes[1] >> 3) & 3;
+	const layer = (bytes[1] >> 1) & 3;
+	const bitrate = bytes[2] >> 4;
+	const sampleRate = (bytes[2] >> 2) & 3;
+	return version !== 1 && layer !== 0 && bitrate !== 0 && bitrate !== 15 && sampleRate !== 3;
+}
+
+// Text has no control characters but tab, line breaks, form feed, escape and
+// the DOS end-of-file mark. The encoding is worked out when the file is read.
+function isText(bytes: Uint8Array): boolean {
+	if (bytes.length === 0) {
+		return false;
+	}
+	for (const byte of bytes) {
+		if ((byte < 0x20 && !TEXT_CONTROL_BYTES.has(byte)) || byte === 0x7f) {
+			return false;
+		}
+	}
+	return true;
+}
+
+// ISO-BMFF files start with an ftyp box whose brands say what they hold
+function detectIsoBmff(bytes: Uint8Array): string | null {
+	if (bytes.length < 12) {
+		return null;
+	}
+	const boxType = latin1(bytes.subarray(4, 8));
+	if (boxType !== 'ftyp') {
+		return LEGACY_QUICKTIME_BOXES.has(boxType) ? 'video/quicktime' : null;
+	}
+
+	const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+	const boxEnd = Math.min(view.getUint32(0), bytes.length);
+	const majorBrand = latin1(bytes.subarray(8, 12));
+	const brands = [majorBrand];
+	// Compatible brands follow the major brand and minor version
+	for (let pos = 16; pos + 4 <= boxEnd; pos += 4) {
+		brands.push(latin1(bytes.subarray(pos, pos + 4)));
+	}
+
+	// mif1 is shared by AVIF and HEIC, so check for AVIF first
+	if (brands.some(brand => AVIF_BRANDS.has(brand))) {
+		return 'image/avif';
+	}
+	if (brands.some(brand => HEIC_BRANDS.has(brand))) {
+		return 'image/heic';
+	}
+	if (majorBrand === 'qt  ') {
+		return 'video/quicktime';
+	}
+	if (majorBrand.startsWith('M4A') || majorBrand.startsWith('M4B')) {
+		return 'audio/mp4';
+	}
+	return 'video/mp4';
+}
+
+function startsWith(bytes: Uint8Array, prefix: string): boolean {
+	if (bytes.length < prefix.length) {
+		return false;
+	}
+	for (let i = 0; i < prefix.length; i++) {
+		if (bytes[i] !== prefix.charCodeAt(i)) {
+			return false;
+		}
+	}
+	return true;
+}
+
+function latin1(bytes: Uint8Array): string {
+	let text = '';
+	for (const byte of bytes) {
+		text += String.fromCharCode(byte);
+	}
+	return text;
+}
@@ -0,0 +1,406 @@
+/**
+ * Minimal ISO-BMFF (MP4/MOV) box parser.
+ *
+ * Only the boxes needed for descriptive metadata are decoded:
+ * ftyp, moov/mvhd, moov/trak/tkhd, mdia/mdhd, mdia/hdlr, stbl/stsd and stbl/stts,
+ * and the iTunes-style tags in moov/udta/meta/ilst.
+ * The media data (mdat) is never read, so a file of any size can be inspected
+ * with a handful of small ranged reads.
+ */
+
+/** Reads `length` bytes starting at `offset` from the underlying object. */
+export type RangeReader = (offset: number, length: number) => Promise<Uint8Array>;
+
+export interface Mp4Track {
+	id: number;
+	kind: 'video' | 'audio' | 'other';
+	handlerType: string;
+	codec: string | null;
+	durationSeconds: number | null;
+	language: string | null;
+	width?: number;
+	height?: number;
+	frameRate?: number;
+	sampleRate?: number;
+	channels?: number;
+}
+
+/** Tags written by iTunes and most other taggers, as in M4A music and podcasts. */
+export interface Mp4Tags {
+	title: string | null;
+	artist: string | null;
+	album: string | null;
+	hasCoverArt: boolean;
+}
+
+export interface Mp4Info {
+	majorBrand: string | null;
+	compatibleBrands: string[];
+	durationSeconds: number | null;
+	creationTime: string | null;
+	modificationTime: string | null;
+	tracks: Mp4Track[];
+	tags: Mp4Tags;
+}
+
+// ilst items holding the tags we read ("\xa9" is the copyright sign Apple prefixes them with)
+const TAG_ITEMS: Record<string, keyof Omit<Mp4Tags, 'hasCoverArt'>> = {
+	'\xa9nam': 'title',
+	'\xa9ART': 'artist',
+	'\xa9alb': 'album',
+};
+
+// Seconds between the MP4 epoch (1904-01-01) and the Unix epoch
+const MP4_EPOCH_OFFSET = 2082844800;
+
+// Refuse to buffer absurdly large moov boxes (they are normally a few hundred KB)
+const MAX_MOOV_BYTES = 64 * 1024 * 1024;
+
+// Upper bound on top-level boxes walked before giving up on finding moov
+const MAX_TOP_LEVEL_BOXES = 1024;
+
+interface Box {
+	type: string;
+	start: number; // offset of the box header
+	headerSize: number;
+	size: number; // total size including header
+}
+
+/**
+ * Parses an MP4 container using ranged reads.
+ * Throws if the data does not look like an ISO-BMFF file or has no moov box.
+ */
+export async function parseMp4(read: RangeReader, fileSize: number): Promise<Mp4Info> {
+	let ftyp: Uint8Array | null = null;
+	let moov: Uint8Array | null = null;
+
+	let offset = 0;
+	let boxCount = 0;
+	while (offset + 8 <= fileSize && boxCount < MAX_TOP_LEVEL_BOXES && !(ftyp && moov)) {
+		const header = await read(offset, Math.min(16, fileSize - offset));
+		const box = readBoxHeader(header, 0, fileSize - offset);
+		if (!box) {
+			break;
+		}
+		box.start = offset;
+
+		if (box.type === 'ftyp' || box.type === 'moov') {
+			if (box.size > MAX_MOOV_BYTES) {
+				throw new Error(`${box.type} box is too large to parse (${box.size} bytes)`);
+			}
+			const body = await read(offset + box.headerSize, box.size - box.headerSize);
+			if (box.type === 'ftyp') {
+				ftyp = body;
+			} else {
+				moov = body;
+			}
+		} else if (boxCount === 0 && !isKnownTopLevelBox(box.type)) {
+			throw new Error('Not an ISO-BMFF file (unexpected first box)');
+		}
+
+		offset += box.size;
+		boxCount++;
+	}
+
+	if (!moov) {
+		throw new Error('No moov box found; file may be truncated or not an MP4');
+	}
+
+	const info: Mp4Info = {
+		majorBrand: null,
+		compatibleBrands: [],
+		durationSeconds: null,
+		creationTime: null,
+		modificationTime: null,
+		tracks: [],
+		tags: { title: null, artist: null, album: null, hasCoverArt: false },
+	};
+
+	if (ftyp && ftyp.length >= 8) {
+		info.majorBrand = fourcc(ftyp, 0).trim();
+		for (let i = 8; i + 4 <= ftyp.length; i += 4) {
+			info.compatibleBrands.push(fourcc(ftyp, i).trim());
+		}
+	}
+
+	let fragmentDuration: number | null = null;
+	let movieTimescale = 0;
+
+	for (const child of iterateBoxes(moov, 0, moov.length)) {
+		const view = viewOf(moov);
+		const body = child.start + child.headerSize;
+		if (child.type === 'mvhd') {
+			const mvhd = parseTimeHeader(view, body);
+			movieTimescale = mvhd.timescale;
+			info.creationTime = mp4TimeToIso(mvhd.creationTime);
+			info.modificationTime = mp4TimeToIso(mvhd.modificationTime);
+			if (mvhd.timescale > 0 && mvhd.duration > 0) {
+				info.durationSeconds = mvhd.duration / mvhd.timescale;
+			}
+		} else if (child.type === 'trak') {
+			const track = parseTrak(moov, child);
+			if (track) {
+				info.tracks.push(track);
+			}
+		} else if (child.type === 'udta') {
+			parseUserData(moov, child, info.tags);
+		} else if (child.type === 'mvex') {
+			// Fragmented files keep the real duration in mvex/mehd
+			const mehd = findChild(moov, child, 'mehd');
+			if (mehd) {
+				const version = moov[mehd.start + mehd.headerSize];
+				const pos = mehd.start + mehd.headerSize + 4;
+				fragmentDuration = version === 1 ? readUint64(view, pos) : view.getUint32(pos);
+			}
+		}
+	}
+
+	if (!info.durationSeconds && fragmentDuration && movieTimescale > 0) {
+		info.durationSeconds = fragmentDuration / movieTimescale;
+	}
+	if (!info.durationSeconds) {
+		const trackDurations = info.tracks.map(t => t.durationSeconds || 0);
+		const longest = Math.max(0, ...trackDurations);
+		info.durationSeconds = longest > 0 ? longest : null;
+	}
+
+	return info;
+}
+
+function parseTrak(moov: Uint8Array, trak: Box): Mp4Track | null {
+	const view = viewOf(moov);
+	const track: Mp4Track = {
+		id: 0,
+		kind: 'other',
+		handlerType: '',
+		codec: null,
+		durationSeconds: null,
+		language: null,
+	};
+
+	const tkhd = findChild(moov, trak, 'tkhd');
+	if (tkhd) {
+		const pos = tkhd.start + tkhd.headerSize;
+		const version = moov[pos];
+		// version/flags(4) + creation + modification, then track_ID
+		let p = pos + 4 + (version === 1 ? 16 : 8);
+		track.id = view.getUint32(p);
+		// track_ID(4) + reserved(4) + duration + reserved(8) + layer/alt group/volume/reserved(8) + matrix(36)
+		p += 8 + (version === 1 ? 8 : 4) + 8 + 8 + 36;
+		if (p + 8 <= tkhd.start + tkhd.size) {
+			const width = view.getUint32(p) / 65536;
+			const height = view.getUint32(p + 4) / 65536;
+			if (width > 0 && height > 0) {
+				track.width = Math.round(width);
+				track.height = Math.round(height);
+			}
+		}
+	}
+
+	const mdia = findChild(moov, trak, 'mdia');
+	if (!mdia) {
+		return track.id ? track : null;
+	}
+
+	let mediaTimescale = 0;
+	let mediaDuration = 0;
+	const mdhd = findChild(moov, mdia, 'mdhd');
+	if (mdhd) {
+		const pos = mdhd.start + mdhd.headerSize;
+		const header = parseTimeHeader(view, pos);
+		mediaTimescale = header.timescale;
+		mediaDuration = header.duration;
+		if (mediaTimescale > 0 && mediaDuration > 0) {
+			track.durationSeconds = mediaDuration / mediaTimescale;
+		}
+		const languagePos = pos + 4 + (moov[pos] === 1 ? 28 : 16);
+		track.language = decodeLanguage(view.getUint16(languagePos));
+	}
+
+	const hdlr = findChild(moov, mdia, 'hdlr');
+	if (hdlr) {
+		track.handlerType = fourcc(moov, hdlr.start + hdlr.headerSize + 8);
+		if (track.handlerType === 'vide') {
+			track.kind = 'video';
+		} else if (track.handlerType === 'soun') {
+			track.kind = 'audio';
+		}
+	}
+
+	const minf = findChild(moov, mdia, 'minf');
+	const stbl = minf ? findChild(moov, minf, 'stbl') : null;
+	if (stbl) {
+		const stsd = findChild(moov, stbl, 'stsd');
+		if (stsd) {
+			parseSampleDescription(moov, stsd, track);
+		}
+
+		const stts = findChild(moov, stbl, 'stts');
+		if (stts && track.kind === 'video' && mediaTimescale > 0) {
+			let p = stts.start + stts.headerSize + 4;
+			const entryCount = view.getUint32(p);
+			p += 4;
+			let sampleCount = 0;
+			let totalDelta = 0;
+			for (let i = 0; i < entryCount && p + 8 <= stts.start + stts.size; i++, p += 8) {
+				const count = view.getUint32(p);
+				sampleCount += count;
+				totalDelta += count * view.getUint32(p + 4);
+			}
+			if (sampleCount > 0 && totalDelta > 0) {
+				track.frameRate = Math.round((sampleCount * mediaTimescale / totalDelta) * 1000) / 1000;
+			}
+		}
+	}
+
+	return track;
+}
+
+function parseSampleDescription(moov: Uint8Array, stsd: Box, track: Mp4Track): void {
+	const view = viewOf(moov);
+	// version/flags(4) + entry_count(4), then the first sample entry
+	const entryPos = stsd.start + stsd.headerSize + 8;
+	if (entryPos + 16 > stsd.start + stsd.size) {
+		return;
+	}
+	track.codec = fourcc(moov, entryPos + 4).trim();
+
+	// Sample entries start with reserved(6) + data_reference_index(2)
+	const body = entryPos + 8 + 8;
+	if (track.kind === 'video' && body + 28 <= stsd.start + stsd.size) {
+		// pre_defined(2) + reserved(2) + pre_defined(12), then width/height
+		const width = view.getUint16(body + 16);
+		const height = view.getUint16(body + 18);
+		if (!track.width && width > 0) track.width = width;
+		if (!track.height && height > 0) track.height = height;
+	} else if (track.kind === 'audio' && body + 20 <= stsd.start + stsd.size) {
+		// reserved(8), then channelcount(2), samplesize(2), pre_defined(2), reserved(2), samplerate(16.16)
+		track.channels = view.getUint16(body + 8);
+		track.sampleRate = view.getUint32(body + 16) >>> 16;
+	}
+}
+
+// moov/udta/meta/ilst: each item holds a data box with a type indicator(4) and a locale(4), then the value
+function parseUserData(moov: Uint8Array, udta: Box, tags: Mp4Tags): void {
+	const meta = findChild(moov, udta, 'meta');
+	if (!meta) {
+		return;
+	}
+	// meta is a full box in MP4 but not in QuickTime, where its children start straight away
+	const isFullBox = fourcc(moov, meta.start + meta.headerSize + 4) !== 'hdlr';
+	const children = { ...meta, headerSize: meta.headerSize + (isFullBox ? 4 : 0) };
+	const ilst = findChild(moov, children, 'ilst');
+	if (!ilst) {
+		return;
+	}
+	for (const item of iterateBoxes(moov, ilst.start + ilst.headerSize, ilst.start + ilst.size)) {
+		if (item.type === 'covr') {
+			tags.hasCoverArt = true;
+			continue;
+		}
+		const field = TAG_ITEMS[item.type];
+		const data = field ? findChild(moov, item, 'data') : null;
+		if (data) {
+			const value = new TextDecoder().decode(moov.subarray(data.start + data.headerSize + 8, data.start + data.size)).trim();
+			tags[field] = value || null;
+		}
+	}
+}
+
+function parseTimeHeader(view: DataView, pos: number): { creationTime: number, modificationTime: number, timescale: number, duration: number } {
+	const version = view.getUint8(pos);
+	const p = pos + 4;
+	if (version === 1) {
+		return {
+			creationTime: readUint64(view, p),
+			modificationTime: readUint64(view, p + 8),
+			timescale: view.getUint32(p + 16),
+			duration: readUint64(view, p + 20),
+		};
+	}
+	return {
+		creationTime: view.getUint32(p),
+		modificationTime: view.getUint32(p + 4),
+		timescale: view.getUint32(p + 8),
+		duration: view.getUint32(p + 12),
+	};
+}
+
+function readBoxHeader(bytes: Uint8Array, pos: number, remaining: number): Box | null {
+	if (bytes.length - pos < 8) {
+		return null;
+	}
+	const view = viewOf(bytes);
+	let size = view.getUint32(pos);
+	const type = fourcc(bytes, pos + 4);
+	let headerSize = 8;
+	if (size === 1) {
+		if (bytes.length - pos < 16) {
+			return null;
+		}
+		size = readUint64(view, pos + 8);
+		headerSize = 16;
+	} else if (size === 0) {
+		// Box extends to the end of the enclosing container
+		size = remaining;
+	}
+	if (size < headerSize || size > remaining) {
+		return null;
+	}
+	return { type, start: pos, headerSize, size };
+}
+
+function* iterateBoxes(bytes: Uint8Array, start: number, end: number): Generator<Box> {
+	let pos = start;
+	while (pos + 8 <= end) {
+		const box = readBoxHeader(bytes, pos, end - pos);
+		if (!box) {
+			return;
+		}
+		yield box;
+		pos += box.size;
+	}
+}
+
+function findChild(bytes: Uint8Array, parent: Box, type: string): Box | null {
+	for (const child of iterateBoxes(bytes, parent.start + parent.headerSize, parent.start + parent.size)) {
+		if (child.type === type) {
+			return child;
+		}
+	}
+	return null;
+}
+
+function isKnownTopLevelBox(type: string): boolean {
+	return ['ftyp', 'moov', 'mdat', 'free', 'skip', 'wide', 'pdin', 'uuid', 'styp', 'sidx', 'moof'].includes(type);
+}
+
+function fourcc(bytes: Uint8Array, pos: number): string {
+	return String.fromCharCode(bytes[pos], bytes[pos + 1], bytes[pos + 2], bytes[pos + 3]);
+}
+
+function readUint64(view: DataView, pos: number): number {
+	return view.getUint32(pos) * 0x100000000 + view.getUint32(pos + 4);
+}
+
+function viewOf(bytes: Uint8Array): DataView {
+	return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function mp4TimeToIso(seconds: number): string | null {
+	if (!seconds) {
+		return null;
+	}
+	const date = new Date((seconds - MP4_EPOCH_OFFSET) * 1000);
+	return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// ISO-639-2/T language code packed as three 5-bit values
+function decodeLanguage(packed: number): string | null {
+	const code = String.fromCharCode(
+		((packed >> 10) & 0x1f) + 0x60,
+		((packed >> 5) & 0x1f) + 0x60,
+		(packed & 0x1f) + 0x60,
+	);
+	return /^[a-z]{3}$/.test(code) && code !== 'und' ? code : null;
+}
@@ -0,0 +1,386 @@
+/**
+ * Text and properties of Office Open XML documents (Word, Excel and PowerPoint
+ * 2007 and later), which are ZIP archives of XML parts.
+ *
+ * - DOCX: paragraphs of the main document part
+ * - PPTX: the text of each slide and its speaker notes, in presentation order
+ * - XLSX: sheet names, and the first rows of each sheet as a sample
+ * - All: core properties (docProps/core.xml) and page, word and slide counts (docProps/app.xml)
+ *
+ * The XML is read with regular expressions rather than a parser: the parts
+ * are machine-written and only text runs and a few attributes are needed.
+ */
+
+import { ZipArchive, ZipEntry } from './zip';
+
+export type OfficeFormat = 'docx' | 'xlsx' | 'pptx';
+
+export interface OfficeProperties {
+	title: string | null;
+	subject: string | null;
+	author: string | null;
+	lastModifiedBy: string | null;
+	keywords: string | null;
+	description: string | null;
+	created: string | null;
+	modified: string | null;
+	application: string | null;
+}
+
+export interface SheetSample {
+	name: string;
+	// Cell values as displayed, without formatting; numbers and dates are left as stored
+	rows: string[][];
+}
+
+export interface OfficeDocument {
+	format: OfficeFormat;
+	properties: OfficeProperties;
+	// Text for summarising: body text, slides with notes, or sheet samples
+	text: string;
+	// As counted by the application when the file was last saved
+	pageCount: number | null;
+	wordCount: number | null;
+	slideCount: number | null;
+	sheetNames: string[] | null;
+	sheetSamples: SheetSample[] | null;
+}
+
+export interface OfficeTextOptions {
+	maxChars?: number;
+}
+
+export class OfficeDocumentError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'OfficeDocumentError';
+	}
+}
+
+// Relationship types, which end in these whatever the schema version
+const OFFICE_DOCUMENT_REL = '/officeDocument';
+const SLIDE_REL = '/slide';
+const NOTES_SLIDE_REL = '/notesSlide';
+const WORKSHEET_REL = '/worksheet';
+const SHARED_STRINGS_REL = '/sharedStrings';
+
+// Main parts by the folder they live in
+const FORMAT_FOLDERS: Record<string, OfficeFormat> = { word: 'docx', xl: 'xlsx', ppt: 'pptx' };
+
+// A sample of each sheet is plenty to summarise a workbook, and sheets can be huge
+const SAMPLE_ROWS = 20;
+const SAMPLE_COLUMNS = 12;
+const MAX_SHEET_BYTES = 2 * 1024 * 1024;
+const MAX_SHARED_STRINGS_BYTES = 8 * 1024 * 1024;
+
+/**
+ * Parses a DOCX, XLSX or PPTX file. Throws ZipError if it is not a readable ZIP
+ * archive and OfficeDocumentError if it is not an Office document.
+ */
+export function parseOfficeDocument(bytes: Uint8Array, options: OfficeTextOptions = {}): OfficeDocument {
+	return readOfficeDocument(ZipArchive.load(bytes), options);
+}
+
+/**
+ * Reads a DOCX, XLSX or PPTX file from its archive, which only needs the entries
+ * picked by isOfficeXmlPart. Throws OfficeDocumentError if it is not an Office document.
+ */
+export function readOfficeDocument(archive: ZipArchive, options: OfficeTextOptions = {}): OfficeDocument {
+	const maxChars = options.maxChars ?? Infinity;
+	const mainPart = findMainPart(archive);
+	if (!mainPart) {
+		throw new OfficeDocumentError('No Word, Excel or PowerPoint document in the archive');
+	}
+
+	const format = FORMAT_FOLDERS[mainPart.split('/')[0]];
+	const app = archive.readText('docProps/app.xml') ?? '';
+	const document: OfficeDocument = {
+		format,
+		properties: readCoreProperties(archive.readText('docProps/core.xml') ?? '', app),
+		text: '',
+		pageCount: format === 'docx' ? elementNumber(app, 'Pages') : null,
+		wordCount: elementNumber(app, 'Words'),
+		slideCount: null,
+		sheetNames: null,
+		sheetSamples: null,
+	};
+
+	switch (format) {
+		case 'docx':
+			document.text = readWordText(archive.readText(mainPart) ?? '');
+			break;
+		case 'pptx': {
+			const slides = readSlides(archive, mainPart);
+			document.slideCount = slides.length;
+			document.text = slides.map(slide => [
+				`Slide ${slide.number}:`,
+				slide.text,
+				slide.notes ? `Notes: ${slide.notes}` : '',
+			].filter(Boolean).join('\n')).join('\n\n');
+			break;
+		}
+		case 'xlsx': {
+			const samples = readSheetSamples(archive, mainPart);
+			document.sheetNames = samples.map(sample => sample.name);
+			document.sheetSamples = samples;
+			document.text = samples.map(sample => [
+				`Sheet "${sample.name}":`,
+				...sample.rows.map(row => row.join(' | ')),
+			].join('\n')).join('\n\n');
+			break;
+		}
+	}
+	document.text = document.text.substring(0, maxChars);
+	return document;
+}
+
+/**
+ * Whether an entry is one of the XML parts text and properties are read from,
+ * as opposed to embedded media, fonts and other binary parts.
+ */
+export function isOfficeXmlPart(entry: ZipEntry): boolean {
+	return /\.(xml|rels)$/i.test(entry.name);
+}
+
+// The part _rels/.rels points to as the office document, e.g. word/document.xml
+function findMainPart(archive: ZipArchive): string | null {
+	const target = readRelationships(archive, '').find(rel => rel.type.endsWith(OFFICE_DOCUMENT_REL))?.target;
+	if (target && archive.has(target) && FORMAT_FOLDERS[target.split('/')[0]]) {
+		return target;
+	}
+	// Some writers leave out the package relationships; fall back to the usual names
+	return ['word/document.xml', 'xl/workbook.xml', 'ppt/presentation.xml'].find(name => archive.has(name)) ?? null;
+}
+
+function readCoreProperties(core: string, app: string): OfficeProperties {
+	return {
+		title: elementText(core, 'title'),
+		subject: elementText(core, 'subject'),
+		author: elementText(core, 'creator'),
+		lastModifiedBy: elementText(core, 'lastModifiedBy'),
+		keywords: elementText(core, 'keywords'),
+		description: elementText(core, 'description'),
+		created: isoDate(elementText(core, 'created')),
+		modified: isoDate(elementText(core, 'modified')),
+		application: elementText(app, 'Application'),
+	};
+}
+
+// ---------------------------------------------------------------------------
+// Word
+// ---------------------------------------------------------------------------
+
+// Text runs, tabs and breaks, and paragraph ends. Deleted text (w:delText) is left out.
+const WORD_TOKENS = /<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:(tab|br|cr)\b[^>]*\/>|<\/w:p>/g;
+
+function readWordText(xml: string): string {
+	// Tab stops in paragraph properties are also w:tab elements
+	const withoutTabStops = xml.replace(/<w:tabs>[\s\S]*?<\/w:tabs>/g, '');
+	let text = '';
+	for (const match of withoutTabStops.matchAll(WORD_TOKENS)) {
+		if (match[1] !== undefined) {
+			text += decodeXml(match[1]);
+		} else if (match[2] === 'tab') {
+			text += '\t';
+		} else {
+			text += '\n';
+		}
+	}
+	return text.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// ---------------------------------------------------------------------------
+// PowerPoint
+// ---------------------------------------------------------------------------
+
+interface SlideText {
+	number: number;
+	text: string;
+	notes: string;
+}
+
+// Slides in the order of the presentation's slide list, which is not the order of their file names
+function readSlides(archive: ZipArchive, presentationPart: string): SlideText[] {
+	const presentation = archive.readText(presentationPart) ?? '';
+	const rels = readRelationships(archive, presentationPart);
+	const slideList = presentation.match(/<p:sldIdLst>([\s\S]*?)<\/p:sldIdLst>/)?.[1] ?? '';
+	const ids = [...slideList.matchAll(/<p:sldId\b[^>]*>/g)].map(match => attribute(match[0], 'r:id'));
+	const targets = ids.length > 0
+		? ids.map(id => rels.find(rel => rel.id === id && rel.type.endsWith(SLIDE_REL))?.target)
+		: rels.filter(rel => rel.type.endsWith(SLIDE_REL)).map(rel => rel.target);
+
+	return targets.filter((target): target is string => !!target && archive.has(target)).map((target, index) => {
+		const notesPart = readRelationships(archive, target).find(rel => rel.type.endsWith(NOTES_SLIDE_REL))?.target;
+		return {
+			number: index + 1,
+			text: readDrawingText(archive.readText(target) ?? ''),
+			notes: notesPart ? readDrawingText(archive.readText(notesPart) ?? '').replace(/\s*\n\s*/g, ' ') : '',
+		};
+	});
+}
+
+// Paragraphs of DrawingML text. Fields (slide numbers, dates) are left out.
+function readDrawingText(xml: string): string {
+	const withoutFields = xml.replace(/<a:fld\b[\s\S]*?<\/a:fld>/g, '');
+	let text = '';
+	for (const match of withoutFields.matchAll(/<a:t>([^<]*)<\/a:t>|<a:br\b[^>]*\/>|<\/a:p>/g)) {
+		text += match[1] !== undefined ? decodeXml(match[1]) : '\n';
+	}
+	return text.replace(/\n{2,}/g, '\n').trim();
+}
+
+// ---------------------------------------------------------------------------
+// Excel
+// ---------------------------------------------------------------------------
+
+function readSheetSamples(archive: ZipArchive, workbookPart: string): SheetSample[] {
+	const workbook = archive.readText(workbookPart) ?? '';
+	const rels = readRelationships(archive, workbookPart);
+	const sharedStringsPart = rels.find(rel => rel.type.endsWith(SHARED_STRINGS_REL))?.target;
+	const sharedStrings = sharedStringsPart ? readSharedStrings(archive.readText(sharedStringsPart, MAX_SHARED_STRINGS_BYTES) ?? '') : [];
+
+	return [...workbook.matchAll(/<(?:\w+:)?sheet\b[^>]*>/g)].map(match => {
+		const name = decodeXml(attribute(match[0], 'name') ?? '');
+		const target = rels.find(rel => rel.id === attribute(match[0], 'r:id') && rel.type.endsWith(WORKSHEET_REL))?.target;
+		// Chart sheets and dialog sheets have no cells
+		const sheet = target ? archive.readText(target, MAX_SHEET_BYTES) ?? '' : '';
+		return { name, rows: readRows(sheet, sharedStrings) };
+	});
+}
+
+// Shared strings in index order; rich text runs are joined and phonetic guides dropped
+function readSharedStrings(xml: string): string[] {
+	return [...xml.matchAll(/<(?:\w+:)?si>([\s\S]*?)<\/(?:\w+:)?si>/g)].map(match => {
+		const runs = match[1].replace(/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g, '');
+		return [...runs.matchAll(/<(?:\w+:)?t(?:\s[^>]*)?>([^<]*)<\/(?:\w+:)?t>/g)].map(run => decodeXml(run[1])).join('');
+	});
+}
+
+// The first non-empty rows of a sheet, up to SAMPLE_COLUMNS wide
+function readRows(xml: string, sharedStrings: string[]): string[][] {
+	const rows: string[][] = [];
+	// Empty rows may be self-closing, so the opening tag must not end in "/>"
+	for (const rowMatch of xml.matchAll(/<(?:\w+:)?row\b(?:[^>]*[^/>])?>([\s\S]*?)<\/(?:\w+:)?row>/g)) {
+		const row: string[] = [];
+		for (const cell of rowMatch[1].matchAll(/<(?:\w+:)?c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?c>)/g)) {
+			const column = columnIndex(attribute(cell[1], 'r'), row.length);
+			if (column >= SAMPLE_COLUMNS) {
+				continue;
+			}
+			while (row.length < column) {
+				row.push('');
+			}
+			row[column] = cellValue(attribute(cell[1], 't'), cell[2] ?? '', sharedStrings);
+		}
+		while (row.length > 0 && row[row.length - 1] === '') {
+			row.pop();
+		}
+		if (row.length > 0) {
+			rows.push(row);
+			if (rows.length >= SAMPLE_ROWS) {
+				break;
+			}
+		}
+	}
+	return rows;
+}
+
+function cellValue(type: string | null, body: string, sharedStrings: string[]): string {
+	if (type === 'inlineStr') {
+		return [...body.matchAll(/<(?:\w+:)?t(?:\s[^>]*)?>([^<]*)<\/(?:\w+:)?t>/g)].map(run => decodeXml(run[1])).join('');
+	}
+	const value = body.match(/<(?:\w+:)?v>([^<]*)<\/(?:\w+:)?v>/)?.[1];
+	if (value === undefined) {
+		return '';
+	}
+	switch (type) {
+		case 's':
+			return sharedStrings[Number(value)] ?? '';
+		case 'b':
+			return value === '1' ? 'TRUE' : 'FALSE';
+		default:
+			return decodeXml(value);
+	}
+}
+
+// "C7" -> 2; cells without a reference follow the previous one
+function columnIndex(reference: string | null, next: number): number {
+	const letters = reference?.match(/^[A-Z]+/)?.[0];
+	if (!letters) {
+		return next;
+	}
+	let index = 0;
+	for (const letter of letters) {
+		index = index * 26 + letter.charCodeAt(0) - 64;
+	}
+	return index - 1;
+}
+
+// ---------------------------------------------------------------------------
+// Package parts and XML
+// ---------------------------------------------------------------------------
+
+interface Relationship {
+	id: string;
+	type: string;
+	// Resolved to a part name within the archive, e.g. "ppt/slides/slide1.xml"
+	target: string;
+}
+
+// Relationships of a part, from the _rels folder next to it ('' for the package's own)
+function readRelationships(archive: ZipArchive, part: string): Relationship[] {
+	const slash = part.lastIndexOf('/');
+	const folder = part.substring(0, slash + 1);
+	const xml = archive.readText(`${folder}_rels/${part.substring(slash + 1)}.rels`) ?? '';
+	return [...xml.matchAll(/<Relationship\b[^>]*>/g)]
+		.filter(match => attribute(match[0], 'TargetMode') !== 'External')
+		.map(match => ({
+			id: attribute(match[0], 'Id') ?? '',
+			type: attribute(match[0], 'Type') ?? '',
+			target: resolvePartName(folder, decodeXml(attribute(match[0], 'Target') ?? '')),
+		}));
+}
+
+function resolvePartName(folder: string, target: string): string {
+	const segments = target.startsWith('/') ? [] : folder.split('/').filter(Boolean);
+	for (const segment of target.split('/')) {
+		if (segment === '..') {
+			segments.pop();
+		} else if (segment && segment !== '.') {
+			segments.push(segment);
+		}
+	}
+	return segments.join('/');
+}
+
+function attribute(tag: string, name: string): string | null {
+	return tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1] ?? null;
+}
+
+// Text of the first element with this local name, whatever its namespace prefix
+function elementText(xml: string, localName: string): string | null {
+	const text = xml.match(new RegExp(`<(?:\\w+:)?${localName}(?:\\s[^>]*)?>([^<]*)</(?:\\w+:)?${localName}>`))?.[1];
+	const decoded = text === undefined ? '' : decodeXml(text).trim();
+	return decoded || null;
+}
+
+function elementNumber(xml: string, localName: string): number | null {
+	const text = elementText(xml, localName);
+	const value = Number(text);
+	return text !== null && Number.isInteger(value) && value >= 0 ? value : null;
+}
+
+function isoDate(value: string | null): string | null {
+	const date = value ? new Date(value) : null;
+	return date && !isNaN(date.getTime()) ? date.toISOString() : null;
+}
+
+function decodeXml(text: string): string {
+	return text.replace(/&(?:#(\d+)|#x([0-9a-fA-F]+)|(lt|gt|amp|quot|apos));/g, (entity, decimal, hex, named) => {
+		if (decimal || hex) {
+			const code = decimal ? parseInt(decimal, 10) : parseInt(hex, 16);
+			return code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+		}
+		return { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" }[named as 'lt'];
+	});
+}
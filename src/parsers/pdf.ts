@@ -0,0 +1,1482 @@
+/**
+ * Pure TypeScript PDF reader.
+ *
+ * Supports what we need for metadata generation:
+ * - classic xref tables, xref streams and compressed object streams (with a
+ *   full-file object scan as a fallback for damaged files)
+ * - FlateDecode (incl. PNG predictors), ASCIIHexDecode and ASCII85Decode streams
+ * - the page tree, the Info dictionary and text extraction from content streams
+ *   (Tj/TJ/'/" operators, ToUnicode CMaps, simple font encodings, Form XObjects)
+ *
+ * Encrypted documents are detected but not decrypted.
+ */
+
+import { inflate } from './inflate';
+
+export class PdfName {
+	constructor(public readonly name: string) {}
+}
+
+export class PdfRef {
+	constructor(public readonly num: number, public readonly gen: number) {}
+}
+
+export class PdfOperator {
+	constructor(public readonly op: string) {}
+}
+
+export type PdfDict = Map<string, PdfValue>;
+
+export interface PdfStream {
+	dict: PdfDict;
+	data: Uint8Array; // raw (still encoded) stream bytes
+}
+
+// Strings are kept as raw bytes; their decoding depends on where they are used.
+// Operators only appear when tokenising content streams and CMaps.
+export type PdfValue = number | boolean | null | Uint8Array | PdfName | PdfRef | PdfOperator | PdfValue[] | PdfDict | PdfStream;
+
+export interface PdfInfo {
+	title: string | null;
+	author: string | null;
+	subject: string | null;
+	keywords: string | null;
+	creator: string | null;
+	producer: string | null;
+	creationDate: string | null;
+	modificationDate: string | null;
+}
+
+// A bookmark from the document outline
+export interface PdfOutlineItem {
+	title: string;
+	// 1-based page the bookmark jumps to; null if it points elsewhere or nowhere
+	page: number | null;
+	children: PdfOutlineItem[];
+}
+
+export interface PdfTextOptions {
+	maxPages?: number;
+	maxChars?: number;
+}
+
+export class PdfError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'PdfError';
+	}
+}
+
+type XrefEntry = { type: 'offset', offset: number } | { type: 'compressed', stream: number, index: number };
+
+// Guards against malformed or malicious files
+const MAX_XREF_CHAIN = 32;
+const MAX_PAGE_TREE_DEPTH = 64;
+const MAX_XOBJECT_DEPTH = 8;
+const MAX_DECODED_STREAM_BYTES = 64 * 1024 * 1024;
+const MAX_OUTLINE_ITEMS = 1000;
+const MAX_OUTLINE_DEPTH = 16;
+const MAX_NAME_TREE_DEPTH = 32;
+
+/**
+ * A parsed PDF document. Objects are resolved lazily and cached.
+ */
+export class PdfDocument {
+	private readonly xref = new Map<number, XrefEntry>();
+	private readonly cache = new Map<number, PdfValue>();
+	private readonly loading = new Set<number>();
+	private readonly objectStreams = new Map<number, { offsets: Map<number, number>, data: Uint8Array }>();
+	private readonly cmapCache = new Map<PdfDict, FontDecoder>();
+	private trailer: PdfDict = new Map();
+	private pages: { dict: PdfDict, resources: PdfDict | null }[] | null = null;
+
+	private constructor(private readonly bytes: Uint8Array) {}
+
+	/**
+	 * Parses the cross-reference data of a PDF file.
+	 * Throws a PdfError if the bytes are not a PDF.
+	 */
+	static load(bytes: Uint8Array): PdfDocument {
+		const header = latin1(bytes.subarray(0, Math.min(bytes.length, 1024)));
+		if (!header.includes('%PDF-')) {
+			throw new PdfError('Missing %PDF header');
+		}
+
+		const doc = new PdfDocument(bytes);
+		try {
+			doc.readXrefChain();
+		} catch (error) {
+			console.log('PDF xref unreadable, scanning file for objects:', (error as Error).message);
+			doc.xref.clear();
+			doc.trailer = new Map();
+		}
+		if (!doc.trailer.has('Root')) {
+			doc.reconstructXref();
+		}
+		if (!doc.trailer.has('Root')) {
+			throw new PdfError('Could not locate the document catalog');
+		}
+		return doc;
+	}
+
+	get encrypted(): boolean {
+		return this.trailer.has('Encrypt');
+	}
+
+	get pageCount(): number {
+		return this.getPages().length;
+	}
+
+	/**
+	 * Reads the document Info dictionary.
+	 */
+	getInfo(): PdfInfo {
+		const info = this.resolveDict(this.trailer.get('Info'));
+		const text = (key: string): string | null => {
+			const value = info ? this.resolve(info.get(key)) : null;
+			if (!(value instanceof Uint8Array)) {
+				return null;
+			}
+			const decoded = decodeTextString(value).replace(/\0/g, '').trim();
+			return decoded.length > 0 ? decoded : null;
+		};
+		return {
+			title: text('Title'),
+			author: text('Author'),
+			subject: text('Subject'),
+			keywords: text('Keywords'),
+			creator: text('Creator'),
+			producer: text('Producer'),
+			creationDate: parsePdfDate(text('CreationDate')),
+			modificationDate: parsePdfDate(text('ModDate')),
+		};
+	}
+
+	/**
+	 * Extracts the text of each page (in page order), stopping at the given limits.
+	 * Returns an empty array for encrypted documents.
+	 */
+	extractPageTexts(options: PdfTextOptions = {}): string[] {
+		if (this.encrypted) {
+			return [];
+		}
+		const maxPages = options.maxPages ?? Infinity;
+		const maxChars = options.maxChars ?? Infinity;
+
+		const texts: string[] = [];
+		let total = 0;
+		const pages = this.getPages();
+		for (let i = 0; i < pages.length && i < maxPages && total < maxChars; i++) {
+			let text = '';
+			try {
+				text = this.extractPageText(i);
+			} catch (error) {
+				console.log(`Could not extract text from PDF page ${i + 1}:`, (error as Error).message);
+			}
+			texts.push(text);
+			total += text.length;
+		}
+		return texts;
+	}
+
+	/**
+	 * Extracts the text of the whole document as a single string.
+	 */
+	extractText(options: PdfTextOptions = {}): string {
+		const text = this.extractPageTexts(options).join('\n\n').trim();
+		return options.maxChars !== undefined ? text.substring(0, options.maxChars) : text;
+	}
+
+	/**
+	 * Extracts the text of a single page (0-based index).
+	 */
+	extractPageText(index: number): string {
+		const page = this.getPages()[index];
+		if (!page) {
+			throw new PdfError(`Page ${index + 1} does not exist`);
+		}
+		const content = this.readContents(page.dict.get('Contents'));
+		const writer = new TextWriter();
+		this.interpretContent(content, page.resources, writer, 0);
+		return writer.toString();
+	}
+
+	// ---------------------------------------------------------------------
+	// Object model
+	// ---------------------------------------------------------------------
+
+	resolve(value: PdfValue | undefined, depth = 0): PdfValue {
+		if (value === undefined) {
+			return null;
+		}
+		if (value instanceof PdfRef) {
+			if (depth > 16) {
+				return null;
+			}
+			return this.resolve(this.getObject(value.num), depth + 1);
+		}
+		return value;
+	}
+
+	resolveDict(value: PdfValue | undefined): PdfDict | null {
+		const resolved = this.resolve(value);
+		if (resolved instanceof Map) {
+			return resolved;
+		}
+		if (isStream(resolved)) {
+			return resolved.dict;
+		}
+		return null;
+	}
+
+	private resolveArray(value: PdfValue | undefined): PdfValue[] {
+		const resolved = this.resolve(value);
+		return Array.isArray(resolved) ? resolved : [];
+	}
+
+	private resolveNumber(value: PdfValue | undefined): number | null {
+		const resolved = this.resolve(value);
+		return typeof resolved === 'number' ? resolved : null;
+	}
+
+	getObject(num: number): PdfValue {
+		if (this.cache.has(num)) {
+			return this.cache.get(num)!;
+		}
+		// Break reference cycles
+		if (this.loading.has(num)) {
+			return null;
+		}
+		this.loading.add(num);
+
+		let value: PdfValue = null;
+		const entry = this.xref.get(num);
+		try {
+			if (entry?.type === 'offset') {
+				value = this.parseIndirectObject(entry.offset).value;
+			} else if (entry?.type === 'compressed') {
+				value = this.readCompressedObject(entry.stream, entry.index, num);
+			}
+		} catch (error) {
+			console.log(`Could not read PDF object ${num}:`, (error as Error).message);
+			value = null;
+		}
+
+		this.loading.delete(num);
+		this.cache.set(num, value);
+		return value;
+	}
+
+	private parseIndirectObject(offset: number): { num: number, value: PdfValue } {
+		const lexer = new Lexer(this.bytes, offset);
+		const num = lexer.readValue();
+		const gen = lexer.readValue();
+		const keyword = lexer.readValue();
+		if (typeof num !== 'number' || typeof gen !== 'number' || !(keyword instanceof PdfOperator) || keyword.op !== 'obj') {
+			throw new PdfError(`No object at offset ${offset}`);
+		}
+		let value = lexer.readValue();
+		if (value instanceof Map) {
+			const save = lexer.pos;
+			const next = lexer.readValue();
+			if (next instanceof PdfOperator && next.op === 'stream') {
+				value = { dict: value, data: this.readStreamData(value, lexer.pos) };
+			} else {
+				lexer.pos = save;
+			}
+		}
+		return { num, value };
+	}
+
+	private readStreamData(dict: PdfDict, afterKeyword: number): Uint8Array {
+		// The stream keyword is followed by CRLF or LF
+		let start = afterKeyword;
+		if (this.bytes[start] === 0x0d) start++;
+		if (this.bytes[start] === 0x0a) start++;
+
+		const declared = dict.get('Length');
+		const length = typeof declared === 'number' ? declared : declared instanceof PdfRef ? this.resolveNumber(declared) : null;
+		if (length !== null && length >= 0 && start + length <= this.bytes.length) {
+			const tail = latin1(this.bytes.subarray(start + length, Math.min(this.bytes.length, start + length + 32)));
+			if (/^\s*endstream/.test(tail)) {
+				return this.bytes.subarray(start, start + length);
+			}
+		}
+
+		// Length missing or wrong: search for the endstream keyword instead
+		const end = indexOf(this.bytes, 'endstream', start);
+		if (end < 0) {
+			return this.bytes.subarray(start);
+		}
+		let stop = end;
+		if (this.bytes[stop - 1] === 0x0a) stop--;
+		if (this.bytes[stop - 1] === 0x0d) stop--;
+		return this.bytes.subarray(start, Math.max(start, stop));
+	}
+
+	private readCompressedObject(streamNum: number, index: number, num: number): PdfValue {
+		let objectStream = this.objectStreams.get(streamNum);
+		if (!objectStream) {
+			const stream = this.resolve(new PdfRef(streamNum, 0));
+			if (!isStream(stream)) {
+				throw new PdfError(`Object stream ${streamNum} is missing`);
+			}
+			const data = this.decodeStream(stream);
+			const count = this.resolveNumber(stream.dict.get('N')) || 0;
+			const first = this.resolveNumber(stream.dict.get('First')) || 0;
+			const lexer = new Lexer(data, 0);
+			const offsets = new Map<number, number>();
+			for (let i = 0; i < count; i++) {
+				const objectNum = lexer.readValue();
+				const objectOffset = lexer.readValue();
+				if (typeof objectNum !== 'number' || typeof objectOffset !== 'number') {
+					break;
+				}
+				offsets.set(objectNum, first + objectOffset);
+			}
+			objectStream = { offsets, data };
+			this.objectStreams.set(streamNum, objectStream);
+		}
+
+		const offset = objectStream.offsets.get(num);
+		if (offset === undefined) {
+			throw new PdfError(`Object ${num} not found in object stream ${streamNum} (index ${index})`);
+		}
+		return new Lexer(objectStream.data, offset).readValue();
+	}
+
+	// ---------------------------------------------------------------------
+	// Cross-reference data
+	// ---------------------------------------------------------------------
+
+	private readXrefChain(): void {
+		const tail = latin1(this.bytes.subarray(Math.max(0, this.bytes.length - 2048)));
+		const match = tail.match(/startxref\s+(\d+)\s*%%EOF[\s\S]*$/) || tail.match(/startxref\s+(\d+)/);
+		if (!match) {
+			throw new PdfError('startxref not found');
+		}
+
+		let offset: number | null = parseInt(match[1], 10);
+		const visited = new Set<number>();
+		while (offset !== null && !visited.has(offset) && visited.size < MAX_XREF_CHAIN) {
+			visited.add(offset);
+			const trailer = this.readXrefSection(offset);
+			// The newest trailer wins; older ones only fill gaps
+			for (const [key, value] of trailer) {
+				if (!this.trailer.has(key)) {
+					this.trailer.set(key, value);
+				}
+			}
+			const hybrid = trailer.get('XRefStm');
+			if (typeof hybrid === 'number' && !visited.has(hybrid)) {
+				visited.add(hybrid);
+				this.readXrefSection(hybrid);
+			}
+			const prev = trailer.get('Prev');
+			offset = typeof prev === 'number' ? prev : null;
+		}
+	}
+
+	private readXrefSection(offset: number): PdfDict {
+		const lexer = new Lexer(this.bytes, offset);
+		lexer.skipWhitespace();
+		if (latin1(this.bytes.subarray(lexer.pos, lexer.pos + 4)) === 'xref') {
+			lexer.pos += 4;
+			return this.readXrefTable(lexer);
+		}
+		return this.readXrefStream(offset);
+	}
+
+	private readXrefTable(lexer: Lexer): PdfDict {
+		for (;;) {
+			const first = lexer.readValue();
+			if (first instanceof PdfOperator && first.op === 'trailer') {
+				const trailer = lexer.readValue();
+				if (!(trailer instanceof Map)) {
+					throw new PdfError('Invalid trailer');
+				}
+				return trailer;
+			}
+			const count = lexer.readValue();
+			if (typeof first !== 'number' || typeof count !== 'number') {
+				throw new PdfError('Invalid xref subsection');
+			}
+			for (let i = 0; i < count; i++) {
+				const entryOffset = lexer.readValue();
+				lexer.readValue(); // generation
+				const kind = lexer.readValue();
+				if (typeof entryOffset !== 'number' || !(kind instanceof PdfOperator)) {
+					throw new PdfError('Invalid xref entry');
+				}
+				const num = first + i;
+				if (kind.op === 'n' && !this.xref.has(num) && entryOffset > 0) {
+					this.xref.set(num, { type: 'offset', offset: entryOffset });
+				}
+			}
+		}
+	}
+
+	private readXrefStream(offset: number): PdfDict {
+		const { value } = this.parseIndirectObject(offset);
+		if (!isStream(value) || !(value.dict.get('Type') instanceof PdfName) || (value.dict.get('Type') as PdfName).name !== 'XRef') {
+			throw new PdfError(`No xref stream at offset ${offset}`);
+		}
+		const widths = this.resolveArray(value.dict.get('W')).map(w => (typeof w === 'number' ? w : 0));
+		if (widths.length < 3) {
+			throw new PdfError('Invalid xref stream /W');
+		}
+		const size = this.resolveNumber(value.dict.get('Size')) || 0;
+		const index = this.resolveArray(value.dict.get('Index')).filter((n): n is number => typeof n === 'number');
+		const ranges = index.length >= 2 ? index : [0, size];
+		const data = this.decodeStream(value);
+		const entrySize = widths[0] + widths[1] + widths[2];
+
+		let pos = 0;
+		for (let r = 0; r + 1 < ranges.length; r += 2) {
+			for (let i = 0; i < ranges[r + 1] && pos + entrySize <= data.length; i++, pos += entrySize) {
+				const type = widths[0] ? readInt(data, pos, widths[0]) : 1;
+				const field2 = readInt(data, pos + widths[0], widths[1]);
+				const field3 = readInt(data, pos + widths[0] + widths[1], widths[2]);
+				const num = ranges[r] + i;
+				if (this.xref.has(num)) {
+					continue;
+				}
+				if (type === 1) {
+					this.xref.set(num, { type: 'offset', offset: field2 });
+				} else if (type === 2) {
+					this.xref.set(num, { type: 'compressed', stream: field2, index: field3 });
+				}
+			}
+		}
+		return value.dict;
+	}
+
+	/**
+	 * Rebuilds the xref by scanning the whole file for "n g obj" headers.
+	 */
+	private reconstructXref(): void {
+		const text = latin1(this.bytes);
+		const objectPattern = /(?:^|[\r\n\s])(\d+)\s+(\d+)\s+obj\b/g;
+		let match: RegExpExecArray | null;
+		while ((match = objectPattern.exec(text)) !== null) {
+			const offset = match.index + match[0].indexOf(match[1]);
+			// Later definitions override earlier ones (incremental updates)
+			this.xref.set(parseInt(match[1], 10), { type: 'offset', offset });
+		}
+		this.cache.clear();
+
+		// Use the last trailer dictionary if there is one
+		const trailerIndex = text.lastIndexOf('trailer');
+		if (trailerIndex >= 0) {
+			try {
+				const trailer = new Lexer(this.bytes, trailerIndex + 7).readValue();
+				if (trailer instanceof Map) {
+					for (const [key, value] of trailer) {
+						this.trailer.set(key, value);
+					}
+				}
+			} catch {
+				// ignore, handled below
+			}
+		}
+
+		if (!this.trailer.has('Root')) {
+			// Look for the catalog (or an xref stream dict pointing to it)
+			for (const num of this.xref.keys()) {
+				const dict = this.resolveDict(new PdfRef(num, 0));
+				const type = dict?.get('Type');
+				if (type instanceof PdfName && type.name === 'Catalog') {
+					this.trailer.set('Root', new PdfRef(num, 0));
+				} else if (type instanceof PdfName && type.name === 'XRef' && dict) {
+					for (const key of ['Root', 'Info', 'Encrypt']) {
+						if (dict.has(key) && !this.trailer.has(key)) this.trailer.set(key, dict.get(key)!);
+					}
+				}
+				if (this.trailer.has('Root')) break;
+			}
+		}
+	}
+
+	// ---------------------------------------------------------------------
+	// Streams
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Applies the stream's filters. Throws for unsupported filters (e.g. image codecs).
+	 */
+	decodeStream(stream: PdfStream): Uint8Array {
+		const filterValue = this.resolve(stream.dict.get('Filter'));
+		const filters = (Array.isArray(filterValue) ? filterValue : [filterValue])
+			.map(f => this.resolve(f))
+			.filter((f): f is PdfName => f instanceof PdfName)
+			.map(f => f.name);
+		const paramsValue = this.resolve(stream.dict.get('DecodeParms'));
+		const params = Array.isArray(paramsValue) ? paramsValue.map(p => this.resolveDict(p)) : [this.resolveDict(paramsValue)];
+
+		let data = stream.data;
+		filters.forEach((filter, i) => {
+			switch (filter) {
+				case 'FlateDecode':
+				case 'Fl':
+					data = inflate(data, MAX_DECODED_STREAM_BYTES);
+					data = this.applyPredictor(data, params[i] || null);
+					break;
+				case 'ASCIIHexDecode':
+				case 'AHx':
+					data = decodeAsciiHex(data);
+					break;
+				case 'ASCII85Decode':
+				case 'A85':
+					data = decodeAscii85(data);
+					break;
+				default:
+					throw new PdfError(`Unsupported stream filter ${filter}`);
+			}
+		});
+		return data;
+	}
+
+	private applyPredictor(data: Uint8Array, params: PdfDict | null): Uint8Array {
+		const predictor = params ? this.resolveNumber(params.get('Predictor')) || 1 : 1;
+		if (predictor < 10) {
+			// TIFF predictor 2 is vanishingly rare in practice
+			return data;
+		}
+		const colors = this.resolveNumber(params!.get('Colors')) || 1;
+		const bitsPerComponent = this.resolveNumber(params!.get('BitsPerComponent')) || 8;
+		const columns = this.resolveNumber(params!.get('Columns')) || 1;
+		const bytesPerPixel = Math.max(1, Math.ceil((colors * bitsPerComponent) / 8));
+		const rowLength = Math.ceil((colors * bitsPerComponent * columns) / 8);
+
+		const rows = Math.floor(data.length / (rowLength + 1));
+		const out = new Uint8Array(rows * rowLength);
+		let previous = new Uint8Array(rowLength);
+		for (let row = 0; row < rows; row++) {
+			const filterType = data[row * (rowLength + 1)];
+			const input = data.subarray(row * (rowLength + 1) + 1, (row + 1) * (rowLength + 1));
+			const current = out.subarray(row * rowLength, (row + 1) * rowLength);
+			for (let i = 0; i < rowLength; i++) {
+				const left = i >= bytesPerPixel ? current[i - bytesPerPixel] : 0;
+				const up = previous[i];
+				const upLeft = i >= bytesPerPixel ? previous[i - bytesPerPixel] : 0;
+				let value = input[i];
+				switch (filterType) {
+					case 1: value += left; break;
+					case 2: value += up; break;
+					case 3: value += (left + up) >> 1; break;
+					case 4: value += paeth(left, up, upLeft); break;
+				}
+				current[i] = value & 0xff;
+			}
+			previous = current;
+		}
+		return out;
+	}
+
+	// ---------------------------------------------------------------------
+	// Pages and content
+	// ---------------------------------------------------------------------
+
+	getCatalog(): PdfDict | null {
+		return this.resolveDict(this.trailer.get('Root'));
+	}
+
+	/**
+	 * Returns the page dictionary and its (possibly inherited) resources for each page.
+	 */
+	getPages(): { dict: PdfDict, resources: PdfDict | null }[] {
+		if (this.pages) {
+			return this.pages;
+		}
+		const pages: { dict: PdfDict, resources: PdfDict | null }[] = [];
+		const visited = new Set<PdfDict>();
+		const walk = (node: PdfDict | null, inheritedResources: PdfDict | null, depth: number) => {
+			if (!node || visited.has(node) || depth > MAX_PAGE_TREE_DEPTH) {
+				return;
+			}
+			visited.add(node);
+			const resources = this.resolveDict(node.get('Resources')) || inheritedResources;
+			const type = node.get('Type');
+			const kids = node.get('Kids');
+			if (kids !== undefined && !(type instanceof PdfName && type.name === 'Page')) {
+				for (const kid of this.resolveArray(kids)) {
+					walk(this.resolveDict(kid), resources, depth + 1);
+				}
+			} else {
+				pages.push({ dict: node, resources });
+			}
+		};
+		walk(this.resolveDict(this.getCatalog()?.get('Pages')), null, 0);
+		this.pages = pages;
+		return pages;
+	}
+
+	/**
+	 * Reads the document outline (the /Outlines bookmarks) as a tree, in order.
+	 * Returns an empty array if the document has none.
+	 */
+	getOutline(): PdfOutlineItem[] {
+		const catalog = this.getCatalog();
+		const root = this.resolveDict(catalog?.get('Outlines'));
+		if (!root) {
+			return [];
+		}
+		const pageIndexes = new Map(this.getPages().map((page, index) => [page.dict, index]));
+		let namedDestinations: Map<string, PdfValue> | null = null;
+		const visited = new Set<PdfDict>();
+
+		// A destination is an array starting with the page, or the name of one
+		const destinationPage = (dest: PdfValue): number | null => {
+			if (dest instanceof PdfName || dest instanceof Uint8Array) {
+				namedDestinations ??= this.readNamedDestinations(catalog);
+				dest = this.resolve(namedDestinations.get(dest instanceof PdfName ? dest.name : latin1(dest)));
+				// Named destinations may be wrapped in a dictionary
+				dest = dest instanceof Map ? this.resolve(dest.get('D')) : dest;
+			}
+			if (!Array.isArray(dest)) {
+				return null;
+			}
+			const page = this.resolveDict(dest[0]);
+			const index = page ? pageIndexes.get(page) : undefined;
+			return index === undefined ? null : index + 1;
+		};
+
+		const readItems = (first: PdfValue | undefined, depth: number): PdfOutlineItem[] => {
+			const items: PdfOutlineItem[] = [];
+			let node = this.resolveDict(first);
+			while (node && !visited.has(node) && visited.size < MAX_OUTLINE_ITEMS) {
+				visited.add(node);
+				const title = this.resolve(node.get('Title'));
+				// A GoTo action is the other way to point at a page
+				const action = this.resolveDict(node.get('A'));
+				const isGoTo = action?.get('S') instanceof PdfName && (action.get('S') as PdfName).name === 'GoTo';
+				const dest = node.has('Dest') ? this.resolve(node.get('Dest')) : isGoTo ? this.resolve(action.get('D')) : null;
+				items.push({
+					title: title instanceof Uint8Array ? decodeTextString(title).replace(/\0/g, '').replace(/\s+/g, ' ').trim() : '',
+					page: destinationPage(dest),
+					children: depth < MAX_OUTLINE_DEPTH ? readItems(node.get('First'), depth + 1) : [],
+				});
+				node = this.resolveDict(node.get('Next'));
+			}
+			return items;
+		};
+		return readItems(root.get('First'), 0);
+	}
+
+	// Named destinations, from the catalog's /Dests dictionary (PDF 1.1) or its /Names /Dests name tree
+	private readNamedDestinations(catalog: PdfDict | null): Map<string, PdfValue> {
+		const destinations = new Map<string, PdfValue>();
+		const dests = this.resolveDict(catalog?.get('Dests'));
+		for (const [name, value] of dests ?? []) {
+			destinations.set(name, value);
+		}
+
+		const visited = new Set<PdfDict>();
+		const walk = (node: PdfDict | null, depth: number) => {
+			if (!node || visited.has(node) || depth > MAX_NAME_TREE_DEPTH) {
+				return;
+			}
+			visited.add(node);
+			const names = this.resolveArray(node.get('Names'));
+			for (let i = 0; i + 1 < names.length; i += 2) {
+				const key = this.resolve(names[i]);
+				if (key instanceof Uint8Array) {
+					destinations.set(latin1(key), names[i + 1]);
+				}
+			}
+			for (const kid of this.resolveArray(node.get('Kids'))) {
+				walk(this.resolveDict(kid), depth + 1);
+			}
+		};
+		walk(this.resolveDict(this.resolveDict(catalog?.get('Names'))?.get('Dests')), 0);
+		return destinations;
+	}
+
+	private readContents(value: PdfValue | undefined): Uint8Array {
+		const resolved = this.resolve(value);
+		const streams = Array.isArray(resolved) ? resolved.map(v => this.resolve(v)) : [resolved];
+		const parts: Uint8Array[] = [];
+		for (const stream of streams) {
+			if (isStream(stream)) {
+				try {
+					parts.push(this.decodeStream(stream));
+				} catch (error) {
+					console.log('Skipping undecodable content stream:', (error as Error).message);
+				}
+			}
+		}
+		return concatBytes(parts, 0x0a);
+	}
+
+	private interpretContent(content: Uint8Array, resources: PdfDict | null, writer: TextWriter, depth: number): void {
+		const fonts = resources ? this.resolveDict(resources.get('Font')) : null;
+		const xobjects = resources ? this.resolveDict(resources.get('XObject')) : null;
+		const lexer = new Lexer(content, 0, true);
+		const operands: PdfValue[] = [];
+		let decoder: FontDecoder = DEFAULT_DECODER;
+		let fontSize = 12;
+
+		for (;;) {
+			let token: PdfValue | undefined;
+			try {
+				token = lexer.readValue();
+			} catch {
+				// Skip over a malformed token and keep going
+				lexer.pos++;
+				operands.length = 0;
+				continue;
+			}
+			if (token === undefined) {
+				break;
+			}
+			if (!(token instanceof PdfOperator)) {
+				operands.push(token);
+				continue;
+			}
+
+			switch (token.op) {
+				case 'BT':
+					writer.beginText();
+					break;
+				case 'Tf': {
+					const name = operands[0];
+					const size = operands[1];
+					if (typeof size === 'number' && size !== 0) fontSize = Math.abs(size);
+					const fontDict = name instanceof PdfName && fonts ? this.resolveDict(fonts.get(name.name)) : null;
+					decoder = fontDict ? this.getFontDecoder(fontDict) : DEFAULT_DECODER;
+					break;
+				}
+				case 'Td':
+				case 'TD':
+					if (typeof operands[1] === 'number' && typeof operands[0] === 'number') {
+						writer.moveBy(operands[0], operands[1], fontSize);
+					}
+					break;
+				case 'Tm':
+					if (typeof operands[5] === 'number' && typeof operands[4] === 'number') {
+						writer.moveTo(operands[4], operands[5], fontSize);
+					}
+					break;
+				case 'T*':
+					writer.newLine();
+					break;
+				case 'Tj':
+					if (operands[0] instanceof Uint8Array) writer.write(decoder.decode(operands[0]));
+					break;
+				case "'":
+					writer.newLine();
+					if (operands[0] instanceof Uint8Array) writer.write(decoder.decode(operands[0]));
+					break;
+				case '"':
+					writer.newLine();
+					if (operands[2] instanceof Uint8Array) writer.write(decoder.decode(operands[2]));
+					break;
+				case 'TJ':
+					if (Array.isArray(operands[0])) {
+						for (const item of operands[0]) {
+							if (item instanceof Uint8Array) {
+								writer.write(decoder.decode(item));
+							} else if (typeof item === 'number' && item < -200) {
+								// Large negative kerning is how many generators encode word spaces
+								writer.space();
+							}
+						}
+					}
+					break;
+				case 'Do':
+					if (depth < MAX_XOBJECT_DEPTH && operands[0] instanceof PdfName && xobjects) {
+						const xobject = this.resolve(xobjects.get(operands[0].name));
+						const subtype = isStream(xobject) ? xobject.dict.get('Subtype') : null;
+						if (isStream(xobject) && subtype instanceof PdfName && subtype.name === 'Form') {
+							try {
+								const formResources = this.resolveDict(xobject.dict.get('Resources')) || resources;
+								this.interpretContent(this.decodeStream(xobject), formResources, writer, depth + 1);
+							} catch (error) {
+								console.log('Skipping undecodable form XObject:', (error as Error).message);
+							}
+						}
+					}
+					break;
+			}
+			operands.length = 0;
+		}
+	}
+
+	private getFontDecoder(font: PdfDict): FontDecoder {
+		const cached = this.cmapCache.get(font);
+		if (cached) {
+			return cached;
+		}
+
+		let decoder: FontDecoder = DEFAULT_DECODER;
+		const toUnicode = this.resolve(font.get('ToUnicode'));
+		if (isStream(toUnicode)) {
+			try {
+				decoder = parseToUnicodeCMap(this.decodeStream(toUnicode));
+			} catch (error) {
+				console.log('Could not read ToUnicode CMap:', (error as Error).message);
+			}
+		} else {
+			const subtype = this.resolve(font.get('Subtype'));
+			if (subtype instanceof PdfName && subtype.name === 'Type0') {
+				// Two-byte CIDs without a ToUnicode map cannot be mapped to text reliably
+				decoder = NULL_DECODER;
+			} else {
+				decoder = this.simpleFontDecoder(font);
+			}
+		}
+
+		this.cmapCache.set(font, decoder);
+		return decoder;
+	}
+
+	private simpleFontDecoder(font: PdfDict): FontDecoder {
+		const encoding = this.resolve(font.get('Encoding'));
+		const encodingDict = encoding instanceof Map ? encoding : null;
+		const differences = encodingDict ? this.resolveArray(encodingDict.get('Differences')) : [];
+		if (differences.length === 0) {
+			return DEFAULT_DECODER;
+		}
+		const overrides = new Map<number, string>();
+		let code = 0;
+		for (const item of differences) {
+			if (typeof item === 'number') {
+				code = item;
+			} else if (item instanceof PdfName) {
+				const char = glyphNameToUnicode(item.name);
+				if (char !== null) overrides.set(code, char);
+				code++;
+			}
+		}
+		return {
+			decode: (bytes: Uint8Array) => {
+				let text = '';
+				for (const byte of bytes) {
+					text += overrides.get(byte) ?? WIN_ANSI[byte] ?? '';
+				}
+				return text;
+			},
+		};
+	}
+}
+
+// -------------------------------------------------------------------------
+// Text layout
+// -------------------------------------------------------------------------
+
+/**
+ * Accumulates shown text, inserting line breaks and spaces from text positioning operators.
+ */
+class TextWriter {
+	private parts: string[] = [];
+	private lineY: number | null = null;
+	private x = 0;
+
+	beginText(): void {
+		this.x = 0;
+	}
+
+	moveBy(tx: number, ty: number, fontSize: number): void {
+		if (Math.abs(ty) > 0.01) {
+			this.newLine();
+			this.lineY = (this.lineY ?? 0) + ty;
+		} else if (tx > fontSize * 0.5) {
+			this.space();
+		}
+		this.x += tx;
+	}
+
+	moveTo(x: number, y: number, fontSize: number): void {
+		if (this.lineY !== null && Math.abs(y - this.lineY) > fontSize * 0.3) {
+			this.newLine();
+		} else if (x > this.x + fontSize * 0.5) {
+			this.space();
+		}
+		this.lineY = y;
+		this.x = x;
+	}
+
+	newLine(): void {
+		const last = this.parts[this.parts.length - 1];
+		if (last !== undefined && last !== '\n') {
+			this.parts.push('\n');
+		}
+	}
+
+	space(): void {
+		const last = this.parts[this.parts.length - 1];
+		if (last !== undefined && last !== '\n' && !last.endsWith(' ')) {
+			this.parts.push(' ');
+		}
+	}
+
+	write(text: string): void {
+		if (text.length > 0) {
+			this.parts.push(text);
+		}
+	}
+
+	toString(): string {
+		return this.parts.join('')
+			.replace(/[ \t]+\n/g, '\n')
+			.replace(/\n{3,}/g, '\n\n')
+			.trim();
+	}
+}
+
+// -------------------------------------------------------------------------
+// Fonts and CMaps
+// -------------------------------------------------------------------------
+
+interface FontDecoder {
+	decode(bytes: Uint8Array): string;
+}
+
+// Windows-1252 differs from Latin-1 in 0x80-0x9F
+const WIN_ANSI: string[] = Array.from({ length: 256 }, (_, i) => (i < 32 ? (i === 9 || i === 10 || i === 13 ? ' ' : '') : String.fromCharCode(i)));
+'€\0‚ƒ„…†‡ˆ‰Š‹Œ\0Ž\0\0‘’“”•–—˜™š›œ\0žŸ'.split('').forEach((char, i) => {
+	WIN_ANSI[0x80 + i] = char === '\0' ? '' : char;
+});
+
+const DEFAULT_DECODER: FontDecoder = {
+	decode: (bytes: Uint8Array) => {
+		let text = '';
+		for (const byte of bytes) {
+			text += WIN_ANSI[byte];
+		}
+		return text;
+	},
+};
+
+const NULL_DECODER: FontDecoder = { decode: () => '' };
+
+const GLYPH_NAMES: Record<string, string> = {
+	space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+	quotesingle: "'", quoteright: '’', quoteleft: '‘', quotedblleft: '“', quotedblright: '”', parenleft: '(',
+	parenright: ')', asterisk: '*', plus: '+', comma: ',', hyphen: '-', minus: '-', period: '.', slash: '/',
+	colon: ':', semicolon: ';', less: '<', equal: '=', greater: '>', question: '?', at: '@', bracketleft: '[',
+	backslash: '\\', bracketright: ']', underscore: '_', braceleft: '{', bar: '|', braceright: '}',
+	endash: '–', emdash: '—', bullet: '•', ellipsis: '…', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl',
+	zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9',
+	copyright: '©', registered: '®', trademark: '™', degree: '°', Euro: '€', sterling: '£', yen: '¥',
+};
+
+function glyphNameToUnicode(name: string): string | null {
+	if (/^[A-Za-z]$/.test(name)) {
+		return name;
+	}
+	if (GLYPH_NAMES[name] !== undefined) {
+		return GLYPH_NAMES[name];
+	}
+	const uni = name.match(/^uni([0-9A-Fa-f]{4})/) || name.match(/^u([0-9A-Fa-f]{4,6})$/);
+	if (uni) {
+		return String.fromCodePoint(parseInt(uni[1], 16));
+	}
+	return null;
+}
+
+/**
+ * Parses a ToUnicode CMap (codespace ranges, bfchar and bfrange sections).
+ */
+function parseToUnicodeCMap(data: Uint8Array): FontDecoder {
+	const lexer = new Lexer(data, 0, true);
+	const codespaces: { low: number, high: number, bytes: number }[] = [];
+	const map = new Map<string, string>(); // key: `${byteLength}:${code}`
+
+	const tokens: PdfValue[] = [];
+	for (;;) {
+		let token: PdfValue | undefined;
+		try {
+			token = lexer.readValue();
+		} catch {
+			lexer.pos++;
+			continue;
+		}
+		if (token === undefined) break;
+		tokens.push(token);
+	}
+
+	for (let i = 0; i < tokens.length; i++) {
+		const token = tokens[i];
+		if (!(token instanceof PdfOperator)) continue;
+
+		if (token.op === 'begincodespacerange') {
+			for (i++; i + 1 < tokens.length && tokens[i] instanceof Uint8Array; i += 2) {
+				const low = tokens[i] as Uint8Array;
+				const high = tokens[i + 1] as Uint8Array;
+				codespaces.push({ low: bytesToInt(low), high: bytesToInt(high), bytes: low.length });
+			}
+		} else if (token.op === 'beginbfchar') {
+			for (i++; i + 1 < tokens.length && tokens[i] instanceof Uint8Array; i += 2) {
+				const src = tokens[i] as Uint8Array;
+				const dst = tokens[i + 1];
+				if (dst instanceof Uint8Array) {
+					map.set(`${src.length}:${bytesToInt(src)}`, decodeUtf16(dst));
+				}
+			}
+		} else if (token.op === 'beginbfrange') {
+			for (i++; i + 2 < tokens.length && tokens[i] instanceof Uint8Array; i += 3) {
+				const low = tokens[i] as Uint8Array;
+				const high = tokens[i + 1] as Uint8Array;
+				const dst = tokens[i + 2];
+				const start = bytesToInt(low);
+				const end = Math.min(bytesToInt(high), start + 0xffff);
+				for (let code = start; code <= end; code++) {
+					let text: string | null = null;
+					if (dst instanceof Uint8Array) {
+						// Increment the last UTF-16 code unit
+						const base = decodeUtf16(dst);
+						text = base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + (code - start));
+					} else if (Array.isArray(dst) && dst[code - start] instanceof Uint8Array) {
+						text = decodeUtf16(dst[code - start] as Uint8Array);
+					}
+					if (text !== null) {
+						map.set(`${low.length}:${code}`, text);
+					}
+				}
+			}
+		}
+	}
+
+	const lengths = [...new Set([...codespaces.map(c => c.bytes), ...[...map.keys()].map(k => parseInt(k, 10))])].sort();
+	if (lengths.length === 0) {
+		lengths.push(1);
+	}
+
+	return {
+		decode: (bytes: Uint8Array) => {
+			let text = '';
+			let pos = 0;
+			while (pos < bytes.length) {
+				let matched = false;
+				for (const length of lengths) {
+					if (pos + length > bytes.length) break;
+					const code = bytesToInt(bytes.subarray(pos, pos + length));
+					const inCodespace = codespaces.length === 0 || codespaces.some(c => c.bytes === length && code >= c.low && code <= c.high);
+					const mapped = map.get(`${length}:${code}`);
+					if (mapped !== undefined || (inCodespace && length === lengths[lengths.length - 1])) {
+						text += mapped ?? '';
+						pos += length;
+						matched = true;
+						break;
+					}
+				}
+				if (!matched) {
+					pos += lengths[0];
+				}
+			}
+			return text;
+		},
+	};
+}
+
+// -------------------------------------------------------------------------
+// Lexer
+// -------------------------------------------------------------------------
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+
+class Lexer {
+	constructor(private readonly bytes: Uint8Array, public pos: number, private readonly contentStream = false) {}
+
+	skipWhitespace(): void {
+		while (this.pos < this.bytes.length) {
+			const byte = this.bytes[this.pos];
+			if (WHITESPACE.has(byte)) {
+				this.pos++;
+			} else if (byte === 0x25) {
+				// Comment runs to end of line
+				while (this.pos < this.bytes.length && this.bytes[this.pos] !== 0x0a && this.bytes[this.pos] !== 0x0d) {
+					this.pos++;
+				}
+			} else {
+				break;
+			}
+		}
+	}
+
+	/**
+	 * Reads the next value. Returns undefined at end of input.
+	 */
+	readValue(): PdfValue | undefined {
+		this.skipWhitespace();
+		if (this.pos >= this.bytes.length) {
+			return undefined;
+		}
+		const byte = this.bytes[this.pos];
+
+		if (byte === 0x3c && this.bytes[this.pos + 1] === 0x3c) {
+			return this.readDict();
+		}
+		if (byte === 0x3c) {
+			return this.readHexString();
+		}
+		if (byte === 0x28) {
+			return this.readLiteralString();
+		}
+		if (byte === 0x5b) {
+			this.pos++;
+			const items: PdfValue[] = [];
+			for (;;) {
+				this.skipWhitespace();
+				if (this.pos >= this.bytes.length) break;
+				if (this.bytes[this.pos] === 0x5d) {
+					this.pos++;
+					break;
+				}
+				const item = this.readValue();
+				if (item === undefined) break;
+				if (item instanceof PdfOperator && !this.contentStream) {
+					// Stray keyword inside an array: malformed, stop here
+					break;
+				}
+				items.push(item);
+			}
+			return items;
+		}
+		if (byte === 0x2f) {
+			return new PdfName(this.readName());
+		}
+		if ((byte >= 0x30 && byte <= 0x39) || byte === 0x2b || byte === 0x2d || byte === 0x2e) {
+			const number = this.readNumber();
+			if (!this.contentStream && Number.isInteger(number) && number >= 0) {
+				// Look ahead for "gen R"
+				const save = this.pos;
+				this.skipWhitespace();
+				const genStart = this.pos;
+				while (this.pos < this.bytes.length && this.bytes[this.pos] >= 0x30 && this.bytes[this.pos] <= 0x39) this.pos++;
+				if (this.pos > genStart) {
+					const gen = parseInt(latin1(this.bytes.subarray(genStart, this.pos)), 10);
+					this.skipWhitespace();
+					if (this.bytes[this.pos] === 0x52 && this.isBoundary(this.pos + 1)) {
+						this.pos++;
+						return new PdfRef(number, gen);
+					}
+				}
+				this.pos = save;
+			}
+			return number;
+		}
+		if (byte === 0x5d || byte === 0x3e || byte === 0x29 || byte === 0x7b || byte === 0x7d) {
+			// Unbalanced delimiter: skip it
+			this.pos++;
+			return this.readValue();
+		}
+
+		const keyword = this.readKeyword();
+		if (keyword === 'true') return true;
+		if (keyword === 'false') return false;
+		if (keyword === 'null') return null;
+		if (keyword === 'BI' && this.contentStream) {
+			this.skipInlineImage();
+			return this.readValue();
+		}
+		return new PdfOperator(keyword);
+	}
+
+	private isBoundary(pos: number): boolean {
+		return pos >= this.bytes.length || WHITESPACE.has(this.bytes[pos]) || DELIMITERS.has(this.bytes[pos]);
+	}
+
+	private readDict(): PdfDict {
+		this.pos += 2;
+		const dict: PdfDict = new Map();
+		for (;;) {
+			this.skipWhitespace();
+			if (this.pos >= this.bytes.length) break;
+			if (this.bytes[this.pos] === 0x3e && this.bytes[this.pos + 1] === 0x3e) {
+				this.pos += 2;
+				break;
+			}
+			const key = this.readValue();
+			if (!(key instanceof PdfName)) {
+				if (key === undefined || key instanceof PdfOperator) break;
+				continue;
+			}
+			const value = this.readValue();
+			if (value === undefined) break;
+			dict.set(key.name, value);
+		}
+		return dict;
+	}
+
+	private readName(): string {
+		this.pos++; // skip '/'
+		let name = '';
+		while (this.pos < this.bytes.length && !this.isBoundary(this.pos)) {
+			const byte = this.bytes[this.pos];
+			if (byte === 0x23 && this.pos + 2 < this.bytes.length) {
+				const hex = parseInt(latin1(this.bytes.subarray(this.pos + 1, this.pos + 3)), 16);
+				if (!isNaN(hex)) {
+					name += String.fromCharCode(hex);
+					this.pos += 3;
+					continue;
+				}
+			}
+			name += String.fromCharCode(byte);
+			this.pos++;
+		}
+		return name;
+	}
+
+	private readNumber(): number {
+		const start = this.pos;
+		this.pos++;
+		while (this.pos < this.bytes.length) {
+			const byte = this.bytes[this.pos];
+			if ((byte >= 0x30 && byte <= 0x39) || byte === 0x2e || byte === 0x2d) {
+				this.pos++;
+			} else {
+				break;
+			}
+		}
+		const value = parseFloat(latin1(this.bytes.subarray(start, this.pos)));
+		return isNaN(value) ? 0 : value;
+	}
+
+	private readKeyword(): string {
+		const start = this.pos;
+		while (this.pos < this.bytes.length && !this.isBoundary(this.pos)) {
+			this.pos++;
+		}
+		if (this.pos === start) {
+			this.pos++;
+		}
+		return latin1(this.bytes.subarray(start, this.pos));
+	}
+
+	private readHexString(): Uint8Array {
+		this.pos++;
+		const digits: number[] = [];
+		while (this.pos < this.bytes.length && this.bytes[this.pos] !== 0x3e) {
+			const value = hexValue(this.bytes[this.pos]);
+			if (value >= 0) digits.push(value);
+			this.pos++;
+		}
+		this.pos++;
+		if (digits.length % 2 === 1) digits.push(0);
+		const out = new Uint8Array(digits.length / 2);
+		for (let i = 0; i < out.length; i++) {
+			out[i] = (digits[i * 2] << 4) | digits[i * 2 + 1];
+		}
+		return out;
+	}
+
+	private readLiteralString(): Uint8Array {
+		this.pos++;
+		const out: number[] = [];
+		let depth = 1;
+		while (this.pos < this.bytes.length) {
+			const byte = this.bytes[this.pos++];
+			if (byte === 0x28) {
+				depth++;
+			} else if (byte === 0x29) {
+				depth--;
+				if (depth === 0) break;
+			} else if (byte === 0x5c) {
+				const next = this.bytes[this.pos++];
+				switch (next) {
+					case 0x6e: out.push(0x0a); continue;
+					case 0x72: out.push(0x0d); continue;
+					case 0x74: out.push(0x09); continue;
+					case 0x62: out.push(0x08); continue;
+					case 0x66: out.push(0x0c); continue;
+					case 0x0d:
+						if (this.bytes[this.pos] === 0x0a) this.pos++;
+						continue;
+					case 0x0a:
+						continue;
+				}
+				if (next >= 0x30 && next <= 0x37) {
+					let value = next - 0x30;
+					for (let i = 0; i < 2 && this.bytes[this.pos] >= 0x30 && this.bytes[this.pos] <= 0x37; i++) {
+						value = value * 8 + (this.bytes[this.pos++] - 0x30);
+					}
+					out.push(value & 0xff);
+					continue;
+				}
+				if (next !== undefined) out.push(next);
+				continue;
+			}
+			out.push(byte);
+		}
+		return new Uint8Array(out);
+	}
+
+	private skipInlineImage(): void {
+		// Skip the image dictionary and binary data up to a standalone "EI"
+		const dataStart = indexOf(this.bytes, 'ID', this.pos);
+		let search = dataStart < 0 ? this.pos : dataStart + 2;
+		for (;;) {
+			const end = indexOf(this.bytes, 'EI', search);
+			if (end < 0) {
+				this.pos = this.bytes.length;
+				return;
+			}
+			if (WHITESPACE.has(this.bytes[end - 1]) && this.isBoundary(end + 2)) {
+				this.pos = end + 2;
+				return;
+			}
+			search = end + 2;
+		}
+	}
+}
+
+// -------------------------------------------------------------------------
+// Helpers
+// -------------------------------------------------------------------------
+
+function isStream(value: PdfValue | undefined): value is PdfStream {
+	return typeof value === 'object' && value !== null && !(value instanceof Map) && !Array.isArray(value)
+		&& !(value instanceof Uint8Array) && 'dict' in value && 'data' in value;
+}
+
+function latin1(bytes: Uint8Array): string {
+	let text = '';
+	const chunkSize = 8192;
+	for (let i = 0; i < bytes.length; i += chunkSize) {
+		text += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)));
+	}
+	return text;
+}
+
+function indexOf(bytes: Uint8Array, needle: string, from: number): number {
+	const first = needle.charCodeAt(0);
+	outer: for (let i = from; i <= bytes.length - needle.length; i++) {
+		if (bytes[i] !== first) continue;
+		for (let j = 1; j < needle.length; j++) {
+			if (bytes[i + j] !== needle.charCodeAt(j)) continue outer;
+		}
+		return i;
+	}
+	return -1;
+}
+
+function readInt(bytes: Uint8Array, pos: number, width: number): number {
+	let value = 0;
+	for (let i = 0; i < width; i++) {
+		value = value * 256 + bytes[pos + i];
+	}
+	return value;
+}
+
+function bytesToInt(bytes: Uint8Array): number {
+	return readInt(bytes, 0, bytes.length);
+}
+
+function hexValue(byte: number): number {
+	if (byte >= 0x30 && byte <= 0x39) return byte - 0x30;
+	if (byte >= 0x41 && byte <= 0x46) return byte - 0x37;
+	if (byte >= 0x61 && byte <= 0x66) return byte - 0x57;
+	return -1;
+}
+
+function paeth(a: number, b: number, c: number): number {
+	const p = a + b - c;
+	const pa = Math.abs(p - a);
+	const pb = Math.abs(p - b);
+	const pc = Math.abs(p - c);
+	if (pa <= pb && pa <= pc) return a;
+	if (pb <= pc) return b;
+	return c;
+}
+
+function concatBytes(parts: Uint8Array[], separator: number): Uint8Array {
+	const total = parts.reduce((sum, part) => sum + part.length + 1, 0);
+	const out = new Uint8Array(total);
+	let pos = 0;
+	for (const part of parts) {
+		out.set(part, pos);
+		pos += part.length;
+		out[pos++] = separator;
+	}
+	return out;
+}
+
+function decodeUtf16(bytes: Uint8Array): string {
+	let text = '';
+	for (let i = 0; i + 1 < bytes.length; i += 2) {
+		text += String.fromCharCode((bytes[i] << 8) | bytes[i + 1]);
+	}
+	return text;
+}
+
+/**
+ * Decodes a PDF "text string" (UTF-16BE with BOM, UTF-8 with BOM, or PDFDocEncoding).
+ */
+export function decodeTextString(bytes: Uint8Array): string {
+	if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+		return decodeUtf16(bytes.subarray(2));
+	}
+	if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+		return new TextDecoder().decode(bytes.subarray(3));
+	}
+	return DEFAULT_DECODER.decode(bytes);
+}
+
+/**
+ * Converts a PDF date ("D:YYYYMMDDHHmmSSOHH'mm'") to an ISO string.
+ */
+export function parsePdfDate(value: string | null): string | null {
+	if (!value) {
+		return null;
+	}
+	const match = value.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?([Zz+\-])?(\d{2})?'?(\d{2})?/);
+	if (!match) {
+		return null;
+	}
+	const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', sign, offsetHours = '00', offsetMinutes = '00'] = match;
+	const zone = !sign || sign.toUpperCase() === 'Z' ? 'Z' : `${sign}${offsetHours}:${offsetMinutes}`;
+	const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${zone}`);
+	return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function decodeAsciiHex(data: Uint8Array): Uint8Array {
+	const out: number[] = [];
+	let high = -1;
+	for (const byte of data) {
+		if (byte === 0x3e) break;
+		const value = hexValue(byte);
+		if (value < 0) continue;
+		if (high < 0) {
+			high = value;
+		} else {
+			out.push((high << 4) | value);
+			high = -1;
+		}
+	}
+	if (high >= 0) out.push(high << 4);
+	return new Uint8Array(out);
+}
+
+function decodeAscii85(data: Uint8Array): Uint8Array {
+	const out: number[] = [];
+	const group: number[] = [];
+	for (let i = 0; i < data.length; i++) {
+		const byte = data[i];
+		if (byte === 0x7e) break; // "~>"
+		if (WHITESPACE.has(byte)) continue;
+		if (byte === 0x7a && group.length === 0) {
+			out.push(0, 0, 0, 0);
+			continue;
+		}
+		if (byte < 0x21 || byte > 0x75) continue;
+		group.push(byte - 0x21);
+		if (group.length === 5) {
+			let value = 0;
+			for (const digit of group) value = value * 85 + digit;
+			out.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+			group.length = 0;
+		}
+	}
+	if (group.length > 1) {
+		const missing = 5 - group.length;
+		while (group.length < 5) group.push(84);
+		let value = 0;
+		for (const digit of group) value = value * 85 + digit;
+		const bytes = [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+		out.push(...bytes.slice(0, 4 - missing));
+	}
+	return new Uint8Array(out);
+}
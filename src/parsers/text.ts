@@ -0,0 +1,161 @@
+/**
+ * Plain text helpers: character encoding detection and decoding, line and word
+ * counts, and the heading outline of Markdown.
+ *
+ * Text may be a sample cut off at an arbitrary byte, so a character split at
+ * the end is dropped rather than treated as an encoding error.
+ */
+
+// Text that is not valid UTF-8 is taken to be Windows-1252, a superset of Latin-1
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export interface MarkdownHeading {
+	// 1 to 6
+	level: number;
+	text: string;
+}
+
+// Upper bound on headings kept in an outline
+const MAX_OUTLINE_HEADINGS = 200;
+
+// Windows-1252 code points for 0x80-0x9f, where it differs from Latin-1; the
+// five bytes it leaves undefined are kept as the C1 controls of the same value
+const WINDOWS_1252_HIGH = [
+	0x20ac, 0x81, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0x8d, 0x017d, 0x8f,
+	0x90, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0x9d, 0x017e, 0x0178,
+];
+
+/**
+ * Works out the encoding of some text from its byte order mark, or else from
+ * whether it is valid UTF-8. Returns the encoding and the length of the mark.
+ */
+export function detectEncoding(bytes: Uint8Array): { encoding: TextEncoding, bomLength: number } {
+	if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+		return { encoding: 'utf-8', bomLength: 3 };
+	}
+	if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+		return { encoding: 'utf-16le', bomLength: 2 };
+	}
+	if (bytes[0] === 0xfe && bytes[1] === 0xff) {
+		return { encoding: 'utf-16be', bomLength: 2 };
+	}
+	return { encoding: isUtf8(bytes) ? 'utf-8' : 'windows-1252', bomLength: 0 };
+}
+
+/**
+ * Decodes text in the given encoding, without its byte order mark.
+ */
+export function decodeText(bytes: Uint8Array, encoding: TextEncoding, bomLength = 0): string {
+	const body = bytes.subarray(bomLength);
+	switch (encoding) {
+		case 'utf-8':
+			// Streaming mode holds back a character cut off at the end instead of emitting U+FFFD
+			return new TextDecoder('utf-8').decode(body, { stream: true });
+		case 'utf-16le':
+		case 'utf-16be': {
+			const view = new DataView(body.buffer, body.byteOffset, body.byteLength);
+			const littleEndian = encoding === 'utf-16le';
+			let text = '';
+			for (let pos = 0; pos + 2 <= body.length; pos += 2) {
+				text += String.fromCharCode(view.getUint16(pos, littleEndian));
+			}
+			// Drop a high surrogate whose pair was cut off
+			return /[\ud800-\udbff]$/.test(text) ? text.slice(0, -1) : text;
+		}
+		default: {
+			let text = '';
+			for (const byte of body) {
+				text += String.fromCharCode(byte >= 0x80 && byte < 0xa0 ? WINDOWS_1252_HIGH[byte - 0x80] : byte);
+			}
+			return text;
+		}
+	}
+}
+
+/**
+ * Lines in some text. A final line without a line break still counts.
+ */
+export function countLines(text: string): number {
+	if (text.length === 0) {
+		return 0;
+	}
+	const breaks = text.match(/\r\n|\r|\n/g)?.length ?? 0;
+	return /[\r\n]$/.test(text) ? breaks : breaks + 1;
+}
+
+/**
+ * Words in some text: runs of letters, digits and the punctuation inside words.
+ */
+export function countWords(text: string): number {
+	return text.match(/[\p{L}\p{N}][\p{L}\p{N}'’_.-]*/gu)?.length ?? 0;
+}
+
+/**
+ * The headings of a Markdown document in order, both ATX ("## Title") and
+ * Setext (underlined with = or -). Headings in fenced code blocks and front
+ * matter are ignored.
+ */
+export function markdownOutline(text: string): MarkdownHeading[] {
+	const headings: MarkdownHeading[] = [];
+	const lines = text.split(/\r\n|\r|\n/);
+	let fence: string | null = null;
+
+	// YAML front matter is fenced with "---" lines, which would otherwise read as a heading underline
+	let start = 0;
+	if (lines[0]?.trim() === '---') {
+		const end = lines.findIndex((line, index) => index > 0 && /^(---|\.\.\.)\s*$/.test(line));
+		start = end > 0 ? end + 1 : 0;
+	}
+
+	for (let i = start; i < lines.length && headings.length < MAX_OUTLINE_HEADINGS; i++) {
+		const line = lines[i];
+		const fenceMatch = line.match(/^ {0,3}(`{3,}|~{3,})/);
+		if (fenceMatch) {
+			const marker = fenceMatch[1];
+			if (!fence) {
+				fence = marker;
+			} else if (marker[0] === fence[0] && marker.length >= fence.length) {
+				fence = null;
+			}
+			continue;
+		}
+		if (fence) {
+			continue;
+		}
+
+		const atx = line.match(/^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/);
+		if (atx) {
+			const heading = cleanHeading(atx[2] ?? '');
+			if (heading) {
+				headings.push({ level: atx[1].length, text: heading });
+			}
+			continue;
+		}
+
+		// A Setext underline turns the paragraph line above it into a heading
+		const next = lines[i + 1];
+		if (next !== undefined && line.trim() && !/^ {4}/.test(line) && /^ {0,3}(=+|-+)[ \t]*$/.test(next)) {
+			headings.push({ level: next.trim()[0] === '=' ? 1 : 2, text: cleanHeading(line) });
+			i++;
+		}
+	}
+	return headings;
+}
+
+// Strips the inline Markdown that matters in a heading: emphasis, code spans and links
+function cleanHeading(text: string): string {
+	return text
+		.replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+		.replace(/[*_`]+/g, '')
+		.trim();
+}
+
+// Whether bytes are valid UTF-8, allowing a sequence cut off at the end
+function isUtf8(bytes: Uint8Array): boolean {
+	try {
+		new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(bytes, { stream: true });
+		return true;
+	} catch {
+		return false;
+	}
+}
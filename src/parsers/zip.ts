@@ -0,0 +1,220 @@
+/**
+ * Minimal ZIP archive reader (PKWARE APPNOTE 6.3).
+ *
+ * Entries are found through the central directory at the end of the archive,
+ * as local headers may leave their sizes to a trailing data descriptor. Only
+ * stored and deflated entries can be read, and ZIP64 and encrypted archives
+ * are rejected; Office documents never need either in practice.
+ */
+
+import { inflateRaw } from './inflate';
+import { RangeReader } from './mp4';
+
+export interface ZipEntry {
+	name: string;
+	// 0 = stored, 8 = deflated
+	method: number;
+	compressedSize: number;
+	size: number;
+	encrypted: boolean;
+	localHeaderOffset: number;
+}
+
+export class ZipError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ZipError';
+	}
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+// The end record is 22 bytes followed by a comment of up to 65535 bytes
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+// Guards against archives built to blow up when inflated
+const MAX_ENTRIES = 65535;
+const MAX_ENTRY_BYTES = 64 * 1024 * 1024;
+
+// Entries this close together are fetched in one ranged read
+const MAX_RANGE_GAP = 64 * 1024;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+/**
+ * A ZIP archive, or the parts of one that were fetched. Entries are decompressed on demand.
+ */
+export class ZipArchive {
+	private readonly byName = new Map<string, ZipEntry>();
+
+	// Byte ranges of the archive held in memory, by their offset in the file
+	private constructor(private readonly spans: { offset: number, bytes: Uint8Array }[], readonly entries: ZipEntry[]) {
+		for (const entry of entries) {
+			this.byName.set(entry.name, entry);
+		}
+	}
+
+	/**
+	 * Reads the central directory. Throws ZipError if the bytes are not a ZIP archive we can read.
+	 */
+	static load(bytes: Uint8Array): ZipArchive {
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+		const end = findEndRecord(view);
+		if (end < 0) {
+			throw new ZipError('No end of central directory record; not a ZIP archive');
+		}
+		const { count, directoryOffset, directorySize } = readEndRecord(view, end, end);
+		return new ZipArchive([{ offset: 0, bytes }], readDirectory(bytes.subarray(directoryOffset, directoryOffset + directorySize), count));
+	}
+
+	/**
+	 * Reads the central directory and the entries picked by `include` with ranged
+	 * reads, so that the rest of the archive is never downloaded. Other entries are
+	 * listed but cannot be read. Throws ZipError if the archive cannot be read, or
+	 * if the picked entries add up to more than `maxBytes`.
+	 */
+	static async fetch(read: RangeReader, size: number, include: (entry: ZipEntry) => boolean, maxBytes: number): Promise<ZipArchive> {
+		const tailOffset = Math.max(0, size - MAX_END_RECORD_SEARCH);
+		const tail = await read(tailOffset, size - tailOffset);
+		const view = new DataView(tail.buffer, tail.byteOffset, tail.byteLength);
+		const end = findEndRecord(view);
+		if (end < 0) {
+			throw new ZipError('No end of central directory record; not a ZIP archive');
+		}
+		const { count, directoryOffset, directorySize } = readEndRecord(view, end, tailOffset + end);
+		// The directory is usually small enough to have come with the end record
+		const directory = directoryOffset >= tailOffset
+			? tail.subarray(directoryOffset - tailOffset, directoryOffset - tailOffset + directorySize)
+			: await read(directoryOffset, directorySize);
+		const entries = readDirectory(directory, count);
+
+		// An entry's local header, data and data descriptor run up to the next entry
+		const sorted = [...entries].sort((a, b) => a.localHeaderOffset - b.localHeaderOffset);
+		const ranges: { offset: number, end: number }[] = [];
+		sorted.forEach((entry, index) => {
+			if (!include(entry)) {
+				return;
+			}
+			const entryEnd = sorted[index + 1]?.localHeaderOffset ?? directoryOffset;
+			const last = ranges[ranges.length - 1];
+			if (last && entry.localHeaderOffset - last.end <= MAX_RANGE_GAP) {
+				last.end = Math.max(last.end, entryEnd);
+			} else {
+				ranges.push({ offset: entry.localHeaderOffset, end: entryEnd });
+			}
+		});
+		const total = ranges.reduce((sum, range) => sum + range.end - range.offset, 0);
+		if (total > maxBytes) {
+			throw new ZipError(`The entries to read take up ${total} bytes, more than the ${maxBytes} allowed`);
+		}
+
+		const spans = await Promise.all(ranges.map(async range => ({ offset: range.offset, bytes: await read(range.offset, range.end - range.offset) })));
+		return new ZipArchive(spans, entries);
+	}
+
+	has(name: string): boolean {
+		return this.byName.has(name);
+	}
+
+	/**
+	 * Returns an entry's contents, or null if there is no such entry. At most
+	 * `maxBytes` are decompressed, which keeps a huge spreadsheet from being
+	 * inflated in full when only its first rows are wanted.
+	 */
+	read(name: string, maxBytes = MAX_ENTRY_BYTES): Uint8Array | null {
+		const entry = this.byName.get(name);
+		if (!entry) {
+			return null;
+		}
+		if (entry.encrypted) {
+			throw new ZipError(`${name} is encrypted`);
+		}
+
+		const span = this.spans.find(candidate => candidate.offset <= entry.localHeaderOffset && entry.localHeaderOffset < candidate.offset + candidate.bytes.length);
+		if (!span) {
+			throw new ZipError(`${name} was not fetched`);
+		}
+		const bytes = span.bytes;
+		const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+		const header = entry.localHeaderOffset - span.offset;
+		if (header + 30 > bytes.length || view.getUint32(header, true) !== LOCAL_HEADER_SIGNATURE) {
+			throw new ZipError(`Local header of ${name} is corrupt`);
+		}
+		// The local name and extra field may differ in length from the central directory's
+		const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+		const data = bytes.subarray(start, start + entry.compressedSize);
+		const limit = Math.min(maxBytes, MAX_ENTRY_BYTES);
+
+		switch (entry.method) {
+			case STORED:
+				return data.subarray(0, limit);
+			case DEFLATED:
+				return inflateRaw(data, limit);
+			default:
+				throw new ZipError(`${name} uses unsupported compression method ${entry.method}`);
+		}
+	}
+
+	/**
+	 * Returns an entry decoded as UTF-8, or null if there is no such entry.
+	 */
+	readText(name: string, maxBytes?: number): string | null {
+		const data = this.read(name, maxBytes);
+		return data ? new TextDecoder().decode(data) : null;
+	}
+}
+
+// Reads the end of central directory record at `end` in the view, which is at `fileOffset` in the archive
+function readEndRecord(view: DataView, end: number, fileOffset: number): { count: number, directoryOffset: number, directorySize: number } {
+	const count = view.getUint16(end + 10, true);
+	const directorySize = view.getUint32(end + 12, true);
+	const directoryOffset = view.getUint32(end + 16, true);
+	if (count === 0xffff || directoryOffset === 0xffffffff) {
+		throw new ZipError('ZIP64 archives are not supported');
+	}
+	if (count > MAX_ENTRIES || directoryOffset + directorySize > fileOffset) {
+		throw new ZipError('Central directory is out of bounds');
+	}
+	return { count, directoryOffset, directorySize };
+}
+
+function readDirectory(directory: Uint8Array, count: number): ZipEntry[] {
+	const view = new DataView(directory.buffer, directory.byteOffset, directory.byteLength);
+	const entries: ZipEntry[] = [];
+	let pos = 0;
+	for (let i = 0; i < count; i++) {
+		if (pos + 46 > directory.length || view.getUint32(pos, true) !== CENTRAL_HEADER_SIGNATURE) {
+			throw new ZipError(`Central directory entry ${i} is corrupt`);
+		}
+		const flags = view.getUint16(pos + 8, true);
+		const nameLength = view.getUint16(pos + 28, true);
+		const extraLength = view.getUint16(pos + 30, true);
+		const commentLength = view.getUint16(pos + 32, true);
+		const nameBytes = directory.subarray(pos + 46, pos + 46 + nameLength);
+		entries.push({
+			// Bit 11 marks UTF-8 names; Office always writes ASCII ones
+			name: new TextDecoder(flags & 0x800 ? 'utf-8' : 'latin1').decode(nameBytes),
+			method: view.getUint16(pos + 10, true),
+			compressedSize: view.getUint32(pos + 20, true),
+			size: view.getUint32(pos + 24, true),
+			encrypted: (flags & 1) === 1,
+			localHeaderOffset: view.getUint32(pos + 42, true),
+		});
+		pos += 46 + nameLength + extraLength + commentLength;
+	}
+	return entries;
+}
+
+// Scans backwards for the end of central directory record, which may be followed by a comment
+function findEndRecord(view: DataView): number {
+	const stop = Math.max(0, view.byteLength - MAX_END_RECORD_SEARCH);
+	for (let pos = view.byteLength - 22; pos >= stop; pos--) {
+		if (view.getUint32(pos, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+			return pos;
+		}
+	}
+	return -1;
+}
@@ -0,0 +1,184 @@
+import { ExecutionContext, R2Object } from '@cloudflare/workers-types';
+import { Env } from '../types';
+import { AUDIO_FORMATS, AudioInfo, parseAudio } from '../parsers/audio';
+import { writeMetadata } from '../metadata';
+import { SIDECAR_SCHEMA_VERSION } from '../sidecar';
+import { AiProvider, currentUsage, getAiProvider, TextSummary } from '../ai';
+import { ContentResolution, resolveContent, sha256Hex } from '../contentCache';
+import { DetectedContent, errorMessage, ProcessorOutcome } from './types';
+
+// OpenAI takes uploads of up to 25 MB; Workers AI is sent the same files inline.
+// Larger files are described from their tags without being downloaded.
+const MAX_TRANSCRIPTION_BYTES = 25 * 1024 * 1024;
+
+// Shorter transcripts are usually a model hallucinating over music or silence
+const MIN_TRANSCRIPT_CHARS = 50;
+
+// How a recording is described in prompts
+const AUDIO_KIND = 'sound recording';
+
+/**
+ * Processes an MP3, WAV or M4A file from R2:
+ * 1. Fetches the audio object, unless it is too large to transcribe.
+ * 2. Reads the duration, bitrate, sample rate, channels and tags from its headers.
+ * 3. Transcribes it with the configured speech-to-text model and summarises and
+ *    tags the transcript, unless an identical file has been transcribed before.
+ * 4. Uploads the metadata, transcript included, back to R2.
+ */
+export async function processAudio(objectMetadata: R2Object, env: Env, ctx: ExecutionContext, content: DetectedContent): Promise<ProcessorOutcome> {
+    const objectName = objectMetadata.key;
+    console.log(`-> Starting audio processing for ${objectName}`);
+    try {
+        // 1. Get the full audio object from R2 if it will be transcribed
+        let source: R2Object = objectMetadata;
+        let audioBytes: Uint8Array | null = null;
+        if (objectMetadata.size <= MAX_TRANSCRIPTION_BYTES) {
+            const object = await env.MEDIA_BUCKET.get(objectName);
+            if (!object) {
+                console.error(`Failed to retrieve object ${objectName} from R2.`);
+                return { status: 'skipped', reason: 'Object no longer exists' };
+            }
+            source = object;
+            audioBytes = new Uint8Array(await object.arrayBuffer());
+        }
+
+        // 2. Parse the headers, from memory or with ranged reads against R2
+        const readRange = async (offset: number, length: number): Promise<Uint8Array> => {
+            if (audioBytes) {
+                return audioBytes.subarray(offset, offset + length);
+            }
+            const object = await env.MEDIA_BUCKET.get(objectName, { range: { offset, length } });
+            if (!object) {
+                throw new Error(`Failed to read bytes ${offset}-${offset + length} of ${objectName}`);
+            }
+            return new Uint8Array(await object.arrayBuffer());
+        };
+
+        let info: AudioInfo | null = null;
+        // Set when the metadata or the summary is incomplete
+        let fallbackReason: string | null = null;
+        try {
+            info = await parseAudio(readRange, source.size, content.mimeType);
+        } catch (parseError) {
+            console.error(`Could not parse audio ${objectName}:`, parseError);
+            fallbackReason = `Could not read the audio headers (${errorMessage(parseError)})`;
+        }
+
+        const provider = getAiProvider(env, 'audio');
+        const context = describeAudioTags(info);
+
+        // 3. Transcribe the audio and summarise what was said
+        let contentHash: string | null = null;
+        let result: ContentResolution;
+        if (audioBytes) {
+            contentHash = await sha256Hex(audioBytes);
+            const cacheSource = { key: objectName, hash: contentHash, type: 'audio', size: source.size };
+            result = await resolveContent(env, cacheSource, provider.name, async () => {
+                const transcription = await provider.transcribe({
+                    name: objectName,
+                    audio: audioBytes,
+                    mimeType: content.mimeType,
+                    durationSeconds: info?.durationSeconds ?? null,
+                });
+                console.log(`Transcribed ${transcription.text.length} chars from ${objectName}`);
+                const generated = await summarize(provider, objectName, transcription.text, context, 'no speech was found in it');
+                return {
+                    text: generated.summary,
+                    tags: generated.tags,
+                    details: { transcript: transcription.text, transcriptLanguage: transcription.language },
+                };
+            });
+        } else {
+            console.log(`${objectName} is too large to transcribe, using its tags instead`);
+            fallbackReason ??= `Too large to transcribe (${Math.round(source.size / 1024 / 1024)} MB; the limit is ${MAX_TRANSCRIPTION_BYTES / 1024 / 1024} MB), so the summary is based on its tags`;
+            const generated = await summarize(provider, objectName, '', context, 'it is too long to transcribe');
+            result = { text: generated.summary, tags: generated.tags, details: null, duplicateOf: null };
+        }
+
+        const transcript = typeof result.details?.transcript === 'string' ? result.details.transcript : null;
+        const transcriptLanguage = typeof result.details?.transcriptLanguage === 'string' ? result.details.transcriptLanguage : null;
+        if (transcript !== null && transcript.length < MIN_TRANSCRIPT_CHARS) {
+            fallbackReason ??= 'No speech found, so the summary is based on its tags';
+        }
+        const format = info?.format ?? AUDIO_FORMATS[content.mimeType];
+        const tags = [...new Set([format, ...result.tags])];
+
+        // 4. Create metadata JSON
+        const metadata = {
+            schemaVersion: SIDECAR_SCHEMA_VERSION,
+            filename: objectName,
+            type: "audio",
+            format: format,
+            summary: result.text,
+            transcript: transcript,
+            transcriptLanguage: transcriptLanguage,
+            duration: roundSeconds(info?.durationSeconds ?? null),
+            bitrate: info?.bitrate ?? null,
+            sampleRate: info?.sampleRate ?? null,
+            channels: info?.channels ?? null,
+            codec: info?.codec ?? null,
+            title: info?.title ?? null,
+            artist: info?.artist ?? null,
+            album: info?.album ?? null,
+            hasCoverArt: info?.hasCoverArt ?? false,
+            tags: tags,
+            aiProvider: provider.name,
+            aiUsage: currentUsage(env),
+            contentHash: contentHash,
+            duplicateOf: result.duplicateOf,
+            size: source.size,
+            lastModified: source.uploaded.toISOString(),
+            sourceEtag: source.etag,
+            detectedMimeType: content.mimeType,
+            extensionMismatch: content.extensionMismatch,
+            generatedAt: new Date().toISOString(),
+        };
+
+        // 5. Upload metadata back to R2
+        await writeMetadata(env, objectName, metadata);
+
+        console.log(`<- Successfully generated metadata for audio ${objectName}`);
+        return fallbackReason
+            ? { status: 'fallback', reason: fallbackReason }
+            : { status: 'success', reason: null };
+
+    } catch (error) {
+        console.error(`Error processing audio ${objectName}:`, error);
+        return { status: 'failed', reason: errorMessage(error) };
+    }
+}
+
+/**
+ * Summarise a transcript, or describe the recording from its tags if too little was said
+ */
+function summarize(provider: AiProvider, name: string, transcript: string, context: string, missingTextReason: string): Promise<TextSummary> {
+    const hasSpeech = transcript.length >= MIN_TRANSCRIPT_CHARS;
+    return provider.summarizeText({
+        name,
+        kind: AUDIO_KIND,
+        text: hasSpeech ? transcript : '',
+        context: context || undefined,
+        missingTextReason: hasSpeech ? undefined : missingTextReason,
+    });
+}
+
+/**
+ * Describe the tags and length of a recording for inclusion in a prompt
+ */
+function describeAudioTags(info: AudioInfo | null): string {
+    const lines = [
+        info?.title ? `Title: ${info.title}` : null,
+        info?.artist ? `Artist: ${info.artist}` : null,
+        info?.album ? `Album: ${info.album}` : null,
+        info?.durationSeconds ? `Duration: ${formatDuration(info.durationSeconds)}` : null,
+    ].filter(line => line !== null);
+    return lines.join('\n');
+}
+
+function formatDuration(seconds: number): string {
+    return seconds < 90 ? `${Math.round(seconds)} seconds` : `${Math.round(seconds / 60)} minutes`;
+}
+
+function roundSeconds(seconds: number | null): number | null {
+    return seconds === null ? null : Math.round(seconds * 1000) / 1000;
+}
@@ -0,0 +1,199 @@
+import { ExecutionContext, R2Object } from '@cloudflare/workers-types';
+import { Env } from '../types';
+import { isOfficeXmlPart, OfficeDocument, OfficeFormat, parseOfficeDocument, readOfficeDocument } from '../parsers/ooxml';
+import { ZipArchive } from '../parsers/zip';
+import { writeMetadata } from '../metadata';
+import { SIDECAR_SCHEMA_VERSION } from '../sidecar';
+import { currentUsage, getAiProvider } from '../ai';
+import { ContentResolution, resolveContent, sha256Hex } from '../contentCache';
+import { DetectedContent, errorMessage, ProcessorOutcome } from './types';
+
+// Upper bound on text pulled out of a document (the prompt only uses the start of it)
+const MAX_EXTRACTED_CHARS = 200000;
+
+// Documents up to this size are downloaded whole, so they can be hashed and shared
+// with their copies. Of larger ones, which are mostly embedded media, only the ZIP
+// directory and the XML parts are read, with ranged reads.
+const MAX_DOWNLOAD_BYTES = 25 * 1024 * 1024;
+
+// Upper bound on the XML parts read from a larger document
+const MAX_XML_PART_BYTES = 25 * 1024 * 1024;
+
+// Below this many characters the summary is based on the document properties
+const MIN_TEXT_CHARS = 50;
+
+// Formats by the MIME type sniffed from the archive, for files that cannot be parsed
+const FORMATS_BY_MIME_TYPE: Record<string, OfficeFormat> = {
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+};
+
+// How each format is described in prompts
+const FORMAT_KINDS: Record<OfficeFormat, string> = {
+    docx: 'Word document',
+    xlsx: 'Excel workbook',
+    pptx: 'PowerPoint presentation',
+};
+
+/**
+ * Processes a Word, Excel or PowerPoint file from R2:
+ * 1. Fetches the document object, or only its XML parts if it is large.
+ * 2. Reads the ZIP container and extracts the core properties and the text: the body
+ *    of a Word document, the slides and speaker notes of a presentation, or the sheet
+ *    names and a sample of the cells of a workbook.
+ * 3. Generates summary and tags from the extracted text with the configured AI provider,
+ *    unless an identical document has been summarised before.
+ * 4. Uploads the metadata back to R2.
+ */
+export async function processDocument(objectMetadata: R2Object, env: Env, ctx: ExecutionContext, content: DetectedContent): Promise<ProcessorOutcome> {
+    const objectName = objectMetadata.key;
+    console.log(`-> Starting document processing for ${objectName}`);
+    try {
+        // 1. Get full document object from R2 if it is small enough to download
+        let object: R2Object = objectMetadata;
+        let documentBytes: Uint8Array | null = null;
+        if (objectMetadata.size <= MAX_DOWNLOAD_BYTES) {
+            const body = await env.MEDIA_BUCKET.get(objectName);
+            if (!body) {
+                console.error(`Failed to retrieve object ${objectName} from R2.`);
+                return { status: 'skipped', reason: 'Object no longer exists' };
+            }
+            object = body;
+            documentBytes = new Uint8Array(await body.arrayBuffer());
+        }
+
+        // 2. Parse the container and extract its text
+        let document: OfficeDocument | null = null;
+        // Set when the summary has to be based on the document properties alone
+        let fallbackReason: string | null = null;
+        try {
+            if (documentBytes) {
+                document = parseOfficeDocument(documentBytes, { maxChars: MAX_EXTRACTED_CHARS });
+            } else {
+                const readRange = async (offset: number, length: number): Promise<Uint8Array> => {
+                    const range = await env.MEDIA_BUCKET.get(objectName, { range: { offset, length } });
+                    if (!range) {
+                        throw new Error(`Failed to read bytes ${offset}-${offset + length} of ${objectName}`);
+                    }
+                    return new Uint8Array(await range.arrayBuffer());
+                };
+                const archive = await ZipArchive.fetch(readRange, objectMetadata.size, isOfficeXmlPart, MAX_XML_PART_BYTES);
+                document = readOfficeDocument(archive, { maxChars: MAX_EXTRACTED_CHARS });
+            }
+            console.log(`Extracted ${document.text.length} chars of text from ${document.format} ${objectName}`);
+        } catch (parseError) {
+            console.error(`Could not parse document ${objectName}:`, parseError);
+            fallbackReason = `Could not parse document (${errorMessage(parseError)}), so the summary is based on its file name`;
+        }
+
+        const format = document?.format ?? FORMATS_BY_MIME_TYPE[content.mimeType] ?? 'docx';
+        const text = document ? normalizeText(document.text) : '';
+        const properties = document?.properties;
+
+        // Fields taken from the document itself, recorded whichever path produces the summary
+        const documentFields = {
+            format: format,
+            title: properties?.title ?? null,
+            author: properties?.author ?? null,
+            lastModifiedBy: properties?.lastModifiedBy ?? null,
+            created: properties?.created ?? null,
+            modified: properties?.modified ?? null,
+            application: properties?.application ?? null,
+            pageCount: document?.pageCount ?? null,
+            wordCount: document?.wordCount ?? null,
+            slideCount: document?.slideCount ?? null,
+            sheetNames: document?.sheetNames ?? null,
+            extractedTextLength: text.length,
+        };
+
+        const provider = getAiProvider(env, 'document');
+
+        // 3. Summarise the extracted text, or describe the document from its properties if there is none
+        const hasText = text.length >= MIN_TEXT_CHARS;
+        if (!hasText) {
+            console.log(`No usable text in ${objectName}, using document properties instead`);
+            fallbackReason ??= 'Too little text to summarise, so the summary is based on its properties';
+        }
+        const summarize = async () => {
+            const generated = await provider.summarizeText({
+                name: objectName,
+                kind: FORMAT_KINDS[format],
+                text: hasText ? text : '',
+                context: describeDocumentProperties(document) || undefined,
+            });
+            return { text: generated.summary, tags: generated.tags };
+        };
+        // Only a downloaded file can be hashed, and so shared with its copies
+        const contentHash = documentBytes ? await sha256Hex(documentBytes) : null;
+        let result: ContentResolution;
+        if (contentHash) {
+            const source = { key: objectName, hash: contentHash, type: 'document', size: object.size };
+            result = await resolveContent(env, source, provider.name, summarize);
+        } else {
+            result = { ...await summarize(), details: null, duplicateOf: null };
+        }
+        const tags = [...new Set([format, ...result.tags])];
+
+        // 4. Create metadata JSON
+        const metadata = {
+            schemaVersion: SIDECAR_SCHEMA_VERSION,
+            filename: objectName,
+            type: "document",
+            summary: result.text,
+            tags: tags,
+            ...documentFields,
+            aiProvider: provider.name,
+            aiUsage: currentUsage(env),
+            contentHash: contentHash,
+            duplicateOf: result.duplicateOf,
+            size: object.size,
+            lastModified: object.uploaded.toISOString(),
+            sourceEtag: object.etag,
+            detectedMimeType: content.mimeType,
+            extensionMismatch: content.extensionMismatch,
+            generatedAt: new Date().toISOString(),
+        };
+
+        // 5. Upload metadata back to R2
+        await writeMetadata(env, objectName, metadata);
+
+        console.log(`<- Successfully generated metadata for document ${objectName}`);
+        return fallbackReason
+            ? { status: 'fallback', reason: fallbackReason }
+            : { status: 'success', reason: null };
+
+    } catch (error) {
+        console.error(`Error processing document ${objectName}:`, error);
+        return { status: 'failed', reason: errorMessage(error) };
+    }
+}
+
+/**
+ * Collapse runs of spaces, keeping the line structure of slides and sheet rows
+ */
+function normalizeText(text: string): string {
+    return text
+        .replace(/[ \t\f\v]+/g, ' ')
+        .replace(/ ?\n ?/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim();
+}
+
+/**
+ * Describe the document properties for inclusion in a prompt
+ */
+function describeDocumentProperties(document: OfficeDocument | null): string {
+    const properties = document?.properties;
+    const lines = [
+        properties?.title ? `Title: ${properties.title}` : null,
+        properties?.subject ? `Subject: ${properties.subject}` : null,
+        properties?.author ? `Author: ${properties.author}` : null,
+        properties?.keywords ? `Keywords: ${properties.keywords}` : null,
+        properties?.description ? `Description: ${properties.description}` : null,
+        document?.pageCount ? `Pages: ${document.pageCount}` : null,
+        document?.slideCount ? `Slides: ${document.slideCount}` : null,
+        document?.sheetNames?.length ? `Sheets: ${document.sheetNames.join(', ')}` : null,
+    ].filter(line => line !== null);
+    return lines.join('\n');
+}
@@ -1,26 +1,22 @@
 import { ExecutionContext, R2Object } from '@cloudflare/workers-types';
 import { Env } from '../types';
-
-// Helper function to convert Blob to Base64
-async function blobToBase64(blob: Blob): Promise<string> {
-    const arrayBuffer = await blob.arrayBuffer();
-    let binary = '';
-    const bytes = new Uint8Array(arrayBuffer);
-    const len = bytes.byteLength;
-    for (let i = 0; i < len; i++) {
-        binary += String.fromCharCode(bytes[i]);
-    }
-    return btoa(binary);
-}
+import { ImageExif, parseImageMetadata } from '../parsers/exif';
+import { writeMetadata } from '../metadata';
+import { SIDECAR_SCHEMA_VERSION } from '../sidecar';
+import { currentUsage, getAiProvider } from '../ai';
+import { resolveContent, sha256Hex } from '../contentCache';
+import { DetectedContent, errorMessage, ProcessorOutcome } from './types';
 
 /**
  * Processes an image file from R2:
- * 1. Fetches the image blob.
- * 2. Calls OpenAI Vision API (gpt-4o) to get caption and tags.
+ * 1. Fetches the image and reads its embedded EXIF/XMP/IPTC metadata.
+ * 2. Asks the configured AI provider for a caption and tags, using the embedded metadata as context,
+ *    unless an identical image has been captioned before. Formats the provider cannot read are
+ *    described from their embedded metadata alone.
  * 3. Creates a JSON metadata object.
  * 4. Uploads the metadata back to R2.
  */
-export async function processImage(objectMetadata: R2Object, env: Env, ctx: ExecutionContext): Promise<void> {
+export async function processImage(objectMetadata: R2Object, env: Env, ctx: ExecutionContext, content: DetectedContent): Promise<ProcessorOutcome> {
 	const objectName = objectMetadata.key;
 	console.log(`-> Starting image processing for ${objectName}`);
 	try {
@@ -28,92 +24,104 @@ export async function processImage(objectMetadata: R2Object, env: Env, ctx: Exec
 		const object = await env.MEDIA_BUCKET.get(objectName);
 		if (!object) {
 			console.error(`Failed to retrieve object ${objectName} from R2.`);
-			return; // Skip if object couldn't be retrieved
+			return { status: 'skipped', reason: 'Object no longer exists' };
 		}
-		const imageBlob = await object.blob();
-        const imageMimeType = object.httpMetadata?.contentType || 'image/jpeg'; // Default or get from metadata
+		const imageBytes = new Uint8Array(await object.arrayBuffer());
+        // The sniffed format, as Content-Type is often missing or wrong
+        const imageMimeType = content.mimeType;
 
-		// 2. Call OpenAI Vision API
-        const base64Image = await blobToBase64(imageBlob);
-        const openAiPayload = {
-            model: "gpt-4o",
-            messages: [
-                {
-                    role: "user",
-                    content: [
-                        {
-                            type: "text",
-                            text: "Describe this image in 1-2 concise sentences. Also, provide a short list of relevant keywords (tags) as a JSON array. Respond ONLY with a JSON object containing 'caption' and 'tags' keys. Example: { \"caption\": \"A sunny beach with palm trees.\", \"tags\": [\"beach\", \"sunny\", \"palm trees\"] }"
-                        },
-                        {
-                            type: "image_url",
-                            image_url: {
-                                url: `data:${imageMimeType};base64,${base64Image}`
-                            }
-                        }
-                    ]
-                }
-            ],
-            max_tokens: 300,
-            // Ensure response is JSON
-            response_format: { type: "json_object" }, 
-        };
-
-        const openAiResponse = await fetch("https://api.openai.com/v1/chat/completions", {
-            method: "POST",
-            headers: {
-                "Content-Type": "application/json",
-                "Authorization": `Bearer ${env.OPENAI_API_KEY}`
-            },
-            body: JSON.stringify(openAiPayload)
-        });
-
-        if (!openAiResponse.ok) {
-            const errorText = await openAiResponse.text();
-            throw new Error(`OpenAI API Error: ${openAiResponse.status} ${openAiResponse.statusText} - ${errorText}`);
-        }
-
-        const openAiResult = await openAiResponse.json() as any; // Type assertion for simplicity
-        const assistantResponse = openAiResult.choices?.[0]?.message?.content;
-
-        if (!assistantResponse) {
-             throw new Error('Invalid response structure from OpenAI API');
+        // Embedded metadata is best-effort; a corrupt segment should not stop captioning
+        let exif: ImageExif | null = null;
+        try {
+            exif = parseImageMetadata(imageBytes);
+        } catch (exifError) {
+            console.error(`Could not read embedded metadata from ${objectName}:`, exifError);
         }
 
-        let caption = "Error parsing caption";
-        let tags: string[] = ["error"];
-
-        try {
-            const parsedContent = JSON.parse(assistantResponse);
-            caption = parsedContent.caption || "Caption not found in response";
-            tags = parsedContent.tags || ["Tags not found in response"];
-            if (!Array.isArray(tags)) tags = ["Invalid tags format"]; // Ensure tags is an array
-        } catch (parseError) {
-            console.error("Error parsing OpenAI JSON response:", parseError, "Raw response:", assistantResponse);
-             throw new Error('Failed to parse JSON response from OpenAI API');
+		// 2. Describe the image with the configured provider, or copy the description of an identical image
+        const provider = getAiProvider(env, 'image');
+        const contentHash = await sha256Hex(imageBytes);
+        const readable = provider.imageTypes.includes(imageMimeType);
+        let described: { text: string, tags: string[], duplicateOf: string | null };
+        if (readable) {
+            const source = { key: objectName, hash: contentHash, type: 'image', size: object.size };
+            described = await resolveContent(env, source, provider.name, async () => {
+                const description = await provider.describeImage({
+                    name: objectName,
+                    image: imageBytes,
+                    mimeType: imageMimeType,
+                    context: exif ? describeExifForPrompt(exif) : undefined,
+                });
+                return { text: description.caption, tags: description.tags };
+            });
+        } else {
+            console.log(`${provider.name} cannot read ${imageMimeType}; describing ${objectName} from its embedded metadata`);
+            described = { text: describeFromMetadata(objectName, imageMimeType, exif), tags: exif?.keywords ?? [], duplicateOf: null };
         }
+        const { text: caption, tags, duplicateOf } = described;
 
 		// 3. Create metadata JSON
 		const metadata = {
+			schemaVersion: SIDECAR_SCHEMA_VERSION,
 			filename: objectName,
 			type: "image",
 			caption: caption,
 			tags: tags,
+			exif: exif,
+			aiProvider: readable ? provider.name : null,
+			aiUsage: currentUsage(env),
+			contentHash: contentHash,
+			duplicateOf: duplicateOf,
 			size: object.size, // Use size from the retrieved object body
-			lastModified: object.uploaded, // Use uploaded date from the retrieved object body
+			lastModified: object.uploaded.toISOString(), // Use uploaded date from the retrieved object body
+			sourceEtag: object.etag,
+			detectedMimeType: content.mimeType,
+			extensionMismatch: content.extensionMismatch,
 			generatedAt: new Date().toISOString(), // Add timestamp of metadata generation
 		};
 
 		// 4. Upload metadata back to R2
-		const metadataFilename = `${objectName}.metadata.json`;
-		await env.MEDIA_BUCKET.put(metadataFilename, JSON.stringify(metadata, null, 2), {
-			httpMetadata: { contentType: 'application/json' },
-		});
+		await writeMetadata(env, objectName, metadata);
 
 		console.log(`<- Successfully generated and uploaded metadata for ${objectName}`);
+		if (!readable) {
+			return { status: 'fallback', reason: `${provider.name} cannot read ${imageMimeType} images; described from embedded metadata` };
+		}
+		return { status: 'success', reason: null };
 
 	} catch (error) {
 		console.error(`Error processing image ${objectName}:`, error);
-		// Handle errors gracefully, maybe add retry logic or log failures
+		return { status: 'failed', reason: errorMessage(error) };
 	}
-} 
\ No newline at end of file
+}
+
+/**
+ * Summarise the embedded metadata as short lines for the captioning prompt
+ */
+function describeExifForPrompt(exif: ImageExif): string {
+    const camera = [exif.make, exif.model].filter(Boolean).join(' ');
+    const lines = [
+        exif.title ? `Title: ${exif.title}` : null,
+        exif.caption ? `Existing caption: ${exif.caption}` : null,
+        exif.keywords.length > 0 ? `Keywords: ${exif.keywords.join(', ')}` : null,
+        camera ? `Camera: ${camera}${exif.lens ? ` with ${exif.lens}` : ''}` : null,
+        exif.dateTaken ? `Taken: ${exif.dateTaken}` : null,
+        exif.gps ? `GPS location: ${exif.gps.latitude}, ${exif.gps.longitude}` : null,
+        exif.creator ? `Creator: ${exif.creator}` : null,
+    ].filter(line => line !== null);
+    return lines.join('\n');
+}
+
+/**
+ * A caption for an image no model looked at: its own caption or title if it has one
+ */
+function describeFromMetadata(name: string, mimeType: string, exif: ImageExif | null): string {
+    if (exif?.caption || exif?.title) {
+        return exif.caption || exif.title;
+    }
+    const fileName = name.split('/').pop() || name;
+    const format = mimeType.replace(/^image\//, '').toUpperCase();
+    const size = exif?.width && exif?.height ? `, ${exif.width}x${exif.height} pixels` : '';
+    const camera = [exif?.make, exif?.model].filter(Boolean).join(' ');
+    return `A ${format} image named ${fileName}${size}${camera ? `, taken with a ${camera}` : ''}.`;
+}
@@ -0,0 +1,200 @@
+import { ExecutionContext, R2Object } from '@cloudflare/workers-types';
+import { Env } from '../types';
+import { UsageMeter } from '../ai/usage';
+import { withContext } from '../envContext';
+import { detectMimeType, SNIFF_LENGTH } from '../parsers/magic';
+import { processImage } from './image';
+import { processPdf } from './pdf';
+import { processDocument } from './document';
+import { processVideo } from './video';
+import { processAudio } from './audio';
+import { processText } from './text';
+import { errorMessage, Processor, ProcessorOutcome, ProcessorResult } from './types';
+
+export * from './types';
+
+interface ProcessorEntry {
+	// Media type written to the sidecar and used to group run stats
+	type: string;
+	process: Processor;
+}
+
+const IMAGE: ProcessorEntry = { type: 'image', process: processImage };
+const PDF: ProcessorEntry = { type: 'pdf', process: processPdf };
+const VIDEO: ProcessorEntry = { type: 'video', process: processVideo };
+const DOCUMENT: ProcessorEntry = { type: 'document', process: processDocument };
+const AUDIO: ProcessorEntry = { type: 'audio', process: processAudio };
+const TEXT: ProcessorEntry = { type: 'text', process: processText };
+
+const DOCX = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+const XLSX = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+const PPTX = 'application/vnd.openxmlformats-officedocument.presentationml.presentation';
+
+// Maps the formats found by sniffing an object's first bytes to the processor that handles them
+const PROCESSORS_BY_MIME_TYPE: Record<string, ProcessorEntry> = {
+	'image/jpeg': IMAGE,
+	'image/png': IMAGE,
+	'image/webp': IMAGE,
+	'image/gif': IMAGE,
+	'image/avif': IMAGE,
+	'image/heic': IMAGE,
+	'image/tiff': IMAGE,
+	'application/pdf': PDF,
+	[DOCX]: DOCUMENT,
+	[XLSX]: DOCUMENT,
+	[PPTX]: DOCUMENT,
+	'video/mp4': VIDEO,
+	'video/quicktime': VIDEO,
+	'audio/mpeg': AUDIO,
+	'audio/wav': AUDIO,
+	'audio/mp4': AUDIO,
+	'text/plain': TEXT,
+	'text/markdown': TEXT,
+	'text/csv': TEXT,
+	'application/json': TEXT,
+};
+
+// Maps lower-case file extensions to the format they should contain. Only keys
+// with one of these extensions are processed, but the content picks the processor.
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+	'.jpg': 'image/jpeg',
+	'.jpeg': 'image/jpeg',
+	'.png': 'image/png',
+	'.webp': 'image/webp',
+	'.gif': 'image/gif',
+	'.avif': 'image/avif',
+	'.heic': 'image/heic',
+	'.heif': 'image/heic',
+	'.tif': 'image/tiff',
+	'.tiff': 'image/tiff',
+	'.mp4': 'video/mp4',
+	'.pdf': 'application/pdf',
+	'.docx': DOCX,
+	'.xlsx': XLSX,
+	'.pptx': PPTX,
+	'.mp3': 'audio/mpeg',
+	'.wav': 'audio/wav',
+	'.m4a': 'audio/mp4',
+	'.txt': 'text/plain',
+	'.md': 'text/markdown',
+	'.markdown': 'text/markdown',
+	'.csv': 'text/csv',
+	'.json': 'application/json',
+};
+
+// Formats that sniffing cannot always tell apart from a more general one, by the
+// general one. When the extension implies one of them, the extension is trusted.
+const NARROWER_MIME_TYPES: Record<string, string[]> = {
+	// An Office document whose first entries are too large to tell which one it is
+	'application/zip': [DOCX, XLSX, PPTX],
+	// Not every encoder gives audio-only MP4 files an M4A brand
+	'video/mp4': ['audio/mp4'],
+	// Markdown, CSV and JSON are only told apart from other text by how they are parsed
+	'text/plain': ['text/markdown', 'text/csv', 'application/json'],
+};
+
+export const SUPPORTED_EXTENSIONS = Object.keys(MIME_TYPES_BY_EXTENSION);
+
+// Media types a run can be limited to
+export const MEDIA_TYPES = [...new Set(Object.values(PROCESSORS_BY_MIME_TYPE).map(entry => entry.type))];
+
+/**
+ * Returns the lower-case extension of an object key (including the dot), or '' if it has none.
+ */
+export function getFileExtension(key: string): string {
+	const dotIndex = key.lastIndexOf('.');
+	if (dotIndex === -1 || dotIndex < key.lastIndexOf('/')) {
+		return '';
+	}
+	return key.substring(dotIndex).toLowerCase();
+}
+
+/**
+ * Returns the processor an object key's extension implies, or null if the file
+ * type is not supported. runProcessor checks the content before running it.
+ */
+export function getProcessor(key: string): ProcessorEntry | null {
+	return PROCESSORS_BY_MIME_TYPE[MIME_TYPES_BY_EXTENSION[getFileExtension(key)]] || null;
+}
+
+/**
+ * Runs the processor for an object, timing it and metering its AI calls. The
+ * processor is chosen by the format its first bytes are in, which may not be
+ * the one its extension implies. Returns null if the file type is not supported.
+ */
+export async function runProcessor(object: R2Object, env: Env, ctx: ExecutionContext): Promise<ProcessorResult | null> {
+	let entry = getProcessor(object.key);
+	if (!entry) {
+		return null;
+	}
+	const expectedMimeType = MIME_TYPES_BY_EXTENSION[getFileExtension(object.key)];
+
+	const started = Date.now();
+	const meter = new UsageMeter();
+	let detectedMimeType: string | null = null;
+	let outcome: ProcessorOutcome;
+	try {
+		const head = await readHead(object, env);
+		detectedMimeType = head ? detectMimeType(head, expectedMimeType) : null;
+		// An empty file is valid in any text format, and in no other
+		const emptyText = object.size === 0 && PROCESSORS_BY_MIME_TYPE[expectedMimeType] === TEXT;
+		if (emptyText || NARROWER_MIME_TYPES[detectedMimeType]?.includes(expectedMimeType)) {
+			detectedMimeType = expectedMimeType;
+		}
+		const detected = detectedMimeType ? PROCESSORS_BY_MIME_TYPE[detectedMimeType] : undefined;
+
+		if (!head) {
+			outcome = { status: 'skipped', reason: 'Object no longer exists' };
+		} else if (!detected) {
+			// Failed rather than skipped, so the file is dead-lettered instead of being read every pass
+			const found = detectedMimeType ? `${detectedMimeType}, which is not supported` : 'not in a format we recognise';
+			outcome = { status: 'failed', reason: `Content is ${found} (the extension implies ${expectedMimeType})` };
+		} else {
+			const extensionMismatch = detectedMimeType !== expectedMimeType;
+			if (extensionMismatch) {
+				console.warn(`${object.key} contains ${detectedMimeType}, not the ${expectedMimeType} its extension implies`);
+			}
+			entry = detected;
+			outcome = await entry.process(object, withContext(env, { meter }), ctx, { mimeType: detectedMimeType, extensionMismatch });
+		}
+	} catch (error) {
+		// Processors report their own failures, but a bug should still be counted
+		console.error(`Unexpected error from ${entry.type} processor for ${object.key}:`, error);
+		outcome = { status: 'failed', reason: errorMessage(error) };
+	}
+
+	return {
+		key: object.key,
+		type: entry.type,
+		sourceEtag: object.etag,
+		...outcome,
+		durationMs: Date.now() - started,
+		usage: meter.snapshot(),
+		detectedMimeType,
+		extensionMismatch: !!detectedMimeType && detectedMimeType !== expectedMimeType,
+	};
+}
+
+// The first bytes of an object, for detectMimeType; null if it no longer exists
+async function readHead(object: R2Object, env: Env): Promise<Uint8Array | null> {
+	if (object.size === 0) {
+		return new Uint8Array(0);
+	}
+	const head = await env.MEDIA_BUCKET.get(object.key, { range: { offset: 0, length: Math.min(SNIFF_LENGTH, object.size) } });
+	return head ? new Uint8Array(await head.arrayBuffer()) : null;
+}
+
+/**
+ * Looks up an object by key and runs the matching processor on it.
+ * Returns 'unsupported' if no processor handles the file type and 'missing' if the object does not exist.
+ */
+export async function processKey(key: string, env: Env, ctx: ExecutionContext): Promise<ProcessorResult | 'unsupported' | 'missing'> {
+	if (!getProcessor(key)) {
+		return 'unsupported';
+	}
+	const object = await env.MEDIA_BUCKET.head(key);
+	if (!object) {
+		return 'missing';
+	}
+	return await runProcessor(object, env, ctx);
+}
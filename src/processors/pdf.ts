@@ -1,294 +1,291 @@
 import { ExecutionContext, R2Object } from '@cloudflare/workers-types';
 import { Env } from '../types';
-import { Ai } from '@cloudflare/ai';
+import { PdfDocument, PdfInfo, PdfOutlineItem } from '../parsers/pdf';
+import { writeMetadata } from '../metadata';
+import { SIDECAR_SCHEMA_VERSION } from '../sidecar';
+import { AiProvider, currentUsage, getAiProvider, MAX_PROMPT_CHARS, PageSummary } from '../ai';
+import { ContentResolution, resolveContent, sha256Hex } from '../contentCache';
+import { Limiter } from '../scheduler';
+import { DetectedContent, errorMessage, ProcessorOutcome } from './types';
+
+// Upper bound on text pulled out of a document; pages after it is reached are not summarised
+const MAX_EXTRACTED_CHARS = 500000;
+
+// A PDF is parsed and its streams inflated in memory. Larger files are described
+// from their file name without being downloaded.
+const MAX_PDF_BYTES = 25 * 1024 * 1024;
+
+// Below this many characters the PDF is treated as scanned/image-only
+const MIN_TEXT_CHARS = 50;
+
+// Pages with less text than this (covers, figures, blank pages) get no summary of their own
+const MIN_PAGE_TEXT_CHARS = 20;
+
+// Pages summarised per call. A chunk also ends once its pages would overflow the prompt.
+const MAX_PAGES_PER_CHUNK = 8;
+
+// Summary calls in flight at once for one document
+const MAX_PARALLEL_CALLS = 4;
+
+// Outline entries, from the top two levels, included in the document summary prompt
+const MAX_PROMPT_OUTLINE_ENTRIES = 40;
 
 /**
  * Processes a PDF file from R2:
- * 1. Fetches the PDF object.
- * 2. Uses Cloudflare AI vision model to analyze the visual content.
- * 3. Generates summary and tags based on what's visually seen in the PDF.
+ * 1. Fetches the PDF object, unless it is too large to parse.
+ * 2. Parses the PDF and extracts the Info dictionary, the outline (bookmarks) and
+ *    the text of each page.
+ * 3. Summarises chunks of pages with the configured AI provider, then rolls the page
+ *    summaries up into a summary and tags for the whole document, unless an identical
+ *    PDF has been summarised before. A document short enough for one prompt is
+ *    summarised from its text instead.
  * 4. Uploads the metadata back to R2.
  */
-export async function processPdf(objectMetadata: R2Object, env: Env, ctx: ExecutionContext): Promise<void> {
+export async function processPdf(objectMetadata: R2Object, env: Env, ctx: ExecutionContext, content: DetectedContent): Promise<ProcessorOutcome> {
     const objectName = objectMetadata.key;
     console.log(`-> Starting PDF processing for ${objectName}`);
     try {
-        // 1. Get full PDF object from R2
-        const object = await env.MEDIA_BUCKET.get(objectName);
-        if (!object) {
-            console.error(`Failed to retrieve object ${objectName} from R2.`);
-            return; // Skip if object couldn't be retrieved
-        }
+        // Set when the summary has to be based on the document properties alone
+        let fallbackReason: string | null = null;
 
-        // 2. Extract content and summarize using Cloudflare AI
-        const pdfBuffer = await object.arrayBuffer();
-        
-        try {
-            const ai = env.AI;
-            
-            // VISUAL APPROACH: Use vision model to analyze PDF visual content
-            console.log(`Starting visual analysis of PDF ${objectName}`);
-            
-            // 1. Convert PDF to data URL for vision model
-            const base64Data = arrayBufferToBase64(pdfBuffer);
-            const dataUrl = `data:application/pdf;base64,${base64Data}`;
-            
-            // 2. Use vision model to analyze what's visually in the PDF
-            console.log(`Analyzing PDF visual content with vision model`);
-            const visionPrompt = `
-            You are looking at the first page of a PDF document.
-            
-            Carefully analyze everything you can see in this document and provide:
-            1. A detailed description of what you can visually see in this PDF
-            2. Information about text content, images, charts, tables and any other visible elements
-            3. The overall purpose and content of this document based on what you observe
-            
-            Be specific and detailed about what you can actually see in the document.
-            
-            DO NOT include any formatting markers, prefixes, or phrases like "Here is my analysis:", "Summary:", etc.
-            Just provide the direct content description.
-            `;
-            
-            // Use vision model to analyze the PDF
-            const visionResult = await (ai as any).run('@cf/meta/llama-3-8b-vision', {
-                messages: [
-                    { 
-                        role: 'user', 
-                        content: [
-                            { type: 'text', text: visionPrompt },
-                            { type: 'image_url', image_url: { url: dataUrl } }
-                        ]
-                    }
-                ]
-            });
-            
-            // 3. Process vision result to get visual content description
-            let visualContent = "";
-            if (typeof visionResult === 'string') {
-                visualContent = visionResult;
-            } else if (visionResult && visionResult.response) {
-                visualContent = visionResult.response;
-            } else if (visionResult && visionResult.content) {
-                visualContent = visionResult.content;
-            } else {
-                throw new Error("Invalid vision model response format");
+        // 1. Get full PDF object from R2 if it is small enough to parse
+        let object: R2Object = objectMetadata;
+        let pdfBytes: Uint8Array | null = null;
+        if (objectMetadata.size <= MAX_PDF_BYTES) {
+            const body = await env.MEDIA_BUCKET.get(objectName);
+            if (!body) {
+                console.error(`Failed to retrieve object ${objectName} from R2.`);
+                return { status: 'skipped', reason: 'Object no longer exists' };
             }
-            
-            console.log(`Visual content extracted (${visualContent.length} chars)`);
-            
-            // 4. Generate summary and tags based on visual content
-            const summaryPrompt = `
-            I've visually analyzed a PDF document and here's what I can see:
-            
-            ${visualContent.substring(0, 6000)}
-            
-            IMPORTANT: You must follow these exact formatting instructions:
-            
-            1. Give me ONLY a plain text summary (1-2 paragraphs) with no formatting.
-            2. After the summary, write "TAGS:" followed immediately by a comma-separated list of tags.
-            
-            FORMAT RULES:
-            - NO introduction phrases like "Here is the response:" or "Summary:"
-            - NO asterisks or other markdown formatting (**, *, etc.)
-            - NO quotation marks around the summary or tags
-            - NO newlines except between paragraphs and before the TAGS section
-            - NO header text of any kind
-            
-            Your response must start directly with the summary text and nothing else.
-            
-            CORRECT EXAMPLE:
-            This document is a financial report for Q2 2023. It contains quarterly revenue figures, expense breakdowns, and projections for the next quarter. The report includes several bar charts comparing performance metrics across departments.
-            
-            TAGS: financial, quarterly report, revenue, expenses, projections, charts, q2 2023`;
-            
-            const summaryResult = await ai.run('@cf/meta/llama-3-8b-instruct', {
-                messages: [
-                    { 
-                        role: 'system', 
-                        content: 'You are a document metadata specialist. Your job is to follow the EXACT formatting instructions without deviation. Never add phrases like "Here is the response" or "Summary:", or any formatting markers like asterisks. Respond with ONLY the requested content in the exact format specified.'
-                    },
-                    { role: 'user', content: summaryPrompt }
-                ]
-            }) as any;
-            
-            // 5. Process the summary result
-            let summary = "";
-            if (typeof summaryResult === 'string') {
-                summary = summaryResult;
-            } else if (summaryResult && summaryResult.response) {
-                summary = summaryResult.response;
-            } else {
-                throw new Error("Failed to generate summary from visual content");
-            }
-            
-            // 6. Extract tags and clean summary
-            const tags = extractTags(summary);
-            summary = cleanSummary(summary);
-            
-            // 7. Create metadata JSON
-            let metadata = {
-                filename: objectName,
-                type: "pdf",
-                summary: summary,
-                tags: tags,
-                size: object.size,
-                lastModified: object.uploaded,
-                generatedAt: new Date().toISOString(),
-            };
-            
-            // Validate and clean the metadata before saving
-            metadata = validateAndCleanOutput(metadata);
-
-            // 8. Upload metadata back to R2
-            const metadataFilename = `${objectName}.metadata.json`;
-            await env.MEDIA_BUCKET.put(metadataFilename, JSON.stringify(metadata, null, 2), {
-                httpMetadata: { contentType: 'application/json' },
-            });
+            object = body;
+            pdfBytes = new Uint8Array(await body.arrayBuffer());
+        } else {
+            console.log(`${objectName} is too large to parse, using its file name instead`);
+            fallbackReason = `Too large to parse (${Math.round(objectMetadata.size / 1024 / 1024)} MB; the limit is ${MAX_PDF_BYTES / 1024 / 1024} MB), so the summary is based on its file name`;
+        }
 
-            console.log(`<- Successfully generated visual metadata for PDF ${objectName}`);
-            
-        } catch (aiError: any) {
-            console.error(`AI vision processing error for PDF ${objectName}:`, aiError);
-            
-            // If vision processing fails, try a text-based approach as fallback
+        // 2. Parse the document and extract its outline and the text of each page
+        let pageCount: number | null = null;
+        let info: PdfInfo | null = null;
+        let outline: PdfOutlineItem[] = [];
+        let pageTexts: string[] = [];
+        if (pdfBytes) {
             try {
-                console.log(`Trying text-based fallback for ${objectName}`);
-                const { summary, tags } = await generateTextBasedMetadata(objectName, pdfBuffer, env.AI);
-                
-                // Create and upload metadata
-                const metadata = {
-                    filename: objectName,
-                    type: "pdf",
-                    summary: summary,
-                    tags: tags,
-                    size: object.size,
-                    lastModified: object.uploaded,
-                    generatedAt: new Date().toISOString(),
-                };
-                
-                const metadataFilename = `${objectName}.metadata.json`;
-                await env.MEDIA_BUCKET.put(metadataFilename, JSON.stringify(metadata, null, 2), {
-                    httpMetadata: { contentType: 'application/json' },
-                });
-                
-                console.log(`<- Generated text-based fallback metadata for PDF ${objectName}`);
-                
-            } catch (fallbackError) {
-                // If both approaches fail, create minimal metadata
-                console.error(`Fallback processing also failed for PDF ${objectName}:`, fallbackError);
-                
-                const filenameWords = objectName
-                    .replace(/\.pdf$/i, '')
-                    .split(/[_\-\s.]+/)
-                    .filter(word => word.length > 2);
-                    
-                const metadata = {
-                    filename: objectName,
-                    type: "pdf",
-                    summary: `PDF processing failed: ${aiError.message || "Unknown error"}`,
-                    tags: ["pdf", "processing-error", ...filenameWords.slice(0, 3)],
-                    size: object.size,
-                    lastModified: object.uploaded,
-                    generatedAt: new Date().toISOString(),
-                };
-    
-                // Upload basic metadata
-                const metadataFilename = `${objectName}.metadata.json`;
-                await env.MEDIA_BUCKET.put(metadataFilename, JSON.stringify(metadata, null, 2), {
-                    httpMetadata: { contentType: 'application/json' },
-                });
-                
-                console.log(`<- Generated minimal metadata for PDF ${objectName} due to processing errors`);
+                const document = PdfDocument.load(pdfBytes);
+                pageCount = document.pageCount;
+                info = document.getInfo();
+                outline = document.getOutline();
+                if (document.encrypted) {
+                    console.log(`PDF ${objectName} is encrypted; text extraction skipped`);
+                    fallbackReason = 'PDF is encrypted, so the summary is based on its properties';
+                } else {
+                    pageTexts = document.extractPageTexts({ maxChars: MAX_EXTRACTED_CHARS }).map(normalizeText);
+                }
+            } catch (parseError) {
+                console.error(`Could not parse PDF ${objectName}:`, parseError);
+                fallbackReason = `Could not parse PDF (${errorMessage(parseError)}), so the summary is based on its file name`;
             }
         }
+        const text = pageTexts.filter(pageText => pageText.length > 0).join('\n\n').substring(0, MAX_EXTRACTED_CHARS);
+        console.log(`Extracted ${text.length} chars of text from ${pageTexts.length} of ${pageCount} pages of ${objectName}`);
+
+        // Fields taken from the document itself, recorded whichever path produces the summary
+        const documentFields = {
+            pageCount: pageCount,
+            title: info?.title ?? null,
+            author: info?.author ?? null,
+            producer: info?.producer ?? null,
+            extractedTextLength: text.length,
+        };
+
+        const provider = getAiProvider(env, 'pdf');
+
+        // 3. Summarise the pages and then the document, or describe it from its properties if there is no text
+        const hasText = text.length >= MIN_TEXT_CHARS;
+        if (!hasText) {
+            console.log(`No usable text in ${objectName}, using document properties instead`);
+            fallbackReason ??= 'No extractable text (probably scanned), so the summary is based on its properties';
+        }
+        const summarize = async () => {
+            const limiter = new Limiter(`pdf:${objectName}`, MAX_PARALLEL_CALLS);
+            const pageSummaries = hasText ? await summarizePages(provider, limiter, objectName, pageTexts) : [];
+            const pageDigest = text.length > MAX_PROMPT_CHARS && pageSummaries.length > 0;
+            const generated = await provider.summarizeText({
+                name: objectName,
+                kind: pageDigest ? 'PDF document, summarised page by page,' : 'PDF document',
+                text: !hasText ? '' : pageDigest ? await rollUp(provider, limiter, objectName, pageSummaries) : text,
+                context: [describeDocumentInfo(info, pageCount), describeOutline(outline)].filter(Boolean).join('\n') || undefined,
+            });
+            return { text: generated.summary, tags: generated.tags, details: { pages: pageSummaries } };
+        };
+        // Only a downloaded file can be hashed, and so shared with its copies
+        const contentHash = pdfBytes ? await sha256Hex(pdfBytes) : null;
+        let result: ContentResolution;
+        if (contentHash) {
+            const source = { key: objectName, hash: contentHash, type: 'pdf', size: object.size };
+            result = await resolveContent(env, source, provider.name, summarize);
+        } else {
+            result = { ...await summarize(), duplicateOf: null };
+        }
+        const summary = result.text;
+        const tags = [...new Set(['pdf', ...result.tags])];
+
+        // Every page gets an entry, with the summary the model gave it if any
+        const pageSummaries = new Map<number, PageSummary>(
+            (Array.isArray(result.details?.pages) ? result.details.pages as PageSummary[] : []).map(page => [page.page, page]),
+        );
+        const pages = Array.from({ length: pageCount ?? 0 }, (_, index) => ({
+            page: index + 1,
+            summary: pageSummaries.get(index + 1)?.summary ?? null,
+            keyTerms: pageSummaries.get(index + 1)?.keyTerms ?? [],
+        }));
+
+        // 4. Create metadata JSON
+        let metadata = {
+            schemaVersion: SIDECAR_SCHEMA_VERSION,
+            filename: objectName,
+            type: "pdf",
+            summary: summary,
+            tags: tags,
+            ...documentFields,
+            pages: pages,
+            outline: outline,
+            aiProvider: provider.name,
+            aiUsage: currentUsage(env),
+            contentHash: contentHash,
+            duplicateOf: result.duplicateOf,
+            size: object.size,
+            lastModified: object.uploaded.toISOString(),
+            sourceEtag: object.etag,
+            detectedMimeType: content.mimeType,
+            extensionMismatch: content.extensionMismatch,
+            generatedAt: new Date().toISOString(),
+        };
+
+        // Validate and clean the metadata before saving
+        metadata = validateAndCleanOutput(metadata);
+
+        // 5. Upload metadata back to R2
+        await writeMetadata(env, objectName, metadata);
+
+        console.log(`<- Successfully generated metadata for PDF ${objectName}`);
+        return fallbackReason
+            ? { status: 'fallback', reason: fallbackReason }
+            : { status: 'success', reason: null };
 
     } catch (error) {
         console.error(`Error processing PDF ${objectName}:`, error);
+        return { status: 'failed', reason: errorMessage(error) };
     }
 }
 
 /**
- * Convert ArrayBuffer to Base64 string
+ * Map step: summarise the pages that have text, a chunk of consecutive pages per call
  */
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-    // Take the first 2MB max to avoid memory issues
-    const maxBytes = 2 * 1024 * 1024;
-    const limitedBuffer = buffer.slice(0, Math.min(buffer.byteLength, maxBytes));
-    const bytes = new Uint8Array(limitedBuffer);
-    
-    // Efficiently convert to base64
-    let binary = '';
-    const chunkSize = 1024;
-    
-    for (let i = 0; i < bytes.length; i += chunkSize) {
-        const chunk = bytes.subarray(i, Math.min(i + chunkSize, bytes.length));
-        binary += String.fromCharCode.apply(null, Array.from(chunk));
+async function summarizePages(provider: AiProvider, limiter: Limiter, name: string, pageTexts: string[]): Promise<PageSummary[]> {
+    const chunks: { page: number, text: string }[][] = [];
+    let chunk: { page: number, text: string }[] = [];
+    let chunkChars = 0;
+    pageTexts.forEach((text, index) => {
+        if (text.length < MIN_PAGE_TEXT_CHARS) {
+            return;
+        }
+        const chars = Math.min(text.length, MAX_PROMPT_CHARS);
+        if (chunk.length > 0 && (chunk.length >= MAX_PAGES_PER_CHUNK || chunkChars + chars > MAX_PROMPT_CHARS)) {
+            chunks.push(chunk);
+            chunk = [];
+            chunkChars = 0;
+        }
+        chunk.push({ page: index + 1, text });
+        chunkChars += chars;
+    });
+    if (chunk.length > 0) {
+        chunks.push(chunk);
     }
-    
-    return btoa(binary);
+
+    const results = await Promise.all(chunks.map(pages => limiter.run(() => provider.summarizePages({ name, kind: 'PDF document', pages }))));
+    const summaries = results.flat();
+    console.log(`Summarised ${summaries.length} pages of ${name} in ${chunks.length} calls`);
+    return summaries;
 }
 
 /**
- * Extract tags from a summary text
+ * Reduce step: merge page summaries into summaries of ever longer runs of pages
+ * until they fit in one prompt
  */
-function extractTags(text: string): string[] {
-    // Default tags if extraction fails
-    let tags = ["pdf"];
-    
-    // Look for tags section
-    const tagMatch = text.match(/TAGS:(.+?)($|(?:\n\n))/s);
-    
-    if (tagMatch && tagMatch[1]) {
-        // Extract and clean tags
-        const rawTags = tagMatch[1].trim().split(/[,;]/).map(tag => {
-            // Clean up each tag - remove asterisks, quotes, and other formatting markers
-            return tag.trim()
-                .toLowerCase()
-                .replace(/^\*+|\*+$/g, '') // Remove asterisks at start/end
-                .replace(/^"+|"+$/g, '')   // Remove quotes at start/end
-                .replace(/^'|'$/g, '')     // Remove single quotes at start/end
-                .replace(/^\[|\]$/g, '');  // Remove brackets at start/end
-        });
-        
-        // Filter out empty tags and add to default tags
-        const extractedTags = rawTags.filter(tag => tag.length > 0);
-        if (extractedTags.length > 0) {
-            tags = [...new Set(['pdf', ...extractedTags])];
+async function rollUp(provider: AiProvider, limiter: Limiter, name: string, pageSummaries: PageSummary[]): Promise<string> {
+    let sections = pageSummaries.map(page => ({ first: page.page, last: page.page, text: page.summary }));
+    const render = (section: typeof sections[number]) => section.first === section.last
+        ? `Page ${section.first}: ${section.text}`
+        : `Pages ${section.first}-${section.last}: ${section.text}`;
+
+    while (sections.map(render).join('\n').length > MAX_PROMPT_CHARS) {
+        // Consecutive sections that together fill one prompt
+        const groups: (typeof sections)[] = [[]];
+        let groupChars = 0;
+        for (const section of sections) {
+            const chars = render(section).length + 1;
+            if (groups[groups.length - 1].length > 0 && groupChars + chars > MAX_PROMPT_CHARS) {
+                groups.push([]);
+                groupChars = 0;
+            }
+            groups[groups.length - 1].push(section);
+            groupChars += chars;
+        }
+        if (groups.length === sections.length) {
+            break;
         }
+        sections = await Promise.all(groups.map(group => limiter.run(async () => {
+            const generated = await provider.summarizeText({
+                name,
+                kind: 'part of a PDF document, summarised page by page,',
+                text: group.map(render).join('\n'),
+            });
+            return { first: group[0].first, last: group[group.length - 1].last, text: generated.summary.replace(/\s+/g, ' ') };
+        })));
     }
-    
-    return tags;
+    return sections.map(render).join('\n');
 }
 
 /**
- * Clean summary text by removing tags section and formatting markers
+ * Collapse runs of whitespace left over from text positioning
  */
-function cleanSummary(text: string): string {
-    // First, extract everything before the TAGS: section
-    let summary = text;
-    const tagsIndex = text.toUpperCase().indexOf('TAGS:');
-    if (tagsIndex !== -1) {
-        summary = text.substring(0, tagsIndex).trim();
-    }
-    
-    // Remove common formatting patterns
-    summary = summary
-        // Remove prefix phrases
-        .replace(/^(?:here is the response:?|here's the response:?|my response:?)/i, '')
-        .replace(/^(?:summary:?|content:?|description:?|analysis:?)/i, '')
-        
-        // Remove markdown and formatting
-        .replace(/\*\*Summary:?\*\*/gi, '')
-        .replace(/\*\*Summary \([^)]+\):?\*\*/gi, '')
-        .replace(/\*\*/g, '')  // Remove all remaining double asterisks
-        .replace(/\*/g, '')    // Remove all remaining single asterisks
-        
-        // Fix newlines and spacing
-        .replace(/^\s+/gm, '')  // Remove leading whitespace from each line
-        .replace(/\n{3,}/g, '\n\n')  // Replace 3+ consecutive newlines with just 2
+function normalizeText(text: string): string {
+    return text
+        .replace(/[ \t\f\v]+/g, ' ')
+        .replace(/ ?\n ?/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
         .trim();
-    
-    return summary;
+}
+
+/**
+ * Describe the document properties for inclusion in a prompt
+ */
+function describeDocumentInfo(info: PdfInfo | null, pageCount: number | null): string {
+    const lines = [
+        info?.title ? `Title: ${info.title}` : null,
+        info?.author ? `Author: ${info.author}` : null,
+        info?.subject ? `Subject: ${info.subject}` : null,
+        info?.keywords ? `Keywords: ${info.keywords}` : null,
+        pageCount ? `Pages: ${pageCount}` : null,
+    ].filter(line => line !== null);
+    return lines.join('\n');
+}
+
+/**
+ * Describe the top two levels of the outline for inclusion in a prompt
+ */
+function describeOutline(outline: PdfOutlineItem[]): string {
+    const lines: string[] = [];
+    for (const item of outline) {
+        for (const entry of [item, ...item.children]) {
+            if (lines.length < MAX_PROMPT_OUTLINE_ENTRIES && entry.title) {
+                const indent = entry === item ? '' : '  ';
+                lines.push(`${indent}- ${entry.title}${entry.page ? ` (page ${entry.page})` : ''}`);
+            }
+        }
+    }
+    return lines.length > 0 ? `Outline:\n${lines.join('\n')}` : '';
 }
 
 // Add this function to perform a final validation of our processed output
@@ -338,80 +335,3 @@ function validateAndCleanOutput(metadata: any): any {
     
     return cleanedMetadata;
 }
-
-/**
- * Generate metadata using text-based approach as fallback
- */
-async function generateTextBasedMetadata(filename: string, pdfBuffer: ArrayBuffer, ai: Ai): Promise<{summary: string, tags: string[]}> {
-    // Try to extract text content from PDF bytes
-    const bytes = new Uint8Array(pdfBuffer.slice(0, 1024));
-    const hexBytes = Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join(' ');
-    
-    const extractionPrompt = `
-    You're examining a PDF document named "${filename}".
-    Here are the first few bytes in hex: ${hexBytes}
-    
-    Based on these bytes and your knowledge of PDF structure:
-    1. What kind of document is this likely to be?
-    2. Can you identify any text content, structure, or metadata from these bytes?
-    3. What's the likely purpose and content of this document?
-    
-    Provide your best analysis of what this document contains.
-    `;
-    
-    const extractionResult = await ai.run('@cf/meta/llama-3-8b-instruct', {
-        messages: [
-            { role: 'system', content: 'You are an expert at analyzing and understanding document structure from binary data.' },
-            { role: 'user', content: extractionPrompt }
-        ]
-    }) as any;
-    
-    let extractedContent = "";
-    if (typeof extractionResult === 'string') {
-        extractedContent = extractionResult;
-    } else if (extractionResult && extractionResult.response) {
-        extractedContent = extractionResult.response;
-    } else {
-        throw new Error("Failed to extract content in fallback mode");
-    }
-    
-    // Generate summary from extraction attempt
-    const summaryPrompt = `
-    Based on analysis of a PDF document named "${filename}", here's what I can determine:
-    
-    ${extractedContent}
-    
-    Please provide:
-    1. A concise 1-2 paragraph summary of what this document likely contains
-    2. A list of 5-8 relevant tags for this document
-    
-    Format your response as:
-    [Summary paragraphs]
-    
-    TAGS: tag1, tag2, tag3, tag4, tag5
-    `;
-    
-    const summaryResult = await ai.run('@cf/meta/llama-3-8b-instruct', {
-        messages: [
-            { role: 'system', content: 'You are a document specialist who creates accurate metadata for files.' },
-            { role: 'user', content: summaryPrompt }
-        ]
-    }) as any;
-    
-    let summary = "";
-    if (typeof summaryResult === 'string') {
-        summary = summaryResult;
-    } else if (summaryResult && summaryResult.response) {
-        summary = summaryResult.response;
-    } else {
-        throw new Error("Failed to generate summary in fallback mode");
-    }
-    
-    // Extract tags
-    const tags = extractTags(summary);
-    
-    // Clean summary
-    summary = cleanSummary(summary);
-    
-    return { summary, tags };
-} 
\ No newline at end of file
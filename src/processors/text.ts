@@ -0,0 +1,189 @@
+import { ExecutionContext, R2Object } from '@cloudflare/workers-types';
+import { Env } from '../types';
+import { countLines, countWords, decodeText, detectEncoding, markdownOutline, MarkdownHeading } from '../parsers/text';
+import { CsvSchema, inferCsvSchema } from '../parsers/csv';
+import { JsonOutline, outlineJson } from '../parsers/json';
+import { writeMetadata } from '../metadata';
+import { SIDECAR_SCHEMA_VERSION } from '../sidecar';
+import { currentUsage, getAiProvider } from '../ai';
+import { ContentResolution, resolveContent, sha256Hex } from '../contentCache';
+import { DetectedContent, errorMessage, ProcessorOutcome } from './types';
+
+type TextFormat = 'txt' | 'markdown' | 'csv' | 'json';
+
+// Files up to this size are read whole. Larger ones are described from a sample
+// of their start (even, so a UTF-16 character is not split), and their counts
+// are estimated from it.
+const MAX_READ_BYTES = 1024 * 1024;
+
+// Formats by the MIME type of the content; text sniffed in a file with another extension is plain text
+const FORMATS_BY_MIME_TYPE: Record<string, TextFormat> = {
+    'text/plain': 'txt',
+    'text/markdown': 'markdown',
+    'text/csv': 'csv',
+    'application/json': 'json',
+};
+
+// How each format is described in prompts
+const FORMAT_KINDS: Record<TextFormat, string> = {
+    txt: 'text file',
+    markdown: 'Markdown document',
+    csv: 'CSV file',
+    json: 'JSON file',
+};
+
+// Upper bounds on the headings and columns listed in a prompt
+const MAX_PROMPT_HEADINGS = 30;
+const MAX_PROMPT_COLUMNS = 40;
+
+/**
+ * Processes a plain text, Markdown, CSV or JSON file from R2:
+ * 1. Fetches the file, or a sample of its start if it is large.
+ * 2. Detects its encoding and counts its lines and words, then reads the heading
+ *    outline of Markdown, the column schema of CSV or the top-level structure of JSON.
+ * 3. Generates summary and tags from the text and its structure with the configured
+ *    AI provider, unless an identical file has been summarised before.
+ * 4. Uploads the metadata back to R2.
+ */
+export async function processText(objectMetadata: R2Object, env: Env, ctx: ExecutionContext, content: DetectedContent): Promise<ProcessorOutcome> {
+    const objectName = objectMetadata.key;
+    console.log(`-> Starting text processing for ${objectName}`);
+    try {
+        // 1. Get the text object from R2, or the start of it
+        const sampled = objectMetadata.size > MAX_READ_BYTES;
+        const object = sampled
+            ? await env.MEDIA_BUCKET.get(objectName, { range: { offset: 0, length: MAX_READ_BYTES } })
+            : await env.MEDIA_BUCKET.get(objectName);
+        if (!object) {
+            console.error(`Failed to retrieve object ${objectName} from R2.`);
+            return { status: 'skipped', reason: 'Object no longer exists' };
+        }
+
+        const textBytes = new Uint8Array(await object.arrayBuffer());
+
+        // 2. Decode the text and read its structure
+        const { encoding, bomLength } = detectEncoding(textBytes);
+        const text = decodeText(textBytes, encoding, bomLength);
+        const format = FORMATS_BY_MIME_TYPE[content.mimeType] ?? 'txt';
+        // Scales counts over a sample up to the whole file
+        const scale = sampled ? objectMetadata.size / textBytes.length : 1;
+        console.log(`Read ${text.length} chars of ${encoding} ${format} from ${objectName}${sampled ? ` (the first ${textBytes.length} of ${objectMetadata.size} bytes)` : ''}`);
+
+        // Set when the metadata or the summary is incomplete
+        let fallbackReason: string | null = null;
+        let outline: MarkdownHeading[] | null = null;
+        let csv: CsvSchema | null = null;
+        let json: JsonOutline | null = null;
+        if (format === 'markdown') {
+            outline = markdownOutline(text);
+        } else if (format === 'csv') {
+            csv = inferCsvSchema(text, !sampled);
+            csv.rowCount = Math.round(csv.rowCount * scale);
+        } else if (format === 'json' && text.trim()) {
+            try {
+                json = outlineJson(text, !sampled);
+            } catch (parseError) {
+                console.error(`Could not parse JSON ${objectName}:`, parseError);
+                fallbackReason = `Not valid JSON (${errorMessage(parseError)}), so no structure was recorded`;
+            }
+        }
+
+        const hasText = text.trim().length > 0;
+        if (!hasText) {
+            fallbackReason = 'File is empty, so the summary is based on its file name';
+        }
+        const title = outline?.find(heading => heading.level === 1)?.text ?? null;
+        const provider = getAiProvider(env, 'text');
+
+        // 3. Summarise the text, passing its structure as context
+        const summarize = async () => {
+            const generated = await provider.summarizeText({
+                name: objectName,
+                kind: FORMAT_KINDS[format],
+                text: text,
+                context: describeStructure(title, outline, csv, json, sampled ? objectMetadata.size : null) || undefined,
+                missingTextReason: hasText ? undefined : 'it is empty',
+            });
+            return { text: generated.summary, tags: generated.tags };
+        };
+        // Only a file read whole can be hashed. Empty files all hash the same but are
+        // described by their names, so their summaries are not shared.
+        const contentHash = sampled ? null : await sha256Hex(textBytes);
+        let result: ContentResolution;
+        if (contentHash && hasText) {
+            const source = { key: objectName, hash: contentHash, type: 'text', size: object.size };
+            result = await resolveContent(env, source, provider.name, summarize);
+        } else {
+            result = { ...await summarize(), details: null, duplicateOf: null };
+        }
+        const tags = [...new Set([format, ...result.tags])];
+
+        // 4. Create metadata JSON
+        const metadata = {
+            schemaVersion: SIDECAR_SCHEMA_VERSION,
+            filename: objectName,
+            type: "text",
+            format: format,
+            summary: result.text,
+            encoding: encoding,
+            lineCount: Math.round(countLines(text) * scale),
+            wordCount: Math.round(countWords(text) * scale),
+            sampled: sampled,
+            title: title,
+            outline: outline,
+            csv: csv,
+            json: json,
+            tags: tags,
+            aiProvider: provider.name,
+            aiUsage: currentUsage(env),
+            contentHash: contentHash,
+            duplicateOf: result.duplicateOf,
+            size: object.size,
+            lastModified: object.uploaded.toISOString(),
+            sourceEtag: object.etag,
+            detectedMimeType: content.mimeType,
+            extensionMismatch: content.extensionMismatch,
+            generatedAt: new Date().toISOString(),
+        };
+
+        // 5. Upload metadata back to R2
+        await writeMetadata(env, objectName, metadata);
+
+        console.log(`<- Successfully generated metadata for text ${objectName}`);
+        return fallbackReason
+            ? { status: 'fallback', reason: fallbackReason }
+            : { status: 'success', reason: null };
+
+    } catch (error) {
+        console.error(`Error processing text ${objectName}:`, error);
+        return { status: 'failed', reason: errorMessage(error) };
+    }
+}
+
+/**
+ * Describe the structure of a file for inclusion in a prompt
+ */
+function describeStructure(title: string | null, outline: MarkdownHeading[] | null, csv: CsvSchema | null, json: JsonOutline | null, sampledSize: number | null): string {
+    const headings = outline?.slice(0, MAX_PROMPT_HEADINGS).map(heading => `${'  '.repeat(heading.level - 1)}- ${heading.text}`);
+    const columns = csv?.columns.slice(0, MAX_PROMPT_COLUMNS).map(column => `${column.name} (${column.type}${column.nullable ? ', sometimes empty' : ''})`);
+    const lines = [
+        title ? `Title: ${title}` : null,
+        headings?.length ? `Headings:\n${headings.join('\n')}` : null,
+        csv ? `Rows: ${csv.rowCount}${sampledSize ? ' (estimated)' : ''}` : null,
+        columns?.length ? `Columns: ${columns.join(', ')}` : null,
+        json ? describeJson(json) : null,
+        sampledSize ? `Only the start of this ${Math.round(sampledSize / 1024 / 1024)} MB file was read` : null,
+    ].filter(line => line !== null);
+    return lines.join('\n');
+}
+
+function describeJson(json: JsonOutline): string {
+    if (json.keys) {
+        return `Top level: an object with keys ${json.keys.map(key => `${key.name} (${key.type})`).join(', ') || '(none)'}`;
+    }
+    if (json.length !== null) {
+        const elementKeys = json.elementKeys.length ? `; the objects have keys ${json.elementKeys.join(', ')}` : '';
+        return `Top level: an array of ${json.length} ${json.elementTypes.join(' and ') || 'elements'} values${elementKeys}`;
+    }
+    return `Top level: a single ${json.type}`;
+}
@@ -0,0 +1,58 @@
+import { ExecutionContext, R2Object } from '@cloudflare/workers-types';
+import { Env } from '../types';
+import type { AiUsageSummary } from '../ai/usage';
+
+/**
+ * - success: the sidecar was generated as intended
+ * - fallback: a sidecar was written, but from less information than usual
+ *   (e.g. a scanned PDF described from its properties alone)
+ * - failed: no sidecar was written
+ * - skipped: there was nothing to do (e.g. the object was deleted mid-run)
+ */
+export type ProcessorStatus = 'success' | 'fallback' | 'failed' | 'skipped';
+
+/**
+ * What a processor reports back. Processors do not throw; anything that goes
+ * wrong is returned as 'failed' with the reason.
+ */
+export interface ProcessorOutcome {
+	status: ProcessorStatus;
+	// Why the status is not 'success'
+	reason: string | null;
+}
+
+/**
+ * An outcome as recorded by the caller, with the object and timing filled in.
+ */
+export interface ProcessorResult extends ProcessorOutcome {
+	key: string;
+	// Media type of the processor that ran, e.g. "image"
+	type: string;
+	// Etag of the object version that was processed
+	sourceEtag: string;
+	durationMs: number;
+	// AI calls made for the file, including the embedding; null if there were none
+	usage: AiUsageSummary | null;
+	// Format found in the object's first bytes; null if it was not recognised
+	detectedMimeType: string | null;
+	// Whether that format is not the one the key's extension implies
+	extensionMismatch: boolean;
+}
+
+/**
+ * What an object turned out to contain, from its first bytes (see parsers/magic).
+ */
+export interface DetectedContent {
+	mimeType: string;
+	// Whether the key's extension implies another format
+	extensionMismatch: boolean;
+}
+
+/**
+ * A processor generates and uploads the `.metadata.json` sidecar for one object.
+ */
+export type Processor = (objectMetadata: R2Object, env: Env, ctx: ExecutionContext, content: DetectedContent) => Promise<ProcessorOutcome>;
+
+export function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,125 @@
+import { ExecutionContext, R2Object } from '@cloudflare/workers-types';
+import { Env } from '../types';
+import { Mp4Info, Mp4Track, parseMp4 } from '../parsers/mp4';
+import { writeMetadata } from '../metadata';
+import { SIDECAR_SCHEMA_VERSION } from '../sidecar';
+import { DetectedContent, errorMessage, ProcessorOutcome } from './types';
+
+/**
+ * Processes a video file from R2:
+ * 1. Walks the MP4 box tree with ranged reads (the media data is never downloaded).
+ * 2. Extracts duration, resolution, codecs, frame rate, audio tracks and creation time.
+ * 3. Creates a JSON metadata object.
+ * 4. Uploads the metadata back to R2.
+ */
+export async function processVideo(objectMetadata: R2Object, env: Env, ctx: ExecutionContext, content: DetectedContent): Promise<ProcessorOutcome> {
+	const objectName = objectMetadata.key;
+	console.log(`-> Starting video processing for ${objectName}`);
+	try {
+		// 1. Parse the container using ranged reads against R2
+		const readRange = async (offset: number, length: number): Promise<Uint8Array> => {
+			const object = await env.MEDIA_BUCKET.get(objectName, { range: { offset, length } });
+			if (!object) {
+				throw new Error(`Failed to read bytes ${offset}-${offset + length} of ${objectName}`);
+			}
+			return new Uint8Array(await object.arrayBuffer());
+		};
+
+		const info = await parseMp4(readRange, objectMetadata.size);
+
+		// 2. Pick out the primary video track and all audio tracks
+		const videoTrack = info.tracks.find(track => track.kind === 'video') || null;
+		const audioTracks = info.tracks.filter(track => track.kind === 'audio');
+
+		// 3. Create metadata JSON
+		const metadata = {
+			schemaVersion: SIDECAR_SCHEMA_VERSION,
+			filename: objectName,
+			type: "video",
+			duration: roundSeconds(info.durationSeconds),
+			width: videoTrack?.width ?? null,
+			height: videoTrack?.height ?? null,
+			frameRate: videoTrack?.frameRate ?? null,
+			videoCodec: videoTrack?.codec ?? null,
+			audioCodec: audioTracks[0]?.codec ?? null,
+			codecs: [...new Set(info.tracks.map(track => track.codec).filter((codec): codec is string => !!codec))],
+			audioTracks: audioTracks.map(track => ({
+				codec: track.codec,
+				channels: track.channels ?? null,
+				sampleRate: track.sampleRate ?? null,
+				language: track.language,
+				duration: roundSeconds(track.durationSeconds),
+			})),
+			brand: info.majorBrand,
+			creationTime: info.creationTime,
+			tags: buildVideoTags(info, videoTrack, audioTracks),
+			size: objectMetadata.size,
+			lastModified: objectMetadata.uploaded.toISOString(),
+			sourceEtag: objectMetadata.etag,
+			detectedMimeType: content.mimeType,
+			extensionMismatch: content.extensionMismatch,
+			generatedAt: new Date().toISOString(),
+		};
+
+		// 4. Upload metadata back to R2
+		await writeMetadata(env, objectName, metadata);
+
+		console.log(`<- Successfully generated and uploaded metadata for ${objectName}`);
+		return { status: 'success', reason: null };
+
+	} catch (error) {
+		console.error(`Error processing video ${objectName}:`, error);
+		return { status: 'failed', reason: errorMessage(error) };
+	}
+}
+
+// Human-readable names for the sample entry codes we commonly see
+const CODEC_NAMES: Record<string, string> = {
+	avc1: 'h264',
+	avc3: 'h264',
+	hvc1: 'hevc',
+	hev1: 'hevc',
+	av01: 'av1',
+	vp09: 'vp9',
+	mp4v: 'mpeg4',
+	mp4a: 'aac',
+	'ac-3': 'ac3',
+	'ec-3': 'eac3',
+	Opus: 'opus',
+	fLaC: 'flac',
+};
+
+/**
+ * Derive simple descriptive tags (resolution class, orientation, codecs) from the container info
+ */
+function buildVideoTags(info: Mp4Info, videoTrack: Mp4Track | null, audioTracks: Mp4Track[]): string[] {
+	const tags = ['video'];
+
+	if (videoTrack?.width && videoTrack?.height) {
+		const shortSide = Math.min(videoTrack.width, videoTrack.height);
+		if (shortSide >= 2160) tags.push('4k');
+		else if (shortSide >= 1080) tags.push('1080p');
+		else if (shortSide >= 720) tags.push('720p');
+		else tags.push('sd');
+
+		if (videoTrack.height > videoTrack.width) tags.push('portrait');
+		else if (videoTrack.width > videoTrack.height) tags.push('landscape');
+		else tags.push('square');
+	}
+
+	for (const track of info.tracks) {
+		if (track.codec) {
+			tags.push(CODEC_NAMES[track.codec] || track.codec.toLowerCase());
+		}
+	}
+
+	if (audioTracks.length === 0) {
+		tags.push('no audio');
+	}
+
+	return [...new Set(tags)];
+}
+
+function roundSeconds(seconds: number | null): number | null {
+	return seconds === null ? null : Math.round(seconds * 1000) / 1000;
+}
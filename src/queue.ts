@@ -0,0 +1,147 @@
+import { ExecutionContext, Message, MessageBatch } from '@cloudflare/workers-types';
+import { Env, R2EventNotification, SweepContinuation } from './types';
+import { processKey } from './processors';
+import { deleteMetadata, isInternalKey, isMetadataKey } from './metadata';
+import { FailureLedger, isDeadLettered, recordOutcomes, removeFailures } from './failures';
+import { isSweepContinuation, runSweep } from './sweep';
+import { monthlyBudgetReached, recordUsage } from './usage';
+import { forgetContent } from './contentCache';
+
+const CREATE_ACTIONS: R2EventNotification['action'][] = ['PutObject', 'CopyObject', 'CompleteMultipartUpload'];
+const DELETE_ACTIONS: R2EventNotification['action'][] = ['DeleteObject', 'LifecycleDeletion'];
+
+/**
+ * Handles a batch of R2 event notifications:
+ * - object-create: runs the matching processor for the changed key
+ * - object-delete: removes the key's `.metadata.json` sidecar and search entry
+ * The same queue carries the sweep's requests for its next slice (see sweep.ts).
+ *
+ * Each message is acked or retried individually so one bad object does not
+ * hold up (or re-run) the rest of the batch.
+ */
+export async function handleQueueBatch(batch: MessageBatch<R2EventNotification | SweepContinuation>, env: Env, ctx: ExecutionContext): Promise<void> {
+	console.log(`Received ${batch.messages.length} event notification(s) from queue ${batch.queue}`);
+
+	await Promise.allSettled(batch.messages.map(message => handleMessage(message, env, ctx)));
+}
+
+async function handleMessage(message: Message<R2EventNotification | SweepContinuation>, env: Env, ctx: ExecutionContext): Promise<void> {
+	if (isSweepContinuation(message.body)) {
+		await handleSweepContinuation(message.body, env, ctx);
+		message.ack();
+		return;
+	}
+
+	const event = message.body;
+	const key = event?.object?.key;
+	if (!key) {
+		console.error(`Ignoring malformed event notification ${message.id}`);
+		message.ack();
+		return;
+	}
+
+	// Our own sidecar and ledger writes also produce notifications; never process those
+	if (isMetadataKey(key) || isInternalKey(key)) {
+		message.ack();
+		return;
+	}
+
+	try {
+		if (CREATE_ACTIONS.includes(event.action)) {
+			await handleObjectCreated(key, env, ctx);
+		} else if (DELETE_ACTIONS.includes(event.action)) {
+			await handleObjectDeleted(key, env);
+		} else {
+			console.log(`Ignoring ${event.action} event for ${key}`);
+		}
+		message.ack();
+	} catch (error) {
+		console.error(`Error handling ${event.action} event for ${key} (attempt ${message.attempts}):`, error);
+		message.retry();
+	}
+}
+
+async function handleObjectCreated(key: string, env: Env, ctx: ExecutionContext): Promise<void> {
+	// The file is left for the first sweep once there is budget again
+	const overBudget = await monthlyBudgetReached(env);
+	if (overBudget) {
+		console.warn(`Not processing ${key}: ${overBudget}`);
+		return;
+	}
+	console.log(`Processing file from event: ${key}`);
+	// The object may have been overwritten or deleted since the event was sent
+	const result = await processKey(key, env, ctx);
+	if (result === 'unsupported') {
+		console.log(`Skipping unsupported file type: ${key}`);
+	} else if (result === 'missing') {
+		console.log(`Object ${key} no longer exists, nothing to process`);
+	} else {
+		if (result.status !== 'success') {
+			console.log(`Processed ${key} with status ${result.status}: ${result.reason}`);
+		}
+		let ledger: FailureLedger | null = null;
+		try {
+			ledger = await recordOutcomes(env, [result]);
+		} catch (error) {
+			console.error(`Error updating failure ledger for ${key}:`, error);
+		}
+		await recordUsage(env, [result]);
+		// Throwing retries the message, up to the consumer's max_retries; a dead-lettered file waits for a manual retry
+		if (result.status === 'failed' && !(ledger && isDeadLettered(ledger, key, result.sourceEtag))) {
+			throw new Error(`Processing ${key} failed: ${result.reason}`);
+		}
+	}
+}
+
+async function handleSweepContinuation(continuation: SweepContinuation, env: Env, ctx: ExecutionContext): Promise<void> {
+	// A failed slice leaves the pass where it was; the next cron tick picks it up, so never retry the message.
+	// The trigger only matters when starting a pass, which a continuation never does.
+	try {
+		await runSweep(env, ctx, 'cron', { runId: continuation.runId });
+	} catch (error) {
+		console.error(`Error continuing sweep ${continuation.runId}:`, error);
+	}
+}
+
+async function handleObjectDeleted(key: string, env: Env): Promise<void> {
+	// A re-upload may have happened after the delete event was sent
+	const object = await env.MEDIA_BUCKET.head(key);
+	if (object) {
+		console.log(`Object ${key} exists again, keeping its metadata`);
+		return;
+	}
+
+	console.log(`Removing metadata for deleted object: ${key}`);
+	await forgetContent(env, key);
+	await deleteMetadata(env, key);
+	await removeFailures(env, [key]);
+}
+
+/**
+ * Builds an in-memory MessageBatch from notification bodies, for running the
+ * consumer locally or from tests. The returned `acked` and `retried` sets
+ * record the outcome of each message by id.
+ */
+export function createLocalBatch(bodies: R2EventNotification[], queue = 'local'): MessageBatch<R2EventNotification> & { acked: Set<string>, retried: Set<string> } {
+	const acked = new Set<string>();
+	const retried = new Set<string>();
+	const messages: Message<R2EventNotification>[] = bodies.map((body, index) => {
+		const id = `local-${index}`;
+		return {
+			id,
+			timestamp: new Date(),
+			body,
+			attempts: 1,
+			ack: () => { acked.add(id); },
+			retry: () => { retried.add(id); },
+		};
+	});
+	return {
+		queue,
+		messages,
+		acked,
+		retried,
+		ackAll: () => messages.forEach(message => acked.add(message.id)),
+		retryAll: () => messages.forEach(message => retried.add(message.id)),
+	};
+}
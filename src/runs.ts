@@ -0,0 +1,228 @@
+import { Env } from './types';
+import { INTERNAL_PREFIX } from './metadata';
+import { QueueWait } from './scheduler';
+import { AiUsageSummary, emptyUsage } from './ai/usage';
+
+export const RUNS_PREFIX = `${INTERNAL_PREFIX}runs/`;
+
+// Run records kept; older ones are deleted when a run finishes
+const MAX_RUNS = 500;
+
+// Run ids start with the time left until this moment, so listing the prefix returns the newest run first
+const ID_EPOCH = 9_999_999_999_999;
+
+// Outcomes of the processors that ran for one media type, and the time they took in total
+export type TypeStats = { success: number, fallback: number, failed: number, skipped: number, totalMs: number };
+
+// Keys whose processor failed, with the reason
+export type FailedKey = { key: string, type: string, reason: string };
+
+// Keys a dry run would have processed, with the reason
+export type PlannedKey = { key: string, type: string, reason: string };
+
+// Counts reported by a processing run. `processed` counts sidecars written,
+// including the `fallback` ones generated from less information than usual.
+// `stale` counts sidecars regenerated because their source object changed;
+// those are included in `processed` too. `errors` includes every failed key.
+// `deadLettered` counts files skipped because they failed too often before,
+// `filtered` those outside the run's prefix, globs, types or date.
+// `mismatched` counts processed files whose content is not in the format
+// their extension implies.
+// A dry run processes nothing: it counts the files it would have processed
+// in `planned` and lists the first of them in `plannedKeys`.
+// `paused` says why the run stopped early, if it did, and `maxFilesReached`
+// whether it ended early because it processed as many files as it was allowed.
+// `aiUsage` adds up the tokens and estimated cost of the run's AI calls, and
+// `budgetReached` says which budget ended the run early, if one did.
+// `queueWaits` is the time files, R2 calls and AI calls waited for a
+// concurrency slot, keyed "files", "r2" and "ai:<provider>".
+export type ProcessingStats = {
+	processed: number,
+	fallback: number,
+	skipped: number,
+	deadLettered: number,
+	filtered: number,
+	migrated: number,
+	stale: number,
+	mismatched: number,
+	errors: number,
+	byType: Record<string, TypeStats>,
+	failed: FailedKey[],
+	planned: number,
+	plannedKeys: PlannedKey[],
+	paused: string | null,
+	maxFilesReached: boolean,
+	queueWaits: Record<string, QueueWait>,
+	aiUsage: AiUsageSummary,
+	budgetReached: string | null,
+};
+
+/**
+ * Options of a run. Besides forcing reprocessing and capping the files it runs
+ * a processor on (`maxFiles`), a run can be limited to keys under a prefix,
+ * matching `include` globs and not `exclude` globs, of some media types, or
+ * uploaded since a date (ISO 8601). A dry run only reports what it would process.
+ * `budgetUsd` stops the run once its AI calls have cost that much.
+ * Unset options do not limit the run.
+ */
+export type RunOptions = {
+	forceReprocess?: boolean,
+	dryRun?: boolean,
+	maxFiles?: number,
+	prefix?: string,
+	include?: string[],
+	exclude?: string[],
+	types?: string[],
+	modifiedSince?: string,
+	budgetUsd?: number,
+};
+
+/**
+ * What started a run: the cron schedule, the button in the UI, or a POST from
+ * another service or script.
+ */
+export type RunTrigger = 'cron' | 'manual' | 'http';
+
+/**
+ * A processing run as stored under RUNS_PREFIX. A run is one pass of the sweep
+ * over the bucket, which may take several slices (invocations). The record is
+ * rewritten after every slice, with the stats so far. One still 'running' long
+ * after its last slice was cut short (e.g. by the CPU limit) and is picked up
+ * again by the next slice.
+ */
+export interface RunRecord {
+	id: string;
+	trigger: RunTrigger;
+	options: RunOptions;
+	status: 'running' | 'completed' | 'failed';
+	startedAt: string;
+	finishedAt: string | null;
+	durationMs: number | null;
+	// Slices processed so far
+	slices: number;
+	stats: ProcessingStats;
+	// Why the run failed as a whole; per-file failures are in `stats.failed`
+	error: string | null;
+}
+
+export function emptyStats(): ProcessingStats {
+	return {
+		processed: 0,
+		fallback: 0,
+		skipped: 0,
+		deadLettered: 0,
+		filtered: 0,
+		migrated: 0,
+		stale: 0,
+		mismatched: 0,
+		errors: 0,
+		byType: {},
+		failed: [],
+		planned: 0,
+		plannedKeys: [],
+		paused: null,
+		maxFilesReached: false,
+		queueWaits: {},
+		aiUsage: emptyUsage(),
+		budgetReached: null,
+	};
+}
+
+/**
+ * Files a processor ran on, whatever the outcome, or would have in a dry run.
+ */
+export function filesRun(stats: ProcessingStats): number {
+	const ran = Object.values(stats.byType).reduce((total, counts) => total + counts.success + counts.fallback + counts.failed + counts.skipped, 0);
+	return ran + (stats.planned ?? 0);
+}
+
+/**
+ * Creates and stores the record for a new run.
+ */
+export async function startRun(env: Env, trigger: RunTrigger, options: RunOptions): Promise<RunRecord> {
+	const started = Date.now();
+	const record: RunRecord = {
+		id: newRunId(started),
+		trigger,
+		options,
+		status: 'running',
+		startedAt: new Date(started).toISOString(),
+		finishedAt: null,
+		durationMs: null,
+		slices: 0,
+		stats: emptyStats(),
+		error: null,
+	};
+	await saveRun(env, record);
+	return record;
+}
+
+/**
+ * Marks a run as finished, or failed if `error` is given, stores it and
+ * deletes the oldest records.
+ */
+export async function finishRun(env: Env, record: RunRecord, error?: string): Promise<void> {
+	const finished = Date.now();
+	record.status = error ? 'failed' : 'completed';
+	record.error = error ?? null;
+	record.finishedAt = new Date(finished).toISOString();
+	record.durationMs = finished - Date.parse(record.startedAt);
+	await saveRun(env, record);
+	await pruneRuns(env);
+}
+
+/**
+ * Returns a page of runs, newest first.
+ */
+export async function listRuns(env: Env, options: { cursor?: string, limit: number }): Promise<{ runs: RunRecord[], cursor: string | null }> {
+	const listing = await env.MEDIA_BUCKET.list({ prefix: RUNS_PREFIX, cursor: options.cursor, limit: options.limit });
+	const runs = await Promise.all(listing.objects.map(object => readRunObject(env, object.key)));
+	return {
+		runs: runs.filter((run): run is RunRecord => run !== null),
+		cursor: listing.truncated ? listing.cursor : null,
+	};
+}
+
+export async function readRun(env: Env, id: string): Promise<RunRecord | null> {
+	// Ids come from the URL; anything that is not a run id cannot name a run object
+	if (!/^\d{13}-[0-9a-f]{8}$/.test(id)) {
+		return null;
+	}
+	return await readRunObject(env, `${RUNS_PREFIX}${id}.json`);
+}
+
+function newRunId(started: number): string {
+	const suffix = [...crypto.getRandomValues(new Uint8Array(4))].map(byte => byte.toString(16).padStart(2, '0')).join('');
+	return `${String(ID_EPOCH - started).padStart(13, '0')}-${suffix}`;
+}
+
+async function readRunObject(env: Env, key: string): Promise<RunRecord | null> {
+	const object = await env.MEDIA_BUCKET.get(key);
+	return object ? await object.json<RunRecord>() : null;
+}
+
+/**
+ * Stores a run record. Failing to store it is logged and never fails the run.
+ */
+export async function saveRun(env: Env, record: RunRecord): Promise<void> {
+	try {
+		await env.MEDIA_BUCKET.put(`${RUNS_PREFIX}${record.id}.json`, JSON.stringify(record, null, 2), {
+			httpMetadata: { contentType: 'application/json' },
+		});
+	} catch (error) {
+		console.error(`Error saving run ${record.id}:`, error);
+	}
+}
+
+// Deletes the records beyond the newest MAX_RUNS
+async function pruneRuns(env: Env): Promise<void> {
+	try {
+		const listing = await env.MEDIA_BUCKET.list({ prefix: RUNS_PREFIX, limit: 1000 });
+		const old = listing.objects.slice(MAX_RUNS).map(object => object.key);
+		if (old.length > 0) {
+			await env.MEDIA_BUCKET.delete(old);
+		}
+	} catch (error) {
+		console.error('Error pruning old runs:', error);
+	}
+}
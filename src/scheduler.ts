@@ -0,0 +1,180 @@
+import { R2Bucket } from '@cloudflare/workers-types';
+import { Env } from './types';
+import { AiProvider } from './ai/types';
+import { getContext, withContext } from './envContext';
+
+// Files processed at once by a sweep slice, unless SWEEP_CONCURRENCY says otherwise
+const DEFAULT_FILE_CONCURRENCY = 6;
+// R2 calls in flight at once, unless R2_CONCURRENCY says otherwise. A Worker has
+// six simultaneous connections; more calls than that only queue in the runtime.
+const DEFAULT_R2_CONCURRENCY = 6;
+// Calls in flight per AI provider, unless AI_CONCURRENCY or the provider's own variable says otherwise
+const DEFAULT_AI_CONCURRENCY = 4;
+
+// Env var overriding AI_CONCURRENCY for each provider
+const PROVIDER_CONCURRENCY_VARS: Record<string, keyof Env> = {
+	'openai': 'AI_CONCURRENCY_OPENAI',
+	'workers-ai': 'AI_CONCURRENCY_WORKERS_AI',
+};
+
+// The R2 calls that go through the limiter; the rest of the binding is passed through as is
+const LIMITED_R2_METHODS = new Set<PropertyKey>(['head', 'get', 'put', 'delete', 'list']);
+
+/**
+ * Time spent waiting for a slot in one limiter. `tasks` counts every task that
+ * went through it, including those that did not have to wait.
+ */
+export type QueueWait = { tasks: number, totalWaitMs: number, maxWaitMs: number };
+
+export interface ConcurrencyLimits {
+	files: number;
+	r2: number;
+	// Per provider name; providers not listed get `aiDefault`
+	ai: Record<string, number>;
+	aiDefault: number;
+}
+
+export function getConcurrencyLimits(env: Env): ConcurrencyLimits {
+	const aiDefault = positiveInteger(env.AI_CONCURRENCY) ?? DEFAULT_AI_CONCURRENCY;
+	const ai: Record<string, number> = {};
+	for (const [provider, variable] of Object.entries(PROVIDER_CONCURRENCY_VARS)) {
+		ai[provider] = positiveInteger(env[variable]) ?? aiDefault;
+	}
+	return {
+		files: positiveInteger(env.SWEEP_CONCURRENCY) ?? DEFAULT_FILE_CONCURRENCY,
+		r2: positiveInteger(env.R2_CONCURRENCY) ?? DEFAULT_R2_CONCURRENCY,
+		ai,
+		aiDefault,
+	};
+}
+
+/**
+ * Runs at most `concurrency` tasks at once; the others wait their turn in the
+ * order they arrived.
+ */
+export class Limiter {
+	private active = 0;
+	private waiting: (() => void)[] = [];
+	readonly wait: QueueWait = { tasks: 0, totalWaitMs: 0, maxWaitMs: 0 };
+
+	constructor(readonly name: string, readonly concurrency: number) {}
+
+	async run<T>(task: () => Promise<T>): Promise<T> {
+		const queuedAt = Date.now();
+		if (this.active < this.concurrency) {
+			this.active++;
+		} else {
+			// release() hands its slot straight to us, so `active` is already counted
+			await new Promise<void>(resolve => this.waiting.push(resolve));
+		}
+
+		const waited = Date.now() - queuedAt;
+		this.wait.tasks++;
+		this.wait.totalWaitMs += waited;
+		this.wait.maxWaitMs = Math.max(this.wait.maxWaitMs, waited);
+
+		try {
+			return await task();
+		} finally {
+			this.release();
+		}
+	}
+
+	private release(): void {
+		const next = this.waiting.shift();
+		if (next) {
+			next();
+		} else {
+			this.active--;
+		}
+	}
+}
+
+/**
+ * The limiters for one sweep slice: one for files in progress, one for R2 calls
+ * and one per AI provider. Processors reach the R2 and AI limiters through the
+ * env returned by scheduledEnv, so they need no changes to be throttled.
+ */
+export class Scheduler {
+	readonly files: Limiter;
+	readonly r2: Limiter;
+	private ai = new Map<string, Limiter>();
+
+	constructor(private limits: ConcurrencyLimits) {
+		this.files = new Limiter('files', limits.files);
+		this.r2 = new Limiter('r2', limits.r2);
+	}
+
+	// Wraps a bucket so its calls wait for the R2 limiter. A get() holds its slot
+	// until the object's headers arrive, not while its body is read.
+	bucket(bucket: R2Bucket): R2Bucket {
+		const limiter = this.r2;
+		return new Proxy(bucket, {
+			get(target, property) {
+				const value = Reflect.get(target, property);
+				if (typeof value !== 'function' || !LIMITED_R2_METHODS.has(property)) {
+					return typeof value === 'function' ? value.bind(target) : value;
+				}
+				return (...args: unknown[]) => limiter.run(() => value.apply(target, args));
+			},
+		});
+	}
+
+	// Wraps a provider so its calls wait for that provider's limiter. Retries
+	// happen inside the call, so a call backing off keeps its slot.
+	provider(provider: AiProvider): AiProvider {
+		const limiter = this.aiLimiter(provider.name);
+		return {
+			name: provider.name,
+			imageTypes: provider.imageTypes,
+			describeImage: request => limiter.run(() => provider.describeImage(request)),
+			summarizeText: request => limiter.run(() => provider.summarizeText(request)),
+			summarizePages: request => limiter.run(() => provider.summarizePages(request)),
+			transcribe: request => limiter.run(() => provider.transcribe(request)),
+			embed: texts => limiter.run(() => provider.embed(texts)),
+		};
+	}
+
+	/**
+	 * Queue waits so far, keyed "files", "r2" and "ai:<provider>".
+	 */
+	waits(): Record<string, QueueWait> {
+		const waits: Record<string, QueueWait> = {
+			files: { ...this.files.wait },
+			r2: { ...this.r2.wait },
+		};
+		for (const [provider, limiter] of this.ai) {
+			waits[`ai:${provider}`] = { ...limiter.wait };
+		}
+		return waits;
+	}
+
+	private aiLimiter(provider: string): Limiter {
+		let limiter = this.ai.get(provider);
+		if (!limiter) {
+			limiter = new Limiter(`ai:${provider}`, this.limits.ai[provider] ?? this.limits.aiDefault);
+			this.ai.set(provider, limiter);
+		}
+		return limiter;
+	}
+}
+
+/**
+ * Returns a copy of `env` whose bucket goes through the scheduler's R2 limiter
+ * and whose AI providers (see getAiProvider) go through its AI limiters.
+ */
+export function scheduledEnv(env: Env, scheduler: Scheduler): Env {
+	return withContext(env, { scheduler }, { MEDIA_BUCKET: scheduler.bucket(env.MEDIA_BUCKET) });
+}
+
+/**
+ * The scheduler an env was made by, if any.
+ */
+export function getScheduler(env: Env): Scheduler | undefined {
+	return getContext(env).scheduler;
+}
+
+function positiveInteger(value: unknown): number | null {
+	const parsed = Number(value);
+	return Number.isInteger(parsed) && parsed > 0 ? parsed : null;
+}
@@ -0,0 +1,158 @@
+import { R2Object } from '@cloudflare/workers-types';
+import { RunOptions } from './runs';
+import { getProcessor, MEDIA_TYPES } from './processors';
+
+/**
+ * Run options that failed validation; the message says which and why.
+ */
+export class InvalidRunOptionsError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'InvalidRunOptionsError';
+	}
+}
+
+/**
+ * Run options as they arrive from the form or the query string, before validation.
+ * Glob and type lists may be given as several values, each separated by commas or newlines.
+ */
+export interface RunOptionsInput {
+	forceReprocess?: boolean;
+	dryRun?: boolean;
+	maxFiles?: string | null;
+	prefix?: string | null;
+	include?: string[];
+	exclude?: string[];
+	types?: string[];
+	modifiedSince?: string | null;
+	budgetUsd?: string | null;
+}
+
+/**
+ * Validates and normalises run options, leaving out the ones that were not given.
+ * Throws InvalidRunOptionsError.
+ */
+export function parseRunOptions(input: RunOptionsInput): RunOptions {
+	const options: RunOptions = { forceReprocess: !!input.forceReprocess };
+
+	if (input.dryRun) {
+		options.dryRun = true;
+	}
+	if (input.maxFiles) {
+		const maxFiles = Number(input.maxFiles);
+		if (!Number.isInteger(maxFiles) || maxFiles <= 0) {
+			throw new InvalidRunOptionsError(`maxFiles must be a positive integer, not "${input.maxFiles}"`);
+		}
+		options.maxFiles = maxFiles;
+	}
+	if (input.prefix?.trim()) {
+		options.prefix = input.prefix.trim();
+	}
+
+	const include = splitList(input.include);
+	if (include.length > 0) {
+		options.include = include;
+	}
+	const exclude = splitList(input.exclude);
+	if (exclude.length > 0) {
+		options.exclude = exclude;
+	}
+
+	const types = splitList(input.types).map(type => type.toLowerCase());
+	const unknown = types.filter(type => !MEDIA_TYPES.includes(type));
+	if (unknown.length > 0) {
+		throw new InvalidRunOptionsError(`Unknown media type ${unknown.join(', ')}; expected ${MEDIA_TYPES.join(', ')}`);
+	}
+	if (types.length > 0) {
+		options.types = [...new Set(types)];
+	}
+
+	if (input.modifiedSince?.trim()) {
+		const since = Date.parse(input.modifiedSince.trim());
+		if (Number.isNaN(since)) {
+			throw new InvalidRunOptionsError(`modifiedSince must be a date, e.g. 2025-01-31 or 2025-01-31T12:00:00Z, not "${input.modifiedSince}"`);
+		}
+		options.modifiedSince = new Date(since).toISOString();
+	}
+
+	if (input.budgetUsd?.trim()) {
+		const budgetUsd = Number(input.budgetUsd.trim().replace(/^\$/, ''));
+		if (!Number.isFinite(budgetUsd) || budgetUsd <= 0) {
+			throw new InvalidRunOptionsError(`budgetUsd must be a positive amount of US dollars, not "${input.budgetUsd}"`);
+		}
+		options.budgetUsd = budgetUsd;
+	}
+
+	return options;
+}
+
+/**
+ * Whether a pass with these options covers the whole bucket for real, as the
+ * scheduled passes do. Dry runs and scoped passes do not.
+ */
+export function isFullPass(options: RunOptions): boolean {
+	return !options.dryRun && !options.prefix && !options.include && !options.exclude && !options.types && !options.modifiedSince;
+}
+
+/**
+ * Whether an object falls within the scope of a run: under its prefix, matching
+ * one of its include globs and none of its exclude globs, of one of its media
+ * types and uploaded on or after its modifiedSince date.
+ */
+export function inScope(object: R2Object, options: RunOptions): boolean {
+	if (options.prefix && !object.key.startsWith(options.prefix)) {
+		return false;
+	}
+	if (options.include && !options.include.some(glob => globToRegExp(glob).test(object.key))) {
+		return false;
+	}
+	if (options.exclude && options.exclude.some(glob => globToRegExp(glob).test(object.key))) {
+		return false;
+	}
+	if (options.types && !options.types.includes(getProcessor(object.key)?.type)) {
+		return false;
+	}
+	if (options.modifiedSince && object.uploaded.getTime() < Date.parse(options.modifiedSince)) {
+		return false;
+	}
+	return true;
+}
+
+// Compiled globs, as the same few are tested against every key of a pass
+const globCache = new Map<string, RegExp>();
+
+/**
+ * Compiles a glob matched against the whole object key: `**` matches anything,
+ * including slashes; `*` anything within one path segment; `?` one character
+ * other than a slash. Everything else matches itself.
+ */
+export function globToRegExp(glob: string): RegExp {
+	let regExp = globCache.get(glob);
+	if (regExp) {
+		return regExp;
+	}
+
+	let source = '';
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob[i];
+		if (char === '*' && glob[i + 1] === '*') {
+			// "**/" also matches no directory at all, so "**/*.pdf" matches "a.pdf"
+			source += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+			i += glob[i + 2] === '/' ? 2 : 1;
+		} else if (char === '*') {
+			source += '[^/]*';
+		} else if (char === '?') {
+			source += '[^/]';
+		} else {
+			source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+		}
+	}
+
+	regExp = new RegExp(`^${source}$`);
+	globCache.set(glob, regExp);
+	return regExp;
+}
+
+function splitList(values: string[] | undefined): string[] {
+	return (values ?? []).flatMap(value => value.split(/[\n,]/)).map(value => value.trim()).filter(value => value !== '');
+}
@@ -0,0 +1,106 @@
+import { D1Database, D1PreparedStatement } from '@cloudflare/workers-types';
+import { FacetCount, keyToText, makeSnippet, MAX_TAG_FACETS, SearchDocument, SearchIndex, SearchQuery, SearchResults, tokenize } from './document';
+
+interface DocumentRow {
+	key: string;
+	type: string;
+	title: string | null;
+	snippet: string;
+	tags: string;
+	updated_at: string;
+	score: number;
+}
+
+/**
+ * Search index stored in D1 (see migrations/0001_create_search_index.sql).
+ * Full-text matching and ranking use FTS5 with bm25(); tags live in their own
+ * table so tag filters and facet counts are plain indexed queries.
+ */
+export class D1SearchIndex implements SearchIndex {
+	constructor(private db: D1Database) {}
+
+	async upsert(document: SearchDocument): Promise<void> {
+		await this.db.batch([
+			...this.deleteStatements(document.key),
+			this.db.prepare('INSERT INTO search_documents (key, type, title, snippet, tags, updated_at) VALUES (?, ?, ?, ?, ?, ?)')
+				.bind(document.key, document.type, document.title, makeSnippet(document), JSON.stringify(document.tags), document.updatedAt),
+			this.db.prepare('INSERT INTO search_fts (key, title, text, tags, path) VALUES (?, ?, ?, ?, ?)')
+				.bind(document.key, document.title ?? '', document.text, document.tags.join(' '), keyToText(document.key)),
+			...document.tags.map(tag =>
+				this.db.prepare('INSERT OR IGNORE INTO search_tags (key, tag) VALUES (?, ?)').bind(document.key, tag)),
+		]);
+	}
+
+	async remove(key: string): Promise<void> {
+		await this.db.batch(this.deleteStatements(key));
+	}
+
+	async search(query: SearchQuery): Promise<SearchResults> {
+		const conditions: string[] = [];
+		const params: unknown[] = [];
+
+		// FTS5 is only joined in when there is something to match, so a
+		// filter-only search can list everything with the given tags/type
+		let from = 'search_documents d';
+		let score = '0';
+		const terms = [...new Set(tokenize(query.q ?? ''))];
+		if (terms.length > 0) {
+			from = 'search_fts JOIN search_documents d ON d.key = search_fts.key';
+			// Weights per column: key, title, text, tags, path. bm25() is lower-is-better.
+			score = '-bm25(search_fts, 0.0, 3.0, 1.0, 2.0, 1.5)';
+			conditions.push('search_fts MATCH ?');
+			// Tokens are letters and digits only, so quoting them is enough to escape
+			params.push(terms.map(term => `"${term}"*`).join(' '));
+		}
+		if (query.type) {
+			conditions.push('d.type = ?');
+			params.push(query.type);
+		}
+		if (query.prefix) {
+			conditions.push('substr(d.key, 1, ?) = ?');
+			params.push(query.prefix.length, query.prefix);
+		}
+		const tags = [...new Set((query.tags ?? []).map(tag => tag.toLowerCase()))];
+		if (tags.length > 0) {
+			conditions.push(`d.key IN (SELECT key FROM search_tags WHERE tag IN (${tags.map(() => '?').join(', ')}) GROUP BY key HAVING COUNT(*) = ?)`);
+			params.push(...tags, tags.length);
+		}
+		const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+		const [hits, total, types, tagFacets] = await this.db.batch<any>([
+			this.db.prepare(`SELECT d.key, d.type, d.title, d.snippet, d.tags, d.updated_at, ${score} AS score FROM ${from} ${where} ORDER BY score DESC, d.updated_at DESC LIMIT ? OFFSET ?`)
+				.bind(...params, query.limit, query.offset),
+			this.db.prepare(`SELECT COUNT(*) AS count FROM ${from} ${where}`)
+				.bind(...params),
+			this.db.prepare(`SELECT d.type AS value, COUNT(*) AS count FROM ${from} ${where} GROUP BY d.type ORDER BY count DESC, value`)
+				.bind(...params),
+			this.db.prepare(`SELECT tag AS value, COUNT(*) AS count FROM search_tags WHERE key IN (SELECT d.key FROM ${from} ${where}) GROUP BY tag ORDER BY count DESC, value LIMIT ?`)
+				.bind(...params, MAX_TAG_FACETS),
+		]);
+
+		return {
+			total: (total.results[0] as { count: number } | undefined)?.count ?? 0,
+			hits: (hits.results as DocumentRow[]).map(row => ({
+				key: row.key,
+				type: row.type,
+				title: row.title,
+				snippet: row.snippet,
+				tags: JSON.parse(row.tags) as string[],
+				score: row.score,
+				updatedAt: row.updated_at,
+			})),
+			facets: {
+				tags: tagFacets.results as FacetCount[],
+				types: types.results as FacetCount[],
+			},
+		};
+	}
+
+	private deleteStatements(key: string): D1PreparedStatement[] {
+		return [
+			this.db.prepare('DELETE FROM search_documents WHERE key = ?').bind(key),
+			this.db.prepare('DELETE FROM search_fts WHERE key = ?').bind(key),
+			this.db.prepare('DELETE FROM search_tags WHERE key = ?').bind(key),
+		];
+	}
+}
@@ -0,0 +1,104 @@
+/**
+ * What the search index stores for one object, derived from its sidecar.
+ */
+export interface SearchDocument {
+	key: string;
+	type: string;
+	title: string | null;
+	// Caption, summary, transcript or other generated description
+	text: string;
+	tags: string[];
+	updatedAt: string;
+}
+
+export interface SearchQuery {
+	q?: string;
+	// Every listed tag must be present
+	tags?: string[];
+	type?: string;
+	prefix?: string;
+	offset: number;
+	limit: number;
+}
+
+export interface SearchHit {
+	key: string;
+	type: string;
+	title: string | null;
+	snippet: string;
+	tags: string[];
+	score: number;
+	updatedAt: string;
+}
+
+export interface FacetCount {
+	value: string;
+	count: number;
+}
+
+export interface SearchResults {
+	total: number;
+	hits: SearchHit[];
+	// Counts over every match, not just the returned page
+	facets: {
+		tags: FacetCount[];
+		types: FacetCount[];
+	};
+}
+
+export interface SearchIndex {
+	upsert(document: SearchDocument): Promise<void>;
+	remove(key: string): Promise<void>;
+	search(query: SearchQuery): Promise<SearchResults>;
+}
+
+export const MAX_TAG_FACETS = 25;
+const SNIPPET_LENGTH = 200;
+
+/**
+ * Builds the index entry for a sidecar. Works for every media type by picking
+ * up whichever descriptive fields the processor wrote.
+ */
+export function documentFromMetadata(key: string, metadata: Record<string, any>): SearchDocument {
+	const text = [metadata.caption, metadata.summary, metadata.exif?.caption, metadata.transcript]
+		.filter((value): value is string => typeof value === 'string' && value.trim().length > 0)
+		.join('\n');
+	const title = [metadata.title, metadata.exif?.title]
+		.find((value): value is string => typeof value === 'string' && value.trim().length > 0);
+	const tags = Array.isArray(metadata.tags)
+		? [...new Set<string>(metadata.tags.filter((tag: unknown) => typeof tag === 'string').map((tag: string) => tag.trim().toLowerCase()))]
+		: [];
+
+	return {
+		key,
+		type: typeof metadata.type === 'string' ? metadata.type : 'unknown',
+		title: title ?? null,
+		text,
+		tags: tags.filter(tag => tag.length > 0),
+		updatedAt: typeof metadata.generatedAt === 'string' ? metadata.generatedAt : new Date().toISOString(),
+	};
+}
+
+/**
+ * Splits text into lowercase search terms (letters and digits, accents removed).
+ */
+export function tokenize(text: string): string[] {
+	return text
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f]/g, '')
+		.toLowerCase()
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter(term => term.length > 0);
+}
+
+/**
+ * The object key as searchable words, so "campaigns/2025/hero.jpg" matches "hero".
+ */
+export function keyToText(key: string): string {
+	return key.replace(/[/_.\-]+/g, ' ');
+}
+
+export function makeSnippet(document: SearchDocument): string {
+	const text = (document.text || document.title || '').replace(/\s+/g, ' ').trim();
+	return text.length > SNIPPET_LENGTH ? `${text.slice(0, SNIPPET_LENGTH - 1).trimEnd()}…` : text;
+}
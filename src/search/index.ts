@@ -0,0 +1,99 @@
+import { Env } from '../types';
+import { getAiProvider } from '../ai';
+import { D1SearchIndex } from './d1';
+import { MemorySearchIndex } from './memory';
+import { MemoryVectorStore } from './memoryVectors';
+import { VectorizeStore } from './vectorize';
+import { documentFromMetadata, SearchIndex } from './document';
+import { embeddingFingerprint, embeddingTextFromMetadata, VectorStore } from './vectors';
+
+export * from './document';
+export * from './vectors';
+
+// Used when the D1/Vectorize bindings are missing (local development and tests)
+let fallbackIndex: MemorySearchIndex | undefined;
+let fallbackVectors: MemoryVectorStore | undefined;
+
+/**
+ * Returns the index for this environment: the `SEARCH_DB` D1 database when
+ * bound, otherwise an in-memory index that only lives as long as the isolate.
+ */
+export function getSearchIndex(env: Env): SearchIndex {
+	if (env.SEARCH_DB) {
+		return new D1SearchIndex(env.SEARCH_DB);
+	}
+	fallbackIndex ??= new MemorySearchIndex();
+	return fallbackIndex;
+}
+
+/**
+ * Returns the `VECTOR_INDEX` Vectorize store when bound, otherwise an in-memory one.
+ */
+export function getVectorStore(env: Env): VectorStore {
+	if (env.VECTOR_INDEX) {
+		return new VectorizeStore(env.VECTOR_INDEX);
+	}
+	fallbackVectors ??= new MemoryVectorStore();
+	return fallbackVectors;
+}
+
+/**
+ * Brings the keyword index and the vector store in line with a sidecar.
+ * Both are attempted even if one fails; the first failure is rethrown.
+ */
+export async function indexMetadata(env: Env, key: string, metadata: Record<string, any>): Promise<void> {
+	const results = await Promise.allSettled([
+		getSearchIndex(env).upsert(documentFromMetadata(key, metadata)),
+		embedMetadata(env, key, metadata),
+	]);
+	const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+	if (failure) {
+		throw failure.reason;
+	}
+}
+
+/**
+ * Removes an object key from the keyword index and the vector store.
+ */
+export async function unindexMetadata(env: Env, key: string): Promise<void> {
+	const results = await Promise.allSettled([
+		getSearchIndex(env).remove(key),
+		getVectorStore(env).remove(key),
+	]);
+	const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+	if (failure) {
+		throw failure.reason;
+	}
+}
+
+// Embeds a sidecar's description, unless the vector stored for the key, or for
+// the key it is a duplicate of, was already embedded from the same text
+async function embedMetadata(env: Env, key: string, metadata: Record<string, any>): Promise<void> {
+	const vectors = getVectorStore(env);
+	const text = embeddingTextFromMetadata(metadata);
+	if (!text) {
+		// Drop any vector left over from an earlier sidecar that had a description
+		await vectors.remove(key);
+		return;
+	}
+	const provider = getAiProvider(env, 'embedding');
+	const fingerprint = await embeddingFingerprint(provider.name, text);
+	const type = typeof metadata.type === 'string' ? metadata.type : 'unknown';
+
+	const current = await vectors.get(key);
+	if (current?.fingerprint === fingerprint) {
+		if (current.type !== type) {
+			await vectors.upsert(key, current.values, type, fingerprint);
+		}
+		return;
+	}
+	if (typeof metadata.duplicateOf === 'string') {
+		const source = await vectors.get(metadata.duplicateOf);
+		if (source?.fingerprint === fingerprint) {
+			await vectors.upsert(key, source.values, type, fingerprint);
+			return;
+		}
+	}
+	const [values] = await provider.embed([text]);
+	await vectors.upsert(key, values, type, fingerprint);
+}
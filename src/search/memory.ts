@@ -0,0 +1,143 @@
+import { FacetCount, keyToText, makeSnippet, MAX_TAG_FACETS, SearchDocument, SearchHit, SearchIndex, SearchQuery, SearchResults, tokenize } from './document';
+
+// Field weights, matching the bm25() weights used by the D1 index
+const FIELD_WEIGHTS = { title: 3, text: 1, tags: 2, path: 1.5 };
+type Field = keyof typeof FIELD_WEIGHTS;
+
+// BM25 tuning constants
+const K1 = 1.2;
+const B = 0.75;
+
+interface Entry {
+	document: SearchDocument;
+	fields: Record<Field, string[]>;
+	length: number;
+}
+
+/**
+ * Search index held in memory. Ranks with the same weighted BM25 scheme and
+ * prefix matching as the D1 index so results line up in tests.
+ */
+export class MemorySearchIndex implements SearchIndex {
+	private entries = new Map<string, Entry>();
+
+	async upsert(document: SearchDocument): Promise<void> {
+		const fields: Record<Field, string[]> = {
+			title: tokenize(document.title ?? ''),
+			text: tokenize(document.text),
+			tags: tokenize(document.tags.join(' ')),
+			path: tokenize(keyToText(document.key)),
+		};
+		const length = (Object.keys(fields) as Field[])
+			.reduce((sum, field) => sum + fields[field].length * FIELD_WEIGHTS[field], 0);
+		this.entries.set(document.key, { document, fields, length });
+	}
+
+	async remove(key: string): Promise<void> {
+		this.entries.delete(key);
+	}
+
+	async search(query: SearchQuery): Promise<SearchResults> {
+		const terms = [...new Set(tokenize(query.q ?? ''))];
+		const requiredTags = [...new Set((query.tags ?? []).map(tag => tag.toLowerCase()))];
+
+		const filtered = [...this.entries.values()].filter(({ document }) =>
+			(!query.type || document.type === query.type) &&
+			(!query.prefix || document.key.startsWith(query.prefix)) &&
+			requiredTags.every(tag => document.tags.includes(tag)));
+
+		let scored: { entry: Entry, score: number }[];
+		if (terms.length === 0) {
+			scored = filtered.map(entry => ({ entry, score: 0 }));
+		} else {
+			// IDF is computed over the whole index, as FTS5 does
+			const averageLength = this.averageLength();
+			const documentFrequency = new Map(terms.map(term => [term, this.countDocumentsWith(term)]));
+			scored = [];
+			for (const entry of filtered) {
+				let score = 0;
+				let matchedAll = true;
+				for (const term of terms) {
+					const frequency = weightedFrequency(entry, term);
+					if (frequency === 0) {
+						matchedAll = false;
+						break;
+					}
+					const n = documentFrequency.get(term) ?? 0;
+					const idf = Math.log((this.entries.size - n + 0.5) / (n + 0.5) + 1);
+					score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * entry.length / averageLength));
+				}
+				if (matchedAll) {
+					scored.push({ entry, score });
+				}
+			}
+		}
+
+		scored.sort((a, b) => b.score - a.score || b.entry.document.updatedAt.localeCompare(a.entry.document.updatedAt));
+
+		const tagCounts = new Map<string, number>();
+		const typeCounts = new Map<string, number>();
+		for (const { entry } of scored) {
+			for (const tag of entry.document.tags) {
+				tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
+			}
+			typeCounts.set(entry.document.type, (typeCounts.get(entry.document.type) ?? 0) + 1);
+		}
+
+		const hits: SearchHit[] = scored.slice(query.offset, query.offset + query.limit).map(({ entry, score }) => ({
+			key: entry.document.key,
+			type: entry.document.type,
+			title: entry.document.title,
+			snippet: makeSnippet(entry.document),
+			tags: entry.document.tags,
+			score,
+			updatedAt: entry.document.updatedAt,
+		}));
+
+		return {
+			total: scored.length,
+			hits,
+			facets: {
+				tags: sortFacets(tagCounts).slice(0, MAX_TAG_FACETS),
+				types: sortFacets(typeCounts),
+			},
+		};
+	}
+
+	private averageLength(): number {
+		let total = 0;
+		for (const entry of this.entries.values()) {
+			total += entry.length;
+		}
+		return this.entries.size > 0 ? total / this.entries.size || 1 : 1;
+	}
+
+	private countDocumentsWith(term: string): number {
+		let count = 0;
+		for (const entry of this.entries.values()) {
+			if (weightedFrequency(entry, term) > 0) {
+				count++;
+			}
+		}
+		return count;
+	}
+}
+
+// Query terms match any indexed term they are a prefix of
+function weightedFrequency(entry: Entry, term: string): number {
+	let frequency = 0;
+	for (const field of Object.keys(entry.fields) as Field[]) {
+		for (const token of entry.fields[field]) {
+			if (token.startsWith(term)) {
+				frequency += FIELD_WEIGHTS[field];
+			}
+		}
+	}
+	return frequency;
+}
+
+function sortFacets(counts: Map<string, number>): FacetCount[] {
+	return [...counts.entries()]
+		.map(([value, count]) => ({ value, count }))
+		.sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+}
@@ -0,0 +1,35 @@
+import { cosineSimilarity, StoredVector, VectorMatch, VectorQuery, VectorStore } from './vectors';
+
+/**
+ * Vector store held in memory; queries compare against every stored vector.
+ * Fine for local development and tests, not for a full bucket.
+ */
+export class MemoryVectorStore implements VectorStore {
+	private vectors = new Map<string, StoredVector>();
+
+	async upsert(key: string, values: number[], type: string, fingerprint: string): Promise<void> {
+		this.vectors.set(key, { values: [...values], type, fingerprint });
+	}
+
+	async remove(key: string): Promise<void> {
+		this.vectors.delete(key);
+	}
+
+	async get(key: string): Promise<StoredVector | null> {
+		const vector = this.vectors.get(key);
+		return vector ? { ...vector, values: [...vector.values] } : null;
+	}
+
+	async query(values: number[], query: VectorQuery): Promise<VectorMatch[]> {
+		const matches: VectorMatch[] = [];
+		for (const [key, vector] of this.vectors) {
+			if (query.type && vector.type !== query.type) {
+				continue;
+			}
+			matches.push({ key, type: vector.type, score: cosineSimilarity(values, vector.values) });
+		}
+		return matches
+			.sort((a, b) => b.score - a.score)
+			.slice(0, query.topK);
+	}
+}
@@ -0,0 +1,52 @@
+import { Vectorize } from '@cloudflare/workers-types';
+import { StoredVector, vectorIdForKey, VectorMatch, VectorQuery, VectorStore } from './vectors';
+
+// Vectorize caps topK at 50 when metadata is returned
+const MAX_TOP_K = 50;
+
+/**
+ * Vector store backed by a Vectorize index. Filtering by type needs a metadata
+ * index on `type` (see the README for the setup commands).
+ */
+export class VectorizeStore implements VectorStore {
+	constructor(private index: Vectorize) {}
+
+	async upsert(key: string, values: number[], type: string, fingerprint: string): Promise<void> {
+		await this.index.upsert([{
+			id: await vectorIdForKey(key),
+			values,
+			metadata: { key, type, fingerprint },
+		}]);
+	}
+
+	async remove(key: string): Promise<void> {
+		await this.index.deleteByIds([await vectorIdForKey(key)]);
+	}
+
+	async get(key: string): Promise<StoredVector | null> {
+		const [vector] = await this.index.getByIds([await vectorIdForKey(key)]);
+		if (!vector) {
+			return null;
+		}
+		return {
+			values: Array.from(vector.values),
+			type: typeof vector.metadata?.type === 'string' ? vector.metadata.type : null,
+			fingerprint: typeof vector.metadata?.fingerprint === 'string' ? vector.metadata.fingerprint : null,
+		};
+	}
+
+	async query(values: number[], query: VectorQuery): Promise<VectorMatch[]> {
+		const result = await this.index.query(values, {
+			topK: Math.min(query.topK, MAX_TOP_K),
+			returnMetadata: 'all',
+			filter: query.type ? { type: query.type } : undefined,
+		});
+		return result.matches
+			.filter(match => typeof match.metadata?.key === 'string')
+			.map(match => ({
+				key: match.metadata!.key as string,
+				type: typeof match.metadata?.type === 'string' ? match.metadata.type : null,
+				score: match.score,
+			}));
+	}
+}
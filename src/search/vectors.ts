@@ -0,0 +1,89 @@
+import { Env } from '../types';
+import { getAiProvider } from '../ai';
+import { sha256Hex } from '../hash';
+
+// Embedding models truncate at around 512 tokens, so there is no point sending more than this
+const MAX_EMBEDDING_CHARS = 2000;
+
+export interface VectorMatch {
+	key: string;
+	type: string | null;
+	score: number;
+}
+
+export interface VectorQuery {
+	topK: number;
+	type?: string;
+}
+
+export interface StoredVector {
+	values: number[];
+	type: string | null;
+	// What the vector was embedded from (see embeddingFingerprint); null for vectors stored without one
+	fingerprint: string | null;
+}
+
+/**
+ * Stores one embedding per object key. Scores are cosine similarity, higher is closer.
+ */
+export interface VectorStore {
+	upsert(key: string, values: number[], type: string, fingerprint: string): Promise<void>;
+	remove(key: string): Promise<void>;
+	get(key: string): Promise<StoredVector | null>;
+	query(values: number[], query: VectorQuery): Promise<VectorMatch[]>;
+}
+
+/**
+ * The text embedded for a sidecar: its caption or summary followed by its tags.
+ * Returns null for sidecars with nothing descriptive to embed (e.g. videos).
+ */
+export function embeddingTextFromMetadata(metadata: Record<string, any>): string | null {
+	const description = [metadata.title, metadata.caption, metadata.summary]
+		.filter((value): value is string => typeof value === 'string' && value.trim().length > 0)
+		.join('\n');
+	if (!description) {
+		return null;
+	}
+	const tags = Array.isArray(metadata.tags) ? metadata.tags.filter((tag: unknown) => typeof tag === 'string') : [];
+	const text = tags.length > 0 ? `${description}\nTags: ${tags.join(', ')}` : description;
+	return text.slice(0, MAX_EMBEDDING_CHARS);
+}
+
+/**
+ * Embeds one text with the configured embedding provider. Stored vectors are
+ * only comparable with queries embedded by the same provider.
+ */
+export async function embedText(env: Env, text: string): Promise<number[]> {
+	const [values] = await getAiProvider(env, 'embedding').embed([text]);
+	return values;
+}
+
+/**
+ * Identifies an embedding by the provider and the text it was made from, so
+ * a vector stored with the same fingerprint can be reused instead of calling
+ * the model again.
+ */
+export function embeddingFingerprint(provider: string, text: string): Promise<string> {
+	return sha256Hex(new TextEncoder().encode(`${provider}\n${text}`));
+}
+
+/**
+ * Vectorize ids are limited to 64 bytes, so object keys are stored as their
+ * SHA-256 hex digest and the key itself goes in the vector metadata.
+ */
+export function vectorIdForKey(key: string): Promise<string> {
+	return sha256Hex(new TextEncoder().encode(key));
+}
+
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+	let dot = 0;
+	let normA = 0;
+	let normB = 0;
+	for (let i = 0; i < a.length; i++) {
+		dot += a[i] * b[i];
+		normA += a[i] * a[i];
+		normB += b[i] * b[i];
+	}
+	return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,391 @@
+import { z } from "zod";
+
+/**
+ * Version of the sidecar format written by this worker. Bump it whenever a
+ * field changes meaning or becomes required, and add a step to MIGRATIONS.
+ * Sidecars written before versioning existed have no `schemaVersion` and are
+ * treated as version 0.
+ */
+export const SIDECAR_SCHEMA_VERSION = 6;
+
+const Timestamp = z.string().datetime({ offset: true });
+
+// Fields every sidecar has, whatever the media type
+const BaseSidecar = z.object({
+	schemaVersion: z.literal(SIDECAR_SCHEMA_VERSION),
+	filename: z.string().min(1),
+	tags: z.array(z.string()),
+	// Size, upload time and etag of the source object the sidecar was generated from
+	size: z.number().int().nonnegative(),
+	lastModified: Timestamp,
+	// Null for sidecars migrated from before the etag was recorded
+	sourceEtag: z.string().nullable(),
+	// Format found in the source's first bytes, and whether the key's extension implies
+	// another one. Null for sidecars migrated from before content was sniffed.
+	detectedMimeType: z.string().nullable(),
+	extensionMismatch: z.boolean().nullable(),
+	generatedAt: Timestamp,
+});
+
+const AiUsageTotals = z.object({
+	calls: z.number().int().nonnegative(),
+	promptTokens: z.number().int().nonnegative(),
+	completionTokens: z.number().int().nonnegative(),
+	neurons: z.number().nonnegative(),
+	costUsd: z.number().nonnegative(),
+});
+
+// Tokens and estimated cost of the AI calls that generated a sidecar, per "<provider>:<model>" too
+export const AiUsageSchema = AiUsageTotals.extend({
+	byModel: z.record(AiUsageTotals),
+});
+
+// SHA-256 of the source object, and the other key whose AI result was copied because
+// its content is identical (see contentCache.ts). Null for sidecars migrated from
+// before content was hashed.
+const ContentFields = {
+	contentHash: z.string().regex(/^[0-9a-f]{64}$/).nullable(),
+	duplicateOf: z.string().nullable(),
+};
+
+export const ImageGpsSchema = z.object({
+	latitude: z.number(),
+	longitude: z.number(),
+	altitude: z.number().nullable(),
+});
+
+export const ImageExifSchema = z.object({
+	format: z.enum(["jpeg", "png", "webp", "gif", "avif", "heic", "tiff"]),
+	width: z.number().nullable(),
+	height: z.number().nullable(),
+	orientation: z.number().nullable(),
+	make: z.string().nullable(),
+	model: z.string().nullable(),
+	lens: z.string().nullable(),
+	software: z.string().nullable(),
+	exposureTime: z.string().nullable(),
+	fNumber: z.number().nullable(),
+	iso: z.number().nullable(),
+	focalLength: z.number().nullable(),
+	focalLength35mm: z.number().nullable(),
+	dateTaken: z.string().nullable(),
+	gps: ImageGpsSchema.nullable(),
+	title: z.string().nullable(),
+	caption: z.string().nullable(),
+	keywords: z.array(z.string()),
+	creator: z.string().nullable(),
+	copyright: z.string().nullable(),
+});
+
+export const ImageSidecar = BaseSidecar.extend({
+	type: z.literal("image"),
+	caption: z.string().min(1),
+	exif: ImageExifSchema.nullable(),
+	// Provider that wrote the caption; null for sidecars migrated from before providers were recorded
+	aiProvider: z.string().nullable(),
+	// Null for the stub provider, for results copied from a duplicate and for sidecars migrated from before usage was recorded
+	aiUsage: AiUsageSchema.nullable(),
+	...ContentFields,
+}).strict();
+
+export const PdfPageSchema = z.object({
+	page: z.number().int().positive(),
+	// Null for pages without text and pages past those that were summarised
+	summary: z.string().nullable(),
+	keyTerms: z.array(z.string()),
+});
+
+export type PdfOutlineEntry = { title: string, page: number | null, children: PdfOutlineEntry[] };
+
+// A bookmark and the bookmarks nested under it. Recursive schemas need their type spelled
+// out, and the cast is needed because zod infers every field as optional without strictNullChecks.
+export const PdfOutlineSchema = z.lazy(() => z.object({
+	title: z.string(),
+	page: z.number().int().positive().nullable(),
+	children: z.array(PdfOutlineSchema),
+})) as z.ZodType<PdfOutlineEntry>;
+
+export const PdfSidecar = BaseSidecar.extend({
+	type: z.literal("pdf"),
+	// Rolled up from the page summaries when the text is too long for one prompt
+	summary: z.string().min(1),
+	pageCount: z.number().int().nonnegative().nullable(),
+	title: z.string().nullable(),
+	author: z.string().nullable(),
+	producer: z.string().nullable(),
+	extractedTextLength: z.number().int().nonnegative(),
+	// One entry per page, in order. Null for sidecars migrated from before pages were summarised
+	pages: z.array(PdfPageSchema).nullable(),
+	// The document's bookmarks; empty if it has none. Null for sidecars migrated from before outlines were read
+	outline: z.array(PdfOutlineSchema).nullable(),
+	aiProvider: z.string().nullable(),
+	aiUsage: AiUsageSchema.nullable(),
+	...ContentFields,
+}).strict();
+
+export const DocumentSidecar = BaseSidecar.extend({
+	type: z.literal("document"),
+	summary: z.string().min(1),
+	format: z.enum(["docx", "xlsx", "pptx"]),
+	title: z.string().nullable(),
+	author: z.string().nullable(),
+	lastModifiedBy: z.string().nullable(),
+	created: Timestamp.nullable(),
+	modified: Timestamp.nullable(),
+	application: z.string().nullable(),
+	// Counts the application stored when the file was last saved; pages for Word only
+	pageCount: z.number().int().nonnegative().nullable(),
+	wordCount: z.number().int().nonnegative().nullable(),
+	// PowerPoint only
+	slideCount: z.number().int().nonnegative().nullable(),
+	// Excel only
+	sheetNames: z.array(z.string()).nullable(),
+	extractedTextLength: z.number().int().nonnegative(),
+	aiProvider: z.string().nullable(),
+	aiUsage: AiUsageSchema.nullable(),
+	...ContentFields,
+}).strict();
+
+export const VideoAudioTrack = z.object({
+	codec: z.string().nullable(),
+	channels: z.number().nullable(),
+	sampleRate: z.number().nullable(),
+	language: z.string().nullable(),
+	duration: z.number().nullable(),
+});
+
+export const VideoSidecar = BaseSidecar.extend({
+	type: z.literal("video"),
+	duration: z.number().nullable(),
+	width: z.number().nullable(),
+	height: z.number().nullable(),
+	frameRate: z.number().nullable(),
+	videoCodec: z.string().nullable(),
+	audioCodec: z.string().nullable(),
+	codecs: z.array(z.string()),
+	audioTracks: z.array(VideoAudioTrack),
+	brand: z.string().nullable(),
+	creationTime: z.string().nullable(),
+}).strict();
+
+export const AudioSidecar = BaseSidecar.extend({
+	type: z.literal("audio"),
+	format: z.enum(["mp3", "wav", "m4a"]),
+	// Summary of the transcript, or a description based on the tags when there is none
+	summary: z.string().min(1),
+	// Null when the file was too large to transcribe; empty when no speech was found
+	transcript: z.string().nullable(),
+	// As the speech-to-text model reports it, e.g. "en" or "english"
+	transcriptLanguage: z.string().nullable(),
+	duration: z.number().nullable(),
+	// Bits per second; the average for variable bitrate files
+	bitrate: z.number().int().nonnegative().nullable(),
+	sampleRate: z.number().nullable(),
+	channels: z.number().nullable(),
+	codec: z.string().nullable(),
+	title: z.string().nullable(),
+	artist: z.string().nullable(),
+	album: z.string().nullable(),
+	hasCoverArt: z.boolean(),
+	aiProvider: z.string().nullable(),
+	aiUsage: AiUsageSchema.nullable(),
+	...ContentFields,
+}).strict();
+
+const JsonValueType = z.enum(["object", "array", "string", "number", "boolean", "null"]);
+
+export const TextSidecar = BaseSidecar.extend({
+	type: z.literal("text"),
+	format: z.enum(["txt", "markdown", "csv", "json"]),
+	summary: z.string().min(1),
+	encoding: z.enum(["utf-8", "utf-16le", "utf-16be", "windows-1252"]),
+	// Counts over the whole file, estimated from its start when `sampled` is true
+	lineCount: z.number().int().nonnegative(),
+	wordCount: z.number().int().nonnegative(),
+	sampled: z.boolean(),
+	// The first level-1 heading of a Markdown document
+	title: z.string().nullable(),
+	// Markdown only
+	outline: z.array(z.object({
+		level: z.number().int().min(1).max(6),
+		text: z.string(),
+	})).nullable(),
+	// CSV only. rowCount excludes the header and is estimated when sampled
+	csv: z.object({
+		delimiter: z.string(),
+		hasHeader: z.boolean(),
+		rowCount: z.number().int().nonnegative(),
+		columns: z.array(z.object({
+			name: z.string(),
+			type: z.enum(["integer", "number", "boolean", "date", "datetime", "string", "empty"]),
+			nullable: z.boolean(),
+		})),
+	}).nullable(),
+	// JSON only. Null if the file is not valid JSON; describes only the start when sampled
+	json: z.object({
+		type: JsonValueType,
+		keys: z.array(z.object({
+			name: z.string(),
+			type: JsonValueType,
+		})).nullable(),
+		length: z.number().int().nonnegative().nullable(),
+		elementTypes: z.array(JsonValueType).nullable(),
+		elementKeys: z.array(z.string()).nullable(),
+	}).nullable(),
+	aiProvider: z.string().nullable(),
+	aiUsage: AiUsageSchema.nullable(),
+	...ContentFields,
+}).strict();
+
+/**
+ * A `.metadata.json` sidecar as written by the processors
+ */
+export const MetadataSidecar = z.discriminatedUnion("type", [ImageSidecar, PdfSidecar, DocumentSidecar, VideoSidecar, AudioSidecar, TextSidecar]);
+
+export type Sidecar = z.infer<typeof MetadataSidecar>;
+export type ImageSidecarData = z.infer<typeof ImageSidecar>;
+export type PdfSidecarData = z.infer<typeof PdfSidecar>;
+export type DocumentSidecarData = z.infer<typeof DocumentSidecar>;
+export type VideoSidecarData = z.infer<typeof VideoSidecar>;
+export type AudioSidecarData = z.infer<typeof AudioSidecar>;
+export type TextSidecarData = z.infer<typeof TextSidecar>;
+
+export class SidecarValidationError extends Error {
+	constructor(key: string, public issues: z.ZodIssue[]) {
+		super(`Invalid metadata sidecar for ${key}: ${issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ')}`);
+		this.name = 'SidecarValidationError';
+	}
+}
+
+/**
+ * Validates a sidecar before it is written. Throws SidecarValidationError
+ * listing every problem, so a processor bug fails loudly instead of
+ * producing a sidecar consumers cannot read.
+ */
+export function validateSidecar(key: string, data: unknown): Sidecar {
+	const result = MetadataSidecar.safeParse(data);
+	if (!result.success) {
+		throw new SidecarValidationError(key, result.error.issues);
+	}
+	return result.data;
+}
+
+export type MigrationResult =
+	| { status: 'current', sidecar: Sidecar }
+	| { status: 'migrated', sidecar: Sidecar, fromVersion: number }
+	// Not worth keeping (e.g. a failure placeholder); the object should be reprocessed
+	| { status: 'invalid', reason: string };
+
+// Upgrades a sidecar from the version it is keyed by to the next one.
+// Returning a string marks the sidecar invalid with that reason.
+const MIGRATIONS: Record<number, (sidecar: Record<string, any>) => Record<string, any> | string> = {
+	0: migrateFromUnversioned,
+	// Version 2 records the source etag, which older sidecars never saw
+	1: sidecar => ({ ...sidecar, sourceEtag: null }),
+	// Version 3 records the AI usage of image and PDF sidecars
+	2: sidecar => sidecar.type === 'image' || sidecar.type === 'pdf' ? { ...sidecar, aiUsage: null } : sidecar,
+	// Version 4 records the content hash of image and PDF sources
+	3: sidecar => sidecar.type === 'image' || sidecar.type === 'pdf' ? { ...sidecar, contentHash: null, duplicateOf: null } : sidecar,
+	// Version 5 records the format sniffed from the source's content
+	4: sidecar => ({ ...sidecar, detectedMimeType: null, extensionMismatch: null }),
+	// Version 6 records the page summaries and outline of PDFs
+	5: sidecar => sidecar.type === 'pdf' ? { ...sidecar, pages: null, outline: null } : sidecar,
+};
+
+/**
+ * Brings a stored sidecar up to SIDECAR_SCHEMA_VERSION, one version at a time,
+ * and validates the result.
+ */
+export function migrateSidecar(data: unknown): MigrationResult {
+	if (!data || typeof data !== 'object' || Array.isArray(data)) {
+		return { status: 'invalid', reason: 'Sidecar is not a JSON object' };
+	}
+
+	let sidecar = data as Record<string, any>;
+	const fromVersion = typeof sidecar.schemaVersion === 'number' ? sidecar.schemaVersion : 0;
+	if (fromVersion > SIDECAR_SCHEMA_VERSION) {
+		return { status: 'invalid', reason: `Sidecar schema version ${fromVersion} is newer than this worker understands` };
+	}
+
+	for (let version = fromVersion; version < SIDECAR_SCHEMA_VERSION; version++) {
+		const migrated = MIGRATIONS[version](sidecar);
+		if (typeof migrated === 'string') {
+			return { status: 'invalid', reason: migrated };
+		}
+		sidecar = { ...migrated, schemaVersion: version + 1 };
+	}
+
+	const result = MetadataSidecar.safeParse(sidecar);
+	if (!result.success) {
+		return { status: 'invalid', reason: new SidecarValidationError(String(sidecar.filename ?? ''), result.error.issues).message };
+	}
+	return fromVersion === SIDECAR_SCHEMA_VERSION
+		? { status: 'current', sidecar: result.data }
+		: { status: 'migrated', sidecar: result.data, fromVersion };
+}
+
+// Placeholder captions written by the image processor when the vision response could not be parsed
+const JUNK_CAPTIONS = ['Error parsing caption', 'Caption not found in response'];
+
+/**
+ * Version 0 -> 1: drops the failure placeholders written in the normal shape,
+ * fills in fields that were added over time and keeps only declared fields.
+ */
+function migrateFromUnversioned(sidecar: Record<string, any>): Record<string, any> | string {
+	const tags: unknown[] = Array.isArray(sidecar.tags) ? sidecar.tags : [];
+	if (tags.includes('processing-error') || (tags.length === 1 && tags[0] === 'error') || tags.some(tag => typeof tag === 'string' && /^(Tags not found|Invalid tags format)/.test(tag))) {
+		return 'Sidecar records a processing failure';
+	}
+	if (JUNK_CAPTIONS.includes(sidecar.caption)) {
+		return 'Sidecar has a placeholder caption';
+	}
+	if (typeof sidecar.summary === 'string' && sidecar.summary.startsWith('PDF processing failed')) {
+		return 'Sidecar records a processing failure';
+	}
+
+	const base = {
+		filename: sidecar.filename,
+		type: sidecar.type,
+		tags: tags.filter((tag): tag is string => typeof tag === 'string'),
+		size: sidecar.size,
+		lastModified: sidecar.lastModified,
+		generatedAt: sidecar.generatedAt,
+	};
+
+	switch (sidecar.type) {
+		case 'image':
+			return {
+				...base,
+				caption: sidecar.caption,
+				exif: sidecar.exif ?? null,
+				aiProvider: sidecar.aiProvider ?? null,
+			};
+		case 'pdf':
+			return {
+				...base,
+				summary: sidecar.summary,
+				pageCount: sidecar.pageCount ?? null,
+				title: sidecar.title ?? null,
+				author: sidecar.author ?? null,
+				producer: sidecar.producer ?? null,
+				extractedTextLength: sidecar.extractedTextLength ?? 0,
+				aiProvider: sidecar.aiProvider ?? null,
+			};
+		case 'video':
+			return {
+				...base,
+				duration: sidecar.duration ?? null,
+				width: sidecar.width ?? null,
+				height: sidecar.height ?? null,
+				frameRate: sidecar.frameRate ?? null,
+				videoCodec: sidecar.videoCodec ?? null,
+				audioCodec: sidecar.audioCodec ?? null,
+				codecs: sidecar.codecs ?? [],
+				audioTracks: sidecar.audioTracks ?? [],
+				brand: sidecar.brand ?? null,
+				creationTime: sidecar.creationTime ?? null,
+			};
+		default:
+			return `Unknown sidecar type ${JSON.stringify(sidecar.type)}`;
+	}
+}
@@ -0,0 +1,528 @@
+import { ExecutionContext, R2Object } from '@cloudflare/workers-types';
+import { Env, SweepContinuation } from './types';
+import { getFileExtension, getProcessor, ProcessorResult, runProcessor, SUPPORTED_EXTENSIONS } from './processors';
+import { getMetadataKey, INTERNAL_PREFIX, isCurrentSchema, isInternalKey, isMetadataKey, isStale, migrateMetadata, sidecarCustomMetadata } from './metadata';
+import { isDeadLettered, readFailureLedger, recordOutcomes } from './failures';
+import { emptyStats, filesRun, finishRun, ProcessingStats, RunOptions, RunRecord, RunTrigger, saveRun, startRun } from './runs';
+import { inScope, isFullPass } from './scope';
+import { addUsage, emptyUsage, openCircuits } from './ai';
+import { getConcurrencyLimits, scheduledEnv, Scheduler } from './scheduler';
+import { withContext } from './envContext';
+import { getDefaultRunBudget, recordUsage, SpendingTracker, trackSpending } from './usage';
+
+export const SWEEP_STATE_KEY = `${INTERNAL_PREFIX}sweep.json`;
+
+// Objects listed per slice, unless SWEEP_SLICE_SIZE says otherwise (R2 lists at most 1000)
+const DEFAULT_SLICE_SIZE = 200;
+// Hours between the starts of scheduled passes, unless SWEEP_INTERVAL_HOURS says otherwise
+const DEFAULT_INTERVAL_HOURS = 24;
+// A slice that has not released its lease after this long is assumed dead
+const LEASE_MS = 15 * 60_000;
+// How long a paused pass waits before its next slice; matches the circuit breaker cooldown
+const PAUSE_DELAY_SECONDS = 60;
+// A slice that could not list the bucket is retried after PAUSE_DELAY_SECONDS,
+// doubling with each further failure up to this
+const MAX_FAILURE_DELAY_SECONDS = 3600;
+
+// Only the first failures are listed, so a run where everything fails stays readable
+const MAX_FAILED_KEYS = 100;
+// Keys a dry run lists; the rest are only counted
+const MAX_PLANNED_KEYS = 1000;
+
+/**
+ * Where the sweep has got to, stored at SWEEP_STATE_KEY between invocations.
+ */
+export interface SweepState {
+	// The pass in progress, with its stats so far; null between passes
+	run: RunRecord | null;
+	// R2 list cursor to continue the pass from; null at the start of a pass
+	cursor: string | null;
+	// Objects listed so far in this pass, and the last of them
+	listed: number;
+	lastKey: string | null;
+	// Until when a slice is running; null when none is
+	leaseExpiresAt: string | null;
+	// Slices in a row that failed to list the bucket, which delays the next one
+	failedSlices: number;
+	lastPass: { id: string, startedAt: string, finishedAt: string | null, status: RunRecord['status'] } | null;
+	// When the last full pass (see isFullPass) started; scoped passes and dry runs do not put off the next scheduled one
+	lastFullPassAt: string | null;
+}
+
+export type SweepOutcome =
+	// A slice ran; `done` says whether it finished the pass
+	| { status: 'processed', run: RunRecord, slice: ProcessingStats, done: boolean }
+	// Another slice holds the lease, or (`passInProgress`) a dry or scoped run
+	// was asked for while a full pass is under way, which it may not replace
+	| { status: 'busy', run: RunRecord | null, passInProgress?: boolean }
+	// Nothing to do: no pass is due, or the continuation was for an older pass
+	| { status: 'idle', run: null };
+
+/**
+ * Whether a sweep with these options has to start a new pass rather than
+ * continue the one in progress, which was started with other options.
+ */
+export function needsNewPass(options: RunOptions): boolean {
+	return !!options.forceReprocess || !!options.maxFiles || !!options.budgetUsd || !isFullPass(options);
+}
+
+export interface SweepOptions extends RunOptions {
+	// Abandon the pass in progress, if any, and start a new one
+	restart?: boolean;
+	// Only continue this pass (from a SweepContinuation)
+	runId?: string;
+}
+
+export function isSweepContinuation(body: unknown): body is SweepContinuation {
+	return !!body && typeof body === 'object' && (body as SweepContinuation).kind === 'sweep';
+}
+
+export async function readSweepState(env: Env): Promise<SweepState> {
+	return (await readStateObject(env)).state;
+}
+
+/**
+ * Hours between scheduled passes (SWEEP_INTERVAL_HOURS).
+ */
+export function getSweepInterval(env: Env): number {
+	const configured = Number(env.SWEEP_INTERVAL_HOURS);
+	return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_INTERVAL_HOURS;
+}
+
+/**
+ * When the schedule starts the next pass: SWEEP_INTERVAL_HOURS after the last
+ * full pass started, or now if there has not been one.
+ */
+export function nextPassAt(env: Env, state: SweepState): Date {
+	return state.lastFullPassAt ? new Date(Date.parse(state.lastFullPassAt) + getSweepInterval(env) * 3_600_000) : new Date();
+}
+
+/**
+ * Runs one bounded slice of the sweep: continues the pass in progress, or
+ * starts a new one. Cron ticks only start a pass once SWEEP_INTERVAL_HOURS have
+ * passed since the last one started; other triggers start one straight away.
+ * If the pass is not finished the next slice is queued on SWEEP_QUEUE, when
+ * bound; otherwise the next cron tick continues it.
+ */
+export async function runSweep(env: Env, ctx: ExecutionContext, trigger: RunTrigger, options: SweepOptions = {}): Promise<SweepOutcome> {
+	const { state, etag } = await readStateObject(env);
+
+	if (options.runId && state.run?.id !== options.runId) {
+		console.log(`Ignoring continuation for finished or replaced sweep ${options.runId}`);
+		return { status: 'idle', run: null };
+	}
+	if (state.leaseExpiresAt && Date.parse(state.leaseExpiresAt) > Date.now()) {
+		console.log(`A sweep slice is already running until ${state.leaseExpiresAt}`);
+		return { status: 'busy', run: state.run };
+	}
+
+	const restart = !!state.run && !!options.restart;
+	// There is one sweep state, so a dry or scoped run would throw away a full
+	// pass's progress; it waits for the pass to finish instead
+	if (restart && isFullPass(state.run.options) && !isFullPass(options)) {
+		console.log(`Not replacing full pass ${state.run.id} with a dry or scoped run`);
+		return { status: 'busy', run: state.run, passInProgress: true };
+	}
+	if (!state.run && trigger === 'cron' && !passDue(env, state)) {
+		return { status: 'idle', run: null };
+	}
+
+	// Take the lease; if someone else wrote the state since we read it, let them have it
+	state.leaseExpiresAt = new Date(Date.now() + LEASE_MS).toISOString();
+	if (!await writeStateObject(env, state, etag)) {
+		return { status: 'busy', run: state.run };
+	}
+
+	if (restart) {
+		console.log(`Abandoning sweep ${state.run.id} to start a new one`);
+		await finishRun(env, state.run, 'Replaced by a new pass');
+		state.run = null;
+	}
+	if (!state.run) {
+		const { restart: _restart, runId: _runId, ...runOptions } = options;
+		const maxFiles = options.maxFiles ?? getDefaultMaxFiles(env);
+		const budgetUsd = options.budgetUsd ?? getDefaultRunBudget(env);
+		state.run = await startRun(env, trigger, {
+			...runOptions,
+			forceReprocess: !!options.forceReprocess,
+			...(maxFiles ? { maxFiles } : {}),
+			...(budgetUsd ? { budgetUsd } : {}),
+		});
+		state.cursor = null;
+		state.listed = 0;
+		state.lastKey = null;
+		console.log(`Starting sweep ${state.run.id} (${trigger})`);
+	}
+
+	const run = state.run;
+	const slice = emptyStats();
+	let done = false;
+	try {
+		done = await processSlice(env, ctx, state, slice);
+		state.failedSlices = 0;
+	} catch (error) {
+		console.error('Error listing R2 bucket:', error);
+		slice.errors++;
+		state.failedSlices++;
+	}
+
+	if (slice.paused) {
+		// The page is listed again once the provider is back and its files are
+		// counted then, so only the AI usage already spent is kept. Otherwise an
+		// outage would use up maxFiles.
+		run.stats.paused = slice.paused;
+		run.stats.aiUsage = addUsage(run.stats.aiUsage ?? emptyUsage(), slice.aiUsage);
+	} else {
+		mergeStats(run.stats, slice);
+	}
+	run.slices++;
+	if (done) {
+		await finishRun(env, run);
+		state.lastPass = { id: run.id, startedAt: run.startedAt, finishedAt: run.finishedAt, status: run.status };
+		if (isFullPass(run.options)) {
+			state.lastFullPassAt = run.startedAt;
+		}
+		state.run = null;
+		state.cursor = null;
+		console.log(`Finished sweep ${run.id} after ${run.slices} slices${run.stats.maxFilesReached ? `, having reached its limit of ${run.options.maxFiles} files` : ''}${run.stats.budgetReached ? `: ${run.stats.budgetReached}` : ''}`);
+	} else {
+		await saveRun(env, run);
+	}
+	state.leaseExpiresAt = null;
+	await writeStateObject(env, state);
+
+	if (!done && env.SWEEP_QUEUE) {
+		const continuation: SweepContinuation = { kind: 'sweep', runId: run.id };
+		await env.SWEEP_QUEUE.send(continuation, { delaySeconds: continuationDelay(state, slice) });
+	}
+
+	return { status: 'processed', run, slice, done };
+}
+
+// Seconds before the next slice: none, unless this one paused for an open
+// circuit or failed, so a bucket that cannot be listed is not retried in a loop
+function continuationDelay(state: SweepState, slice: ProcessingStats): number {
+	if (state.failedSlices > 0) {
+		return Math.min(PAUSE_DELAY_SECONDS * 2 ** (state.failedSlices - 1), MAX_FAILURE_DELAY_SECONDS);
+	}
+	return slice.paused ? PAUSE_DELAY_SECONDS : 0;
+}
+
+/**
+ * One line on what a sweep invocation did, for the UI and the JSON API.
+ */
+export function describeSweep(env: Env, outcome: SweepOutcome): string {
+	switch (outcome.status) {
+		case 'processed':
+			if (outcome.done) {
+				return `Finished media processing after ${outcome.run.slices} slice(s)`;
+			}
+			return `Processed slice ${outcome.run.slices} of the current pass; ${env.SWEEP_QUEUE ? 'the next slice has been queued' : 'the next cron tick continues it'}`;
+		case 'busy':
+			if (outcome.passInProgress) {
+				return 'A full pass is in progress; dry runs and scoped runs can start once it has finished';
+			}
+			return 'Another slice of the current pass is still running; try again shortly';
+		case 'idle':
+			return 'No media processing pass is due';
+	}
+}
+
+// Lists the next page of the pass and processes it, advancing the state's
+// cursor. Files go through a worker pool, and their R2 and AI calls through
+// the scheduler's limiters. Returns whether the pass is over: it has reached
+// the end of the bucket, processed as many files as it may, or spent its budget.
+async function processSlice(env: Env, ctx: ExecutionContext, state: SweepState, stats: ProcessingStats): Promise<boolean> {
+	const options = state.run.options;
+	const ledger = await readFailureLedger(env);
+	const scheduler = new Scheduler(getConcurrencyLimits(env));
+	// A forced run regenerates each content's AI result once, then copies it to the other copies
+	const scheduled = withContext(scheduledEnv(env, scheduler), options.forceReprocess ? { reuseResultsSince: state.run.startedAt } : {});
+	// Files this slice may still run a processor on
+	const budget = { remaining: options.maxFiles ? options.maxFiles - filesRun(state.run.stats) : Infinity };
+	const spending = await trackSpending(env, options.budgetUsd, state.run.stats.aiUsage?.costUsd ?? 0);
+
+	const listing = await env.MEDIA_BUCKET.list({
+		prefix: options.prefix,
+		limit: getSliceSize(env),
+		cursor: state.cursor ?? undefined,
+	});
+
+	console.log(`Found ${listing.objects.length} objects in this slice.`);
+
+	// Process the objects found in listing.objects
+	const processingPromises: Promise<void>[] = [];
+	const results: ProcessorResult[] = [];
+	for (const object of listing.objects) {
+		const objectName = object.key;
+		// Skip metadata files themselves, and the worker's own state
+		if (isMetadataKey(objectName) || isInternalKey(objectName)) {
+			continue;
+		}
+
+		// 1. Check file extension
+		const fileExtension = getFileExtension(objectName);
+		if (!SUPPORTED_EXTENSIONS.includes(fileExtension)) {
+			stats.skipped++;
+			continue; // Skip this object
+		}
+
+		// Outside the globs, types or date the run is limited to
+		if (!inScope(object, options)) {
+			stats.filtered++;
+			continue;
+		}
+
+		// Files that keep failing wait for POST /failures/retry or a new upload
+		if (isDeadLettered(ledger, objectName, object.etag)) {
+			stats.deadLettered++;
+			continue;
+		}
+
+		// 2. Check if metadata already exists (unless force reprocess is enabled)
+		if (!options.forceReprocess) {
+			const metadataCheckPromise = scheduler.files.run(async () => {
+				if (budget.remaining <= 0) {
+					stats.maxFilesReached = true;
+					return;
+				}
+				const reason = await needsProcessing(object, scheduled, stats, !!options.dryRun);
+				if (!reason) {
+					return; // Metadata is up to date, skip processing
+				}
+				if (options.dryRun) {
+					return planFile(object, stats, reason, budget);
+				}
+				return processFile(object, scheduled, ctx, stats, results, budget, spending);
+			}).catch(err => {
+				console.error(`Error checking metadata for ${objectName}:`, err);
+				stats.errors++;
+			});
+
+			processingPromises.push(metadataCheckPromise);
+		} else {
+			// Force reprocess is enabled, process regardless of existing metadata
+			if (options.dryRun) {
+				planFile(object, stats, 'force reprocess', budget);
+				continue;
+			}
+			console.log(`Force reprocessing file: ${objectName}`);
+			const processPromise = scheduler.files.run(() => processFile(object, scheduled, ctx, stats, results, budget, spending))
+				.catch(err => {
+					console.error(`Error processing ${objectName}:`, err);
+					stats.errors++;
+				});
+
+			processingPromises.push(processPromise);
+		}
+	}
+
+	// Wait for the pool to drain
+	await Promise.allSettled(processingPromises);
+	stats.queueWaits = scheduler.waits();
+
+	// While a provider is down, failures say nothing about the files themselves,
+	// so they are not counted towards dead-lettering and the page is listed again.
+	// A dry run makes no AI calls and carries on regardless.
+	const down = options.dryRun ? [] : openCircuits();
+	if (down.length > 0) {
+		stats.paused = `AI provider ${down.join(', ')} is unavailable`;
+		console.warn(`Pausing media processing: ${stats.paused}`);
+	}
+
+	// One ledger write per slice rather than one per file
+	try {
+		await recordOutcomes(env, stats.paused ? results.filter(result => result.status !== 'failed') : results);
+	} catch (error) {
+		console.error('Error updating failure ledger:', error);
+	}
+	await recordUsage(env, results);
+
+	if (stats.paused) {
+		return false;
+	}
+
+	state.listed += listing.objects.length;
+	state.lastKey = listing.objects.at(-1)?.key ?? state.lastKey;
+	state.cursor = listing.truncated ? listing.cursor : null;
+	// Files left over once a limit is reached wait for the next pass
+	return !listing.truncated || stats.maxFilesReached || !!stats.budgetReached;
+}
+
+// Decide whether an object needs (re)processing: its sidecar is missing,
+// cannot be migrated to the current schema, or was generated from an older
+// version of the object. Returns why, or null if it does not. Old sidecars
+// that are still fresh are upgraded here, except in a dry run.
+async function needsProcessing(object: R2Object, env: Env, stats: ProcessingStats, dryRun: boolean): Promise<string | null> {
+	const metadataObject = await env.MEDIA_BUCKET.head(getMetadataKey(object.key));
+	if (metadataObject === null) {
+		return 'no metadata yet';
+	}
+
+	let recorded = metadataObject.customMetadata;
+	let migrated = false;
+	if (!isCurrentSchema(metadataObject)) {
+		// Written by an older version; upgrade it, or regenerate it if it cannot be upgraded
+		const migration = await migrateMetadata(env, object.key, dryRun);
+		if (!('sidecar' in migration)) {
+			return 'metadata cannot be upgraded to the current schema';
+		}
+		recorded = sidecarCustomMetadata(migration.sidecar);
+		migrated = migration.status === 'migrated';
+	}
+
+	if (isStale(recorded, object)) {
+		console.log(`Source object changed since its metadata was generated: ${object.key}`);
+		stats.stale++;
+		return 'source object changed since its metadata was generated';
+	}
+
+	if (migrated) {
+		stats.migrated++;
+	} else {
+		stats.skipped++;
+	}
+	return null;
+}
+
+// Record a file a dry run would process, unless the pass has used up its budget of files
+function planFile(object: R2Object, stats: ProcessingStats, reason: string, budget: { remaining: number }): void {
+	if (budget.remaining <= 0) {
+		stats.maxFilesReached = true;
+		return;
+	}
+	budget.remaining--;
+	stats.planned++;
+	if (stats.plannedKeys.length < MAX_PLANNED_KEYS) {
+		stats.plannedKeys.push({ key: object.key, type: getProcessor(object.key).type, reason });
+	}
+}
+
+// Helper function to process a single file based on its extension, unless
+// the pass has used up its budget of files or of money
+async function processFile(object: R2Object, env: Env, ctx: ExecutionContext, stats: ProcessingStats, results: ProcessorResult[], budget: { remaining: number }, spending: SpendingTracker): Promise<void> {
+	const objectName = object.key;
+	if (budget.remaining <= 0) {
+		stats.maxFilesReached = true;
+		return;
+	}
+	const exhausted = spending.exhausted();
+	if (exhausted) {
+		stats.budgetReached = exhausted;
+		return;
+	}
+	budget.remaining--;
+	console.log(`Processing file: ${objectName}`);
+
+	const result = await runProcessor(object, env, ctx);
+	if (!result) {
+		stats.skipped++;
+		return;
+	}
+	spending.add(result.usage);
+	recordResult(stats, result);
+	results.push(result);
+}
+
+// Add one processor result to the run stats
+function recordResult(stats: ProcessingStats, result: ProcessorResult): void {
+	const typeStats = stats.byType[result.type] ??= { success: 0, fallback: 0, failed: 0, skipped: 0, totalMs: 0 };
+	typeStats[result.status]++;
+	typeStats.totalMs += result.durationMs;
+	addUsage(stats.aiUsage, result.usage);
+	if (result.extensionMismatch) {
+		stats.mismatched++;
+	}
+
+	switch (result.status) {
+		case 'success':
+			stats.processed++;
+			break;
+		case 'fallback':
+			stats.processed++;
+			stats.fallback++;
+			break;
+		case 'skipped':
+			stats.skipped++;
+			break;
+		case 'failed':
+			stats.errors++;
+			if (stats.failed.length < MAX_FAILED_KEYS) {
+				stats.failed.push({ key: result.key, type: result.type, reason: result.reason ?? 'Unknown error' });
+			}
+			break;
+	}
+}
+
+// Add a slice's stats to the run's totals. `paused`, `maxFilesReached` and `budgetReached` reflect the latest slice only.
+function mergeStats(total: ProcessingStats, slice: ProcessingStats): void {
+	for (const field of ['processed', 'fallback', 'skipped', 'deadLettered', 'filtered', 'migrated', 'stale', 'mismatched', 'errors', 'planned'] as const) {
+		// Runs started by an older version may lack the newer counters
+		total[field] = (total[field] ?? 0) + slice[field];
+	}
+	for (const [type, counts] of Object.entries(slice.byType)) {
+		const typeTotal = total.byType[type] ??= { success: 0, fallback: 0, failed: 0, skipped: 0, totalMs: 0 };
+		for (const field of ['success', 'fallback', 'failed', 'skipped', 'totalMs'] as const) {
+			typeTotal[field] += counts[field];
+		}
+	}
+	total.failed.push(...slice.failed.slice(0, MAX_FAILED_KEYS - total.failed.length));
+	total.plannedKeys ??= [];
+	total.plannedKeys.push(...slice.plannedKeys.slice(0, MAX_PLANNED_KEYS - total.plannedKeys.length));
+	total.paused = slice.paused;
+	total.maxFilesReached = slice.maxFilesReached;
+	total.budgetReached = slice.budgetReached;
+	total.aiUsage = addUsage(total.aiUsage ?? emptyUsage(), slice.aiUsage);
+	total.queueWaits ??= {};
+	for (const [queue, wait] of Object.entries(slice.queueWaits)) {
+		const queueTotal = total.queueWaits[queue] ??= { tasks: 0, totalWaitMs: 0, maxWaitMs: 0 };
+		queueTotal.tasks += wait.tasks;
+		queueTotal.totalWaitMs += wait.totalWaitMs;
+		queueTotal.maxWaitMs = Math.max(queueTotal.maxWaitMs, wait.maxWaitMs);
+	}
+}
+
+function passDue(env: Env, state: SweepState): boolean {
+	return nextPassAt(env, state).getTime() <= Date.now();
+}
+
+// Files per pass at most (SWEEP_MAX_FILES), for passes that do not set their own limit
+function getDefaultMaxFiles(env: Env): number | undefined {
+	const configured = Number(env.SWEEP_MAX_FILES);
+	return Number.isInteger(configured) && configured > 0 ? configured : undefined;
+}
+
+function getSliceSize(env: Env): number {
+	const configured = Number(env.SWEEP_SLICE_SIZE);
+	return Number.isInteger(configured) && configured > 0 ? Math.min(configured, 1000) : DEFAULT_SLICE_SIZE;
+}
+
+async function readStateObject(env: Env): Promise<{ state: SweepState, etag: string | null }> {
+	const object = await env.MEDIA_BUCKET.get(SWEEP_STATE_KEY);
+	const empty: SweepState = { run: null, cursor: null, listed: 0, lastKey: null, leaseExpiresAt: null, failedSlices: 0, lastPass: null, lastFullPassAt: null };
+	if (!object) {
+		return { state: empty, etag: null };
+	}
+	try {
+		const stored = await object.json<Partial<SweepState>>();
+		// States written before lastFullPassAt was recorded only have lastPass, which was always a full pass
+		if (stored.lastFullPassAt === undefined) {
+			stored.lastFullPassAt = stored.lastPass?.startedAt ?? null;
+		}
+		return { state: { ...empty, ...stored }, etag: object.etag };
+	} catch (error) {
+		// Start afresh rather than never sweeping again
+		console.error(`Ignoring unreadable ${SWEEP_STATE_KEY}:`, error);
+		return { state: empty, etag: object.etag };
+	}
+}
+
+// Writes the state. With `etag` (null meaning "does not exist yet") the write
+// only succeeds if nobody else has written it since; returns whether it did.
+async function writeStateObject(env: Env, state: SweepState, etag?: string | null): Promise<boolean> {
+	const written = await env.MEDIA_BUCKET.put(SWEEP_STATE_KEY, JSON.stringify(state, null, 2), {
+		httpMetadata: { contentType: 'application/json' },
+		...(etag === undefined ? {} : { onlyIf: etag ? { etagMatches: etag } : { etagDoesNotMatch: '*' } }),
+	});
+	return written !== null;
+}
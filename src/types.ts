@@ -1,19 +1,142 @@
-import { DateTime, Str } from "chanfana";
+import { Bool, DateTime, Num, Str } from "chanfana";
 import type { Context } from "hono";
 import { z } from "zod";
-import { R2Bucket } from '@cloudflare/workers-types';
+import { D1Database, Queue, R2Bucket, Vectorize } from '@cloudflare/workers-types';
 import { Ai } from '@cloudflare/ai';
+import { AiUsageSchema } from './sidecar';
 
 export type AppContext = Context<{ Bindings: Env }>;
 
-export const Task = z.object({
-	name: Str({ example: "lorem" }),
-	slug: Str(),
-	description: Str({ required: false }),
-	completed: z.boolean().default(false),
-	due_date: DateTime(),
+/**
+ * An entry in the sidecar listing.
+ */
+export const MetadataListItem = z.object({
+	key: Str({ description: "Key of the source object", example: "campaigns/2025/hero.jpg" }),
+	metadataKey: Str({ description: "Key of the sidecar object", example: "campaigns/2025/hero.jpg.metadata.json" }),
+	size: Num({ description: "Size of the sidecar in bytes" }),
+	uploaded: DateTime({ description: "When the sidecar was written" }),
+});
+
+/**
+ * A search result. `score` is only meaningful relative to other hits for the same query.
+ */
+export const SearchHit = z.object({
+	key: Str({ description: "Key of the source object", example: "campaigns/2025/hero.jpg" }),
+	type: Str({ example: "image" }),
+	title: z.string().nullable(),
+	snippet: Str({ description: "Start of the caption or summary" }),
+	tags: z.array(z.string()),
+	score: Num(),
+	updatedAt: DateTime({ description: "When the sidecar was generated" }),
+});
+
+export const FacetCount = z.object({
+	value: Str(),
+	count: Num(),
+});
+
+/**
+ * A semantic search result. `score` is the cosine similarity (-1 to 1) to the query.
+ */
+export const SimilarHit = z.object({
+	key: Str({ description: "Key of the source object", example: "campaigns/2025/night-market.jpg" }),
+	type: z.string().nullable(),
+	score: Num(),
 });
 
+/**
+ * A file whose processing failed, as recorded in the failure ledger.
+ */
+export const FailureEntry = z.object({
+	key: Str({ description: "Key of the source object", example: "campaigns/2025/brochure.pdf" }),
+	processor: Str({ description: "Media type of the processor that failed", example: "pdf" }),
+	error: Str({ description: "Why the last attempt failed" }),
+	attempts: Num({ description: "Failed attempts at this version of the object" }),
+	firstFailedAt: DateTime(),
+	lastAttemptAt: DateTime(),
+	sourceEtag: z.string().nullable(),
+});
+
+const TypeStats = z.object({
+	success: Num(),
+	fallback: Num(),
+	failed: Num(),
+	skipped: Num(),
+	totalMs: Num({ description: "Time spent in this type's processor" }),
+});
+
+const QueueWait = z.object({
+	tasks: Num({ description: "Tasks that went through the queue" }),
+	totalWaitMs: Num({ description: "Time those tasks spent waiting for a slot" }),
+	maxWaitMs: Num(),
+});
+
+/**
+ * A processing run, with its stats once it has finished.
+ */
+export const Run = z.object({
+	id: Str({ description: "Run id; ids sort newest first", example: "8238071591999-9f86d081" }),
+	trigger: z.enum(["cron", "manual", "http"]),
+	options: z.object({
+		forceReprocess: z.boolean().optional(),
+		dryRun: z.boolean().optional().describe("Only report what the pass would process"),
+		maxFiles: Num({ description: "Files the pass processes at most" }).optional(),
+		prefix: z.string().optional().describe("Only keys starting with this"),
+		include: z.array(z.string()).optional().describe("Only keys matching one of these globs"),
+		exclude: z.array(z.string()).optional().describe("No keys matching any of these globs"),
+		types: z.array(z.string()).optional().describe("Only these media types"),
+		modifiedSince: DateTime({ description: "Only objects uploaded since" }).optional(),
+		budgetUsd: z.number().optional().describe("Estimated AI cost in US dollars after which the pass stops"),
+	}),
+	status: z.enum(["running", "completed", "failed"]),
+	startedAt: DateTime(),
+	finishedAt: DateTime().nullable(),
+	durationMs: z.number().nullable(),
+	slices: Num({ description: "Slices (invocations) the run has taken so far" }),
+	stats: z.object({
+		processed: Num(),
+		fallback: Num(),
+		skipped: Num(),
+		deadLettered: Num(),
+		filtered: Num({ description: "Objects outside the run's prefix, globs, types or date" }),
+		migrated: Num(),
+		stale: Num(),
+		mismatched: Num({ description: "Files whose content is not in the format their extension implies" }),
+		errors: Num(),
+		byType: z.record(TypeStats),
+		failed: z.array(z.object({
+			key: z.string(),
+			type: z.string(),
+			reason: z.string(),
+		})),
+		planned: Num({ description: "Files a dry run would have processed" }),
+		plannedKeys: z.array(z.object({
+			key: z.string(),
+			type: z.string(),
+			reason: z.string(),
+		})).describe("The first 1000 of those files, with the reason each would be processed"),
+		paused: z.string().nullable(),
+		maxFilesReached: Bool({ description: "Whether the pass ended early because it reached maxFiles" }),
+		queueWaits: z.record(QueueWait).describe("Waits for a concurrency slot, keyed files, r2 and ai:<provider>"),
+		aiUsage: AiUsageSchema.describe("Tokens, neurons and estimated cost of the pass's AI calls"),
+		budgetReached: z.string().nullable().describe("Which budget ended the pass early, if one did"),
+	}),
+	error: z.string().nullable(),
+});
+
+// Path parameter shared by the per-object routes
+export const ObjectKeyParam = z.object({
+	key: Str({ description: "Object key, URL-encoded (e.g. campaigns%2F2025%2Fhero.jpg)", example: "campaigns%2F2025%2Fhero.jpg" }),
+});
+
+// Envelope used by every JSON API response
+export function successResponse<T extends z.ZodTypeAny>(result: T) {
+	return z.object({
+		success: Bool(),
+		result: result,
+	});
+}
+
 /**
  * Defines the environment bindings expected by the worker.
  * These must match the bindings configured in wrangler.toml
@@ -25,6 +148,14 @@ export interface Env {
 	// Binding for Cloudflare AI
 	AI: Ai;
 
+	// D1 database holding the search index. Optional: without it search uses
+	// an in-memory index that is lost when the isolate is recycled.
+	SEARCH_DB?: D1Database;
+
+	// Vectorize index holding caption/summary embeddings. Optional, with the
+	// same in-memory fallback as SEARCH_DB.
+	VECTOR_INDEX?: Vectorize;
+
 	// Example binding to KV. Learn more at https://developers.cloudflare.com/workers/runtime-apis/kv/
 	// MY_KV_NAMESPACE: KVNamespace;
 	//
@@ -40,4 +171,78 @@ export interface Env {
 	// Secrets (like API keys) should be stored using Wrangler secrets
 	// Learn more at https://developers.cloudflare.com/workers/wrangler/commands/#secret
 	OPENAI_API_KEY: string;
+
+	// API keys, comma-separated, for callers that may only read (READONLY_API_KEYS) or may also
+	// start runs, process, retry and delete (OPERATOR_API_KEYS). Without any, every request is refused.
+	READONLY_API_KEYS?: string;
+	OPERATOR_API_KEYS?: string;
+	// Signs UI session cookies; signing in to the UI is disabled without it
+	SESSION_SECRET?: string;
+	// Overrides https://api.openai.com/v1, e.g. to go through a proxy or a local fake of the API
+	OPENAI_BASE_URL?: string;
+
+	// AI provider selection: "openai", "workers-ai" or "stub". AI_PROVIDER applies
+	// to every task unless the task's own variable is set.
+	AI_PROVIDER?: string;
+	AI_PROVIDER_IMAGE?: string;
+	AI_PROVIDER_PDF?: string;
+	AI_PROVIDER_DOCUMENT?: string;
+	AI_PROVIDER_AUDIO?: string;
+	AI_PROVIDER_TEXT?: string;
+	AI_PROVIDER_EMBEDDING?: string;
+
+	// Failed attempts after which a file is dead-lettered and skipped by the sweep (default 3)
+	MAX_FAILURE_ATTEMPTS?: string;
+
+	// Sweep tuning: objects listed per slice (default 200) and hours between scheduled passes (default 24)
+	SWEEP_SLICE_SIZE?: string;
+	SWEEP_INTERVAL_HOURS?: string;
+	// Files processed per pass at most, for passes that do not set their own limit; unset means no limit
+	SWEEP_MAX_FILES?: string;
+
+	// Concurrency limits within a sweep slice: files in progress (default 6), R2 calls in flight (default 6)
+	// and calls in flight per AI provider (default 4, or AI_CONCURRENCY; each provider can override it)
+	SWEEP_CONCURRENCY?: string;
+	R2_CONCURRENCY?: string;
+	AI_CONCURRENCY?: string;
+	AI_CONCURRENCY_OPENAI?: string;
+	AI_CONCURRENCY_WORKERS_AI?: string;
+
+	// Budgets in US dollars for the estimated cost of AI calls: per run, for runs that do not set
+	// their own, and per calendar month (UTC) across runs and uploads. Unset means no budget.
+	RUN_BUDGET_USD?: string;
+	MONTHLY_BUDGET_USD?: string;
+
+	// Queue the sweep sends its next slice to, so a pass does not have to wait for the next cron tick.
+	// Point it at the queue this worker consumes.
+	SWEEP_QUEUE?: Queue<SweepContinuation>;
+}
+
+/**
+ * Body of an R2 event notification message delivered through a Queue.
+ * See https://developers.cloudflare.com/r2/buckets/event-notifications/
+ */
+export interface R2EventNotification {
+	account: string;
+	bucket: string;
+	object: {
+		key: string;
+		size?: number;
+		eTag?: string;
+	};
+	action: 'PutObject' | 'CopyObject' | 'CompleteMultipartUpload' | 'DeleteObject' | 'LifecycleDeletion';
+	eventTime: string;
+	copySource?: {
+		bucket: string;
+		object: string;
+	};
+}
+
+/**
+ * Queue message asking for the next slice of a sweep pass. The sweep sends one
+ * to SWEEP_QUEUE after every slice that did not finish the pass.
+ */
+export interface SweepContinuation {
+	kind: 'sweep';
+	runId: string;
 }
@@ -0,0 +1,162 @@
+import { Env } from './types';
+import { INTERNAL_PREFIX } from './metadata';
+import { ProcessorResult } from './processors/types';
+import { addUsage, AiUsageSummary, emptyUsage } from './ai/usage';
+
+export const USAGE_PREFIX = `${INTERNAL_PREFIX}usage/`;
+
+// A month's ledger is one object, so concurrent writers retry on an etag conflict
+const MAX_LEDGER_WRITES = 5;
+
+/**
+ * AI usage of every file processed in one calendar month (UTC), whether by a
+ * sweep, an upload event or the API. Stored at USAGE_PREFIX + "YYYY-MM.json".
+ */
+export interface MonthlyUsage {
+	month: string;
+	// Files whose processing made AI calls
+	files: number;
+	usage: AiUsageSummary;
+	updatedAt: string | null;
+}
+
+/**
+ * Spending caps in US dollars; null means no cap.
+ */
+export interface Budgets {
+	run: number | null;
+	monthly: number | null;
+}
+
+/**
+ * The month a date falls in, as "YYYY-MM" (UTC).
+ */
+export function usageMonth(date = new Date()): string {
+	return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Budget per run for runs that do not set their own (RUN_BUDGET_USD).
+ */
+export function getDefaultRunBudget(env: Env): number | undefined {
+	return positiveAmount(env.RUN_BUDGET_USD) ?? undefined;
+}
+
+export function getMonthlyBudget(env: Env): number | null {
+	return positiveAmount(env.MONTHLY_BUDGET_USD);
+}
+
+export async function readMonthlyUsage(env: Env, month = usageMonth()): Promise<MonthlyUsage> {
+	return (await readLedgerObject(env, month)).ledger;
+}
+
+/**
+ * Adds the AI usage of processor results to this month's ledger in a single
+ * write. Failing to record it is logged and never fails the caller.
+ */
+export async function recordUsage(env: Env, results: ProcessorResult[]): Promise<void> {
+	const metered = results.filter(result => result.usage && result.usage.calls > 0);
+	if (metered.length === 0) {
+		return;
+	}
+	const month = usageMonth();
+	try {
+		for (let attempt = 1; attempt <= MAX_LEDGER_WRITES; attempt++) {
+			const { ledger, etag } = await readLedgerObject(env, month);
+			ledger.files += metered.length;
+			for (const result of metered) {
+				addUsage(ledger.usage, result.usage);
+			}
+			ledger.updatedAt = new Date().toISOString();
+			const written = await env.MEDIA_BUCKET.put(ledgerKey(month), JSON.stringify(ledger, null, 2), {
+				httpMetadata: { contentType: 'application/json' },
+				onlyIf: etag ? { etagMatches: etag } : { etagDoesNotMatch: '*' },
+			});
+			if (written) {
+				return;
+			}
+		}
+		throw new Error(`${ledgerKey(month)} kept changing underneath us`);
+	} catch (error) {
+		console.error('Error recording AI usage:', error);
+	}
+}
+
+/**
+ * Keeps track of spending against the budgets while a sweep slice runs. It
+ * starts from what the run and the month had spent before the slice, and the
+ * slice adds each file's cost as it finishes. Files already in progress when a
+ * budget is reached still finish, so a run can end slightly over its budget.
+ */
+export class SpendingTracker {
+	constructor(private budgets: Budgets, private runSpent: number, private monthSpent: number) {}
+
+	add(usage: AiUsageSummary | null): void {
+		this.runSpent += usage?.costUsd ?? 0;
+		this.monthSpent += usage?.costUsd ?? 0;
+	}
+
+	/**
+	 * Which budget has been used up, as a message; null if neither has.
+	 */
+	exhausted(): string | null {
+		if (this.budgets.run !== null && this.runSpent >= this.budgets.run) {
+			return `Run budget of ${formatUsd(this.budgets.run)} reached (${formatUsd(this.runSpent)} spent)`;
+		}
+		if (this.budgets.monthly !== null && this.monthSpent >= this.budgets.monthly) {
+			return `Monthly budget of ${formatUsd(this.budgets.monthly)} reached (${formatUsd(this.monthSpent)} spent in ${usageMonth()})`;
+		}
+		return null;
+	}
+}
+
+/**
+ * A tracker for a slice of a run that has spent `runSpent` so far. The month's
+ * ledger is only read when there is a monthly budget.
+ */
+export async function trackSpending(env: Env, runBudget: number | undefined, runSpent: number): Promise<SpendingTracker> {
+	const monthly = getMonthlyBudget(env);
+	const monthSpent = monthly === null ? 0 : (await readMonthlyUsage(env)).usage.costUsd;
+	return new SpendingTracker({ run: runBudget ?? null, monthly }, runSpent, monthSpent);
+}
+
+/**
+ * Why uploads should not be processed right now: this month's spending has
+ * reached MONTHLY_BUDGET_USD. Null if it has not, or there is no such budget.
+ */
+export async function monthlyBudgetReached(env: Env): Promise<string | null> {
+	return (await trackSpending(env, undefined, 0)).exhausted();
+}
+
+/**
+ * Dollar amounts as shown in messages and the UI. Per-file costs are often
+ * fractions of a cent, so small amounts keep more digits.
+ */
+export function formatUsd(amount: number): string {
+	return amount > 0 && amount < 1 ? `$${amount.toFixed(4)}` : `$${amount.toFixed(2)}`;
+}
+
+function ledgerKey(month: string): string {
+	return `${USAGE_PREFIX}${month}.json`;
+}
+
+async function readLedgerObject(env: Env, month: string): Promise<{ ledger: MonthlyUsage, etag: string | null }> {
+	const empty: MonthlyUsage = { month, files: 0, usage: emptyUsage(), updatedAt: null };
+	const object = await env.MEDIA_BUCKET.get(ledgerKey(month));
+	if (!object) {
+		return { ledger: empty, etag: null };
+	}
+	try {
+		const stored = await object.json<Partial<MonthlyUsage>>() ?? {};
+		return { ledger: { ...empty, ...stored, usage: addUsage(emptyUsage(), stored.usage) }, etag: object.etag };
+	} catch (error) {
+		// Start afresh rather than leaving every writer stuck on a corrupt ledger
+		console.error(`Ignoring unreadable ${ledgerKey(month)}:`, error);
+		return { ledger: empty, etag: object.etag };
+	}
+}
+
+function positiveAmount(value: unknown): number | null {
+	const parsed = Number(value);
+	return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed > 0 ? parsed : null;
+}
@@ -0,0 +1,121 @@
+import { ExecutionContext } from '@cloudflare/workers-types';
+import { Env } from '../src/types';
+
+interface StoredObject {
+	data: Uint8Array;
+	etag: string;
+	uploaded: Date;
+	httpMetadata: Record<string, string>;
+	customMetadata: Record<string, string>;
+}
+
+/**
+ * An in-memory stand-in for the parts of an R2 bucket the worker uses: head,
+ * get (with ranges), put (with etag conditions), delete and list. `objects`
+ * holds what has been stored, so tests can look at it directly.
+ */
+export class FakeBucket {
+	readonly objects = new Map<string, StoredObject>();
+	private writes = 0;
+
+	constructor(files: Record<string, string | Uint8Array> = {}) {
+		for (const [key, value] of Object.entries(files)) {
+			this.store(key, value);
+		}
+	}
+
+	async head(key: string) {
+		const object = this.objects.get(key);
+		return object ? this.describe(key, object) : null;
+	}
+
+	async get(key: string, options: { range?: { offset?: number, length?: number } } = {}) {
+		const object = this.objects.get(key);
+		if (!object) {
+			return null;
+		}
+		const offset = options.range?.offset ?? 0;
+		const length = options.range?.length ?? object.data.length - offset;
+		const data = object.data.slice(offset, offset + length);
+		return {
+			...this.describe(key, object),
+			arrayBuffer: async () => data.buffer,
+			text: async () => new TextDecoder().decode(data),
+			json: async () => JSON.parse(new TextDecoder().decode(data)),
+		};
+	}
+
+	async put(key: string, value: string | Uint8Array | ArrayBuffer, options: { httpMetadata?: Record<string, string>, customMetadata?: Record<string, string>, onlyIf?: { etagMatches?: string, etagDoesNotMatch?: string } } = {}) {
+		const existing = this.objects.get(key);
+		if (options.onlyIf?.etagMatches && existing?.etag !== options.onlyIf.etagMatches) {
+			return null;
+		}
+		if (options.onlyIf?.etagDoesNotMatch === '*' && existing) {
+			return null;
+		}
+		return this.describe(key, this.store(key, value, options));
+	}
+
+	async delete(keys: string | string[]) {
+		for (const key of [keys].flat()) {
+			this.objects.delete(key);
+		}
+	}
+
+	async list(options: { prefix?: string, cursor?: string, limit?: number } = {}) {
+		const keys = [...this.objects.keys()].filter(key => key.startsWith(options.prefix ?? '')).sort();
+		const start = options.cursor ? Number(options.cursor) : 0;
+		const end = start + (options.limit ?? 1000);
+		const truncated = end < keys.length;
+		return {
+			objects: keys.slice(start, end).map(key => this.describe(key, this.objects.get(key))),
+			truncated,
+			cursor: truncated ? String(end) : undefined,
+			delimitedPrefixes: [],
+		};
+	}
+
+	// Parses a stored JSON object, e.g. a sidecar
+	readJson(key: string): any {
+		const object = this.objects.get(key);
+		return object ? JSON.parse(new TextDecoder().decode(object.data)) : null;
+	}
+
+	private store(key: string, value: string | Uint8Array | ArrayBuffer, options: { httpMetadata?: Record<string, string>, customMetadata?: Record<string, string> } = {}): StoredObject {
+		const data = typeof value === 'string' ? new TextEncoder().encode(value) : new Uint8Array(value);
+		const object = {
+			data,
+			etag: `etag-${++this.writes}`,
+			uploaded: new Date(),
+			httpMetadata: options.httpMetadata ?? {},
+			customMetadata: options.customMetadata ?? {},
+		};
+		this.objects.set(key, object);
+		return object;
+	}
+
+	private describe(key: string, object: StoredObject) {
+		return {
+			key,
+			size: object.data.length,
+			etag: object.etag,
+			httpEtag: `"${object.etag}"`,
+			version: object.etag,
+			uploaded: object.uploaded,
+			httpMetadata: object.httpMetadata,
+			customMetadata: object.customMetadata,
+		};
+	}
+}
+
+/**
+ * An environment with a fake bucket and the offline stub AI provider for every task.
+ */
+export function createTestEnv(bucket: FakeBucket, vars: Partial<Env> = {}): Env {
+	return { MEDIA_BUCKET: bucket, AI_PROVIDER: 'stub', ...vars } as unknown as Env;
+}
+
+export const testContext = {
+	waitUntil: () => {},
+	passThroughOnException: () => {},
+} as unknown as ExecutionContext;
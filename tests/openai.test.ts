@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { OpenAiProvider as Provider } from '../src/ai/openai';
+import type { CircuitOpenError as OpenError, getCircuitBreaker as getBreaker } from '../src/ai/retry';
+
+const BASE_URL = 'http://fake-openai.test/v1';
+const REQUEST = { name: 'notes/garden.md', kind: 'Markdown document', text: 'Prune roses in spring.' };
+
+// Circuit breakers are kept per provider for the life of the module, so each
+// test imports a fresh copy
+let OpenAiProvider: typeof Provider;
+let CircuitOpenError: typeof OpenError;
+let getCircuitBreaker: typeof getBreaker;
+
+function chatCompletion(content: string): Response {
+	return Response.json({
+		choices: [{ message: { content } }],
+		usage: { prompt_tokens: 120, completion_tokens: 30 },
+	});
+}
+
+function errorResponse(status: number, headers: Record<string, string> = {}): Response {
+	return new Response(`{"error":{"message":"status ${status}"}}`, { status, headers });
+}
+
+// Answers each request with the next response in turn
+function scriptFetch(...responses: Response[]) {
+	return vi.spyOn(globalThis, 'fetch').mockImplementation(async () => {
+		const response = responses.shift();
+		if (!response) {
+			throw new Error('No more scripted responses');
+		}
+		return response;
+	});
+}
+
+describe('OpenAiProvider', () => {
+	let delays: number[];
+
+	beforeEach(async () => {
+		vi.resetModules();
+		({ OpenAiProvider } = await import('../src/ai/openai'));
+		({ CircuitOpenError, getCircuitBreaker } = await import('../src/ai/retry'));
+		delays = [];
+		// Record each wait instead of sleeping
+		vi.spyOn(globalThis, 'setTimeout').mockImplementation(((callback: () => void, ms: number) => {
+			delays.push(ms);
+			callback();
+			return 0;
+		}) as typeof setTimeout);
+		vi.spyOn(Math, 'random').mockReturnValue(0.5);
+	});
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('retries a rate limit after Retry-After and a server error with backoff, then succeeds', async () => {
+		const fetch = scriptFetch(
+			errorResponse(429, { 'retry-after': '1' }),
+			errorResponse(500),
+			chatCompletion('Notes on pruning roses.\n\nTAGS: roses, gardening'),
+		);
+
+		const summary = await new OpenAiProvider('sk-test', BASE_URL).summarizeText(REQUEST);
+
+		expect(summary).toEqual({ summary: 'Notes on pruning roses.', tags: ['roses', 'gardening'] });
+		expect(fetch).toHaveBeenCalledTimes(3);
+		expect(fetch).toHaveBeenCalledWith(`${BASE_URL}/chat/completions`, expect.objectContaining({ method: 'POST' }));
+		// Retry-After's second beats the jittered 250 ms; then half (Math.random) of 1000 ms
+		expect(delays).toEqual([1000, 500]);
+		expect(getCircuitBreaker('openai').state).toBe('closed');
+	});
+
+	it('opens the circuit after a run of server errors and then fails without calling the API', async () => {
+		const fetch = scriptFetch(...Array.from({ length: 5 }, () => errorResponse(500)));
+		const provider = new OpenAiProvider('sk-test', BASE_URL);
+
+		await expect(provider.summarizeText(REQUEST)).rejects.toThrow('OpenAI API Error: 500');
+
+		expect(fetch).toHaveBeenCalledTimes(5);
+		expect(delays).toHaveLength(4);
+		expect(getCircuitBreaker('openai').state).toBe('open');
+		await expect(provider.summarizeText(REQUEST)).rejects.toBeInstanceOf(CircuitOpenError);
+		expect(fetch).toHaveBeenCalledTimes(5);
+	});
+
+	it('does not open the circuit on rate limits', async () => {
+		scriptFetch(...Array.from({ length: 5 }, () => errorResponse(429, { 'retry-after': '0' })));
+
+		await expect(new OpenAiProvider('sk-test', BASE_URL).summarizeText(REQUEST)).rejects.toThrow('OpenAI API Error: 429');
+
+		expect(getCircuitBreaker('openai').state).toBe('closed');
+	});
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { processKey } from '../src/processors';
+import { getMetadataKey } from '../src/metadata';
+import { getVectorStore } from '../src/search';
+import { createTestEnv, FakeBucket, testContext } from './helpers';
+
+// A PNG signature and an IHDR chunk for a 2x1 image; enough to be sniffed and sized
+const PNG = new Uint8Array([
+	0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a,
+	0x00, 0x00, 0x00, 0x0d, 0x49, 0x48, 0x44, 0x52,
+	0x00, 0x00, 0x00, 0x02, 0x00, 0x00, 0x00, 0x01, 0x08, 0x02, 0x00, 0x00, 0x00,
+	0x00, 0x00, 0x00, 0x00,
+]);
+
+describe('processors with the stub provider', () => {
+	it('captions an image and records it for search', async () => {
+		const bucket = new FakeBucket({ 'photos/sunset-beach.png': PNG });
+		const env = createTestEnv(bucket);
+
+		const result = await processKey('photos/sunset-beach.png', env, testContext);
+
+		expect(result).toMatchObject({ status: 'success', type: 'image', detectedMimeType: 'image/png', extensionMismatch: false });
+		const sidecar = bucket.readJson(getMetadataKey('photos/sunset-beach.png'));
+		expect(sidecar).toMatchObject({
+			type: 'image',
+			caption: `An image named sunset-beach.png (image/png, ${PNG.length} bytes).`,
+			aiProvider: 'stub',
+			aiUsage: null,
+			duplicateOf: null,
+		});
+		expect(sidecar.tags).toEqual(expect.arrayContaining(['sunset', 'beach']));
+		expect(await getVectorStore(env).get('photos/sunset-beach.png')).not.toBeNull();
+	});
+
+	it('copies the description and vector of an identical file', async () => {
+		const bucket = new FakeBucket({ 'a/original.png': PNG, 'b/copy.png': PNG });
+		const env = createTestEnv(bucket);
+
+		await processKey('a/original.png', env, testContext);
+		const result = await processKey('b/copy.png', env, testContext);
+
+		expect(result).toMatchObject({ status: 'success' });
+		const original = bucket.readJson(getMetadataKey('a/original.png'));
+		const copy = bucket.readJson(getMetadataKey('b/copy.png'));
+		expect(copy).toMatchObject({ caption: original.caption, tags: original.tags, duplicateOf: 'a/original.png' });
+		const vectors = getVectorStore(env);
+		expect(await vectors.get('b/copy.png')).toEqual(await vectors.get('a/original.png'));
+	});
+
+	it('summarises Markdown and records its outline', async () => {
+		const markdown = '# Garden Guide\n\nWatering the garden early keeps the roses healthy.\n\n## Roses\n\nPrune roses in spring.\n';
+		const bucket = new FakeBucket({ 'docs/garden.md': markdown });
+
+		const result = await processKey('docs/garden.md', createTestEnv(bucket), testContext);
+
+		expect(result).toMatchObject({ status: 'success', type: 'text', detectedMimeType: 'text/markdown' });
+		expect(bucket.readJson(getMetadataKey('docs/garden.md'))).toMatchObject({
+			type: 'text',
+			format: 'markdown',
+			title: 'Garden Guide',
+			// The stub summarises with the first two sentences of the text
+			summary: '# Garden Guide Watering the garden early keeps the roses healthy. ## Roses Prune roses in spring.',
+			outline: [{ level: 1, text: 'Garden Guide' }, { level: 2, text: 'Roses' }],
+			aiProvider: 'stub',
+		});
+	});
+
+	it('falls back when a JSON file does not parse', async () => {
+		const bucket = new FakeBucket({ 'data/broken.json': '{"name": "pkg", "version": ' });
+
+		const result = await processKey('data/broken.json', createTestEnv(bucket), testContext);
+
+		expect(result).toMatchObject({ status: 'fallback', type: 'text' });
+		expect(result !== 'missing' && result !== 'unsupported' && result.reason).toMatch(/^Not valid JSON/);
+		expect(bucket.readJson(getMetadataKey('data/broken.json'))).toMatchObject({ format: 'json', json: null });
+	});
+
+	it('processes a file by its content when the extension is wrong', async () => {
+		const bucket = new FakeBucket({ 'misc/image.txt': PNG });
+
+		const result = await processKey('misc/image.txt', createTestEnv(bucket), testContext);
+
+		expect(result).toMatchObject({ status: 'success', type: 'image', detectedMimeType: 'image/png', extensionMismatch: true });
+		expect(bucket.readJson(getMetadataKey('misc/image.txt'))).toMatchObject({ type: 'image', extensionMismatch: true });
+	});
+
+	it('reports missing and unsupported files', async () => {
+		const env = createTestEnv(new FakeBucket({ 'archive/data.bin': 'binary' }));
+
+		expect(await processKey('photos/missing.png', env, testContext)).toBe('missing');
+		expect(await processKey('archive/data.bin', env, testContext)).toBe('unsupported');
+	});
+});
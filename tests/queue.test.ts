@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { createLocalBatch, handleQueueBatch } from '../src/queue';
+import { getMetadataKey } from '../src/metadata';
+import { R2EventNotification } from '../src/types';
+import { createTestEnv, FakeBucket, testContext } from './helpers';
+
+function event(action: R2EventNotification['action'], key: string): R2EventNotification {
+	return {
+		account: 'account',
+		bucket: 'media',
+		object: { key },
+		action,
+		eventTime: new Date().toISOString(),
+	};
+}
+
+describe('handleQueueBatch', () => {
+	it('processes created objects and acks each message', async () => {
+		const bucket = new FakeBucket({
+			'notes/garden.txt': 'The garden needs watering twice a week during the summer.',
+			'notes/plan.md': '# Planting plan\n\nTomatoes go in the sunny bed.',
+		});
+		const batch = createLocalBatch([
+			event('PutObject', 'notes/garden.txt'),
+			event('CompleteMultipartUpload', 'notes/plan.md'),
+		]);
+
+		await handleQueueBatch(batch, createTestEnv(bucket), testContext);
+
+		expect([...batch.acked].sort()).toEqual(['local-0', 'local-1']);
+		expect(batch.retried.size).toBe(0);
+		expect(bucket.readJson(getMetadataKey('notes/garden.txt'))).toMatchObject({ type: 'text', format: 'txt', aiProvider: 'stub' });
+		expect(bucket.readJson(getMetadataKey('notes/plan.md'))).toMatchObject({ type: 'text', format: 'markdown', title: 'Planting plan' });
+	});
+
+	it('retries a message whose file fails to process without holding up the others', async () => {
+		const bucket = new FakeBucket({
+			'photos/broken.jpg': new Uint8Array([0x00, 0x01, 0x02, 0x03, 0x04, 0x05]),
+			'notes/ok.txt': 'Short note.',
+		});
+		const batch = createLocalBatch([
+			event('PutObject', 'photos/broken.jpg'),
+			event('PutObject', 'notes/ok.txt'),
+		]);
+
+		await handleQueueBatch(batch, createTestEnv(bucket), testContext);
+
+		expect([...batch.retried]).toEqual(['local-0']);
+		expect([...batch.acked]).toEqual(['local-1']);
+		expect(bucket.objects.has(getMetadataKey('photos/broken.jpg'))).toBe(false);
+	});
+
+	it('removes the sidecar of a deleted object, but not of one that exists again', async () => {
+		const bucket = new FakeBucket({
+			'notes/gone.txt': 'Soon to be deleted.',
+			'notes/back.txt': 'Deleted and uploaded again.',
+		});
+		const env = createTestEnv(bucket);
+		await handleQueueBatch(createLocalBatch([event('PutObject', 'notes/gone.txt'), event('PutObject', 'notes/back.txt')]), env, testContext);
+		await bucket.delete('notes/gone.txt');
+
+		const batch = createLocalBatch([
+			event('DeleteObject', 'notes/gone.txt'),
+			event('LifecycleDeletion', 'notes/back.txt'),
+		]);
+		await handleQueueBatch(batch, env, testContext);
+
+		expect([...batch.acked].sort()).toEqual(['local-0', 'local-1']);
+		expect(batch.retried.size).toBe(0);
+		expect(bucket.objects.has(getMetadataKey('notes/gone.txt'))).toBe(false);
+		expect(bucket.objects.has(getMetadataKey('notes/back.txt'))).toBe(true);
+	});
+
+	it('retries a delete when the bucket cannot be reached', async () => {
+		const bucket = new FakeBucket();
+		bucket.head = async () => {
+			throw new Error('R2 is unavailable');
+		};
+		const batch = createLocalBatch([event('DeleteObject', 'notes/any.txt')]);
+
+		await handleQueueBatch(batch, createTestEnv(bucket), testContext);
+
+		expect([...batch.retried]).toEqual(['local-0']);
+		expect(batch.acked.size).toBe(0);
+	});
+
+	it('acks events for sidecars, unsupported files and malformed messages without processing them', async () => {
+		const bucket = new FakeBucket({
+			'notes/a.txt.metadata.json': '{}',
+			'archive/data.bin': 'binary',
+		});
+		const malformed = { ...event('PutObject', ''), object: undefined } as unknown as R2EventNotification;
+		const batch = createLocalBatch([
+			event('PutObject', 'notes/a.txt.metadata.json'),
+			event('PutObject', 'archive/data.bin'),
+			malformed,
+		]);
+
+		await handleQueueBatch(batch, createTestEnv(bucket), testContext);
+
+		expect([...batch.acked].sort()).toEqual(['local-0', 'local-1', 'local-2']);
+		expect(batch.retried.size).toBe(0);
+		expect([...bucket.objects.keys()].sort()).toEqual(['archive/data.bin', 'notes/a.txt.metadata.json']);
+	});
+});
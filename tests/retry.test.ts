@@ -0,0 +1,258 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AiProviderError, CircuitBreaker, CircuitOpenError, retryAfterFromHeaders, RetryPolicy, withRetry } from '../src/ai/retry';
+
+const POLICY: RetryPolicy = { maxAttempts: 4, baseDelayMs: 100, maxDelayMs: 1000 };
+
+// Fails with each error in turn, then returns 'done'
+function failing(...errors: Error[]) {
+	return vi.fn(async () => {
+		const error = errors.shift();
+		if (error) {
+			throw error;
+		}
+		return 'done';
+	});
+}
+
+function serverError(retryAfterMs: number | null = null): AiProviderError {
+	return new AiProviderError('503 Service Unavailable', 503, true, retryAfterMs);
+}
+
+describe('retryAfterFromHeaders', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2025-06-01T12:00:00Z'));
+	});
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('reads Retry-After in seconds or as an HTTP date', () => {
+		expect(retryAfterFromHeaders(new Headers({ 'retry-after': '2' }))).toBe(2000);
+		expect(retryAfterFromHeaders(new Headers({ 'retry-after': '0.5' }))).toBe(500);
+		expect(retryAfterFromHeaders(new Headers({ 'retry-after': 'Sun, 01 Jun 2025 12:00:30 GMT' }))).toBe(30_000);
+		// A date in the past means no wait
+		expect(retryAfterFromHeaders(new Headers({ 'retry-after': 'Sun, 01 Jun 2025 11:59:00 GMT' }))).toBe(0);
+	});
+
+	it('falls back to the reset time of a used-up rate limit', () => {
+		const headers = new Headers({
+			'x-ratelimit-remaining-requests': '0',
+			'x-ratelimit-reset-requests': '1.5s',
+			'x-ratelimit-remaining-tokens': '0',
+			'x-ratelimit-reset-tokens': '6m0s',
+		});
+		expect(retryAfterFromHeaders(headers)).toBe(360_000);
+		// Retry-After wins over the rate limit headers
+		headers.set('retry-after', '3');
+		expect(retryAfterFromHeaders(headers)).toBe(3000);
+	});
+
+	it('ignores limits that are not used up and values it cannot read', () => {
+		expect(retryAfterFromHeaders(new Headers({ 'x-ratelimit-remaining-requests': '10', 'x-ratelimit-reset-requests': '20ms' }))).toBeNull();
+		expect(retryAfterFromHeaders(new Headers({ 'x-ratelimit-remaining-tokens': '0', 'x-ratelimit-reset-tokens': 'soon' }))).toBeNull();
+		expect(retryAfterFromHeaders(new Headers({ 'retry-after': 'later' }))).toBeNull();
+		expect(retryAfterFromHeaders(new Headers())).toBeNull();
+	});
+});
+
+describe('withRetry', () => {
+	let delays: number[];
+
+	beforeEach(() => {
+		delays = [];
+		// Record each wait instead of sleeping
+		vi.spyOn(globalThis, 'setTimeout').mockImplementation(((callback: () => void, ms: number) => {
+			delays.push(ms);
+			callback();
+			return 0;
+		}) as typeof setTimeout);
+		vi.spyOn(Math, 'random').mockReturnValue(0.5);
+	});
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	it('backs off exponentially with full jitter until the call succeeds', async () => {
+		const operation = failing(serverError(), serverError(), serverError());
+
+		await expect(withRetry(new CircuitBreaker('test'), operation, POLICY)).resolves.toBe('done');
+
+		expect(operation).toHaveBeenCalledTimes(4);
+		// Half (Math.random) of 100, 200 and 400 ms
+		expect(delays).toEqual([50, 100, 200]);
+	});
+
+	it('caps the backoff at maxDelayMs', async () => {
+		vi.mocked(Math.random).mockReturnValue(1);
+		const policy = { ...POLICY, maxAttempts: 6 };
+		const operation = failing(serverError(), serverError(), serverError(), serverError(), serverError());
+
+		await withRetry(new CircuitBreaker('test', 10), operation, policy);
+
+		expect(delays).toEqual([100, 200, 400, 800, 1000]);
+	});
+
+	it('waits at least as long as Retry-After asks', async () => {
+		const operation = failing(serverError(700), serverError(10));
+
+		await withRetry(new CircuitBreaker('test'), operation, POLICY);
+
+		// 700 beats the jittered 50; the jittered 100 beats 10
+		expect(delays).toEqual([700, 100]);
+	});
+
+	it('gives up when Retry-After asks for longer than maxDelayMs', async () => {
+		const error = serverError(5000);
+		const operation = failing(error);
+
+		await expect(withRetry(new CircuitBreaker('test'), operation, POLICY)).rejects.toBe(error);
+		expect(operation).toHaveBeenCalledTimes(1);
+	});
+
+	it('rethrows errors that are not retryable straight away', async () => {
+		const badRequest = new AiProviderError('400 Bad Request', 400, false);
+		const operation = failing(badRequest);
+
+		await expect(withRetry(new CircuitBreaker('test'), operation, POLICY)).rejects.toBe(badRequest);
+		expect(operation).toHaveBeenCalledTimes(1);
+		expect(delays).toEqual([]);
+	});
+
+	it('throws the last error after maxAttempts', async () => {
+		const last = serverError();
+		const operation = failing(serverError(), serverError(), serverError(), last);
+
+		await expect(withRetry(new CircuitBreaker('test', 10), operation, POLICY)).rejects.toBe(last);
+		expect(operation).toHaveBeenCalledTimes(4);
+	});
+
+	it('stops retrying once the circuit opens', async () => {
+		const breaker = new CircuitBreaker('test', 2);
+		const operation = failing(serverError(), serverError(), serverError());
+
+		await expect(withRetry(breaker, operation, POLICY)).rejects.toBeInstanceOf(CircuitOpenError);
+		expect(operation).toHaveBeenCalledTimes(2);
+		expect(breaker.state).toBe('open');
+	});
+});
+
+describe('CircuitBreaker', () => {
+	const COOLDOWN_MS = 60_000;
+	let breaker: CircuitBreaker;
+
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(new Date('2025-06-01T12:00:00Z'));
+		breaker = new CircuitBreaker('test', 3, COOLDOWN_MS);
+	});
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	// Opens the circuit and waits out the cooldown
+	function openAndCoolDown() {
+		breaker.recordFailure();
+		breaker.recordFailure();
+		breaker.recordFailure();
+		vi.advanceTimersByTime(COOLDOWN_MS);
+	}
+
+	it('opens after the threshold of consecutive failures and fails fast until the cooldown has passed', () => {
+		breaker.recordFailure();
+		breaker.recordFailure();
+		expect(breaker.state).toBe('closed');
+		expect(() => breaker.check()).not.toThrow();
+
+		breaker.recordFailure();
+		expect(breaker.state).toBe('open');
+		expect(breaker.isOpen).toBe(true);
+		expect(() => breaker.check()).toThrow(CircuitOpenError);
+		try {
+			breaker.check();
+		} catch (error) {
+			expect((error as CircuitOpenError).retryAt).toEqual(new Date('2025-06-01T12:01:00Z'));
+		}
+
+		vi.advanceTimersByTime(COOLDOWN_MS - 1);
+		expect(breaker.state).toBe('open');
+	});
+
+	it('does not count failures separated by a success', () => {
+		breaker.recordFailure();
+		breaker.recordFailure();
+		breaker.recordSuccess();
+		breaker.recordFailure();
+		breaker.recordFailure();
+
+		expect(breaker.state).toBe('closed');
+	});
+
+	it('lets one probe through when half-open and fails the other calls fast', () => {
+		openAndCoolDown();
+		expect(breaker.state).toBe('half-open');
+		expect(breaker.isOpen).toBe(false);
+
+		expect(() => breaker.check()).not.toThrow();
+		expect(breaker.isOpen).toBe(true);
+		expect(() => breaker.check()).toThrow(CircuitOpenError);
+		try {
+			breaker.check();
+		} catch (error) {
+			expect((error as CircuitOpenError).retryAt).toBeNull();
+		}
+	});
+
+	it('closes when the probe succeeds', () => {
+		openAndCoolDown();
+		breaker.check();
+
+		breaker.recordSuccess();
+
+		expect(breaker.state).toBe('closed');
+		expect(breaker.isOpen).toBe(false);
+		expect(() => breaker.check()).not.toThrow();
+		// The failure count starts again
+		breaker.recordFailure();
+		expect(breaker.state).toBe('closed');
+	});
+
+	it('opens again for another cooldown when the probe fails', () => {
+		openAndCoolDown();
+		breaker.check();
+
+		breaker.recordFailure();
+
+		expect(breaker.state).toBe('open');
+		expect(() => breaker.check()).toThrow(CircuitOpenError);
+		vi.advanceTimersByTime(COOLDOWN_MS);
+		expect(breaker.state).toBe('half-open');
+		expect(() => breaker.check()).not.toThrow();
+	});
+
+	it('lets the next call probe when the probe fails for another reason', () => {
+		openAndCoolDown();
+		breaker.check();
+
+		breaker.recordOtherError();
+
+		expect(breaker.state).toBe('half-open');
+		expect(() => breaker.check()).not.toThrow();
+		expect(() => breaker.check()).toThrow(CircuitOpenError);
+	});
+
+	it('goes from open through half-open to closed within withRetry', async () => {
+		openAndCoolDown();
+		const probe = failing();
+		const waiting = failing();
+
+		const probed = withRetry(breaker, probe, POLICY);
+		// The probe is still in flight, so another call is turned away
+		await expect(withRetry(breaker, waiting, POLICY)).rejects.toBeInstanceOf(CircuitOpenError);
+		await expect(probed).resolves.toBe('done');
+
+		expect(waiting).not.toHaveBeenCalled();
+		expect(breaker.state).toBe('closed');
+		await expect(withRetry(breaker, waiting, POLICY)).resolves.toBe('done');
+	});
+});
@@ -0,0 +1,152 @@
+import { readFileSync } from 'node:fs';
+import { D1Database } from '@cloudflare/workers-types';
+import { Miniflare } from 'miniflare';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { D1SearchIndex } from '../src/search/d1';
+import { MemorySearchIndex } from '../src/search/memory';
+import { SearchDocument, SearchIndex, SearchQuery } from '../src/search/document';
+
+const MIGRATION = new URL('../migrations/0001_create_search_index.sql', import.meta.url);
+
+function doc(key: string, fields: Partial<SearchDocument> = {}): SearchDocument {
+	return {
+		key,
+		type: 'image',
+		title: null,
+		text: '',
+		tags: [],
+		updatedAt: '2025-01-01T00:00:00.000Z',
+		...fields,
+	};
+}
+
+function query(fields: Partial<SearchQuery> = {}): SearchQuery {
+	return { offset: 0, limit: 20, ...fields };
+}
+
+// Runs the same tests against each SearchIndex implementation, so the
+// in-memory index used in development keeps behaving like the D1 one
+function describeSearchIndex(name: string, setup: { create: () => Promise<SearchIndex>, beforeAll?: () => Promise<void>, afterAll?: () => Promise<void> }) {
+	describe(name, () => {
+		let index: SearchIndex;
+
+		if (setup.beforeAll) {
+			beforeAll(setup.beforeAll);
+		}
+		if (setup.afterAll) {
+			afterAll(setup.afterAll);
+		}
+		beforeEach(async () => {
+			index = await setup.create();
+		});
+
+		it('ranks a match in the title above one in the text', async () => {
+			await index.upsert(doc('photos/beach.jpg', { text: 'A beach at dusk with a sunset over the water and boats.' }));
+			await index.upsert(doc('photos/hills.jpg', { title: 'Sunset', text: 'Hills under an orange sky.' }));
+			await index.upsert(doc('photos/dog.jpg', { text: 'A dog on a sofa.' }));
+
+			const results = await index.search(query({ q: 'sunset' }));
+
+			expect(results.total).toBe(2);
+			expect(results.hits.map(hit => hit.key)).toEqual(['photos/hills.jpg', 'photos/beach.jpg']);
+			expect(results.hits[0].score).toBeGreaterThan(results.hits[1].score);
+		});
+
+		it('ranks a document that repeats a term above one that mentions it once', async () => {
+			await index.upsert(doc('a.jpg', { text: 'Tulips in a field. Red tulips, yellow tulips and more tulips.' }));
+			await index.upsert(doc('b.jpg', { text: 'A field of grass with a single tulips sign by the road and a fence.' }));
+
+			const results = await index.search(query({ q: 'tulips' }));
+
+			expect(results.hits.map(hit => hit.key)).toEqual(['a.jpg', 'b.jpg']);
+		});
+
+		it('matches terms by prefix, in tags and in the key, and requires every term', async () => {
+			await index.upsert(doc('campaigns/2025/hero.jpg', { text: 'Mountain landscape.', tags: ['outdoor'] }));
+			await index.upsert(doc('misc/other.jpg', { text: 'Mountain cabin.' }));
+
+			expect((await index.search(query({ q: 'mount' }))).total).toBe(2);
+			expect((await index.search(query({ q: 'outdoor' }))).hits.map(hit => hit.key)).toEqual(['campaigns/2025/hero.jpg']);
+			expect((await index.search(query({ q: 'hero' }))).hits.map(hit => hit.key)).toEqual(['campaigns/2025/hero.jpg']);
+			expect((await index.search(query({ q: 'mountain cabin' }))).hits.map(hit => hit.key)).toEqual(['misc/other.jpg']);
+			expect((await index.search(query({ q: 'mountain lake' }))).total).toBe(0);
+		});
+
+		it('ignores accents and case', async () => {
+			await index.upsert(doc('cafe.jpg', { title: 'Café Terrace' }));
+
+			expect((await index.search(query({ q: 'CAFE terrace' }))).hits.map(hit => hit.key)).toEqual(['cafe.jpg']);
+		});
+
+		it('replaces a document on upsert', async () => {
+			await index.upsert(doc('photo.jpg', { text: 'A red bicycle.', tags: ['red'] }));
+			await index.upsert(doc('photo.jpg', { text: 'A blue bicycle.', tags: ['blue'] }));
+
+			expect((await index.search(query({ q: 'red' }))).total).toBe(0);
+			const results = await index.search(query({ q: 'blue' }));
+			expect(results.hits.map(hit => ({ key: hit.key, tags: hit.tags, snippet: hit.snippet }))).toEqual([
+				{ key: 'photo.jpg', tags: ['blue'], snippet: 'A blue bicycle.' },
+			]);
+			expect(results.facets.tags).toEqual([{ value: 'blue', count: 1 }]);
+		});
+
+		it('drops a removed document from results and facets', async () => {
+			await index.upsert(doc('keep.jpg', { text: 'Harbour boats.', tags: ['boats'] }));
+			await index.upsert(doc('drop.pdf', { type: 'pdf', text: 'Harbour report.', tags: ['report'] }));
+
+			await index.remove('drop.pdf');
+			// Removing a key that is not indexed is not an error
+			await index.remove('never-indexed.jpg');
+
+			const results = await index.search(query({ q: 'harbour' }));
+			expect(results.hits.map(hit => hit.key)).toEqual(['keep.jpg']);
+			expect(results.facets.types).toEqual([{ value: 'image', count: 1 }]);
+			expect(results.facets.tags).toEqual([{ value: 'boats', count: 1 }]);
+		});
+
+		it('filters by type, tags and key prefix, and counts facets over every match', async () => {
+			await index.upsert(doc('a/one.jpg', { tags: ['beach', 'summer'], updatedAt: '2025-01-03T00:00:00.000Z' }));
+			await index.upsert(doc('a/two.jpg', { tags: ['beach'], updatedAt: '2025-01-02T00:00:00.000Z' }));
+			await index.upsert(doc('b/three.pdf', { type: 'pdf', tags: ['beach', 'summer'], updatedAt: '2025-01-01T00:00:00.000Z' }));
+
+			const all = await index.search(query({ limit: 1 }));
+			expect(all.total).toBe(3);
+			expect(all.hits.map(hit => hit.key)).toEqual(['a/one.jpg']);
+			expect(all.facets.types).toEqual([{ value: 'image', count: 2 }, { value: 'pdf', count: 1 }]);
+			expect(all.facets.tags).toEqual([{ value: 'beach', count: 3 }, { value: 'summer', count: 2 }]);
+
+			expect((await index.search(query({ tags: ['summer', 'Beach'] }))).hits.map(hit => hit.key)).toEqual(['a/one.jpg', 'b/three.pdf']);
+			expect((await index.search(query({ type: 'pdf' }))).hits.map(hit => hit.key)).toEqual(['b/three.pdf']);
+			expect((await index.search(query({ prefix: 'a/', offset: 1 }))).hits.map(hit => hit.key)).toEqual(['a/two.jpg']);
+		});
+	});
+}
+
+describeSearchIndex('MemorySearchIndex', {
+	create: async () => new MemorySearchIndex(),
+});
+
+let miniflare: Miniflare;
+let db: D1Database;
+
+describeSearchIndex('D1SearchIndex', {
+	beforeAll: async () => {
+		miniflare = new Miniflare({ modules: true, script: 'export default {}', d1Databases: ['SEARCH_DB'] });
+		db = await miniflare.getD1Database('SEARCH_DB') as unknown as D1Database;
+		const statements = readFileSync(MIGRATION, 'utf8')
+			.replace(/--.*$/gm, '')
+			.split(';')
+			.map(statement => statement.trim())
+			.filter(statement => statement.length > 0);
+		for (const statement of statements) {
+			await db.prepare(statement).run();
+		}
+	},
+	afterAll: async () => {
+		await miniflare?.dispose();
+	},
+	create: async () => {
+		await db.batch(['search_documents', 'search_fts', 'search_tags'].map(table => db.prepare(`DELETE FROM ${table}`)));
+		return new D1SearchIndex(db);
+	},
+});